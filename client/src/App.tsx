@@ -4,6 +4,7 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { AuthProvider, useAuth } from "@/lib/auth";
+import { SocketProvider } from "@/lib/socket";
 import Home from "@/pages/Home";
 import Auth from "@/pages/Auth";
 import MentorSearch from "@/pages/MentorSearch";
@@ -65,8 +66,10 @@ function App() {
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
         <AuthProvider>
-          <Toaster />
-          <Router />
+          <SocketProvider>
+            <Toaster />
+            <Router />
+          </SocketProvider>
         </AuthProvider>
       </TooltipProvider>
     </QueryClientProvider>
@@ -0,0 +1,69 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { apiDownload } from "@/lib/queryClient";
+import { getGoogleCalendarUrl } from "@/lib/calendar";
+import { Session } from "@shared/schema";
+import { CalendarPlus, Download } from "lucide-react";
+import { addMinutes } from "date-fns";
+
+interface AddToCalendarButtonProps {
+  session: Pick<Session, "id" | "subject" | "scheduledTime" | "durationMinutes">;
+  /** The other participant, named in the event title */
+  counterpartName?: string;
+}
+
+/**
+ * Menu to add a session to a calendar app: an .ics download, or a prefilled Google Calendar event
+ */
+export function AddToCalendarButton({ session, counterpartName }: AddToCalendarButtonProps) {
+  const { toast } = useToast();
+
+  const handleDownload = async () => {
+    try {
+      await apiDownload(`/api/sessions/${session.id}/ics`, `session-${session.id}.ics`);
+    } catch {
+      toast({
+        title: "Download failed",
+        description: "Could not export the session. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const start = new Date(session.scheduledTime);
+  const googleUrl = getGoogleCalendarUrl({
+    title: counterpartName ? `${session.subject} with ${counterpartName}` : session.subject,
+    start,
+    end: addMinutes(start, session.durationMinutes),
+    details: "MentorConnect session",
+  });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant="outline" className="gap-1" data-testid={`button-add-to-calendar-${session.id}`}>
+          <CalendarPlus className="h-4 w-4" />
+          Add to calendar
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuItem onClick={handleDownload} className="cursor-pointer" data-testid={`button-download-ics-${session.id}`}>
+          <Download className="h-4 w-4 mr-2" />
+          <span>Apple / Outlook (.ics)</span>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild className="cursor-pointer">
+          <a href={googleUrl} target="_blank" rel="noopener noreferrer" data-testid={`link-google-calendar-${session.id}`}>
+            <CalendarPlus className="h-4 w-4 mr-2" />
+            <span>Google Calendar</span>
+          </a>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,380 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TimeZoneSelect } from "@/components/TimeZoneSelect";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, ApiError } from "@/lib/queryClient";
+import { type MentorAvailability, DAY_NAMES, WEEK_ORDER, formatTimeOfDay } from "@/lib/availability";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+
+interface AvailabilityEditorProps {
+  mentorId: string;
+  /** Free-text availability the mentor wrote before weekly hours existed, shown as a hint */
+  availabilityNote?: string | null;
+}
+
+type SlotDraft = { dayOfWeek: number; startTime: string; endTime: string };
+
+const NEW_SLOT_HOURS = { startTime: "17:00", endTime: "19:00" };
+
+const EMPTY_EXCEPTION = {
+  date: "",
+  kind: "unavailable" as "available" | "unavailable",
+  startTime: "",
+  endTime: "",
+  note: "",
+};
+
+// Time inputs cannot show 24:00, so an end of 00:00 means midnight at the end of the day
+const toEndTime = (time: string) => (time === "00:00" ? "24:00" : time);
+const fromEndTime = (time: string) => (time === "24:00" ? "00:00" : time);
+
+function describeError(error: unknown, fallback: string) {
+  if (error instanceof ApiError) {
+    return error.data?.details?.[0]?.message ?? error.data?.error ?? fallback;
+  }
+  return fallback;
+}
+
+/**
+ * Lets a mentor edit their recurring weekly hours and one-off exceptions
+ */
+export function AvailabilityEditor({ mentorId, availabilityNote }: AvailabilityEditorProps) {
+  const { toast } = useToast();
+  const viewerTimeZone = useTimeZone();
+  const [timezone, setTimezone] = useState(viewerTimeZone);
+  const [slots, setSlots] = useState<SlotDraft[]>([]);
+  const [exceptionForm, setExceptionForm] = useState(EMPTY_EXCEPTION);
+
+  const availabilityKey = ["/api/mentors/", mentorId, "/availability"];
+  const { data: availability, isLoading } = useQuery<MentorAvailability>({
+    queryKey: availabilityKey,
+  });
+
+  useEffect(() => {
+    if (availability) {
+      setTimezone(availability.timezone ?? viewerTimeZone);
+      setSlots(
+        availability.slots.map(({ dayOfWeek, startTime, endTime }) => ({ dayOfWeek, startTime, endTime })),
+      );
+    }
+  }, [availability]);
+
+  const saveScheduleMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PUT", "/api/availability", {
+        timezone,
+        slots: slots.map((slot) => ({ ...slot, endTime: toEndTime(slot.endTime) })),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: availabilityKey });
+      toast({
+        title: "Availability saved",
+        description: "Students can now book you during these hours.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not save availability",
+        description: describeError(error, "Please check your hours and try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addExceptionMutation = useMutation({
+    mutationFn: async () => {
+      const hasTimes = exceptionForm.startTime && exceptionForm.endTime;
+      return await apiRequest("POST", "/api/availability/exceptions", {
+        date: exceptionForm.date,
+        kind: exceptionForm.kind,
+        timezone,
+        ...(hasTimes && {
+          startTime: exceptionForm.startTime,
+          endTime: toEndTime(exceptionForm.endTime),
+        }),
+        ...(exceptionForm.note.trim() && { note: exceptionForm.note.trim() }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: availabilityKey });
+      setExceptionForm(EMPTY_EXCEPTION);
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not add exception",
+        description: describeError(error, "Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteExceptionMutation = useMutation({
+    mutationFn: async (exceptionId: string) => {
+      return await apiRequest("DELETE", `/api/availability/exceptions/${exceptionId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: availabilityKey });
+    },
+    onError: () => {
+      toast({
+        title: "Could not remove exception",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateSlot = (index: number, changes: Partial<SlotDraft>) => {
+    setSlots(slots.map((slot, i) => (i === index ? { ...slot, ...changes } : slot)));
+  };
+
+  const handleAddException = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!exceptionForm.date) return;
+    addExceptionMutation.mutate();
+  };
+
+  if (isLoading) {
+    return (
+      <Card className="mt-6">
+        <CardContent className="flex items-center justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="mt-6" data-testid="card-availability">
+      <CardHeader>
+        <CardTitle>Availability</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        <div className="space-y-4">
+          {availabilityNote && (
+            <p
+              className="rounded-md border border-border p-3 text-sm text-muted-foreground"
+              data-testid="text-availability-note"
+            >
+              Your profile used to say you are available: <span className="text-foreground">"{availabilityNote}"</span>.
+              Add those hours below so students can book them.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="timezone">Timezone</Label>
+            <TimeZoneSelect
+              id="timezone"
+              value={timezone}
+              onValueChange={setTimezone}
+              data-testid="select-availability-timezone"
+            />
+          </div>
+
+          <div className="space-y-3">
+            {WEEK_ORDER.map((dayOfWeek) => {
+              const daySlots = slots
+                .map((slot, index) => ({ slot, index }))
+                .filter(({ slot }) => slot.dayOfWeek === dayOfWeek);
+
+              return (
+                <div
+                  key={dayOfWeek}
+                  className="flex flex-col gap-2 sm:flex-row sm:items-start"
+                  data-testid={`availability-day-${dayOfWeek}`}
+                >
+                  <span className="w-28 pt-2 text-sm font-medium">{DAY_NAMES[dayOfWeek]}</span>
+                  <div className="flex-1 space-y-2">
+                    {daySlots.length === 0 && (
+                      <p className="pt-2 text-sm text-muted-foreground">Unavailable</p>
+                    )}
+                    {daySlots.map(({ slot, index }) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <Input
+                          type="time"
+                          step={900}
+                          value={slot.startTime}
+                          onChange={(e) => updateSlot(index, { startTime: e.target.value })}
+                          aria-label={`${DAY_NAMES[dayOfWeek]} start`}
+                          data-testid={`input-slot-start-${index}`}
+                        />
+                        <span className="text-muted-foreground">–</span>
+                        <Input
+                          type="time"
+                          step={900}
+                          value={fromEndTime(slot.endTime)}
+                          onChange={(e) => updateSlot(index, { endTime: e.target.value })}
+                          aria-label={`${DAY_NAMES[dayOfWeek]} end`}
+                          data-testid={`input-slot-end-${index}`}
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setSlots(slots.filter((_, i) => i !== index))}
+                          aria-label="Remove hours"
+                          data-testid={`button-remove-slot-${index}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="gap-1 self-start"
+                    onClick={() => setSlots([...slots, { dayOfWeek, ...NEW_SLOT_HOURS }])}
+                    data-testid={`button-add-slot-${dayOfWeek}`}
+                  >
+                    <Plus className="h-4 w-4" />
+                    Add hours
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+
+          <Button
+            type="button"
+            className="w-full"
+            onClick={() => saveScheduleMutation.mutate()}
+            disabled={saveScheduleMutation.isPending}
+            data-testid="button-save-availability"
+          >
+            {saveScheduleMutation.isPending ? "Saving..." : "Save Weekly Hours"}
+          </Button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <h3 className="font-semibold">Exceptions</h3>
+            <p className="text-sm text-muted-foreground">
+              Take time off or add extra hours on specific dates. Leave the times empty to block the whole day.
+            </p>
+          </div>
+
+          {availability && availability.exceptions.length > 0 && (
+            <div className="space-y-2">
+              {availability.exceptions.map((exception) => (
+                <div
+                  key={exception.id}
+                  className="flex items-center gap-3 rounded-md border border-border p-3"
+                  data-testid={`exception-${exception.id}`}
+                >
+                  <Badge variant={exception.kind === "available" ? "secondary" : "outline"}>
+                    {exception.kind === "available" ? "Extra hours" : "Time off"}
+                  </Badge>
+                  <div className="flex-1 min-w-0 text-sm">
+                    <p className="font-medium">
+                      {format(parseISO(exception.date), "EEE, MMM d, yyyy")}
+                      {exception.startTime && exception.endTime
+                        ? `, ${formatTimeOfDay(exception.startTime)} – ${formatTimeOfDay(exception.endTime)}`
+                        : ", all day"}
+                    </p>
+                    {exception.note && <p className="text-muted-foreground truncate">{exception.note}</p>}
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteExceptionMutation.mutate(exception.id)}
+                    disabled={deleteExceptionMutation.isPending}
+                    aria-label="Remove exception"
+                    data-testid={`button-delete-exception-${exception.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={handleAddException} className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="exceptionDate">Date</Label>
+              <Input
+                id="exceptionDate"
+                type="date"
+                value={exceptionForm.date}
+                min={format(new Date(), "yyyy-MM-dd")}
+                onChange={(e) => setExceptionForm({ ...exceptionForm, date: e.target.value })}
+                required
+                data-testid="input-exception-date"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exceptionKind">Type</Label>
+              <Select
+                value={exceptionForm.kind}
+                onValueChange={(kind: "available" | "unavailable") => setExceptionForm({ ...exceptionForm, kind })}
+              >
+                <SelectTrigger id="exceptionKind" data-testid="select-exception-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unavailable">Time off</SelectItem>
+                  <SelectItem value="available">Extra hours</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exceptionStart">From</Label>
+              <Input
+                id="exceptionStart"
+                type="time"
+                step={900}
+                value={exceptionForm.startTime}
+                onChange={(e) => setExceptionForm({ ...exceptionForm, startTime: e.target.value })}
+                required={exceptionForm.kind === "available"}
+                data-testid="input-exception-start"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exceptionEnd">To</Label>
+              <Input
+                id="exceptionEnd"
+                type="time"
+                step={900}
+                value={exceptionForm.endTime}
+                onChange={(e) => setExceptionForm({ ...exceptionForm, endTime: e.target.value })}
+                required={exceptionForm.kind === "available"}
+                data-testid="input-exception-end"
+              />
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="exceptionNote">Note (Optional)</Label>
+              <Input
+                id="exceptionNote"
+                placeholder="e.g., Holiday, conference..."
+                value={exceptionForm.note}
+                maxLength={200}
+                onChange={(e) => setExceptionForm({ ...exceptionForm, note: e.target.value })}
+                data-testid="input-exception-note"
+              />
+            </div>
+            <Button
+              type="submit"
+              variant="outline"
+              className="sm:col-span-2"
+              disabled={addExceptionMutation.isPending}
+              data-testid="button-add-exception"
+            >
+              {addExceptionMutation.isPending ? "Adding..." : "Add Exception"}
+            </Button>
+          </form>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
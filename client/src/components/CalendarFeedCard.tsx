@@ -0,0 +1,96 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { type CalendarFeed, getFeedUrls } from "@/lib/calendar";
+import { CalendarPlus, Copy, Loader2, RefreshCw } from "lucide-react";
+
+/**
+ * The user's calendar subscription link, with a way to replace it if it was shared by mistake
+ */
+export function CalendarFeedCard() {
+  const { toast } = useToast();
+
+  const { data: feed, isLoading } = useQuery<CalendarFeed>({
+    queryKey: ["/api/calendar/feed"],
+  });
+  const urls = feed ? getFeedUrls(feed.path) : null;
+
+  const resetMutation = useMutation({
+    mutationFn: async (): Promise<CalendarFeed> => {
+      return await apiRequest("POST", "/api/calendar/feed/reset");
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/calendar/feed"], data);
+      toast({
+        title: "Link replaced",
+        description: "Calendars subscribed with the old link will stop updating.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to replace link",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCopy = async () => {
+    if (!urls) return;
+    try {
+      await navigator.clipboard.writeText(urls.https);
+      toast({ title: "Link copied", description: "Paste it into your calendar app's subscribe option." });
+    } catch {
+      toast({ title: "Copy failed", description: "Select the link and copy it manually.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card className="mt-6" data-testid="card-calendar-feed">
+      <CardHeader>
+        <CardTitle>Calendar subscription</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          Subscribe to this private link to see your confirmed sessions in your calendar app. Cancelled sessions are
+          marked as cancelled. Anyone with the link can see your sessions, so keep it to yourself.
+        </p>
+        {isLoading || !urls ? (
+          <div className="flex items-center justify-center py-2">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <Input readOnly value={urls.https} onFocus={(e) => e.target.select()} data-testid="input-calendar-feed-url" />
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" className="gap-1" asChild>
+                <a href={urls.webcal} data-testid="link-subscribe-calendar">
+                  <CalendarPlus className="h-4 w-4" />
+                  Subscribe
+                </a>
+              </Button>
+              <Button size="sm" variant="outline" className="gap-1" onClick={handleCopy} data-testid="button-copy-calendar-feed">
+                <Copy className="h-4 w-4" />
+                Copy link
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="gap-1"
+                onClick={() => resetMutation.mutate()}
+                disabled={resetMutation.isPending}
+                data-testid="button-reset-calendar-feed"
+              >
+                <RefreshCw className="h-4 w-4" />
+                Replace link
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,37 @@
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/lib/auth";
+import { useFavorites } from "@/hooks/use-favorites";
+import { cn } from "@/lib/utils";
+import { Heart } from "lucide-react";
+
+interface FavoriteButtonProps {
+  mentorId: string;
+  className?: string;
+}
+
+/**
+ * Heart that adds a mentor to the student's favorites or removes them; hidden for mentors
+ */
+export function FavoriteButton({ mentorId, className }: FavoriteButtonProps) {
+  const { user } = useAuth();
+  const { isFavorite, toggleFavorite, isUpdating } = useFavorites();
+
+  if (user?.role !== "student") return null;
+  const favorite = isFavorite(mentorId);
+
+  return (
+    <Button
+      type="button"
+      variant="ghost"
+      size="icon"
+      className={cn("shrink-0", className)}
+      onClick={() => toggleFavorite(mentorId)}
+      disabled={isUpdating}
+      aria-pressed={favorite}
+      aria-label={favorite ? "Remove from favorites" : "Add to favorites"}
+      data-testid={`button-favorite-${mentorId}`}
+    >
+      <Heart className={cn("h-5 w-5", favorite && "fill-red-500 text-red-500")} />
+    </Button>
+  );
+}
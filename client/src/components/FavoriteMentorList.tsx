@@ -0,0 +1,54 @@
+import { MentorCard } from "@/components/MentorCard";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { useFavorites } from "@/hooks/use-favorites";
+import { Heart, Loader2 } from "lucide-react";
+
+/**
+ * The "Favorites" tab of the search page: the student's favorite mentors, most recently
+ * added first, each with a choice to be notified when the mentor adds availability
+ */
+export function FavoriteMentorList() {
+  const { favorites, isLoading, setNotify } = useFavorites();
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (favorites.length === 0) {
+    return (
+      <div className="text-center py-16" data-testid="text-no-favorites">
+        <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mx-auto mb-4">
+          <Heart className="h-8 w-8 text-muted-foreground" />
+        </div>
+        <h3 className="text-xl font-semibold mb-2">No favorites yet</h3>
+        <p className="text-muted-foreground">Tap the heart on a mentor to keep them here</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+      {favorites.map((mentor) => (
+        <div key={mentor.id} className="space-y-2">
+          <MentorCard mentor={mentor} />
+          <div className="flex items-center gap-2 px-1">
+            <Checkbox
+              id={`notify-${mentor.id}`}
+              checked={mentor.favorite.notify}
+              onCheckedChange={(checked) => setNotify(mentor.id, checked === true)}
+              data-testid={`checkbox-favorite-notify-${mentor.id}`}
+            />
+            <Label htmlFor={`notify-${mentor.id}`} className="text-sm font-normal text-muted-foreground">
+              Notify me when {mentor.username} adds availability
+            </Label>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
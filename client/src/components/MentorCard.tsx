@@ -3,14 +3,22 @@ import { Card, CardContent, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { User as UserType, Profile } from "@shared/schema";
-import { Clock } from "lucide-react";
+import { StarRating } from "@/components/StarRating";
+import { FavoriteButton } from "@/components/FavoriteButton";
+import { formatRating } from "@/lib/reviews";
+import { type MentorListing, formatHourlyRate } from "@/lib/mentorSearch";
+import { formatDateTimeInTimeZone } from "@/lib/timezone";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { Languages, CalendarClock, Sparkles } from "lucide-react";
 
 interface MentorCardProps {
-  mentor: UserType & { profile?: Profile };
+  mentor: MentorListing;
+  // Why the mentor was recommended, shown under their subjects
+  reasons?: string[];
 }
 
-export function MentorCard({ mentor }: MentorCardProps) {
+export function MentorCard({ mentor, reasons }: MentorCardProps) {
+  const timeZone = useTimeZone();
   const getInitials = (name: string) => {
     return name.split(" ").map(n => n[0]).join("").toUpperCase().slice(0, 2);
   };
@@ -25,9 +33,41 @@ export function MentorCard({ mentor }: MentorCardProps) {
             </AvatarFallback>
           </Avatar>
           <div className="flex-1 min-w-0">
-            <h3 className="font-semibold text-lg mb-1" data-testid={`text-mentor-name-${mentor.id}`}>
-              {mentor.username}
-            </h3>
+            <div className="flex items-start justify-between gap-2">
+              <h3 className="font-semibold text-lg mb-1" data-testid={`text-mentor-name-${mentor.id}`}>
+                {mentor.username}
+              </h3>
+              <FavoriteButton mentorId={mentor.id} className="-mt-2 -mr-2" />
+            </div>
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mb-1">
+              <div className="flex items-center gap-1.5" data-testid={`text-mentor-rating-${mentor.id}`}>
+                {mentor.rating.average !== null && <StarRating value={mentor.rating.average} size="sm" />}
+                <span className="text-xs text-muted-foreground">{formatRating(mentor.rating)}</span>
+              </div>
+              {formatHourlyRate(mentor.profile?.hourlyRate) && (
+                <span className="text-xs font-medium" data-testid={`text-mentor-rate-${mentor.id}`}>
+                  {formatHourlyRate(mentor.profile?.hourlyRate)}
+                </span>
+              )}
+            </div>
+            {mentor.profile?.languages && mentor.profile.languages.length > 0 && (
+              <p
+                className="flex items-center gap-1 text-xs text-muted-foreground mb-1"
+                data-testid={`text-mentor-languages-${mentor.id}`}
+              >
+                <Languages className="h-3 w-3" />
+                {mentor.profile.languages.join(", ")}
+              </p>
+            )}
+            {mentor.nextOpening && (
+              <p
+                className="flex items-center gap-1 text-xs text-muted-foreground mb-1"
+                data-testid={`text-mentor-next-opening-${mentor.id}`}
+              >
+                <CalendarClock className="h-3 w-3" />
+                Next opening {formatDateTimeInTimeZone(mentor.nextOpening, timeZone)}
+              </p>
+            )}
             <p className="text-sm text-muted-foreground line-clamp-2">
               {mentor.profile?.bio || "No bio provided"}
             </p>
@@ -47,11 +87,15 @@ export function MentorCard({ mentor }: MentorCardProps) {
           </div>
         )}
 
-        {mentor.profile?.availability && (
-          <div className="flex items-center gap-2 text-sm text-muted-foreground">
-            <Clock className="h-4 w-4" />
-            <span>{mentor.profile.availability}</span>
-          </div>
+        {reasons && reasons.length > 0 && (
+          <ul className="space-y-1" data-testid={`list-recommendation-reasons-${mentor.id}`}>
+            {reasons.map((reason) => (
+              <li key={reason} className="flex items-start gap-1.5 text-xs text-muted-foreground">
+                <Sparkles className="h-3 w-3 mt-0.5 shrink-0 text-primary" />
+                {reason}
+              </li>
+            ))}
+          </ul>
         )}
       </CardContent>
       <CardFooter className="p-6 pt-0">
@@ -0,0 +1,146 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  type MentorSearchFilters,
+  RATING_OPTIONS,
+  MAX_AVAILABILITY_WINDOW_DAYS,
+  countActiveFilters,
+} from "@/lib/mentorSearch";
+import { useSubjects } from "@/hooks/use-subjects";
+import { addDays } from "@shared/timezone";
+
+interface MentorFilterPanelProps {
+  filters: MentorSearchFilters;
+  onChange: (changes: Partial<MentorSearchFilters>) => void;
+  onClear: () => void;
+}
+
+const ANY_RATING = "any";
+
+/**
+ * Filters of the mentor search besides the free text query
+ * - Availability is a range of days; mentors need an opening somewhere in it
+ * - The subject box suggests catalog subjects; the server also matches aliases and narrower subjects
+ */
+export function MentorFilterPanel({ filters, onChange, onClear }: MentorFilterPanelProps) {
+  const activeCount = countActiveFilters(filters);
+  const { subjects } = useSubjects();
+
+  return (
+    <Card data-testid="panel-mentor-filters">
+      <CardContent className="p-4 space-y-5">
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold">Filters</h2>
+          {activeCount > 0 && (
+            <Button variant="ghost" size="sm" onClick={onClear} data-testid="button-clear-filters">
+              Clear ({activeCount})
+            </Button>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="filter-subject">Subject</Label>
+          <Input
+            id="filter-subject"
+            placeholder="e.g. Calculus"
+            value={filters.subject}
+            onChange={(e) => onChange({ subject: e.target.value })}
+            list="filter-subject-options"
+            data-testid="input-filter-subject"
+          />
+          <datalist id="filter-subject-options">
+            {subjects.map((subject) => (
+              <option key={subject.id} value={subject.name} />
+            ))}
+          </datalist>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="filter-language">Language</Label>
+          <Input
+            id="filter-language"
+            placeholder="e.g. Spanish"
+            value={filters.language}
+            onChange={(e) => onChange({ language: e.target.value })}
+            data-testid="input-filter-language"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="filter-rating">Rating</Label>
+          <Select
+            value={filters.minRating || ANY_RATING}
+            onValueChange={(value) => onChange({ minRating: value === ANY_RATING ? "" : value })}
+          >
+            <SelectTrigger id="filter-rating" data-testid="select-filter-rating">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_RATING}>Any rating</SelectItem>
+              {RATING_OPTIONS.map((rating) => (
+                <SelectItem key={rating} value={String(rating)}>
+                  {rating} stars & up
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="filter-min-price">Price per hour ($)</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="filter-min-price"
+              type="number"
+              min={0}
+              placeholder="Min"
+              value={filters.minPrice}
+              onChange={(e) => onChange({ minPrice: e.target.value })}
+              data-testid="input-filter-min-price"
+            />
+            <span className="text-muted-foreground">–</span>
+            <Input
+              type="number"
+              min={0}
+              placeholder="Max"
+              aria-label="Maximum price per hour"
+              value={filters.maxPrice}
+              onChange={(e) => onChange({ maxPrice: e.target.value })}
+              data-testid="input-filter-max-price"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="filter-available-from">Available between</Label>
+          <div className="space-y-2">
+            <Input
+              id="filter-available-from"
+              type="date"
+              value={filters.availableFrom}
+              onChange={(e) => onChange({ availableFrom: e.target.value })}
+              data-testid="input-filter-available-from"
+            />
+            <Input
+              type="date"
+              aria-label="Available until"
+              min={filters.availableFrom || undefined}
+              max={
+                filters.availableFrom ? addDays(filters.availableFrom, MAX_AVAILABILITY_WINDOW_DAYS - 1) : undefined
+              }
+              value={filters.availableTo}
+              onChange={(e) => onChange({ availableTo: e.target.value })}
+              data-testid="input-filter-available-to"
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Mentors with an open slot on these days, up to {MAX_AVAILABILITY_WINDOW_DAYS} days apart.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
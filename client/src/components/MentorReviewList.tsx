@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { StarRating } from "@/components/StarRating";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { type MentorReviews, type MentorReview, formatRating } from "@/lib/reviews";
+import { Loader2, MessageSquareReply, Star } from "lucide-react";
+import { format } from "date-fns";
+
+interface MentorReviewListProps {
+  mentorId: string;
+}
+
+/**
+ * A mentor's reviews with their rating summary
+ * - The mentor can answer each review publicly, and edit the answer later
+ */
+export function MentorReviewList({ mentorId }: MentorReviewListProps) {
+  const { user } = useAuth();
+  const isOwnProfile = user?.id === mentorId;
+
+  const { data, isLoading } = useQuery<MentorReviews>({
+    queryKey: ["/api/mentors/", mentorId, "/reviews"],
+  });
+
+  return (
+    <Card data-testid="card-reviews">
+      <CardContent className="p-6">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <h3 className="text-xl font-semibold">Reviews</h3>
+          {data && (
+            <div className="flex items-center gap-2" data-testid="text-review-summary">
+              {data.rating.average !== null && <StarRating value={data.rating.average} />}
+              <span className="text-sm text-muted-foreground">{formatRating(data.rating)}</span>
+            </div>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : !data || data.reviews.length === 0 ? (
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Star className="h-5 w-5" />
+            <span>No reviews yet. Students can review a session once it is completed.</span>
+          </div>
+        ) : (
+          <ul className="divide-y divide-border">
+            {data.reviews.map((review) => (
+              <ReviewItem key={review.id} review={review} mentorId={mentorId} canRespond={isOwnProfile} />
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ReviewItem({ review, mentorId, canRespond }: { review: MentorReview; mentorId: string; canRespond: boolean }) {
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const [response, setResponse] = useState(review.response ?? "");
+
+  const respondMutation = useMutation({
+    mutationFn: () => apiRequest("PUT", `/api/reviews/${review.id}/response`, { response: response.trim() }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/mentors/", mentorId, "/reviews"] });
+      setIsEditing(false);
+      toast({ title: "Response published" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not publish response", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <li className="py-4 first:pt-0 last:pb-0 space-y-2" data-testid={`review-${review.id}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <span className="font-medium">{review.student?.username ?? "Former student"}</span>
+          <StarRating value={review.rating} size="sm" />
+        </div>
+        <span className="text-xs text-muted-foreground">{format(new Date(review.createdAt), "MMM d, yyyy")}</span>
+      </div>
+      <p className="text-sm text-muted-foreground whitespace-pre-line break-words">{review.comment}</p>
+
+      {review.response && !isEditing && (
+        <div className="ml-4 border-l-2 border-border pl-3 text-sm" data-testid={`review-response-${review.id}`}>
+          <p className="font-medium">Mentor's response</p>
+          <p className="text-muted-foreground whitespace-pre-line break-words">{review.response}</p>
+        </div>
+      )}
+
+      {canRespond &&
+        (isEditing ? (
+          <form
+            className="ml-4 space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (response.trim()) respondMutation.mutate();
+            }}
+          >
+            <Textarea
+              value={response}
+              onChange={(e) => setResponse(e.target.value)}
+              maxLength={2000}
+              rows={3}
+              placeholder="Thank the student or add context. Your response is public."
+              data-testid={`input-review-response-${review.id}`}
+            />
+            <div className="flex gap-2">
+              <Button
+                type="submit"
+                size="sm"
+                disabled={respondMutation.isPending || !response.trim()}
+                data-testid={`button-submit-response-${review.id}`}
+              >
+                Publish
+              </Button>
+              <Button type="button" size="sm" variant="ghost" onClick={() => setIsEditing(false)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="gap-1"
+            onClick={() => {
+              setResponse(review.response ?? "");
+              setIsEditing(true);
+            }}
+            data-testid={`button-respond-review-${review.id}`}
+          >
+            <MessageSquareReply className="h-4 w-4" />
+            {review.response ? "Edit response" : "Respond"}
+          </Button>
+        ))}
+    </li>
+  );
+}
@@ -0,0 +1,104 @@
+import { ReactNode } from "react";
+import { useLocation } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useNotifications } from "@/hooks/use-notifications";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Notification } from "@shared/schema";
+import { formatDistanceToNow } from "date-fns";
+
+interface NotificationMenuProps {
+  /** Renders the menu button, given the number of unread notifications */
+  trigger: (unreadCount: number) => ReactNode;
+  align?: "start" | "center" | "end";
+}
+
+/**
+ * Dropdown listing the user's recent notifications, such as session reminders or new mentors
+ * - Opening a notification marks it read and goes to the page it is about
+ */
+export function NotificationMenu({ trigger, align = "end" }: NotificationMenuProps) {
+  const [, setLocation] = useLocation();
+  const { notifications, unreadCount } = useNotifications();
+
+  const markReadMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/notifications/${id}/read`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/notifications/read"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.readAt) {
+      markReadMutation.mutate(notification.id);
+    }
+    if (notification.sessionId) {
+      setLocation("/dashboard");
+    } else if (notification.mentorId) {
+      setLocation(`/mentor/${notification.mentorId}`);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>{trigger(unreadCount)}</DropdownMenuTrigger>
+      <DropdownMenuContent align={align} className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <button
+              type="button"
+              onClick={() => markAllReadMutation.mutate()}
+              className="px-2 text-xs font-medium text-primary hover:underline"
+              data-testid="button-mark-all-read"
+            >
+              Mark all read
+            </button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-muted-foreground" data-testid="text-no-notifications">
+            You're all caught up
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                onClick={() => handleOpen(notification)}
+                className="cursor-pointer items-start gap-2"
+                data-testid={`notification-${notification.id}`}
+              >
+                <span
+                  className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${notification.readAt ? "bg-transparent" : "bg-primary"}`}
+                />
+                <div className="min-w-0 space-y-0.5">
+                  <p className={`text-sm ${notification.readAt ? "" : "font-semibold"}`}>{notification.title}</p>
+                  <p className="text-xs text-muted-foreground">{notification.body}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                  </p>
+                </div>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
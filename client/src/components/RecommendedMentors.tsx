@@ -0,0 +1,38 @@
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { MentorCard } from "@/components/MentorCard";
+import { type RecommendedMentor } from "@/lib/mentorSearch";
+import { Sparkles } from "lucide-react";
+
+/**
+ * "Recommended for you" rail of the search page
+ * - Renders nothing until there are recommendations, so an empty rail never pushes the results down
+ */
+export function RecommendedMentors() {
+  const { data: mentors } = useQuery<RecommendedMentor[]>({
+    queryKey: ["/api/mentors/recommended"],
+  });
+
+  if (!mentors || mentors.length === 0) return null;
+
+  return (
+    <section className="mb-8" aria-labelledby="recommended-heading" data-testid="section-recommended-mentors">
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+        <h2 id="recommended-heading" className="flex items-center gap-2 text-xl font-semibold">
+          <Sparkles className="h-5 w-5 text-primary" />
+          Recommended for you
+        </h2>
+        <Link href="/profile" className="text-sm text-primary hover:underline" data-testid="link-improve-recommendations">
+          Add subjects and goals to your profile for better matches
+        </Link>
+      </div>
+      <div className="flex gap-4 overflow-x-auto pb-2 snap-x">
+        {mentors.map((mentor) => (
+          <div key={mentor.id} className="w-80 shrink-0 snap-start">
+            <MentorCard mentor={mentor} reasons={mentor.reasons} />
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
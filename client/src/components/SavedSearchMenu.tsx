@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  type MentorSearchFilters,
+  toSavedSearchFilters,
+  fromSavedSearchFilters,
+} from "@/lib/mentorSearch";
+import type { SavedSearch } from "@shared/schema";
+import { Bookmark, Bell, BellOff, Trash2 } from "lucide-react";
+
+interface SavedSearchMenuProps {
+  filters: MentorSearchFilters;
+  onApply: (filters: MentorSearchFilters) => void;
+}
+
+/**
+ * Menu of the student's saved searches
+ * - Picking one runs it; the bell turns notifications of new matching mentors on or off
+ * - "Save this search" keeps the current filters, except the availability days
+ */
+export function SavedSearchMenu({ filters, onApply }: SavedSearchMenuProps) {
+  const { toast } = useToast();
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [notify, setNotify] = useState(true);
+
+  const { data: searches = [] } = useQuery<SavedSearch[]>({
+    queryKey: ["/api/saved-searches"],
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", "/api/saved-searches", { name, filters: toSavedSearchFilters(filters), notify }),
+    onSuccess: () => {
+      invalidate();
+      setIsSaveOpen(false);
+      toast({ title: "Search saved", description: notify ? "We'll let you know when new mentors match it." : undefined });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save the search", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, notify }: { id: string; notify: boolean }) =>
+      apiRequest("PATCH", `/api/saved-searches/${id}`, { notify }),
+    onSuccess: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/saved-searches/${id}`),
+    onSuccess: invalidate,
+  });
+
+  const openSaveDialog = () => {
+    setName(filters.q.trim() || filters.subject.trim() || "My search");
+    setNotify(true);
+    setIsSaveOpen(true);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="gap-2" data-testid="button-saved-searches">
+            <Bookmark className="h-4 w-4" />
+            <span className="hidden sm:inline">Saved</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-72">
+          <DropdownMenuLabel>Saved searches</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {searches.length === 0 ? (
+            <p className="px-2 py-3 text-sm text-muted-foreground">Save a search to run it again in one tap</p>
+          ) : (
+            searches.map((search) => (
+              <DropdownMenuItem
+                key={search.id}
+                onClick={() => onApply(fromSavedSearchFilters(search.filters))}
+                className="cursor-pointer gap-2"
+                data-testid={`saved-search-${search.id}`}
+              >
+                <span className="flex-1 truncate">{search.name}</span>
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    updateMutation.mutate({ id: search.id, notify: !search.notify });
+                  }}
+                  className="rounded p-1 hover:bg-muted"
+                  aria-label={search.notify ? "Stop notifying me" : "Notify me of new mentors"}
+                  data-testid={`button-saved-search-notify-${search.id}`}
+                >
+                  {search.notify ? <Bell className="h-4 w-4 text-primary" /> : <BellOff className="h-4 w-4" />}
+                </button>
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    deleteMutation.mutate(search.id);
+                  }}
+                  className="rounded p-1 hover:bg-muted"
+                  aria-label={`Delete ${search.name}`}
+                  data-testid={`button-delete-saved-search-${search.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </DropdownMenuItem>
+            ))
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={openSaveDialog} className="cursor-pointer" data-testid="button-save-search">
+            Save this search
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        <DialogContent data-testid="dialog-save-search">
+          <DialogHeader>
+            <DialogTitle>Save this search</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate();
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="saved-search-name">Name</Label>
+              <Input
+                id="saved-search-name"
+                value={name}
+                maxLength={60}
+                onChange={(e) => setName(e.target.value)}
+                required
+                data-testid="input-saved-search-name"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="saved-search-notify"
+                checked={notify}
+                onCheckedChange={(checked) => setNotify(checked === true)}
+                data-testid="checkbox-saved-search-notify"
+              />
+              <Label htmlFor="saved-search-notify" className="font-normal">
+                Notify me when a new mentor matches
+              </Label>
+            </div>
+            {(filters.availableFrom || filters.availableTo) && (
+              <p className="text-xs text-muted-foreground">Availability days are not saved.</p>
+            )}
+            <DialogFooter>
+              <Button type="submit" disabled={!name.trim() || saveMutation.isPending} data-testid="button-confirm-save-search">
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
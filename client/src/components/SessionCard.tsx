@@ -1,35 +1,213 @@
+import { useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { Session, User } from "@shared/schema";
-import { Calendar, Clock, MessageCircle, CheckCircle, XCircle } from "lucide-react";
-import { format } from "date-fns";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { AddToCalendarButton } from "@/components/AddToCalendarButton";
+import { StarRating } from "@/components/StarRating";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import {
+  formatDateInTimeZone,
+  formatTimeInTimeZone,
+  formatRangeInTimeZone,
+  getTimeZoneAbbreviation,
+  isSameOffset,
+} from "@/lib/timezone";
+import {
+  Session,
+  SessionReschedule,
+  User,
+  type Review,
+  type RescheduleScope,
+  type SeriesFrequency,
+  MAX_RATING,
+} from "@shared/schema";
+import { zonedTimeToUtc, toZonedDate, toZonedTime } from "@shared/timezone";
+import {
+  Calendar,
+  Clock,
+  Globe,
+  MessageCircle,
+  CheckCircle,
+  XCircle,
+  UserX,
+  Info,
+  CalendarClock,
+  Repeat,
+  Star,
+} from "lucide-react";
+import { addMinutes } from "date-fns";
+
+// Participants come with the timezone from their profile, if they set one
+type SessionParticipant = User & { timezone?: string | null };
+
+// Where an occurrence of a recurring series falls in it
+type SessionSeriesInfo = { id: string; frequency: SeriesFrequency; occurrence: number; occurrences: number };
+
+const frequencyLabels: Record<SeriesFrequency, string> = {
+  weekly: "Every week",
+  biweekly: "Every 2 weeks",
+};
 
 interface SessionCardProps {
-  session: Session & { student?: User; mentor?: User };
+  session: Session & {
+    student?: SessionParticipant;
+    mentor?: SessionParticipant;
+    pendingReschedule?: SessionReschedule | null;
+    series?: SessionSeriesInfo | null;
+    review?: Review | null;
+  };
   currentUserId: string;
   onConfirm?: (sessionId: string) => void;
-  onCancel?: (sessionId: string) => void;
+  onConfirmSeries?: (seriesId: string) => void;
+  onCancel?: (sessionId: string, reason?: string) => void;
+  onCancelSeries?: (seriesId: string, reason?: string) => void;
+  onDecline?: (sessionId: string, reason: string) => void;
+  onComplete?: (sessionId: string) => void;
+  onNoShow?: (sessionId: string) => void;
+  onProposeReschedule?: (sessionId: string, scheduledTime: string, scope: RescheduleScope) => void;
+  onRespondReschedule?: (sessionId: string, proposalId: string, accept: boolean) => void;
+  onReview?: (sessionId: string, rating: number, comment: string) => void;
   onChat?: (userId: string) => void;
   isLoading?: boolean;
 }
 
-export function SessionCard({ session, currentUserId, onConfirm, onCancel, onChat, isLoading }: SessionCardProps) {
+const statusLabels: Record<Session["status"], string> = {
+  pending: "Pending",
+  confirmed: "Confirmed",
+  declined: "Declined",
+  cancelled: "Cancelled",
+  completed: "Completed",
+  no_show: "No-show",
+};
+
+export function SessionCard({
+  session,
+  currentUserId,
+  onConfirm,
+  onConfirmSeries,
+  onCancel,
+  onCancelSeries,
+  onDecline,
+  onComplete,
+  onNoShow,
+  onProposeReschedule,
+  onRespondReschedule,
+  onReview,
+  onChat,
+  isLoading,
+}: SessionCardProps) {
   const isStudent = session.studentId === currentUserId;
   const otherUser = isStudent ? session.mentor : session.student;
   const isMentor = session.mentorId === currentUserId;
+  // Outcomes can be recorded once the session has started
+  const hasStarted = new Date(session.scheduledTime).getTime() <= Date.now();
+  const [reasonAction, setReasonAction] = useState<"decline" | "cancel" | null>(null);
+  const [reason, setReason] = useState("");
+  const [isRescheduleOpen, setIsRescheduleOpen] = useState(false);
+  const [proposedTime, setProposedTime] = useState("");
+  // Series actions can apply to this occurrence only or to the rest of the series
+  const [applyToSeries, setApplyToSeries] = useState(false);
+  const canReschedule = session.status === "pending" || session.status === "confirmed";
+  const proposal = session.pendingReschedule;
+  const series = session.series;
+  const review = session.review;
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState("");
+
+  // Times are shown in the viewer's zone, and also in the other participant's when it differs
+  const timeZone = useTimeZone();
+  const otherTimeZone = otherUser?.timezone;
+  const sessionEnd = addMinutes(new Date(session.scheduledTime), session.durationMinutes);
+  const showOtherTimeZone = !!otherTimeZone && !isSameOffset(session.scheduledTime, timeZone, otherTimeZone);
+
+  const formatDateTime = (date: Date | string) =>
+    `${formatDateInTimeZone(date, timeZone)} at ${formatTimeInTimeZone(date, timeZone)} ${getTimeZoneAbbreviation(date, timeZone)}`;
+
+  const handleRescheduleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!proposedTime) return;
+
+    // datetime-local values are wall-clock times, read in the viewer's timezone rather than the browser's
+    const [date, time] = proposedTime.split("T");
+    onProposeReschedule?.(
+      session.id,
+      zonedTimeToUtc(date, time, timeZone).toISOString(),
+      applyToSeries ? "series" : "session",
+    );
+    setIsRescheduleOpen(false);
+  };
+
+  const handleReviewSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rating || !comment.trim()) return;
+
+    onReview?.(session.id, rating, comment.trim());
+    setIsReviewOpen(false);
+  };
+
+  const openReasonDialog = (action: "decline" | "cancel") => {
+    setReason("");
+    setApplyToSeries(false);
+    setReasonAction(action);
+  };
+
+  const handleReasonSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = reason.trim();
+
+    if (reasonAction === "decline") {
+      if (!trimmed) return;
+      onDecline?.(session.id, trimmed);
+    } else if (reasonAction === "cancel") {
+      if (applyToSeries && series) {
+        onCancelSeries?.(series.id, trimmed || undefined);
+      } else {
+        onCancel?.(session.id, trimmed || undefined);
+      }
+    }
+    setReasonAction(null);
+  };
+
+  const getActorName = (actorId: string | null) => {
+    if (!actorId) return null;
+    if (actorId === currentUserId) return "you";
+    if (actorId === session.mentorId) return session.mentor?.username ?? "the mentor";
+    if (actorId === session.studentId) return session.student?.username ?? "the student";
+    return null;
+  };
+
+  const getOutcome = () => {
+    if (session.status !== "declined" && session.status !== "cancelled") return null;
+
+    const actor = getActorName(session.statusChangedBy);
+    const verb = session.status === "declined" ? "Declined" : "Cancelled";
+    return {
+      summary: actor ? `${verb} by ${actor}` : verb,
+      reason: session.statusReason,
+    };
+  };
+
+  const outcome = getOutcome();
 
   const getInitials = (name: string) => {
     return name.split(" ").map(n => n[0]).join("").toUpperCase().slice(0, 2);
   };
 
   const getStatusBadge = () => {
-    const variants = {
+    const variants: Record<Session["status"], string> = {
       pending: "bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/20",
       confirmed: "bg-green-500/10 text-green-700 dark:text-green-400 border-green-500/20",
+      declined: "bg-red-500/10 text-red-700 dark:text-red-400 border-red-500/20",
       completed: "bg-blue-500/10 text-blue-700 dark:text-blue-400 border-blue-500/20",
       cancelled: "bg-gray-500/10 text-gray-700 dark:text-gray-400 border-gray-500/20",
+      no_show: "bg-orange-500/10 text-orange-700 dark:text-orange-400 border-orange-500/20",
     };
 
     return (
@@ -38,7 +216,7 @@ export function SessionCard({ session, currentUserId, onConfirm, onCancel, onCha
         variant="outline"
         data-testid={`badge-status-${session.status}`}
       >
-        {session.status.charAt(0).toUpperCase() + session.status.slice(1)}
+        {statusLabels[session.status]}
       </Badge>
     );
   };
@@ -74,29 +252,211 @@ export function SessionCard({ session, currentUserId, onConfirm, onCancel, onCha
           </div>
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
             <Clock className="h-4 w-4" />
-            <span>{format(new Date(session.scheduledTime), "PPP 'at' p")}</span>
+            <span data-testid={`text-session-time-${session.id}`}>
+              {formatRangeInTimeZone(session.scheduledTime, sessionEnd, timeZone)}
+            </span>
           </div>
+          {showOtherTimeZone && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Globe className="h-4 w-4" />
+              <span data-testid={`text-session-other-time-${session.id}`}>
+                {formatRangeInTimeZone(session.scheduledTime, sessionEnd, otherTimeZone)} for {otherUser.username}
+              </span>
+            </div>
+          )}
+          {series && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Repeat className="h-4 w-4" />
+              <span data-testid={`text-session-series-${session.id}`}>
+                {frequencyLabels[series.frequency]} · session {series.occurrence} of {series.occurrences}
+              </span>
+            </div>
+          )}
         </div>
 
+        {proposal && canReschedule && (
+          <div
+            className="rounded-md border border-dashed px-3 py-2 mb-4 text-sm space-y-2"
+            data-testid={`reschedule-proposal-${session.id}`}
+          >
+            <div className="flex items-start gap-2">
+              <CalendarClock className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+              <p>
+                <span className="font-medium">
+                  {proposal.proposedBy === currentUserId
+                    ? "You proposed"
+                    : `${getActorName(proposal.proposedBy) ?? "They"} proposed`}
+                </span>{" "}
+                {proposal.scope === "series" ? "moving this and the later sessions in the series, starting" : "moving to"}{" "}
+                {formatDateTime(proposal.proposedTime)}
+              </p>
+            </div>
+            {proposal.proposedBy === currentUserId ? (
+              <p className="text-muted-foreground">
+                Waiting for {otherUser?.username || "the other participant"} to respond
+              </p>
+            ) : (
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => onRespondReschedule?.(session.id, proposal.id, true)}
+                  disabled={isLoading}
+                  data-testid={`button-accept-reschedule-${session.id}`}
+                >
+                  Accept
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onRespondReschedule?.(session.id, proposal.id, false)}
+                  disabled={isLoading}
+                  data-testid={`button-reject-reschedule-${session.id}`}
+                >
+                  Reject
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {outcome && (
+          <div
+            className="flex items-start gap-2 rounded-md bg-muted px-3 py-2 mb-4 text-sm"
+            data-testid={`text-session-outcome-${session.id}`}
+          >
+            <Info className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+            <div className="min-w-0">
+              <p className="font-medium">{outcome.summary}</p>
+              {outcome.reason && (
+                <p className="text-muted-foreground break-words">{outcome.reason}</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {review && (
+          <div className="rounded-md bg-muted px-3 py-2 mb-4 text-sm space-y-1" data-testid={`text-session-review-${session.id}`}>
+            <div className="flex items-center gap-2">
+              <StarRating value={review.rating} size="sm" />
+              <span className="font-medium">
+                {isStudent ? "Your review" : `Review from ${session.student?.username ?? "the student"}`}
+              </span>
+            </div>
+            <p className="text-muted-foreground break-words">{review.comment}</p>
+            {review.response && (
+              <p className="text-muted-foreground break-words">
+                <span className="font-medium text-foreground">Mentor's response:</span> {review.response}
+              </p>
+            )}
+          </div>
+        )}
+
         <div className="flex gap-2 flex-wrap">
-          {session.status === "pending" && isMentor && (
+          {session.status === "completed" && isStudent && !review && onReview && (
             <Button
               size="sm"
-              onClick={() => onConfirm?.(session.id)}
+              onClick={() => {
+                setRating(0);
+                setComment("");
+                setIsReviewOpen(true);
+              }}
               disabled={isLoading}
               className="gap-1"
-              data-testid={`button-confirm-${session.id}`}
+              data-testid={`button-review-${session.id}`}
             >
-              <CheckCircle className="h-4 w-4" />
-              Confirm
+              <Star className="h-4 w-4" />
+              Leave a review
             </Button>
           )}
+
+          {session.status === "pending" && isMentor && (
+            <>
+              <Button
+                size="sm"
+                onClick={() => onConfirm?.(session.id)}
+                disabled={isLoading}
+                className="gap-1"
+                data-testid={`button-confirm-${session.id}`}
+              >
+                <CheckCircle className="h-4 w-4" />
+                Confirm
+              </Button>
+              {series && onConfirmSeries && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onConfirmSeries(series.id)}
+                  disabled={isLoading}
+                  className="gap-1"
+                  data-testid={`button-confirm-series-${session.id}`}
+                >
+                  <Repeat className="h-4 w-4" />
+                  Confirm all
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => openReasonDialog("decline")}
+                disabled={isLoading}
+                className="gap-1"
+                data-testid={`button-decline-${session.id}`}
+              >
+                <XCircle className="h-4 w-4" />
+                Decline
+              </Button>
+            </>
+          )}
           
-          {(session.status === "pending" || session.status === "confirmed") && (
+          {session.status === "confirmed" && isMentor && hasStarted && (
+            <>
+              <Button
+                size="sm"
+                onClick={() => onComplete?.(session.id)}
+                disabled={isLoading}
+                className="gap-1"
+                data-testid={`button-complete-${session.id}`}
+              >
+                <CheckCircle className="h-4 w-4" />
+                Mark complete
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => onNoShow?.(session.id)}
+                disabled={isLoading}
+                className="gap-1"
+                data-testid={`button-no-show-${session.id}`}
+              >
+                <UserX className="h-4 w-4" />
+                No-show
+              </Button>
+            </>
+          )}
+
+          {canReschedule && onProposeReschedule && (
             <Button
               size="sm"
               variant="outline"
-              onClick={() => onCancel?.(session.id)}
+              onClick={() => {
+                setProposedTime("");
+                setApplyToSeries(false);
+                setIsRescheduleOpen(true);
+              }}
+              disabled={isLoading}
+              className="gap-1"
+              data-testid={`button-propose-reschedule-${session.id}`}
+            >
+              <CalendarClock className="h-4 w-4" />
+              Propose new time
+            </Button>
+          )}
+
+          {((session.status === "pending" && !isMentor) || session.status === "confirmed") && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => openReasonDialog("cancel")}
               disabled={isLoading}
               className="gap-1"
               data-testid={`button-cancel-${session.id}`}
@@ -106,6 +466,8 @@ export function SessionCard({ session, currentUserId, onConfirm, onCancel, onCha
             </Button>
           )}
           
+          {canReschedule && <AddToCalendarButton session={session} counterpartName={otherUser?.username} />}
+
           {otherUser && (
             <Button
               size="sm"
@@ -120,6 +482,150 @@ export function SessionCard({ session, currentUserId, onConfirm, onCancel, onCha
           )}
         </div>
       </CardContent>
+
+      <Dialog open={isRescheduleOpen} onOpenChange={setIsRescheduleOpen}>
+        <DialogContent data-testid={`dialog-reschedule-session-${session.id}`}>
+          <DialogHeader>
+            <DialogTitle>Propose a new time</DialogTitle>
+            <DialogDescription>
+              Currently scheduled for {formatDateTime(session.scheduledTime)}.{" "}
+              {otherUser?.username || "The other participant"} will be asked to accept or reject the new time.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleRescheduleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor={`proposed-time-${session.id}`}>
+                New Date & Time ({getTimeZoneAbbreviation(new Date(), timeZone)})
+              </Label>
+              <Input
+                id={`proposed-time-${session.id}`}
+                type="datetime-local"
+                value={proposedTime}
+                min={`${toZonedDate(new Date(), timeZone)}T${toZonedTime(new Date(), timeZone)}`}
+                onChange={(e) => setProposedTime(e.target.value)}
+                required
+                data-testid={`input-proposed-time-${session.id}`}
+              />
+            </div>
+            {series && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id={`reschedule-series-${session.id}`}
+                  checked={applyToSeries}
+                  onCheckedChange={(checked) => setApplyToSeries(checked === true)}
+                  data-testid={`checkbox-reschedule-series-${session.id}`}
+                />
+                <Label htmlFor={`reschedule-series-${session.id}`} className="font-normal">
+                  Also move the later sessions in this series to the same day and time
+                </Label>
+              </div>
+            )}
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={isLoading || !proposedTime}
+              data-testid={`button-submit-reschedule-${session.id}`}
+            >
+              Send Proposal
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isReviewOpen} onOpenChange={setIsReviewOpen}>
+        <DialogContent data-testid={`dialog-review-session-${session.id}`}>
+          <DialogHeader>
+            <DialogTitle>Review your session</DialogTitle>
+            <DialogDescription>
+              How was {session.subject} with {otherUser?.username || "your mentor"}? Your review is shown on their
+              profile and can't be changed later.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleReviewSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Rating</Label>
+              <StarRating value={rating} onChange={setRating} size="lg" />
+              <p className="text-xs text-muted-foreground">
+                {rating ? `${rating} out of ${MAX_RATING}` : "Pick a number of stars"}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`review-comment-${session.id}`}>Your review</Label>
+              <Textarea
+                id={`review-comment-${session.id}`}
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                maxLength={2000}
+                rows={4}
+                placeholder="What went well? What could be better?"
+                required
+                data-testid={`input-review-comment-${session.id}`}
+              />
+            </div>
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={isLoading || !rating || !comment.trim()}
+              data-testid={`button-submit-review-${session.id}`}
+            >
+              Post Review
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={reasonAction !== null} onOpenChange={(open) => !open && setReasonAction(null)}>
+        <DialogContent data-testid={`dialog-${reasonAction}-session-${session.id}`}>
+          <DialogHeader>
+            <DialogTitle>
+              {reasonAction === "decline" ? "Decline session request" : "Cancel session"}
+            </DialogTitle>
+            <DialogDescription>
+              {reasonAction === "decline"
+                ? `Let ${otherUser?.username || "the student"} know why you can't take this session.`
+                : `${otherUser?.username || "The other participant"} will see your reason.`}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleReasonSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor={`reason-${session.id}`}>
+                {reasonAction === "decline" ? "Reason" : "Reason (Optional)"}
+              </Label>
+              <Textarea
+                id={`reason-${session.id}`}
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                maxLength={500}
+                rows={3}
+                required={reasonAction === "decline"}
+                data-testid={`input-reason-${session.id}`}
+              />
+            </div>
+            {reasonAction === "cancel" && series && onCancelSeries && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id={`cancel-series-${session.id}`}
+                  checked={applyToSeries}
+                  onCheckedChange={(checked) => setApplyToSeries(checked === true)}
+                  data-testid={`checkbox-cancel-series-${session.id}`}
+                />
+                <Label htmlFor={`cancel-series-${session.id}`} className="font-normal">
+                  Cancel all upcoming sessions in this series
+                </Label>
+              </div>
+            )}
+            <Button
+              type="submit"
+              variant="destructive"
+              className="w-full"
+              disabled={isLoading || (reasonAction === "decline" && !reason.trim())}
+              data-testid={`button-submit-reason-${session.id}`}
+            >
+              {reasonAction === "decline" ? "Decline Request" : "Cancel Session"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 }
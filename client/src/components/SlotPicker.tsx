@@ -0,0 +1,126 @@
+import { useState, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Calendar } from "@/components/ui/calendar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { type MentorOpenings } from "@/lib/availability";
+import { formatTimeInTimeZone, formatTimeZoneName } from "@/lib/timezone";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { zonedTimeToUtc, toZonedDate, toZonedTime } from "@shared/timezone";
+import { Loader2 } from "lucide-react";
+import { format, parseISO, startOfMonth, addMonths, isSameMonth } from "date-fns";
+
+interface SlotPickerProps {
+  mentorId: string;
+  durationMinutes: number;
+  /** ISO start time of the chosen opening, or "" */
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// Calendar days are local Date objects standing for a date; their label is the key
+const dayKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+/**
+ * Calendar of the days a mentor has openings on, and the open start times of the picked day
+ * - Days and times are in the viewer's timezone, which may differ from the browser's
+ * - Openings are fetched one visible month at a time
+ * - Mentors who have not set up availability can be asked for any time instead
+ */
+export function SlotPicker({ mentorId, durationMinutes, value, onChange }: SlotPickerProps) {
+  const timeZone = useTimeZone();
+  const today = parseISO(toZonedDate(new Date(), timeZone));
+  const [month, setMonth] = useState(() => startOfMonth(today));
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>(
+    value ? parseISO(toZonedDate(new Date(value), timeZone)) : undefined,
+  );
+
+  const params = new URLSearchParams({
+    from: zonedTimeToUtc(dayKey(month), "00:00", timeZone).toISOString(),
+    to: zonedTimeToUtc(dayKey(addMonths(month, 1)), "00:00", timeZone).toISOString(),
+    durationMinutes: String(durationMinutes),
+  });
+  const { data, isLoading } = useQuery<MentorOpenings>({
+    queryKey: ["/api/mentors/", mentorId, `/openings?${params}`],
+  });
+
+  const openingsByDay = useMemo(() => {
+    const byDay = new Map<string, MentorOpenings["openings"]>();
+    for (const opening of data?.openings ?? []) {
+      const key = toZonedDate(new Date(opening.start), timeZone);
+      byDay.set(key, [...(byDay.get(key) ?? []), opening]);
+    }
+    return byDay;
+  }, [data, timeZone]);
+
+  const dayOpenings = selectedDay ? openingsByDay.get(dayKey(selectedDay)) ?? [] : [];
+
+  if (data && !data.configured) {
+    const local = value ? `${toZonedDate(new Date(value), timeZone)}T${toZonedTime(new Date(value), timeZone)}` : "";
+    return (
+      <div className="space-y-3">
+        <p className="rounded-md border border-border p-3 text-sm text-muted-foreground" data-testid="text-no-availability">
+          This mentor hasn't set their availability yet. Request any time and they will confirm or decline it.
+        </p>
+        <Input
+          type="datetime-local"
+          value={local}
+          min={`${toZonedDate(new Date(), timeZone)}T${toZonedTime(new Date(), timeZone)}`}
+          onChange={(e) => {
+            const [date, time] = e.target.value.split("T");
+            onChange(date && time ? zonedTimeToUtc(date, time, timeZone).toISOString() : "");
+          }}
+          aria-label="Requested time"
+          data-testid="input-requested-time"
+        />
+        <p className="text-xs text-muted-foreground">Times are shown in {formatTimeZoneName(timeZone)}.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3" data-testid="slot-picker">
+      <div className="flex justify-center rounded-md border border-border">
+        <Calendar
+          mode="single"
+          selected={selectedDay}
+          onSelect={(day) => {
+            setSelectedDay(day);
+            onChange("");
+          }}
+          month={month}
+          onMonthChange={(next) => setMonth(startOfMonth(next))}
+          fromMonth={startOfMonth(today)}
+          disabled={(day) => isLoading || !isSameMonth(day, month) || !openingsByDay.has(dayKey(day))}
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-2">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      ) : openingsByDay.size === 0 ? (
+        <p className="text-sm text-muted-foreground">No open times this month. Try the next one.</p>
+      ) : !selectedDay || dayOpenings.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Pick a highlighted day to see open times.</p>
+      ) : (
+        <div className="grid grid-cols-3 gap-2">
+          {dayOpenings.map((opening) => (
+            <Button
+              key={opening.start}
+              type="button"
+              size="sm"
+              variant={opening.start === value ? "default" : "outline"}
+              onClick={() => onChange(opening.start)}
+              data-testid={`button-opening-${opening.start}`}
+            >
+              {formatTimeInTimeZone(opening.start, timeZone)}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">Times are shown in {formatTimeZoneName(timeZone)}.</p>
+    </div>
+  );
+}
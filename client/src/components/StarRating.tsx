@@ -0,0 +1,61 @@
+import { Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { MAX_RATING } from "@shared/schema";
+
+interface StarRatingProps {
+  /** Filled stars; fractions are rounded to the nearest half star */
+  value: number;
+  /** Makes the stars buttons that pick a whole rating */
+  onChange?: (value: number) => void;
+  size?: "sm" | "md" | "lg";
+  className?: string;
+}
+
+const SIZES = { sm: "h-3.5 w-3.5", md: "h-4 w-4", lg: "h-7 w-7" };
+
+/**
+ * Row of MAX_RATING stars, read-only or as a rating input
+ */
+export function StarRating({ value, onChange, size = "md", className }: StarRatingProps) {
+  const rounded = Math.round(value * 2) / 2;
+
+  return (
+    <div
+      className={cn("flex items-center gap-0.5", className)}
+      role={onChange ? "radiogroup" : "img"}
+      aria-label={`${value} out of ${MAX_RATING} stars`}
+    >
+      {Array.from({ length: MAX_RATING }, (_, index) => {
+        const star = index + 1;
+        const fill = rounded >= star ? "full" : rounded >= star - 0.5 ? "half" : "empty";
+        const icon = (
+          <span className="relative inline-block">
+            <Star className={cn(SIZES[size], "text-muted-foreground/40")} />
+            {fill !== "empty" && (
+              <span className={cn("absolute inset-0 overflow-hidden", fill === "half" && "w-1/2")}>
+                <Star className={cn(SIZES[size], "fill-amber-400 text-amber-400")} />
+              </span>
+            )}
+          </span>
+        );
+
+        if (!onChange) return <span key={star}>{icon}</span>;
+
+        return (
+          <button
+            key={star}
+            type="button"
+            role="radio"
+            aria-checked={value === star}
+            aria-label={`${star} ${star === 1 ? "star" : "stars"}`}
+            onClick={() => onChange(star)}
+            className="rounded-sm p-0.5 transition-transform hover:scale-110"
+            data-testid={`button-rating-${star}`}
+          >
+            {icon}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
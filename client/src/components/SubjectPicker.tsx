@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { useSubjects } from "@/hooks/use-subjects";
+import { type PickedSubject, SUBJECT_LEVEL_LABELS, getSubjectAncestors } from "@/lib/subjects";
+import { subjectCategories, subjectLevels, type SubjectLevel } from "@shared/schema";
+import { Plus, X } from "lucide-react";
+
+interface SubjectPickerProps {
+  id?: string;
+  role: "student" | "mentor";
+  value: PickedSubject[];
+  onChange: (subjects: PickedSubject[]) => void;
+}
+
+/**
+ * Pick subjects from the catalog, each with a level
+ * - The search box also matches aliases and broader subjects, so "maths" or "calc" find AP Calculus
+ * - Mentors give the highest level they teach, students the level they are learning at
+ */
+export function SubjectPicker({ id, role, value, onChange }: SubjectPickerProps) {
+  const { subjects, subjectsById } = useSubjects();
+  const [open, setOpen] = useState(false);
+
+  const defaultLevel: SubjectLevel = role === "mentor" ? "advanced" : "beginner";
+  const available = subjects.filter((subject) => !value.some((picked) => picked.subjectId === subject.id));
+
+  const addSubject = (subjectId: string) => {
+    onChange([...value, { subjectId, level: defaultLevel }]);
+    setOpen(false);
+  };
+
+  const setLevel = (subjectId: string, level: SubjectLevel) => {
+    onChange(value.map((picked) => (picked.subjectId === subjectId ? { ...picked, level } : picked)));
+  };
+
+  const removeSubject = (subjectId: string) => {
+    onChange(value.filter((picked) => picked.subjectId !== subjectId));
+  };
+
+  return (
+    <div className="space-y-3">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            id={id}
+            type="button"
+            variant="outline"
+            className="w-full justify-start gap-2 font-normal text-muted-foreground"
+            data-testid="button-add-subject"
+          >
+            <Plus className="h-4 w-4" />
+            Add a subject...
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Search subjects, e.g. calculus or maths" data-testid="input-subject" />
+            <CommandList>
+              <CommandEmpty>No matching subject in the catalog.</CommandEmpty>
+              {subjectCategories.map((category) => {
+                const inCategory = available.filter((subject) => subject.category === category);
+                if (inCategory.length === 0) return null;
+
+                return (
+                  <CommandGroup key={category} heading={category}>
+                    {inCategory.map((subject) => {
+                      const ancestors = getSubjectAncestors(subject, subjectsById);
+                      return (
+                        <CommandItem
+                          key={subject.id}
+                          value={subject.id}
+                          keywords={[subject.name, ...subject.aliases, ...ancestors]}
+                          onSelect={addSubject}
+                          data-testid={`option-subject-${subject.id}`}
+                        >
+                          <span>{subject.name}</span>
+                          {ancestors.length > 0 && (
+                            <span className="ml-auto text-xs text-muted-foreground">{ancestors.join(" › ")}</span>
+                          )}
+                        </CommandItem>
+                      );
+                    })}
+                  </CommandGroup>
+                );
+              })}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      {value.length > 0 && (
+        <ul className="space-y-2">
+          {value.map((picked) => {
+            const subject = subjectsById.get(picked.subjectId);
+            return (
+              <li
+                key={picked.subjectId}
+                className="flex items-center gap-2 rounded-md border border-border px-3 py-2"
+                data-testid={`subject-${picked.subjectId}`}
+              >
+                <span className="flex-1 min-w-0 truncate text-sm font-medium">
+                  {subject?.name ?? picked.subjectId}
+                </span>
+                <Select value={picked.level} onValueChange={(level) => setLevel(picked.subjectId, level as SubjectLevel)}>
+                  <SelectTrigger
+                    className="w-40 h-8"
+                    aria-label={role === "mentor" ? "Highest level you teach" : "Your level"}
+                    data-testid={`select-subject-level-${picked.subjectId}`}
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {subjectLevels.map((level) => (
+                      <SelectItem key={level} value={level}>
+                        {SUBJECT_LEVEL_LABELS[level]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => removeSubject(picked.subjectId)}
+                  aria-label={`Remove ${subject?.name ?? "subject"}`}
+                  data-testid={`button-remove-subject-${picked.subjectId}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { useMemo } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatTimeZoneName } from "@/lib/timezone";
+
+interface TimeZoneSelectProps {
+  id?: string;
+  value: string;
+  onValueChange: (timeZone: string) => void;
+  "data-testid"?: string;
+}
+
+/**
+ * Picker over every IANA timezone the browser knows
+ */
+export function TimeZoneSelect({ id, value, onValueChange, "data-testid": testId }: TimeZoneSelectProps) {
+  const timeZones = useMemo(() => {
+    const zones = Intl.supportedValuesOf("timeZone");
+    // Aliases such as "UTC" are missing from the list but still valid
+    return zones.includes(value) ? zones : [value, ...zones];
+  }, [value]);
+
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger id={id} data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {timeZones.map((zone) => (
+          <SelectItem key={zone} value={zone}>
+            {formatTimeZoneName(zone)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
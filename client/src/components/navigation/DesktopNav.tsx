@@ -1,7 +1,9 @@
 import { Link, useLocation } from "wouter";
-import { GraduationCap, Search, Calendar, MessageCircle, User, LogOut } from "lucide-react";
+import { GraduationCap, Search, Calendar, MessageCircle, User, LogOut, Bell } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/lib/auth";
+import { useUnreadCount } from "@/hooks/use-unread-count";
+import { NotificationMenu } from "@/components/NotificationMenu";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -15,6 +17,7 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 export function DesktopNav() {
   const [location] = useLocation();
   const { user, logout } = useAuth();
+  const unreadCount = useUnreadCount();
 
   const allNavItems = [
     { path: "/profile", icon: User, label: "My Profile" },
@@ -61,6 +64,14 @@ export function DesktopNav() {
                   >
                     <Icon className="h-4 w-4" />
                     <span>{item.label}</span>
+                    {item.path === "/chat" && unreadCount > 0 && (
+                      <span
+                        className="min-w-5 h-5 px-1.5 rounded-full bg-primary text-primary-foreground text-xs font-semibold flex items-center justify-center"
+                        data-testid="badge-unread-messages"
+                      >
+                        {unreadCount > 99 ? "99+" : unreadCount}
+                      </span>
+                    )}
                   </Link>
                 );
               })}
@@ -68,6 +79,21 @@ export function DesktopNav() {
           </div>
 
           <div className="flex items-center gap-4">
+            <NotificationMenu
+              trigger={(count) => (
+                <Button variant="ghost" size="icon" className="relative rounded-full" data-testid="button-notifications">
+                  <Bell className="h-5 w-5" />
+                  {count > 0 && (
+                    <span
+                      className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-primary text-primary-foreground text-[10px] font-semibold flex items-center justify-center"
+                      data-testid="badge-unread-notifications"
+                    >
+                      {count > 99 ? "99+" : count}
+                    </span>
+                  )}
+                </Button>
+              )}
+            />
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="ghost" size="icon" className="rounded-full" data-testid="button-user-menu">
@@ -1,10 +1,13 @@
 import { Link, useLocation } from "wouter";
-import { Search, Calendar, MessageCircle, User } from "lucide-react";
+import { Search, Calendar, MessageCircle, User, Bell } from "lucide-react";
 import { useAuth } from "@/lib/auth";
+import { useUnreadCount } from "@/hooks/use-unread-count";
+import { NotificationMenu } from "@/components/NotificationMenu";
 
 export function MobileNav() {
   const [location] = useLocation();
   const { user } = useAuth();
+  const unreadCount = useUnreadCount();
 
   const allNavItems = [
     { path: "/profile", icon: User, label: "Profile", testId: "nav-profile" },
@@ -36,12 +39,45 @@ export function MobileNav() {
                   isActive ? "text-primary" : "text-muted-foreground hover:text-foreground"
                 }`}
               >
-                <Icon className="h-5 w-5" />
+                <span className="relative">
+                  <Icon className="h-5 w-5" />
+                  {item.path === "/chat" && unreadCount > 0 && (
+                    <span
+                      className="absolute -top-1.5 -right-2.5 min-w-4 h-4 px-1 rounded-full bg-primary text-primary-foreground text-[10px] font-semibold flex items-center justify-center"
+                      data-testid="badge-unread-messages-mobile"
+                    >
+                      {unreadCount > 99 ? "99+" : unreadCount}
+                    </span>
+                  )}
+                </span>
                 <span className="text-xs font-medium">{item.label}</span>
               </a>
             </Link>
           );
         })}
+        <NotificationMenu
+          align="end"
+          trigger={(count) => (
+            <button
+              type="button"
+              data-testid="nav-notifications"
+              className="flex flex-col items-center justify-center gap-1 px-4 py-2 text-muted-foreground transition-colors hover:text-foreground"
+            >
+              <span className="relative">
+                <Bell className="h-5 w-5" />
+                {count > 0 && (
+                  <span
+                    className="absolute -top-1.5 -right-2.5 min-w-4 h-4 px-1 rounded-full bg-primary text-primary-foreground text-[10px] font-semibold flex items-center justify-center"
+                    data-testid="badge-unread-notifications-mobile"
+                  >
+                    {count > 99 ? "99+" : count}
+                  </span>
+                )}
+              </span>
+              <span className="text-xs font-medium">Alerts</span>
+            </button>
+          )}
+        />
       </div>
     </nav>
   );
@@ -0,0 +1,42 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/lib/auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { FavoriteMentorListing } from "@/lib/mentorSearch";
+
+/**
+ * The logged-in student's favorite mentors, and actions to change them
+ * - Only students have favorites; for anyone else the list stays empty
+ */
+export function useFavorites() {
+  const { user } = useAuth();
+
+  const { data: favorites = [], isLoading } = useQuery<FavoriteMentorListing[]>({
+    queryKey: ["/api/favorites"],
+    enabled: user?.role === "student",
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/favorites"] });
+
+  const saveMutation = useMutation({
+    mutationFn: ({ mentorId, notify }: { mentorId: string; notify?: boolean }) =>
+      apiRequest("PUT", `/api/favorites/${mentorId}`, { notify }),
+    onSuccess: invalidate,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (mentorId: string) => apiRequest("DELETE", `/api/favorites/${mentorId}`),
+    onSuccess: invalidate,
+  });
+
+  const isFavorite = (mentorId: string) => favorites.some((favorite) => favorite.id === mentorId);
+
+  return {
+    favorites,
+    isLoading,
+    isFavorite,
+    toggleFavorite: (mentorId: string) =>
+      isFavorite(mentorId) ? removeMutation.mutate(mentorId) : saveMutation.mutate({ mentorId }),
+    setNotify: (mentorId: string, notify: boolean) => saveMutation.mutate({ mentorId, notify }),
+    isUpdating: saveMutation.isPending || removeMutation.isPending,
+  };
+}
@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/lib/auth";
+import type { Notification } from "@shared/schema";
+
+/**
+ * The logged-in user's recent notifications, newest first, and how many are unread
+ * - Refreshed by the socket whenever a new one arrives
+ */
+export function useNotifications() {
+  const { user } = useAuth();
+
+  const { data: notifications = [] } = useQuery<Notification[]>({
+    queryKey: ["/api/notifications"],
+    enabled: !!user,
+  });
+
+  return {
+    notifications,
+    unreadCount: notifications.filter((notification) => !notification.readAt).length,
+  };
+}
@@ -0,0 +1,64 @@
+import { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { useSocket, useSocketEvent } from "@/lib/socket";
+
+// Server-side cap on how many users one connection may watch (WatchPresenceSchema)
+const MAX_WATCHED_USERS = 200;
+
+export type Presence = { online: boolean; lastSeen: string | null };
+
+// The server keeps a single watch list per connection, so every mounted
+// usePresence contributes to one shared, reference-counted list
+const watchCounts = new Map<string, number>();
+
+/**
+ * Online status and last-seen time of the given users, kept live over the socket
+ */
+export function usePresence(userIds: string[]): Record<string, Presence> {
+  const { send, isConnected } = useSocket();
+  const [presence, setPresence] = useState<Record<string, Presence>>({});
+  const idsKey = Array.from(new Set(userIds)).sort().join(",");
+
+  useEffect(() => {
+    const ids = idsKey ? idsKey.split(",") : [];
+    const sendWatchList = () =>
+      send({
+        type: "watchPresence",
+        userIds: Array.from(watchCounts.keys()).slice(0, MAX_WATCHED_USERS),
+      });
+
+    ids.forEach((id) => watchCounts.set(id, (watchCounts.get(id) || 0) + 1));
+    sendWatchList();
+
+    return () => {
+      ids.forEach((id) => {
+        const count = (watchCounts.get(id) || 1) - 1;
+        if (count > 0) watchCounts.set(id, count);
+        else watchCounts.delete(id);
+      });
+      sendWatchList();
+    };
+  }, [idsKey, isConnected, send]);
+
+  useSocketEvent((event) => {
+    if (event.type === "presence") {
+      setPresence((prev) => ({
+        ...prev,
+        [event.userId]: { online: event.online, lastSeen: event.lastSeen },
+      }));
+    }
+  });
+
+  return presence;
+}
+
+/**
+ * "Online", "Last seen 5 minutes ago" or "Offline"; null while presence is unknown
+ */
+export function describePresence(presence: Presence | undefined): string | null {
+  if (!presence) return null;
+  if (presence.online) return "Online";
+  return presence.lastSeen
+    ? `Last seen ${formatDistanceToNow(new Date(presence.lastSeen), { addSuffix: true })}`
+    : "Offline";
+}
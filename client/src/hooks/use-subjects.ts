@@ -0,0 +1,22 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/lib/auth";
+import type { Subject } from "@shared/schema";
+
+/**
+ * The subject catalog, by category and then name, and the same subjects keyed by id
+ * - The catalog only changes with a deploy, so it is fetched once per page load
+ */
+export function useSubjects() {
+  const { user } = useAuth();
+
+  const { data: subjects = [], isLoading } = useQuery<Subject[]>({
+    queryKey: ["/api/subjects"],
+    enabled: !!user,
+    staleTime: Infinity,
+  });
+
+  const subjectsById = useMemo(() => new Map(subjects.map((subject) => [subject.id, subject])), [subjects]);
+
+  return { subjects, subjectsById, isLoading };
+}
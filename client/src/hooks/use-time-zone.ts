@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/lib/auth";
+import { getBrowserTimeZone } from "@/lib/timezone";
+import type { Profile } from "@shared/schema";
+
+/**
+ * Timezone times are shown in for the logged-in user: the one saved in their
+ * profile, or the browser's until they pick one
+ */
+export function useTimeZone() {
+  const { user } = useAuth();
+
+  const { data: profile } = useQuery<Profile>({
+    queryKey: ["/api/profile/me"],
+    enabled: !!user,
+  });
+
+  return profile?.timezone || getBrowserTimeZone();
+}
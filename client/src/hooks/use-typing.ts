@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useSocket, useSocketEvent } from "@/lib/socket";
+
+// Hide an indicator whose stopTyping never arrived (closed tab, lost connection)
+const TYPING_EXPIRY_MS = 6000;
+// While the user keeps typing, repeat the typing event at most this often
+const TYPING_REPEAT_MS = 3000;
+// Send stopTyping after this long without a keystroke
+const TYPING_IDLE_MS = 2000;
+
+/**
+ * Ids of users currently typing a message to the logged-in user
+ */
+export function useTypingUsers(): Set<string> {
+  const [typingUsers, setTypingUsers] = useState<Set<string>>(() => new Set());
+  const expiryTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  const clearTyping = useCallback((userId: string) => {
+    clearTimeout(expiryTimers.current.get(userId));
+    expiryTimers.current.delete(userId);
+    setTypingUsers((prev) => {
+      if (!prev.has(userId)) return prev;
+      const next = new Set(prev);
+      next.delete(userId);
+      return next;
+    });
+  }, []);
+
+  useSocketEvent((event) => {
+    if (event.type === "typing") {
+      clearTimeout(expiryTimers.current.get(event.userId));
+      expiryTimers.current.set(event.userId, setTimeout(() => clearTyping(event.userId), TYPING_EXPIRY_MS));
+      setTypingUsers((prev) => (prev.has(event.userId) ? prev : new Set(prev).add(event.userId)));
+    } else if (event.type === "stopTyping") {
+      clearTyping(event.userId);
+    } else if (event.type === "message" && event.message) {
+      clearTyping(event.message.senderId);
+    } else if (event.type === "presence" && !event.online) {
+      clearTyping(event.userId);
+    }
+  });
+
+  useEffect(() => {
+    const timers = expiryTimers.current;
+    return () => timers.forEach((timer) => clearTimeout(timer));
+  }, []);
+
+  return typingUsers;
+}
+
+/**
+ * Let receiverId know while the logged-in user is typing to them
+ * - Call notifyTyping on every keystroke and stopTyping once the message is sent
+ * - stopTyping is also sent after a pause and when leaving the conversation
+ */
+export function useTypingNotifier(receiverId: string | undefined) {
+  const { send } = useSocket();
+  const lastSentAt = useRef(0);
+  const idleTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  const stopTyping = useCallback(() => {
+    clearTimeout(idleTimer.current);
+    if (lastSentAt.current && receiverId) {
+      send({ type: "stopTyping", receiverId });
+    }
+    lastSentAt.current = 0;
+  }, [receiverId, send]);
+
+  const notifyTyping = useCallback(() => {
+    if (!receiverId) return;
+
+    const now = Date.now();
+    if (now - lastSentAt.current >= TYPING_REPEAT_MS && send({ type: "typing", receiverId })) {
+      lastSentAt.current = now;
+    }
+
+    clearTimeout(idleTimer.current);
+    idleTimer.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  }, [receiverId, send, stopTyping]);
+
+  useEffect(() => stopTyping, [stopTyping]);
+
+  return { notifyTyping, stopTyping };
+}
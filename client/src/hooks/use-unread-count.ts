@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/lib/auth";
+
+/**
+ * Total unread messages across all conversations of the logged-in user
+ */
+export function useUnreadCount() {
+  const { user } = useAuth();
+
+  const { data: conversations } = useQuery<{ unreadCount: number }[]>({
+    queryKey: ["/api/conversations"],
+    enabled: !!user,
+  });
+
+  return conversations?.reduce((total, conversation) => total + conversation.unreadCount, 0) ?? 0;
+}
@@ -1,11 +1,13 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from "react";
 import { User } from "@shared/schema";
+import { apiRequest, queryClient, subscribeToAuthChanges } from "@/lib/queryClient";
 
 interface AuthContextType {
   user: User | null;
   token: string | null;
-  login: (user: User, token: string) => void;
-  logout: () => void;
+  login: (user: User, token: string, refreshToken?: string) => void;
+  logout: () => Promise<void>;
+  logoutAll: () => Promise<void>;
   isLoading: boolean;
 }
 
@@ -27,22 +29,52 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setIsLoading(false);
   }, []);
 
-  const login = (newUser: User, newToken: string) => {
+  // Keep state in sync with tokens renewed (or rejected) by the API client
+  useEffect(() => {
+    return subscribeToAuthChanges((tokens) => {
+      if (tokens) {
+        setToken(tokens.accessToken);
+      } else {
+        clearAuth();
+      }
+    });
+  }, []);
+
+  const login = (newUser: User, newToken: string, refreshToken?: string) => {
     setUser(newUser);
     setToken(newToken);
     localStorage.setItem("token", newToken);
     localStorage.setItem("user", JSON.stringify(newUser));
+    if (refreshToken) {
+      localStorage.setItem("refreshToken", refreshToken);
+    }
   };
 
-  const logout = () => {
+  const clearAuth = () => {
     setUser(null);
     setToken(null);
     localStorage.removeItem("token");
+    localStorage.removeItem("refreshToken");
     localStorage.removeItem("user");
+    queryClient.clear();
+  };
+
+  const logout = async () => {
+    try {
+      await apiRequest("POST", "/api/auth/logout");
+    } catch (error) {
+      // Tokens are already invalid server-side, nothing left to revoke
+    }
+    clearAuth();
+  };
+
+  const logoutAll = async () => {
+    await apiRequest("POST", "/api/auth/logout-all");
+    clearAuth();
   };
 
   return (
-    <AuthContext.Provider value={{ user, token, login, logout, isLoading }}>
+    <AuthContext.Provider value={{ user, token, login, logout, logoutAll, isLoading }}>
       {children}
     </AuthContext.Provider>
   );
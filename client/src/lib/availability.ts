@@ -0,0 +1,47 @@
+import type { AvailabilitySlot, AvailabilityException } from "@shared/schema";
+import { zonedTimeToUtc, toZonedDate, addDays, getDayOfWeek } from "@shared/timezone";
+
+// Response of GET /api/mentors/:id/availability
+export type MentorAvailability = {
+  timezone: string | null;
+  slots: AvailabilitySlot[];
+  exceptions: AvailabilityException[];
+};
+
+// Response of GET /api/mentors/:id/openings
+export type MentorOpenings = {
+  configured: boolean;
+  openings: Array<{ start: string; end: string }>;
+};
+
+// Indexed by dayOfWeek (0 = Sunday)
+export const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Monday first, the way most weekly schedules are written
+export const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+/**
+ * "17:30" -> "5:30 PM"; "24:00" is shown as midnight
+ */
+export function formatTimeOfDay(time: string) {
+  const [hours, minutes] = time.split(":").map(Number);
+  if (hours === 24) return "Midnight";
+
+  const suffix = hours < 12 ? "AM" : "PM";
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, "0")} ${suffix}`;
+}
+
+/**
+ * The next time a weekly slot comes round, as instants
+ * - Resolved on its actual date, so the result follows daylight saving changes
+ *   in the slot's timezone
+ */
+export function getNextOccurrence(slot: AvailabilitySlot, now = new Date()) {
+  const today = toZonedDate(now, slot.timezone);
+  const date = addDays(today, (slot.dayOfWeek - getDayOfWeek(today) + 7) % 7);
+
+  return {
+    start: zonedTimeToUtc(date, slot.startTime, slot.timezone),
+    end: zonedTimeToUtc(date, slot.endTime, slot.timezone),
+  };
+}
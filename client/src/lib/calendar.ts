@@ -0,0 +1,27 @@
+// Response of GET /api/calendar/feed and POST /api/calendar/feed/reset
+export type CalendarFeed = { path: string };
+
+/**
+ * Subscription URLs for a feed path
+ * - webcal: opens the subscribe dialog of the default calendar app
+ */
+export function getFeedUrls(path: string) {
+  const https = new URL(path, window.location.origin).toString();
+  return { https, webcal: https.replace(/^https?:/, "webcal:") };
+}
+
+// 20261019T173000Z, the UTC form Google Calendar links take
+const toCalendarDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+/**
+ * Link that opens Google Calendar with a new event filled in
+ */
+export function getGoogleCalendarUrl(event: { title: string; start: Date; end: Date; details?: string }) {
+  const params = new URLSearchParams({
+    action: "TEMPLATE",
+    text: event.title,
+    dates: `${toCalendarDateTime(event.start)}/${toCalendarDateTime(event.end)}`,
+    ...(event.details && { details: event.details }),
+  });
+  return `https://calendar.google.com/calendar/render?${params}`;
+}
@@ -0,0 +1,194 @@
+import type { User, Profile, MentorSort, FavoriteMentor, SavedSearchFilters } from "@shared/schema";
+import { zonedTimeToUtc, addDays, daysBetween } from "@shared/timezone";
+import type { RatingSummary } from "@/lib/reviews";
+
+// A mentor as listed by GET /api/mentors; nextOpening is the start of their first opening in the next two weeks
+export type MentorListing = Omit<User, "password"> & {
+  profile?: Profile;
+  rating: RatingSummary;
+  nextOpening: string | null;
+};
+
+// Response of GET /api/mentors
+export type MentorPage = {
+  mentors: MentorListing[];
+  nextCursor: string | null;
+  total: number;
+};
+
+// A mentor from GET /api/mentors/recommended; reasons explain the match, strongest first
+export type RecommendedMentor = MentorListing & {
+  score: number;
+  reasons: string[];
+};
+
+// A mentor from GET /api/favorites
+export type FavoriteMentorListing = MentorListing & {
+  favorite: FavoriteMentor;
+};
+
+// Mentors fetched per page
+export const MENTOR_PAGE_SIZE = 12;
+
+export const SORT_OPTIONS: Array<{ value: MentorSort; label: string }> = [
+  { value: "relevance", label: "Best match" },
+  { value: "rating", label: "Highest rated" },
+  { value: "newest", label: "Newest" },
+  { value: "soonest", label: "Soonest available" },
+];
+
+// Most days the availability filter can span; one under the server's 42-day limit
+// so that a daylight saving change inside the window cannot push it over
+export const MAX_AVAILABILITY_WINDOW_DAYS = 41;
+
+// Minimum ratings offered by the filter panel
+export const RATING_OPTIONS = [3, 4, 4.5];
+
+/**
+ * Filter panel state, as kept in the /search query string
+ * - sort: one of SORT_OPTIONS, "" for the default
+ * - availableFrom/availableTo: "YYYY-MM-DD" days in the user's timezone, both inclusive
+ */
+export type MentorSearchFilters = {
+  q: string;
+  sort: string;
+  subject: string;
+  language: string;
+  minRating: string;
+  minPrice: string;
+  maxPrice: string;
+  availableFrom: string;
+  availableTo: string;
+};
+
+const FILTER_KEYS: Array<keyof MentorSearchFilters> = [
+  "q",
+  "sort",
+  "subject",
+  "language",
+  "minRating",
+  "minPrice",
+  "maxPrice",
+  "availableFrom",
+  "availableTo",
+];
+
+export const EMPTY_FILTERS: MentorSearchFilters = {
+  q: "",
+  sort: "",
+  subject: "",
+  language: "",
+  minRating: "",
+  minPrice: "",
+  maxPrice: "",
+  availableFrom: "",
+  availableTo: "",
+};
+
+/**
+ * Filters from a query string such as "q=calculus&language=English"; unknown parameters are ignored
+ */
+export function parseSearchFilters(search: string): MentorSearchFilters {
+  const params = new URLSearchParams(search);
+  const filters = { ...EMPTY_FILTERS };
+  for (const key of FILTER_KEYS) {
+    filters[key] = params.get(key) ?? "";
+  }
+  return filters;
+}
+
+/**
+ * Query string of the filters that are set, in a stable order
+ */
+export function toSearchString(filters: MentorSearchFilters): string {
+  const params = new URLSearchParams();
+  for (const key of FILTER_KEYS) {
+    if (filters[key]) params.set(key, filters[key]);
+  }
+  return params.toString();
+}
+
+export function countActiveFilters(filters: MentorSearchFilters): number {
+  return FILTER_KEYS.filter((key) => key !== "q" && key !== "sort" && filters[key]).length;
+}
+
+/**
+ * Query string for GET /api/mentors, without the page cursor
+ * - The availability days become instants in the given timezone, from the start
+ *   of the first day to the end of the last
+ * - Half-filled or out-of-range values are left out rather than sent to fail validation
+ */
+export function toApiQuery(filters: MentorSearchFilters, timeZone: string): string {
+  const params = new URLSearchParams({ limit: String(MENTOR_PAGE_SIZE) });
+  if (SORT_OPTIONS.some((option) => option.value === filters.sort)) params.set("sort", filters.sort);
+  for (const key of ["q", "subject", "language", "minRating"] as const) {
+    if (filters[key].trim()) params.set(key, filters[key].trim());
+  }
+
+  const minPrice = filters.minPrice ? Number(filters.minPrice) : undefined;
+  const maxPrice = filters.maxPrice ? Number(filters.maxPrice) : undefined;
+  const isPrice = (value?: number): value is number => value !== undefined && Number.isInteger(value) && value >= 0;
+  if (isPrice(minPrice) && (!isPrice(maxPrice) || minPrice <= maxPrice)) params.set("minPrice", String(minPrice));
+  if (isPrice(maxPrice) && (!isPrice(minPrice) || minPrice <= maxPrice)) params.set("maxPrice", String(maxPrice));
+
+  const { availableFrom, availableTo } = filters;
+  const isDate = (date: string) => /^\d{4}-\d{2}-\d{2}$/.test(date) && !Number.isNaN(Date.parse(date));
+  if (isDate(availableFrom) && isDate(availableTo)) {
+    const days = daysBetween(availableFrom, availableTo) + 1;
+    if (days >= 1 && days <= MAX_AVAILABILITY_WINDOW_DAYS) {
+      params.set("availableFrom", zonedTimeToUtc(availableFrom, "00:00", timeZone).toISOString());
+      params.set("availableTo", zonedTimeToUtc(addDays(availableTo, 1), "00:00", timeZone).toISOString());
+    }
+  }
+
+  return `?${params}`;
+}
+
+/**
+ * The filters a saved search keeps: everything but the availability days, which would soon be in the past
+ * - Values that are not valid are left out, as in toApiQuery
+ */
+export function toSavedSearchFilters(filters: MentorSearchFilters): SavedSearchFilters {
+  const params = new URLSearchParams(toApiQuery(filters, "UTC"));
+  const saved: SavedSearchFilters = {};
+  const q = params.get("q");
+  const subject = params.get("subject");
+  const language = params.get("language");
+  const minRating = params.get("minRating");
+  const minPrice = params.get("minPrice");
+  const maxPrice = params.get("maxPrice");
+  const sort = params.get("sort");
+
+  if (q) saved.q = q;
+  if (subject) saved.subject = subject;
+  if (language) saved.language = language;
+  if (minRating && !Number.isNaN(Number(minRating))) saved.minRating = Number(minRating);
+  if (minPrice) saved.minPrice = Number(minPrice);
+  if (maxPrice) saved.maxPrice = Number(maxPrice);
+  const savedSort = SORT_OPTIONS.find((option) => option.value === sort);
+  if (savedSort) saved.sort = savedSort.value;
+  return saved;
+}
+
+/**
+ * Filter panel state that re-runs a saved search
+ */
+export function fromSavedSearchFilters(saved: SavedSearchFilters): MentorSearchFilters {
+  return {
+    ...EMPTY_FILTERS,
+    q: saved.q ?? "",
+    sort: saved.sort ?? "",
+    subject: saved.subject ?? "",
+    language: saved.language ?? "",
+    minRating: saved.minRating?.toString() ?? "",
+    minPrice: saved.minPrice?.toString() ?? "",
+    maxPrice: saved.maxPrice?.toString() ?? "",
+  };
+}
+
+/**
+ * "$45/hr", or null when the mentor has not listed a rate
+ */
+export function formatHourlyRate(rate: number | null | undefined) {
+  return rate === null || rate === undefined ? null : `$${rate}/hr`;
+}
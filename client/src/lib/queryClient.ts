@@ -1,10 +1,133 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+/**
+ * Error for a non-2xx API response
+ * - data holds the parsed JSON body when there is one, e.g. `{ error, conflicts }`
+ */
+export class ApiError extends Error {
+  status: number;
+  data: any;
+
+  constructor(status: number, text: string) {
+    super(`${status}: ${text}`);
+    this.name = "ApiError";
+    this.status = status;
+    try {
+      this.data = JSON.parse(text);
+    } catch {
+      this.data = null;
+    }
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    throw new ApiError(res.status, text);
+  }
+}
+
+export type AuthTokens = { accessToken: string; refreshToken: string };
+
+type AuthListener = (tokens: AuthTokens | null) => void;
+const authListeners = new Set<AuthListener>();
+
+/**
+ * Get notified when tokens are silently renewed (tokens) or the session
+ * could not be renewed and the user has to log in again (null)
+ */
+export function subscribeToAuthChanges(listener: AuthListener): () => void {
+  authListeners.add(listener);
+  return () => {
+    authListeners.delete(listener);
+  };
+}
+
+/**
+ * How a token refresh ended
+ * - rejected: there is no refresh token or the server refused it, so the user has to log in again
+ * - failed: network or server error; the refresh token may still be good, so try again later
+ */
+export type RefreshResult = "refreshed" | "rejected" | "failed";
+
+let refreshPromise: Promise<RefreshResult> | null = null;
+
+/**
+ * Exchange the stored refresh token for a new token pair.
+ * - Concurrent callers share one request, since a refresh token can only be used once
+ * - Tabs take turns through a Web Lock; a tab that finds the stored token already
+ *   renewed by another tab adopts it instead of refreshing again
+ */
+export function refreshAccessToken(): Promise<RefreshResult> {
+  if (!refreshPromise) {
+    const seenRefreshToken = localStorage.getItem("refreshToken");
+
+    const refresh = async (): Promise<RefreshResult> => {
+      const refreshToken = localStorage.getItem("refreshToken");
+      const accessToken = localStorage.getItem("token");
+      if (!refreshToken) return "rejected";
+
+      if (refreshToken !== seenRefreshToken && accessToken) {
+        authListeners.forEach((listener) => listener({ accessToken, refreshToken }));
+        return "refreshed";
+      }
+
+      try {
+        const res = await fetch("/api/auth/refresh", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ refreshToken }),
+          credentials: "include",
+        });
+
+        if (res.status >= 500) return "failed";
+        if (!res.ok) {
+          // The refresh token was rejected, so the user has to log in again
+          if (res.status === 401) {
+            authListeners.forEach((listener) => listener(null));
+          }
+          return "rejected";
+        }
+
+        const tokens: AuthTokens = await res.json();
+        localStorage.setItem("token", tokens.accessToken);
+        localStorage.setItem("refreshToken", tokens.refreshToken);
+        authListeners.forEach((listener) => listener(tokens));
+        return "refreshed";
+      } catch {
+        return "failed";
+      }
+    };
+
+    refreshPromise = (navigator.locks ? navigator.locks.request("auth-refresh", refresh) : refresh()).finally(() => {
+      refreshPromise = null;
+    });
+  }
+
+  return refreshPromise;
+}
+
+/**
+ * fetch() with the stored access token attached.
+ * On 401 the access token is refreshed once and the request retried.
+ */
+async function fetchWithAuth(url: string, init: RequestInit = {}): Promise<Response> {
+  const send = () => {
+    const token = localStorage.getItem("token");
+    const headers: Record<string, string> = { ...(init.headers as Record<string, string>) };
+
+    if (token) {
+      headers["Authorization"] = `Bearer ${token}`;
+    }
+
+    return fetch(url, { ...init, headers, credentials: "include" });
+  };
+
+  const res = await send();
+  if (res.status === 401 && (await refreshAccessToken()) === "refreshed") {
+    return send();
   }
+  return res;
 }
 
 export async function apiRequest(
@@ -12,46 +135,46 @@ export async function apiRequest(
   url: string,
   data?: unknown | undefined,
 ): Promise<any> {
-  const token = localStorage.getItem("token");
   const headers: Record<string, string> = {};
   
-  if (token) {
-    headers["Authorization"] = `Bearer ${token}`;
-  }
-  
   if (data) {
     headers["Content-Type"] = "application/json";
   }
 
-  const res = await fetch(url, {
+  const res = await fetchWithAuth(url, {
     method,
     headers,
     body: data ? JSON.stringify(data) : undefined,
-    credentials: "include",
   });
 
   await throwIfResNotOk(res);
   return res.json();
 }
 
+/**
+ * Save an authenticated API response as a file, e.g. an .ics export
+ */
+export async function apiDownload(url: string, filename: string): Promise<void> {
+  const res = await fetchWithAuth(url);
+  await throwIfResNotOk(res);
+
+  const href = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = href;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(href), 1000);
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const token = localStorage.getItem("token");
-    const headers: Record<string, string> = {};
-    
-    if (token) {
-      headers["Authorization"] = `Bearer ${token}`;
-    }
-
     const url = queryKey.join("");
-    const res = await fetch(url, {
-      headers,
-      credentials: "include",
-    });
+    const res = await fetchWithAuth(url);
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
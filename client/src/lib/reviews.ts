@@ -0,0 +1,26 @@
+import type { Review } from "@shared/schema";
+
+// Rating attached to mentors by /api/mentors and /api/mentors/:id; average is null until reviewed
+export type RatingSummary = {
+  average: number | null;
+  count: number;
+};
+
+// A review as listed by GET /api/mentors/:id/reviews
+export type MentorReview = Review & {
+  student: { id: string; username: string } | null;
+};
+
+// Response of GET /api/mentors/:id/reviews
+export type MentorReviews = {
+  rating: RatingSummary;
+  reviews: MentorReview[];
+};
+
+/**
+ * "4.6 (12 reviews)", or "No reviews yet"
+ */
+export function formatRating(rating: RatingSummary) {
+  if (rating.average === null) return "No reviews yet";
+  return `${rating.average.toFixed(1)} (${rating.count} ${rating.count === 1 ? "review" : "reviews"})`;
+}
@@ -0,0 +1,146 @@
+import { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from "react";
+import { useAuth } from "@/lib/auth";
+import { queryClient, refreshAccessToken } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+
+// Close code the server uses for missing, invalid or expired tokens and revoked sessions (server/connectionHub.ts)
+const WS_CLOSE_UNAUTHORIZED = 4001;
+
+const RECONNECT_DELAY_MS = 3000;
+
+export type SocketEvent = { type: string; [key: string]: any };
+type SocketListener = (event: SocketEvent) => void;
+
+interface SocketContextType {
+  isConnected: boolean;
+  send: (payload: SocketEvent) => boolean;
+  subscribe: (listener: SocketListener) => () => void;
+}
+
+const SocketContext = createContext<SocketContextType | undefined>(undefined);
+
+/**
+ * Keeps one authenticated /ws connection open for the logged-in user
+ * and fans incoming events out to subscribers
+ */
+export function SocketProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [isConnected, setIsConnected] = useState(false);
+  const socketRef = useRef<WebSocket | null>(null);
+  const listenersRef = useRef(new Set<SocketListener>());
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    let disposed = false;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      const socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        socket.send(JSON.stringify({ type: "auth", token: localStorage.getItem("token") }));
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          const data: SocketEvent = JSON.parse(event.data);
+
+          if (data.type === "authenticated") {
+            setIsConnected(true);
+          }
+
+          // Conversation list and unread badges depend on both
+          if (data.type === "message" || data.type === "read") {
+            queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+          }
+
+          if (data.type === "notification") {
+            queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+            toast({ title: data.notification.title, description: data.notification.body });
+          }
+
+          listenersRef.current.forEach((listener) => listener(data));
+        } catch (error) {
+          console.error("WebSocket message error:", error);
+        }
+      };
+
+      socket.onerror = (error) => {
+        console.error("WebSocket error:", error);
+      };
+
+      socket.onclose = async (event) => {
+        setIsConnected(false);
+        if (disposed) return;
+
+        // The access token expired or was rejected: renew it before reconnecting
+        if (event.code === WS_CLOSE_UNAUTHORIZED) {
+          const refreshed = await refreshAccessToken();
+          if (disposed) return;
+          if (refreshed === "refreshed") {
+            connect();
+            return;
+          }
+          // A rejected refresh token means logging in again; a failed refresh is retried below
+          if (refreshed === "rejected") return;
+        }
+
+        reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      clearTimeout(reconnectTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, [user?.id]);
+
+  const send = useCallback((payload: SocketEvent) => {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN) return false;
+
+    socket.send(JSON.stringify(payload));
+    return true;
+  }, []);
+
+  const subscribe = useCallback((listener: SocketListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  return (
+    <SocketContext.Provider value={{ isConnected, send, subscribe }}>
+      {children}
+    </SocketContext.Provider>
+  );
+}
+
+export function useSocket() {
+  const context = useContext(SocketContext);
+  if (context === undefined) {
+    throw new Error("useSocket must be used within a SocketProvider");
+  }
+  return context;
+}
+
+/**
+ * Subscribe to socket events for the lifetime of the component
+ */
+export function useSocketEvent(listener: SocketListener) {
+  const { subscribe } = useSocket();
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => {
+    return subscribe((event) => listenerRef.current(event));
+  }, [subscribe]);
+}
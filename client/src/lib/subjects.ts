@@ -0,0 +1,41 @@
+import type { Profile, ProfileSubject, Subject, SubjectLevel } from "@shared/schema";
+
+// A profile as returned by GET /api/profile/me and POST /api/profile, with the levels of its catalog subjects
+export type ProfileWithSubjects = Profile & {
+  subjectLevels: ProfileSubject[];
+};
+
+// A catalog subject picked in the profile form
+export type PickedSubject = {
+  subjectId: string;
+  level: SubjectLevel;
+};
+
+export const SUBJECT_LEVEL_LABELS: Record<SubjectLevel, string> = {
+  beginner: "Beginner",
+  intermediate: "Intermediate",
+  advanced: "Advanced",
+};
+
+/**
+ * Names of the broader subjects above a subject, outermost first: ["Mathematics", "Calculus"] for AP Calculus
+ */
+export function getSubjectAncestors(subject: Subject, subjectsById: Map<string, Subject>): string[] {
+  const ancestors: string[] = [];
+  let parent = subject.parentId ? subjectsById.get(subject.parentId) : undefined;
+  // Bounded in case the catalog ever holds a cycle
+  while (parent && ancestors.length < 10) {
+    ancestors.unshift(parent.name);
+    parent = parent.parentId ? subjectsById.get(parent.parentId) : undefined;
+  }
+  return ancestors;
+}
+
+/**
+ * "Teaches up to Advanced" for mentors, "Learning at Beginner level" for students
+ */
+export function describeSubjectLevel(level: SubjectLevel, role: "student" | "mentor") {
+  return role === "mentor"
+    ? `Teaches up to ${SUBJECT_LEVEL_LABELS[level]}`
+    : `Learning at ${SUBJECT_LEVEL_LABELS[level]} level`;
+}
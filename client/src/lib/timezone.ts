@@ -0,0 +1,78 @@
+export function getBrowserTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string, options: Intl.DateTimeFormatOptions) {
+  const key = `${timeZone}|${JSON.stringify(options)}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(undefined, { timeZone, ...options });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+}
+
+/** "Mon, Oct 19, 2026" in the given zone */
+export function formatDateInTimeZone(date: Date | string, timeZone: string) {
+  return getFormatter(timeZone, { weekday: "short", month: "short", day: "numeric", year: "numeric" }).format(
+    new Date(date),
+  );
+}
+
+/** "Mon" in the given zone */
+export function formatWeekdayInTimeZone(date: Date | string, timeZone: string) {
+  return getFormatter(timeZone, { weekday: "short" }).format(new Date(date));
+}
+
+/** "5:30 PM" in the given zone */
+export function formatTimeInTimeZone(date: Date | string, timeZone: string) {
+  return getFormatter(timeZone, { hour: "numeric", minute: "2-digit" }).format(new Date(date));
+}
+
+/** "Mon, Oct 19, 5:30 PM" in the given zone */
+export function formatDateTimeInTimeZone(date: Date | string, timeZone: string) {
+  return getFormatter(timeZone, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(new Date(date));
+}
+
+/**
+ * Short name of the zone at the given instant, e.g. "EST" or "GMT+2"
+ * - Depends on the date because of daylight saving time
+ */
+export function getTimeZoneAbbreviation(date: Date | string, timeZone: string) {
+  const parts = getFormatter(timeZone, { timeZoneName: "short" }).formatToParts(new Date(date));
+  return parts.find((part) => part.type === "timeZoneName")?.value ?? timeZone;
+}
+
+/**
+ * Whether two zones show the same wall-clock time at the given instant
+ */
+export function isSameOffset(date: Date | string, timeZone: string, otherTimeZone: string) {
+  const options: Intl.DateTimeFormatOptions = { dateStyle: "short", timeStyle: "short" };
+  return (
+    getFormatter(timeZone, options).format(new Date(date)) ===
+    getFormatter(otherTimeZone, options).format(new Date(date))
+  );
+}
+
+/** "America/New_York" -> "America/New York" */
+export function formatTimeZoneName(timeZone: string) {
+  return timeZone.replace(/_/g, " ");
+}
+
+/**
+ * "Mon, Oct 19, 2026, 5:00 PM – 6:00 PM EDT" in the given zone
+ */
+export function formatRangeInTimeZone(start: Date | string, end: Date | string, timeZone: string) {
+  return (
+    `${formatDateInTimeZone(start, timeZone)}, ${formatTimeInTimeZone(start, timeZone)} – ` +
+    `${formatTimeInTimeZone(end, timeZone)} ${getTimeZoneAbbreviation(start, timeZone)}`
+  );
+}
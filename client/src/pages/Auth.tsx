@@ -10,6 +10,7 @@ import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/lib/auth";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { getBrowserTimeZone } from "@/lib/timezone";
 
 export default function Auth() {
   const [, setLocation] = useLocation();
@@ -31,7 +32,7 @@ export default function Auth() {
       return await apiRequest("POST", "/api/auth/login", data);
     },
     onSuccess: (data) => {
-      login(data.user, data.token);
+      login(data.user, data.token, data.refreshToken);
       toast({
         title: "Welcome back!",
         description: "You've successfully logged in.",
@@ -53,11 +54,11 @@ export default function Auth() {
   });
 
   const registerMutation = useMutation({
-    mutationFn: async (data: { username: string; email: string; password: string; role: string }) => {
+    mutationFn: async (data: { username: string; email: string; password: string; role: string; timezone: string }) => {
       return await apiRequest("POST", "/api/auth/register", data);
     },
     onSuccess: (data) => {
-      login(data.user, data.token);
+      login(data.user, data.token, data.refreshToken);
       toast({
         title: "Welcome to MentorConnect!",
         description: "Your account has been created successfully.",
@@ -95,6 +96,7 @@ export default function Auth() {
       email: registerForm.email,
       password: registerForm.password,
       role: selectedRole,
+      timezone: getBrowserTimeZone(),
     });
   };
 
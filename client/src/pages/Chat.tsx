@@ -1,6 +1,6 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useLayoutEffect, useRef } from "react";
 import { useRoute, useLocation } from "wouter";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useInfiniteQuery, type InfiniteData } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
@@ -13,87 +13,158 @@ import { ArrowLeft, Send, Loader2 } from "lucide-react";
 import { User, Message } from "@shared/schema";
 import { format } from "date-fns";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useSocket, useSocketEvent } from "@/lib/socket";
+import { usePresence, describePresence } from "@/hooks/use-presence";
+import { useTypingUsers, useTypingNotifier } from "@/hooks/use-typing";
+
+const PAGE_SIZE = 30;
+
+type MessagePage = { messages: Message[]; hasMore: boolean };
 
 export default function Chat() {
   const [, params] = useRoute("/chat/:userId");
   const [, setLocation] = useLocation();
   const { user } = useAuth();
   const { toast } = useToast();
-  const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState("");
-  const [ws, setWs] = useState<WebSocket | null>(null);
+  const { send, isConnected } = useSocket();
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const scrollHeightBeforeLoad = useRef<number | null>(null);
+
+  const partnerPresence = usePresence(params?.userId ? [params.userId] : [])[params?.userId || ""];
+  const isPartnerTyping = useTypingUsers().has(params?.userId || "");
+  const { notifyTyping, stopTyping } = useTypingNotifier(params?.userId);
+  const partnerStatus = isPartnerTyping ? "typing…" : describePresence(partnerPresence);
 
   const { data: otherUser, isLoading } = useQuery<User>({
     queryKey: ["/api/users/", params?.userId || ""],
     enabled: !!params?.userId,
   });
 
-  const { data: messageHistory, refetch } = useQuery<Message[]>({
-    queryKey: ["/api/messages/", params?.userId || ""],
+  const messagesQueryKey = ["/api/messages/", params?.userId || ""];
+
+  // Pages are fetched newest first; each one holds older messages than the previous
+  const {
+    data: history,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: messagesQueryKey,
+    queryFn: ({ pageParam }): Promise<MessagePage> => {
+      const search = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (pageParam) {
+        search.set("before", pageParam.before);
+        search.set("beforeId", pageParam.beforeId);
+      }
+      return apiRequest("GET", `/api/messages/${params?.userId}?${search}`);
+    },
+    initialPageParam: null as { before: string; beforeId: string } | null,
+    getNextPageParam: (lastPage) => {
+      const oldest = lastPage.messages[0];
+      if (!lastPage.hasMore || !oldest) return undefined;
+      return { before: new Date(oldest.timestamp).toISOString(), beforeId: oldest.id };
+    },
     enabled: !!params?.userId,
   });
 
-  useEffect(() => {
-    if (messageHistory) {
-      setMessages(messageHistory);
-    }
-  }, [messageHistory]);
+  const messages = history
+    ? [...history.pages].reverse().flatMap((page) => page.messages)
+    : [];
 
-  useEffect(() => {
-    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-    const wsUrl = `${protocol}//${window.location.host}/ws`;
-    const socket = new WebSocket(wsUrl);
+  const updateCachedMessages = (update: (pages: MessagePage[]) => MessagePage[]) => {
+    queryClient.setQueryData<InfiniteData<MessagePage>>(
+      ["/api/messages/", params?.userId || ""],
+      (data) => (data ? { ...data, pages: update(data.pages) } : data),
+    );
+  };
 
-    socket.onopen = () => {
-      if (user?.id) {
-        socket.send(JSON.stringify({ type: "join", userId: user.id }));
-      }
-    };
+  // Messages from senderId to readerId sent up to readAt are now read
+  const applyReadReceipt = (readerId: string, senderId: string, readAt: string) => {
+    updateCachedMessages((pages) =>
+      pages.map((page) => ({
+        ...page,
+        messages: page.messages.map((m) =>
+          m.senderId === senderId && m.receiverId === readerId && !m.readAt
+            ? { ...m, readAt: readAt as unknown as Date }
+            : m,
+        ),
+      })),
+    );
+  };
 
-    socket.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
-        if (data.type === "message" && data.message) {
-          const msg = data.message;
-          // Only add message if it's relevant to this conversation
-          if ((msg.senderId === params?.userId && msg.receiverId === user?.id) ||
-              (msg.senderId === user?.id && msg.receiverId === params?.userId)) {
-            setMessages((prev) => [...prev, msg]);
-            // Refetch to ensure we have all messages
-            refetch();
-          }
-        }
-      } catch (error) {
-        console.error("WebSocket message error:", error);
+  useSocketEvent((event) => {
+    const isThisConversation = (a: string, b: string) =>
+      (a === params?.userId && b === user?.id) || (a === user?.id && b === params?.userId);
+
+    if (event.type === "message" && event.message) {
+      const msg: Message = event.message;
+      // Only add message if it's relevant to this conversation
+      if (isThisConversation(msg.senderId, msg.receiverId)) {
+        // Append to the newest cached page instead of refetching the history
+        updateCachedMessages(([newest, ...older]) =>
+          newest.messages.some((m) => m.id === msg.id)
+            ? [newest, ...older]
+            : [{ ...newest, messages: [...newest.messages, msg] }, ...older],
+        );
       }
-    };
+    } else if (event.type === "read" && isThisConversation(event.readerId, event.partnerId)) {
+      applyReadReceipt(event.readerId, event.partnerId, event.readAt);
+    }
+  });
 
-    socket.onerror = (error) => {
-      console.error("WebSocket error:", error);
-      toast({
-        title: "Connection error",
-        description: "Failed to connect to messaging service",
-        variant: "destructive",
-      });
-    };
+  // Mark the conversation read whenever the partner's unread messages are on screen
+  const hasUnread = messages.some((m) => m.senderId === params?.userId && !m.readAt);
+  useEffect(() => {
+    if (!hasUnread || !params?.userId || !user) return;
 
-    setWs(socket);
+    if (!send({ type: "markRead", partnerId: params.userId })) {
+      apiRequest("POST", `/api/conversations/${params.userId}/read`)
+        .then(({ readAt }) => {
+          applyReadReceipt(user.id, params.userId, readAt);
+          queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+        })
+        .catch((error) => console.error("Failed to mark conversation read:", error));
+    }
+  }, [hasUnread, params?.userId, user?.id, isConnected]);
 
-    return () => {
-      socket.close();
-    };
-  }, [user?.id, params?.userId, refetch, toast]);
+  const lastSentMessageId = [...messages].reverse().find((m) => m.senderId === user?.id)?.id;
 
+  // Only follow the bottom when a newer message arrives, not when older pages load
+  const lastMessageId = messages[messages.length - 1]?.id;
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [lastMessageId]);
+
+  // Keep the same messages in view after older ones are prepended
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    if (container && scrollHeightBeforeLoad.current !== null) {
+      container.scrollTop += container.scrollHeight - scrollHeightBeforeLoad.current;
+      scrollHeightBeforeLoad.current = null;
+    }
+  }, [history?.pages.length]);
+
+  const handleScroll = () => {
+    const container = scrollContainerRef.current;
+    if (container && container.scrollTop < 80 && hasNextPage && !isFetchingNextPage) {
+      scrollHeightBeforeLoad.current = container.scrollHeight;
+      fetchNextPage();
+    }
+  };
 
   const handleSendMessage = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newMessage.trim() || !ws || !params?.userId || !user) return;
+    if (!newMessage.trim() || !params?.userId || !user) return;
 
-    if (ws.readyState !== WebSocket.OPEN) {
+    const message = {
+      type: "sendMessage",
+      receiverId: params.userId,
+      content: newMessage,
+    };
+
+    if (!send(message)) {
       toast({
         title: "Connection error",
         description: "WebSocket connection is not open",
@@ -102,15 +173,17 @@ export default function Chat() {
       return;
     }
 
-    const message = {
-      type: "sendMessage",
-      senderId: user.id,
-      receiverId: params.userId,
-      content: newMessage,
-    };
-
-    ws.send(JSON.stringify(message));
     setNewMessage("");
+    stopTyping();
+  };
+
+  const handleMessageChange = (value: string) => {
+    setNewMessage(value);
+    if (value.trim()) {
+      notifyTyping();
+    } else {
+      stopTyping();
+    }
   };
 
   const getInitials = (name: string) => {
@@ -153,16 +226,23 @@ export default function Chat() {
           >
             <ArrowLeft className="h-5 w-5" />
           </Button>
-          <Avatar className="h-10 w-10">
-            <AvatarFallback className="bg-primary text-primary-foreground font-semibold">
-              {getInitials(otherUser.username)}
-            </AvatarFallback>
-          </Avatar>
+          <div className="relative">
+            <Avatar className="h-10 w-10">
+              <AvatarFallback className="bg-primary text-primary-foreground font-semibold">
+                {getInitials(otherUser.username)}
+              </AvatarFallback>
+            </Avatar>
+            {partnerPresence?.online && (
+              <span className="absolute bottom-0 right-0 h-3 w-3 rounded-full bg-green-500 ring-2 ring-card" />
+            )}
+          </div>
           <div className="flex-1 min-w-0">
             <h2 className="font-semibold" data-testid="text-chat-username">
               {otherUser.username}
             </h2>
-            <p className="text-xs text-muted-foreground">{otherUser.role}</p>
+            <p className="text-xs text-muted-foreground truncate" data-testid="text-chat-status">
+              {partnerStatus ?? otherUser.role}
+            </p>
           </div>
         </div>
       </div>
@@ -178,18 +258,38 @@ export default function Chat() {
             >
               <ArrowLeft className="h-5 w-5" />
             </Button>
-            <Avatar className="h-10 w-10">
-              <AvatarFallback className="bg-primary text-primary-foreground font-semibold">
-                {getInitials(otherUser.username)}
-              </AvatarFallback>
-            </Avatar>
+            <div className="relative">
+              <Avatar className="h-10 w-10">
+                <AvatarFallback className="bg-primary text-primary-foreground font-semibold">
+                  {getInitials(otherUser.username)}
+                </AvatarFallback>
+              </Avatar>
+              {partnerPresence?.online && (
+                <span
+                  className="absolute bottom-0 right-0 h-3 w-3 rounded-full bg-green-500 ring-2 ring-background"
+                  data-testid="status-online"
+                />
+              )}
+            </div>
             <div>
               <h2 className="font-semibold">{otherUser.username}</h2>
-              <p className="text-sm text-muted-foreground capitalize">{otherUser.role}</p>
+              <p className="text-sm text-muted-foreground">
+                <span className="capitalize">{otherUser.role}</span>
+                {partnerStatus && ` · ${partnerStatus}`}
+              </p>
             </div>
           </div>
 
-          <div className="flex-1 overflow-y-auto p-4 md:p-6 space-y-4">
+          <div
+            ref={scrollContainerRef}
+            onScroll={handleScroll}
+            className="flex-1 overflow-y-auto p-4 md:p-6 space-y-4"
+          >
+            {isFetchingNextPage && (
+              <div className="flex justify-center" data-testid="loader-older-messages">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            )}
             {messages.length === 0 ? (
               <div className="text-center py-16">
                 <p className="text-muted-foreground">No messages yet. Start the conversation!</p>
@@ -199,7 +299,7 @@ export default function Chat() {
                 const isSent = msg.senderId === user?.id;
                 return (
                   <div
-                    key={idx}
+                    key={msg.id}
                     className={`flex ${isSent ? "justify-end" : "justify-start"}`}
                     data-testid={`message-${idx}`}
                   >
@@ -215,6 +315,11 @@ export default function Chat() {
                       </Card>
                       <span className="text-xs text-muted-foreground px-2">
                         {format(new Date(msg.timestamp), "p")}
+                        {msg.id === lastSentMessageId && (
+                          <span data-testid="text-read-receipt">
+                            {msg.readAt ? " · Read" : " · Sent"}
+                          </span>
+                        )}
                       </span>
                     </div>
                   </div>
@@ -228,7 +333,7 @@ export default function Chat() {
             <form onSubmit={handleSendMessage} className="flex gap-2">
               <Input
                 value={newMessage}
-                onChange={(e) => setNewMessage(e.target.value)}
+                onChange={(e) => handleMessageChange(e.target.value)}
                 placeholder="Type a message..."
                 className="flex-1"
                 data-testid="input-message"
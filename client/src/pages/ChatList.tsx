@@ -5,17 +5,36 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { DesktopNav } from "@/components/navigation/DesktopNav";
 import { MobileNav } from "@/components/navigation/MobileNav";
 import { useAuth } from "@/lib/auth";
+import { usePresence, describePresence } from "@/hooks/use-presence";
+import { useTypingUsers } from "@/hooks/use-typing";
+import { Badge } from "@/components/ui/badge";
 import { Loader2, MessageCircle } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
 import { User } from "@shared/schema";
 
+type Conversation = {
+  partner: Omit<User, "password">;
+  lastMessage: {
+    id: string;
+    senderId: string;
+    snippet: string;
+    timestamp: string;
+    readAt: string | null;
+  };
+  unreadCount: number;
+};
+
 export default function ChatList() {
   const { user } = useAuth();
   const [, setLocation] = useLocation();
 
-  const { data: conversations, isLoading } = useQuery<User[]>({
+  const { data: conversations, isLoading } = useQuery<Conversation[]>({
     queryKey: ["/api/conversations"],
   });
 
+  const presence = usePresence(conversations?.map((c) => c.partner.id) ?? []);
+  const typingUsers = useTypingUsers();
+
   const getInitials = (name: string) => {
     return name.split(" ").map(n => n[0]).join("").toUpperCase().slice(0, 2);
   };
@@ -38,28 +57,56 @@ export default function ChatList() {
           </div>
         ) : conversations && conversations.length > 0 ? (
           <div className="space-y-3">
-            {conversations.map((contact) => (
+            {conversations.map(({ partner, lastMessage, unreadCount }) => (
               <Card
-                key={contact.id}
+                key={partner.id}
                 className="hover-elevate cursor-pointer transition-all duration-200"
-                onClick={() => setLocation(`/chat/${contact.id}`)}
-                data-testid={`card-chat-${contact.id}`}
+                onClick={() => setLocation(`/chat/${partner.id}`)}
+                data-testid={`card-chat-${partner.id}`}
               >
                 <CardContent className="p-4">
                   <div className="flex items-center gap-4">
-                    <Avatar className="h-12 w-12">
-                      <AvatarFallback className="bg-primary text-primary-foreground font-semibold">
-                        {getInitials(contact.username)}
-                      </AvatarFallback>
-                    </Avatar>
+                    <div className="relative" title={describePresence(presence[partner.id]) ?? undefined}>
+                      <Avatar className="h-12 w-12">
+                        <AvatarFallback className="bg-primary text-primary-foreground font-semibold">
+                          {getInitials(partner.username)}
+                        </AvatarFallback>
+                      </Avatar>
+                      {presence[partner.id]?.online && (
+                        <span
+                          className="absolute bottom-0 right-0 h-3.5 w-3.5 rounded-full bg-green-500 ring-2 ring-card"
+                          data-testid={`status-online-${partner.id}`}
+                        />
+                      )}
+                    </div>
                     <div className="flex-1 min-w-0">
-                      <h3 className="font-semibold text-lg" data-testid={`text-chat-user-${contact.id}`}>
-                        {contact.username}
-                      </h3>
-                      <p className="text-sm text-muted-foreground truncate">
-                        {contact.email}
-                      </p>
+                      <div className="flex items-baseline justify-between gap-2">
+                        <h3 className="font-semibold text-lg truncate" data-testid={`text-chat-user-${partner.id}`}>
+                          {partner.username}
+                        </h3>
+                        <span className="text-xs text-muted-foreground shrink-0" data-testid={`text-chat-time-${partner.id}`}>
+                          {formatDistanceToNow(new Date(lastMessage.timestamp), { addSuffix: true })}
+                        </span>
+                      </div>
+                      {typingUsers.has(partner.id) ? (
+                        <p className="text-sm italic text-primary truncate" data-testid={`text-chat-typing-${partner.id}`}>
+                          typing…
+                        </p>
+                      ) : (
+                        <p
+                          className={`text-sm truncate ${unreadCount > 0 ? "font-medium text-foreground" : "text-muted-foreground"}`}
+                          data-testid={`text-chat-snippet-${partner.id}`}
+                        >
+                          {lastMessage.senderId === user?.id && "You: "}
+                          {lastMessage.snippet}
+                        </p>
+                      )}
                     </div>
+                    {unreadCount > 0 && (
+                      <Badge data-testid={`badge-unread-${partner.id}`}>
+                        {unreadCount}
+                      </Badge>
+                    )}
                   </div>
                 </CardContent>
               </Card>
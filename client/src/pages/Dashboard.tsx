@@ -7,11 +7,24 @@ import { DesktopNav } from "@/components/navigation/DesktopNav";
 import { MobileNav } from "@/components/navigation/MobileNav";
 import { useAuth } from "@/lib/auth";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient, ApiError } from "@/lib/queryClient";
 import { Loader2, Calendar } from "lucide-react";
-import { Session, User } from "@shared/schema";
+import {
+  Session,
+  SessionReschedule,
+  User,
+  type Review,
+  type RescheduleScope,
+  type SeriesFrequency,
+} from "@shared/schema";
 
-type SessionWithUsers = Session & { student?: User; mentor?: User };
+type SessionWithUsers = Session & {
+  student?: User & { timezone: string | null };
+  mentor?: User & { timezone: string | null };
+  pendingReschedule: SessionReschedule | null;
+  series: { id: string; frequency: SeriesFrequency; occurrence: number; occurrences: number } | null;
+  review: Review | null;
+};
 
 export default function Dashboard() {
   const { user } = useAuth();
@@ -43,9 +56,32 @@ export default function Dashboard() {
     },
   });
 
+  const confirmSeriesMutation = useMutation({
+    mutationFn: async (seriesId: string) => {
+      return await apiRequest("PUT", `/api/series/${seriesId}/confirm`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions/me"] });
+      toast({
+        title: "Series confirmed",
+        description: "All upcoming sessions in the series have been confirmed.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to confirm",
+        description:
+          error instanceof ApiError && error.data?.error
+            ? error.data.error
+            : "Could not confirm the series. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const cancelMutation = useMutation({
-    mutationFn: async (sessionId: string) => {
-      return await apiRequest("PUT", `/api/sessions/${sessionId}/cancel`, {});
+    mutationFn: async ({ sessionId, reason }: { sessionId: string; reason?: string }) => {
+      return await apiRequest("PUT", `/api/sessions/${sessionId}/cancel`, { reason });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/sessions/me"] });
@@ -63,12 +99,192 @@ export default function Dashboard() {
     },
   });
 
+  const cancelSeriesMutation = useMutation({
+    mutationFn: async ({ seriesId, reason }: { seriesId: string; reason?: string }) => {
+      return await apiRequest("PUT", `/api/series/${seriesId}/cancel`, { reason });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions/me"] });
+      toast({
+        title: "Series cancelled",
+        description: "All upcoming sessions in the series have been cancelled.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to cancel",
+        description:
+          error instanceof ApiError && error.data?.error
+            ? error.data.error
+            : "Could not cancel the series. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const declineMutation = useMutation({
+    mutationFn: async ({ sessionId, reason }: { sessionId: string; reason: string }) => {
+      return await apiRequest("PUT", `/api/sessions/${sessionId}/decline`, { reason });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions/me"] });
+      toast({
+        title: "Request declined",
+        description: "The student will see your reason on the session.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to decline",
+        description: "Could not decline the session. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const completeMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      return await apiRequest("PUT", `/api/sessions/${sessionId}/complete`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions/me"] });
+      toast({
+        title: "Session completed",
+        description: "The session has been marked as completed.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to complete",
+        description: "Could not mark the session as completed. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const noShowMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      return await apiRequest("PUT", `/api/sessions/${sessionId}/no-show`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions/me"] });
+      toast({
+        title: "No-show recorded",
+        description: "The session has been marked as a no-show.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to update",
+        description: "Could not record the no-show. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rescheduleMutation = useMutation({
+    mutationFn: async ({
+      sessionId,
+      scheduledTime,
+      scope,
+    }: {
+      sessionId: string;
+      scheduledTime: string;
+      scope: RescheduleScope;
+    }) => {
+      return await apiRequest("POST", `/api/sessions/${sessionId}/reschedule`, { scheduledTime, scope });
+    },
+    onSuccess: (_data, { scope }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions/me"] });
+      toast({
+        title: "New time proposed",
+        description:
+          scope === "series"
+            ? "The sessions will move once the other participant accepts."
+            : "The session will move once the other participant accepts.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to propose",
+        description:
+          error instanceof ApiError && error.data?.error
+            ? error.data.error
+            : "Could not propose a new time. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const respondRescheduleMutation = useMutation({
+    mutationFn: async ({ sessionId, proposalId, accept }: { sessionId: string; proposalId: string; accept: boolean }) => {
+      const answer = accept ? "accept" : "reject";
+      return await apiRequest("PUT", `/api/sessions/${sessionId}/reschedules/${proposalId}/${answer}`, {});
+    },
+    onSuccess: (_data, { accept }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions/me"] });
+      toast({
+        title: accept ? "Session rescheduled" : "Proposal rejected",
+        description: accept
+          ? "The session has been moved to the new time."
+          : "The session keeps its original time.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to respond",
+        description:
+          error instanceof ApiError && error.data?.error
+            ? error.data.error
+            : "Could not answer the proposal. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ sessionId, rating, comment }: { sessionId: string; rating: number; comment: string }) => {
+      return await apiRequest("POST", `/api/sessions/${sessionId}/review`, { rating, comment });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions/me"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/mentors"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/mentors/"] });
+      toast({
+        title: "Review posted",
+        description: "Thanks! Your review helps other students choose a mentor.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to post review",
+        description:
+          error instanceof ApiError && error.data?.error
+            ? error.data.error
+            : "Could not post your review. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isUpdating =
+    confirmMutation.isPending ||
+    confirmSeriesMutation.isPending ||
+    cancelMutation.isPending ||
+    cancelSeriesMutation.isPending ||
+    declineMutation.isPending ||
+    completeMutation.isPending ||
+    noShowMutation.isPending ||
+    rescheduleMutation.isPending ||
+    respondRescheduleMutation.isPending ||
+    reviewMutation.isPending;
+
   const upcomingSessions = sessions?.filter(
     (s) => s.status === "pending" || s.status === "confirmed"
   ) || [];
 
   const pastSessions = sessions?.filter(
-    (s) => s.status === "completed" || s.status === "cancelled"
+    (s) => s.status !== "pending" && s.status !== "confirmed"
   ) || [];
 
   const handleChat = (userId: string) => {
@@ -112,9 +328,20 @@ export default function Dashboard() {
                     session={session}
                     currentUserId={user?.id || ""}
                     onConfirm={confirmMutation.mutate}
-                    onCancel={cancelMutation.mutate}
+                    onConfirmSeries={confirmSeriesMutation.mutate}
+                    onCancel={(sessionId, reason) => cancelMutation.mutate({ sessionId, reason })}
+                    onCancelSeries={(seriesId, reason) => cancelSeriesMutation.mutate({ seriesId, reason })}
+                    onDecline={(sessionId, reason) => declineMutation.mutate({ sessionId, reason })}
+                    onComplete={completeMutation.mutate}
+                    onNoShow={noShowMutation.mutate}
+                    onProposeReschedule={(sessionId, scheduledTime, scope) =>
+                      rescheduleMutation.mutate({ sessionId, scheduledTime, scope })
+                    }
+                    onRespondReschedule={(sessionId, proposalId, accept) =>
+                      respondRescheduleMutation.mutate({ sessionId, proposalId, accept })
+                    }
                     onChat={handleChat}
-                    isLoading={confirmMutation.isPending || cancelMutation.isPending}
+                    isLoading={isUpdating}
                   />
                 ))}
               </div>
@@ -145,7 +372,9 @@ export default function Dashboard() {
                     key={session.id}
                     session={session}
                     currentUserId={user?.id || ""}
+                    onReview={(sessionId, rating, comment) => reviewMutation.mutate({ sessionId, rating, comment })}
                     onChat={handleChat}
+                    isLoading={isUpdating}
                   />
                 ))}
               </div>
@@ -156,7 +385,7 @@ export default function Dashboard() {
                 </div>
                 <h3 className="text-xl font-semibold mb-2">No past sessions</h3>
                 <p className="text-muted-foreground">
-                  Your completed and cancelled sessions will appear here
+                  Your completed, cancelled and declined sessions will appear here
                 </p>
               </div>
             )}
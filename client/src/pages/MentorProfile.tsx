@@ -9,48 +9,130 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { SlotPicker } from "@/components/SlotPicker";
+import { StarRating } from "@/components/StarRating";
+import { FavoriteButton } from "@/components/FavoriteButton";
+import { MentorReviewList } from "@/components/MentorReviewList";
 import { DesktopNav } from "@/components/navigation/DesktopNav";
 import { MobileNav } from "@/components/navigation/MobileNav";
 import { useAuth } from "@/lib/auth";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import { ArrowLeft, Clock, Calendar, Loader2, MessageCircle } from "lucide-react";
-import { User, Profile } from "@shared/schema";
+import { apiRequest, queryClient, ApiError } from "@/lib/queryClient";
+import {
+  type MentorAvailability,
+  DAY_NAMES,
+  WEEK_ORDER,
+  formatTimeOfDay,
+  getNextOccurrence,
+} from "@/lib/availability";
+import {
+  formatDateInTimeZone,
+  formatTimeInTimeZone,
+  formatTimeZoneName,
+  formatWeekdayInTimeZone,
+  getTimeZoneAbbreviation,
+  isSameOffset,
+} from "@/lib/timezone";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { useSubjects } from "@/hooks/use-subjects";
+import { type RatingSummary, formatRating } from "@/lib/reviews";
+import { formatHourlyRate } from "@/lib/mentorSearch";
+import { SUBJECT_LEVEL_LABELS, describeSubjectLevel } from "@/lib/subjects";
+import { ArrowLeft, Clock, Calendar, Loader2, MessageCircle, AlertCircle } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { User, Profile, type ProfileSubject, type SeriesFrequency, MAX_SERIES_OCCURRENCES } from "@shared/schema";
+import { toZonedDate } from "@shared/timezone";
 
-type MentorWithProfile = User & { profile?: Profile };
+type MentorWithProfile = User & { profile?: Profile; subjectLevels?: ProfileSubject[]; rating?: RatingSummary };
+
+// Overlap reported by POST /api/sessions/book or /api/series with a 409; series tag the clashing occurrence
+type BookingConflict = { participant: "mentor" | "student"; start: string; end: string; occurrence?: number };
+
+const DURATION_OPTIONS = [30, 45, 60, 90, 120];
+
+const EMPTY_BOOKING_FORM = {
+  subject: "",
+  scheduledTime: "",
+  durationMinutes: "60",
+  message: "",
+  repeat: "none" as "none" | SeriesFrequency,
+  ends: "after" as "after" | "on",
+  occurrences: "4",
+  until: "",
+};
 
 export default function MentorProfile() {
   const [, params] = useRoute("/mentor/:id");
   const [, setLocation] = useLocation();
   const { user } = useAuth();
   const { toast } = useToast();
+  const timeZone = useTimeZone();
   const [isBookingOpen, setIsBookingOpen] = useState(false);
-  const [bookingForm, setBookingForm] = useState({
-    subject: "",
-    scheduledTime: "",
-    message: "",
-  });
+  const [bookingForm, setBookingForm] = useState(EMPTY_BOOKING_FORM);
+  const [bookingError, setBookingError] = useState<string | null>(null);
+  const [bookingConflicts, setBookingConflicts] = useState<BookingConflict[]>([]);
+
+  const updateBookingForm = (changes: Partial<typeof bookingForm>) => {
+    setBookingForm({ ...bookingForm, ...changes });
+    setBookingError(null);
+    setBookingConflicts([]);
+  };
 
   const { data: mentor, isLoading } = useQuery<MentorWithProfile>({
     queryKey: ["/api/mentors/", params?.id || ""],
     enabled: !!params?.id,
   });
 
+  const { data: availability } = useQuery<MentorAvailability>({
+    queryKey: ["/api/mentors/", params?.id || "", "/availability"],
+    enabled: !!params?.id,
+  });
+  const timeOff = availability?.exceptions.filter((exception) => exception.kind === "unavailable") ?? [];
+
+  // Level the mentor teaches a subject up to; none for free text from before the catalog
+  const { subjects: catalog } = useSubjects();
+  const getSubjectLevel = (name: string) => {
+    const subject = catalog.find((candidate) => candidate.name === name);
+    return mentor?.subjectLevels?.find((entry) => entry.subjectId === subject?.id)?.level;
+  };
+
   const bookSessionMutation = useMutation({
-    mutationFn: async (data: { mentorId: string; subject: string; scheduledTime: string }) => {
-      return await apiRequest("POST", "/api/sessions/book", data);
+    mutationFn: async (data: {
+      mentorId: string;
+      subject: string;
+      scheduledTime: string;
+      durationMinutes: number;
+      timezone: string;
+      frequency?: SeriesFrequency;
+      occurrences?: number;
+      until?: string;
+    }) => {
+      return await apiRequest("POST", data.frequency ? "/api/series" : "/api/sessions/book", data);
     },
-    onSuccess: () => {
+    onSuccess: (_data, { frequency }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/sessions/me"] });
       setIsBookingOpen(false);
-      setBookingForm({ subject: "", scheduledTime: "", message: "" });
+      setBookingForm(EMPTY_BOOKING_FORM);
       toast({
-        title: "Session booked!",
-        description: "Your session request has been sent to the mentor.",
+        title: frequency ? "Sessions booked!" : "Session booked!",
+        description: frequency
+          ? "Your recurring session requests have been sent to the mentor."
+          : "Your session request has been sent to the mentor.",
       });
       setLocation("/dashboard");
     },
-    onError: () => {
+    onError: (error) => {
+      // Conflicts and validation problems are shown inside the dialog so the time can be changed
+      if (error instanceof ApiError && (error.status === 409 || error.status === 400) && error.data?.error) {
+        // The picked opening may have just been taken
+        queryClient.invalidateQueries({ queryKey: ["/api/mentors/", params?.id || ""] });
+        setBookingError(error.data.error);
+        setBookingConflicts(error.data.conflicts ?? []);
+        return;
+      }
+
       toast({
         title: "Booking failed",
         description: "Failed to book session. Please try again.",
@@ -61,15 +143,27 @@ export default function MentorProfile() {
 
   const handleBookSession = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!params?.id) return;
+    if (!params?.id || !bookingForm.scheduledTime) return;
     
     bookSessionMutation.mutate({
       mentorId: params.id,
       subject: bookingForm.subject,
-      scheduledTime: new Date(bookingForm.scheduledTime).toISOString(),
+      scheduledTime: bookingForm.scheduledTime,
+      durationMinutes: Number(bookingForm.durationMinutes),
+      timezone: timeZone,
+      ...(bookingForm.repeat !== "none" && {
+        frequency: bookingForm.repeat,
+        ...(bookingForm.ends === "after"
+          ? { occurrences: Number(bookingForm.occurrences) }
+          : { until: bookingForm.until }),
+      }),
     });
   };
 
+  const isRepeating = bookingForm.repeat !== "none";
+  const isBookingComplete =
+    !!bookingForm.scheduledTime && (!isRepeating || bookingForm.ends === "after" || !!bookingForm.until);
+
   const getInitials = (name: string) => {
     return name.split(" ").map(n => n[0]).join("").toUpperCase().slice(0, 2);
   };
@@ -120,15 +214,45 @@ export default function MentorProfile() {
                     {getInitials(mentor.username)}
                   </AvatarFallback>
                 </Avatar>
-                <h2 className="text-2xl font-bold mb-2" data-testid="text-mentor-name">
-                  {mentor.username}
-                </h2>
+                <div className="flex items-center gap-1 mb-2">
+                  <h2 className="text-2xl font-bold" data-testid="text-mentor-name">
+                    {mentor.username}
+                  </h2>
+                  <FavoriteButton mentorId={mentor.id} />
+                </div>
                 <p className="text-sm text-muted-foreground mb-4">{mentor.email}</p>
+                {mentor.rating && (
+                  <div className="flex items-center gap-2 mb-4" data-testid="text-mentor-rating">
+                    {mentor.rating.average !== null && <StarRating value={mentor.rating.average} />}
+                    <span className="text-sm text-muted-foreground">{formatRating(mentor.rating)}</span>
+                  </div>
+                )}
+                {(formatHourlyRate(mentor.profile?.hourlyRate) || !!mentor.profile?.languages?.length) && (
+                  <div className="text-sm mb-4 space-y-1">
+                    {formatHourlyRate(mentor.profile?.hourlyRate) && (
+                      <p className="font-medium" data-testid="text-mentor-rate">
+                        {formatHourlyRate(mentor.profile?.hourlyRate)}
+                      </p>
+                    )}
+                    {mentor.profile?.languages && mentor.profile.languages.length > 0 && (
+                      <p className="text-muted-foreground" data-testid="text-mentor-languages">
+                        Speaks {mentor.profile.languages.join(", ")}
+                      </p>
+                    )}
+                  </div>
+                )}
                 <Badge className="mb-6" data-testid="badge-role">Mentor</Badge>
 
                 {user?.role === "student" && (
                   <div className="w-full space-y-3">
-                    <Dialog open={isBookingOpen} onOpenChange={setIsBookingOpen}>
+                    <Dialog
+                      open={isBookingOpen}
+                      onOpenChange={(open) => {
+                        setIsBookingOpen(open);
+                        setBookingError(null);
+                        setBookingConflicts([]);
+                      }}
+                    >
                       <DialogTrigger asChild>
                         <Button className="w-full gap-2" data-testid="button-book-session">
                           <Calendar className="h-4 w-4" />
@@ -146,43 +270,147 @@ export default function MentorProfile() {
                               id="subject"
                               placeholder="e.g., Math, Physics..."
                               value={bookingForm.subject}
-                              onChange={(e) =>
-                                setBookingForm({ ...bookingForm, subject: e.target.value })
-                              }
+                              onChange={(e) => updateBookingForm({ subject: e.target.value })}
                               required
                               data-testid="input-session-subject"
                             />
                           </div>
                           <div className="space-y-2">
-                            <Label htmlFor="scheduledTime">Date & Time</Label>
-                            <Input
-                              id="scheduledTime"
-                              type="datetime-local"
+                            <Label htmlFor="durationMinutes">Duration</Label>
+                            {/* Openings depend on the length, so a picked time no longer applies */}
+                            <Select
+                              value={bookingForm.durationMinutes}
+                              onValueChange={(value) => updateBookingForm({ durationMinutes: value, scheduledTime: "" })}
+                            >
+                              <SelectTrigger id="durationMinutes" data-testid="select-session-duration">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {DURATION_OPTIONS.map((minutes) => (
+                                  <SelectItem key={minutes} value={String(minutes)}>
+                                    {minutes} min
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="space-y-2">
+                            <Label>Date & Time</Label>
+                            <SlotPicker
+                              mentorId={mentor.id}
+                              durationMinutes={Number(bookingForm.durationMinutes)}
                               value={bookingForm.scheduledTime}
-                              onChange={(e) =>
-                                setBookingForm({ ...bookingForm, scheduledTime: e.target.value })
-                              }
-                              required
-                              data-testid="input-session-time"
+                              onChange={(scheduledTime) => updateBookingForm({ scheduledTime })}
                             />
                           </div>
+                          <div className="grid grid-cols-2 gap-3">
+                            <div className="space-y-2">
+                              <Label htmlFor="repeat">Repeat</Label>
+                              <Select
+                                value={bookingForm.repeat}
+                                onValueChange={(value) => updateBookingForm({ repeat: value as typeof bookingForm.repeat })}
+                              >
+                                <SelectTrigger id="repeat" data-testid="select-session-repeat">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="none">Does not repeat</SelectItem>
+                                  <SelectItem value="weekly">Every week</SelectItem>
+                                  <SelectItem value="biweekly">Every 2 weeks</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </div>
+                            {isRepeating && (
+                              <div className="space-y-2">
+                                <Label htmlFor="ends">Ends</Label>
+                                <Select
+                                  value={bookingForm.ends}
+                                  onValueChange={(value) => updateBookingForm({ ends: value as typeof bookingForm.ends })}
+                                >
+                                  <SelectTrigger id="ends" data-testid="select-series-ends">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value="after">After a number of sessions</SelectItem>
+                                    <SelectItem value="on">On a date</SelectItem>
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                            )}
+                          </div>
+                          {isRepeating && (
+                            <div className="space-y-2">
+                              {bookingForm.ends === "after" ? (
+                                <>
+                                  <Label htmlFor="occurrences">Number of sessions</Label>
+                                  <Input
+                                    id="occurrences"
+                                    type="number"
+                                    min={2}
+                                    max={MAX_SERIES_OCCURRENCES}
+                                    value={bookingForm.occurrences}
+                                    onChange={(e) => updateBookingForm({ occurrences: e.target.value })}
+                                    required
+                                    data-testid="input-series-occurrences"
+                                  />
+                                </>
+                              ) : (
+                                <>
+                                  <Label htmlFor="until">Last date</Label>
+                                  <Input
+                                    id="until"
+                                    type="date"
+                                    min={bookingForm.scheduledTime ? toZonedDate(new Date(bookingForm.scheduledTime), timeZone) : undefined}
+                                    value={bookingForm.until}
+                                    onChange={(e) => updateBookingForm({ until: e.target.value })}
+                                    required
+                                    data-testid="input-series-until"
+                                  />
+                                </>
+                              )}
+                              <p className="text-xs text-muted-foreground">
+                                Every session is checked against both calendars; if one clashes, nothing is booked.
+                              </p>
+                            </div>
+                          )}
                           <div className="space-y-2">
                             <Label htmlFor="message">Message (Optional)</Label>
                             <Textarea
                               id="message"
                               placeholder="What would you like to learn?"
                               value={bookingForm.message}
-                              onChange={(e) =>
-                                setBookingForm({ ...bookingForm, message: e.target.value })
-                              }
+                              onChange={(e) => updateBookingForm({ message: e.target.value })}
                               rows={3}
                               data-testid="input-session-message"
                             />
                           </div>
+                          {bookingError && (
+                            <Alert variant="destructive" data-testid="alert-booking-error">
+                              <AlertCircle className="h-4 w-4" />
+                              <AlertTitle>{bookingError}</AlertTitle>
+                              {bookingConflicts.length > 0 && (
+                                <AlertDescription>
+                                  <ul className="mt-1 space-y-1">
+                                    {bookingConflicts.map((conflict) => (
+                                      <li key={`${conflict.occurrence ?? 0}-${conflict.participant}-${conflict.start}`}>
+                                        {conflict.occurrence && `Session ${conflict.occurrence}: `}
+                                        {conflict.participant === "mentor"
+                                          ? `${mentor.username} is busy`
+                                          : "You already have a session"}{" "}
+                                        {formatDateInTimeZone(conflict.start, timeZone)},{" "}
+                                        {formatTimeInTimeZone(conflict.start, timeZone)} –{" "}
+                                        {formatTimeInTimeZone(conflict.end, timeZone)}
+                                      </li>
+                                    ))}
+                                  </ul>
+                                </AlertDescription>
+                              )}
+                            </Alert>
+                          )}
                           <Button
                             type="submit"
                             className="w-full"
-                            disabled={bookSessionMutation.isPending}
+                            disabled={bookSessionMutation.isPending || !isBookingComplete}
                             data-testid="button-submit-booking"
                           >
                             {bookSessionMutation.isPending ? "Booking..." : "Confirm Booking"}
@@ -221,11 +449,20 @@ export default function MentorProfile() {
                 <h3 className="text-xl font-semibold mb-4">Subjects</h3>
                 {mentor.profile?.subjects && mentor.profile.subjects.length > 0 ? (
                   <div className="flex flex-wrap gap-2">
-                    {mentor.profile.subjects.map((subject) => (
-                      <Badge key={subject} variant="secondary" className="text-sm">
-                        {subject}
-                      </Badge>
-                    ))}
+                    {mentor.profile.subjects.map((subject) => {
+                      const level = getSubjectLevel(subject);
+                      return (
+                        <Badge
+                          key={subject}
+                          variant="secondary"
+                          className="text-sm"
+                          title={level ? describeSubjectLevel(level, "mentor") : undefined}
+                        >
+                          {subject}
+                          {level && <span className="ml-1 font-normal text-muted-foreground">· {SUBJECT_LEVEL_LABELS[level]}</span>}
+                        </Badge>
+                      );
+                    })}
                   </div>
                 ) : (
                   <p className="text-muted-foreground">No subjects specified</p>
@@ -236,12 +473,69 @@ export default function MentorProfile() {
             <Card>
               <CardContent className="p-6">
                 <h3 className="text-xl font-semibold mb-4">Availability</h3>
-                <div className="flex items-center gap-2 text-muted-foreground">
-                  <Clock className="h-5 w-5" />
-                  <span>{mentor.profile?.availability || "Not specified"}</span>
-                </div>
+                {availability && availability.slots.length > 0 ? (
+                  <div className="space-y-4">
+                    <div className="space-y-2" data-testid="list-weekly-availability">
+                      {WEEK_ORDER.map((dayOfWeek) => {
+                        const daySlots = availability.slots.filter((slot) => slot.dayOfWeek === dayOfWeek);
+                        return (
+                          <div key={dayOfWeek} className="flex gap-4 text-sm">
+                            <span className="w-28 font-medium shrink-0">{DAY_NAMES[dayOfWeek]}</span>
+                            <div className="text-muted-foreground">
+                              {daySlots.length === 0 && "Unavailable"}
+                              {daySlots.map((slot) => {
+                                const next = getNextOccurrence(slot);
+                                return (
+                                  <p key={slot.id}>
+                                    {formatTimeOfDay(slot.startTime)} – {formatTimeOfDay(slot.endTime)}
+                                    {!isSameOffset(next.start, timeZone, slot.timezone) && (
+                                      <span className="text-xs">
+                                        {" "}
+                                        ({formatWeekdayInTimeZone(next.start, timeZone)}{" "}
+                                        {formatTimeInTimeZone(next.start, timeZone)} –{" "}
+                                        {formatTimeInTimeZone(next.end, timeZone)}{" "}
+                                        {getTimeZoneAbbreviation(next.start, timeZone)})
+                                      </span>
+                                    )}
+                                  </p>
+                                );
+                              })}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                    <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <Clock className="h-4 w-4" />
+                      Times in {formatTimeZoneName(availability.timezone ?? "UTC")}
+                    </p>
+                    {timeOff.length > 0 && (
+                      <div className="text-sm">
+                        <p className="font-medium mb-1">Upcoming time off</p>
+                        <ul className="space-y-1 text-muted-foreground">
+                          {timeOff.map((exception) => (
+                            <li key={exception.id}>
+                              {format(parseISO(exception.date), "EEE, MMM d")}
+                              {exception.startTime && exception.endTime
+                                ? `, ${formatTimeOfDay(exception.startTime)} – ${formatTimeOfDay(exception.endTime)}`
+                                : ""}
+                              {exception.note ? ` (${exception.note})` : ""}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2 text-muted-foreground">
+                    <Clock className="h-5 w-5" />
+                    <span>This mentor hasn't set their weekly hours yet.</span>
+                  </div>
+                )}
               </CardContent>
             </Card>
+
+            <MentorReviewList mentorId={mentor.id} />
           </div>
         </div>
       </main>
@@ -1,22 +1,229 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useState, useEffect, useRef } from "react";
+import { useLocation, useSearch } from "wouter";
+import { useInfiniteQuery, keepPreviousData } from "@tanstack/react-query";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
 import { MentorCard } from "@/components/MentorCard";
+import { MentorFilterPanel } from "@/components/MentorFilterPanel";
+import { RecommendedMentors } from "@/components/RecommendedMentors";
+import { FavoriteMentorList } from "@/components/FavoriteMentorList";
+import { SavedSearchMenu } from "@/components/SavedSearchMenu";
 import { DesktopNav } from "@/components/navigation/DesktopNav";
 import { MobileNav } from "@/components/navigation/MobileNav";
-import { Search, Loader2 } from "lucide-react";
-import { User, Profile } from "@shared/schema";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { useFavorites } from "@/hooks/use-favorites";
+import { useAuth } from "@/lib/auth";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  type MentorPage,
+  type MentorSearchFilters,
+  SORT_OPTIONS,
+  MENTOR_PAGE_SIZE,
+  EMPTY_FILTERS,
+  parseSearchFilters,
+  toSearchString,
+  toApiQuery,
+  countActiveFilters,
+} from "@/lib/mentorSearch";
+import { Search, Loader2, SlidersHorizontal, Heart } from "lucide-react";
 
-type MentorWithProfile = User & { profile?: Profile };
+// Browsers without IntersectionObserver page through results with the pagination bar instead of scrolling
+const canScrollInfinitely = typeof IntersectionObserver !== "undefined";
 
 export default function MentorSearch() {
-  const [searchQuery, setSearchQuery] = useState("");
+  const [, setLocation] = useLocation();
+  const { user } = useAuth();
+  const { favorites } = useFavorites();
+  const timeZone = useTimeZone();
+  const [showFilters, setShowFilters] = useState(false);
+  const [view, setView] = useState<"all" | "favorites">("all");
+  const isStudent = user?.role === "student";
 
-  const { data: mentors, isLoading } = useQuery<MentorWithProfile[]>({
-    queryKey: searchQuery ? ["/api/mentors", `?subject=${encodeURIComponent(searchQuery)}`] : ["/api/mentors"],
+  // The query string is the single source of truth, so searches can be bookmarked and shared
+  const filters = parseSearchFilters(useSearch());
+  const activeCount = countActiveFilters(filters);
+
+  const updateFilters = (changes: Partial<MentorSearchFilters>) => {
+    const search = toSearchString({ ...filters, ...changes });
+    setLocation(search ? `/search?${search}` : "/search", { replace: true });
+    setView("all");
+  };
+
+  const apiQuery = toApiQuery(filters, timeZone);
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ["/api/mentors", apiQuery],
+    queryFn: ({ pageParam }): Promise<MentorPage> =>
+      apiRequest("GET", `/api/mentors${apiQuery}${pageParam ? `&cursor=${encodeURIComponent(pageParam)}` : ""}`),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    placeholderData: keepPreviousData,
   });
 
+  // Page shown by the pagination bar; a new search starts over
+  const [pageIndex, setPageIndex] = useState(0);
+  useEffect(() => setPageIndex(0), [apiQuery]);
+
+  const pages = data?.pages ?? [];
+  const total = pages[0]?.total ?? 0;
+  const mentors = canScrollInfinitely
+    ? pages.flatMap((page) => page.mentors)
+    : pages[Math.min(pageIndex, pages.length - 1)]?.mentors ?? [];
+
+  // Load the next page as the end of the list scrolls into view
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!canScrollInfinitely || !sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && !isFetchingNextPage) fetchNextPage();
+      },
+      { rootMargin: "400px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const goToPage = async (index: number) => {
+    if (index >= pages.length) {
+      const result = await fetchNextPage();
+      if (!result.data || index >= result.data.pages.length) return;
+    }
+    setPageIndex(index);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const results = (
+    <>
+      {/* Guidance for students who have not started searching yet */}
+      {isStudent && !filters.q && activeCount === 0 && <RecommendedMentors />}
+
+      <div className="grid grid-cols-1 lg:grid-cols-[16rem_1fr] gap-6 items-start">
+        <aside className={showFilters ? "block" : "hidden lg:block"}>
+          <MentorFilterPanel
+            filters={filters}
+            onChange={updateFilters}
+            onClear={() => updateFilters({ ...EMPTY_FILTERS, q: filters.q })}
+          />
+        </aside>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : mentors.length > 0 ? (
+          <div className="space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground" data-testid="text-mentor-count">
+                {total} {total === 1 ? "mentor" : "mentors"} found
+              </p>
+              <Select
+                value={filters.sort || "relevance"}
+                onValueChange={(sort) => updateFilters({ sort: sort === "relevance" ? "" : sort })}
+              >
+                <SelectTrigger className="w-48" aria-label="Sort mentors" data-testid="select-sort-mentors">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SORT_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+              {mentors.map((mentor) => (
+                <MentorCard key={mentor.id} mentor={mentor} />
+              ))}
+            </div>
+
+            {canScrollInfinitely ? (
+              <div ref={sentinelRef} className="flex justify-center py-4">
+                {isFetchingNextPage && <Loader2 className="h-6 w-6 animate-spin text-primary" />}
+              </div>
+            ) : (
+              <Pagination data-testid="pagination-mentors">
+                <PaginationContent>
+                  <PaginationItem>
+                    <PaginationPrevious
+                      href="#"
+                      aria-disabled={pageIndex === 0}
+                      className={pageIndex === 0 ? "pointer-events-none opacity-50" : undefined}
+                      onClick={(e) => {
+                        e.preventDefault();
+                        goToPage(pageIndex - 1);
+                      }}
+                    />
+                  </PaginationItem>
+                  {pages.map((_, index) => (
+                    <PaginationItem key={index}>
+                      <PaginationLink
+                        href="#"
+                        isActive={index === pageIndex}
+                        onClick={(e) => {
+                          e.preventDefault();
+                          goToPage(index);
+                        }}
+                      >
+                        {index + 1}
+                      </PaginationLink>
+                    </PaginationItem>
+                  ))}
+                  {pages.length < Math.ceil(total / MENTOR_PAGE_SIZE) && (
+                    <PaginationItem>
+                      <PaginationEllipsis />
+                    </PaginationItem>
+                  )}
+                  <PaginationItem>
+                    <PaginationNext
+                      href="#"
+                      aria-disabled={pageIndex >= pages.length - 1 && !hasNextPage}
+                      className={
+                        pageIndex >= pages.length - 1 && !hasNextPage ? "pointer-events-none opacity-50" : undefined
+                      }
+                      onClick={(e) => {
+                        e.preventDefault();
+                        goToPage(pageIndex + 1);
+                      }}
+                    />
+                  </PaginationItem>
+                </PaginationContent>
+              </Pagination>
+            )}
+          </div>
+        ) : (
+          <div className="text-center py-16">
+            <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mx-auto mb-4">
+              <Search className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <h3 className="text-xl font-semibold mb-2">No mentors found</h3>
+            <p className="text-muted-foreground">
+              {filters.q || activeCount > 0
+                ? "Try different keywords or clear some filters"
+                : "No mentors available at the moment"}
+            </p>
+          </div>
+        )}
+      </div>
+    </>
+  );
+
   return (
     <div className="min-h-screen bg-background pb-20 md:pb-0">
       <DesktopNav />
@@ -31,44 +238,52 @@ export default function MentorSearch() {
 
         <div className="mb-8 max-w-xl">
           <Label htmlFor="search" className="text-base mb-2 block">
-            Search by subject
+            Search mentors
           </Label>
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
-            <Input
-              id="search"
-              type="search"
-              placeholder="e.g. Math, Physics, React, Java..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="pl-10"
-              data-testid="input-search-subject"
-            />
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+              <Input
+                id="search"
+                type="search"
+                placeholder="e.g. calculus, React, essay writing..."
+                value={filters.q}
+                onChange={(e) => updateFilters({ q: e.target.value })}
+                className="pl-10"
+                data-testid="input-search-mentors"
+              />
+            </div>
+            <Button
+              variant="outline"
+              className="gap-2 lg:hidden"
+              onClick={() => setShowFilters(!showFilters)}
+              data-testid="button-toggle-filters"
+            >
+              <SlidersHorizontal className="h-4 w-4" />
+              Filters{activeCount > 0 && ` (${activeCount})`}
+            </Button>
+            {isStudent && <SavedSearchMenu filters={filters} onApply={(saved) => updateFilters(saved)} />}
           </div>
         </div>
 
-        {isLoading ? (
-          <div className="flex items-center justify-center py-16">
-            <Loader2 className="h-8 w-8 animate-spin text-primary" />
-          </div>
-        ) : mentors && mentors.length > 0 ? (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {mentors.map((mentor) => (
-              <MentorCard key={mentor.id} mentor={mentor} />
-            ))}
-          </div>
+        {isStudent ? (
+          <Tabs value={view} onValueChange={(value) => setView(value as "all" | "favorites")}>
+            <TabsList className="mb-6">
+              <TabsTrigger value="all" data-testid="tab-all-mentors">
+                All mentors
+              </TabsTrigger>
+              <TabsTrigger value="favorites" className="gap-2" data-testid="tab-favorites">
+                <Heart className="h-4 w-4" />
+                Favorites{favorites.length > 0 && ` (${favorites.length})`}
+              </TabsTrigger>
+            </TabsList>
+            <TabsContent value="all">{results}</TabsContent>
+            <TabsContent value="favorites">
+              <FavoriteMentorList />
+            </TabsContent>
+          </Tabs>
         ) : (
-          <div className="text-center py-16">
-            <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mx-auto mb-4">
-              <Search className="h-8 w-8 text-muted-foreground" />
-            </div>
-            <h3 className="text-xl font-semibold mb-2">No mentors found</h3>
-            <p className="text-muted-foreground">
-              {searchQuery
-                ? "Try different subjects or clear your search"
-                : "No mentors available at the moment"}
-            </p>
-          </div>
+          results
         )}
       </main>
 
@@ -7,40 +7,93 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { AvailabilityEditor } from "@/components/AvailabilityEditor";
+import { TimeZoneSelect } from "@/components/TimeZoneSelect";
+import { CalendarFeedCard } from "@/components/CalendarFeedCard";
+import { SubjectPicker } from "@/components/SubjectPicker";
 import { DesktopNav } from "@/components/navigation/DesktopNav";
 import { MobileNav } from "@/components/navigation/MobileNav";
 import { useAuth } from "@/lib/auth";
 import { useToast } from "@/hooks/use-toast";
+import { useSubjects } from "@/hooks/use-subjects";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Loader2, X } from "lucide-react";
-import { Profile as ProfileType } from "@shared/schema";
+import { getBrowserTimeZone } from "@/lib/timezone";
+import { type PickedSubject, type ProfileWithSubjects } from "@/lib/subjects";
+import { Loader2, X, Monitor, Smartphone, LogOut } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+type ActiveDevice = {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+};
+
+function describeDevice(userAgent: string | null) {
+  if (!userAgent) return { label: "Unknown device", isMobile: false };
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Safari\//.test(userAgent) ? "Safari" : "Browser";
+  const os =
+    /Android/.test(userAgent) ? "Android" :
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Mac OS X/.test(userAgent) ? "macOS" :
+    /Linux/.test(userAgent) ? "Linux" : "Unknown OS";
+
+  return { label: `${browser} on ${os}`, isMobile: /Mobile|Android|iPhone/.test(userAgent) };
+}
 
 export default function Profile() {
-  const { user } = useAuth();
+  const { user, logout, logoutAll } = useAuth();
   const { toast } = useToast();
   const [bio, setBio] = useState("");
-  const [availability, setAvailability] = useState("");
-  const [subjects, setSubjects] = useState<string[]>([]);
-  const [newSubject, setNewSubject] = useState("");
+  const [timezone, setTimezone] = useState(getBrowserTimeZone);
+  const [subjects, setSubjects] = useState<PickedSubject[]>([]);
+  const [languages, setLanguages] = useState<string[]>([]);
+  const [newLanguage, setNewLanguage] = useState("");
+  const [hourlyRate, setHourlyRate] = useState("");
 
-  const { data: profile, isLoading } = useQuery<ProfileType>({
+  const { data: profile, isLoading } = useQuery<ProfileWithSubjects>({
     queryKey: ["/api/profile/me"],
   });
+  const { subjects: catalog } = useSubjects();
+
+  // Free-text subjects from before the catalog that no catalog subject was matched to
+  const uncatalogedSubjects =
+    catalog.length > 0
+      ? (profile?.subjects ?? []).filter((name) => !catalog.some((subject) => subject.name === name))
+      : [];
 
   useEffect(() => {
     if (profile) {
       setBio(profile.bio || "");
-      setAvailability(profile.availability || "");
-      setSubjects(profile.subjects || []);
+      setTimezone(profile.timezone || getBrowserTimeZone());
+      setSubjects(profile.subjectLevels.map(({ subjectId, level }) => ({ subjectId, level })));
+      setLanguages(profile.languages || []);
+      setHourlyRate(profile.hourlyRate?.toString() ?? "");
     }
   }, [profile]);
 
   const updateProfileMutation = useMutation({
-    mutationFn: async (data: { bio: string; subjects: string[]; availability: string }) => {
+    mutationFn: async (data: {
+      bio: string;
+      subjects: PickedSubject[];
+      timezone: string;
+      languages: string[];
+      hourlyRate: number | null;
+    }) => {
       return await apiRequest("POST", "/api/profile", data);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/profile/me"] });
+      // Recommendations follow the subjects and goals in the profile
+      queryClient.invalidateQueries({ queryKey: ["/api/mentors/recommended"] });
       toast({
         title: "Profile updated",
         description: "Your profile has been updated successfully.",
@@ -55,20 +108,65 @@ export default function Profile() {
     },
   });
 
-  const handleAddSubject = () => {
-    if (newSubject.trim() && !subjects.includes(newSubject.trim())) {
-      setSubjects([...subjects, newSubject.trim()]);
-      setNewSubject("");
+  const { data: devices, isLoading: isLoadingDevices } = useQuery<ActiveDevice[]>({
+    queryKey: ["/api/auth/sessions"],
+  });
+
+  const revokeDeviceMutation = useMutation({
+    mutationFn: async (device: ActiveDevice) => {
+      return await apiRequest("DELETE", `/api/auth/sessions/${device.id}`);
+    },
+    onSuccess: (_data, device) => {
+      if (device.current) {
+        logout();
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({
+        title: "Device logged out",
+        description: "That device will need to log in again.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to log out device",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutAllMutation = useMutation({
+    mutationFn: logoutAll,
+    onError: () => {
+      toast({
+        title: "Failed to log out",
+        description: "Could not log out of all devices. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddLanguage = () => {
+    if (newLanguage.trim() && !languages.includes(newLanguage.trim())) {
+      setLanguages([...languages, newLanguage.trim()]);
+      setNewLanguage("");
     }
   };
 
-  const handleRemoveSubject = (subject: string) => {
-    setSubjects(subjects.filter((s) => s !== subject));
+  const handleRemoveLanguage = (language: string) => {
+    setLanguages(languages.filter((l) => l !== language));
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    updateProfileMutation.mutate({ bio, subjects, availability });
+    updateProfileMutation.mutate({
+      bio,
+      subjects,
+      timezone,
+      languages,
+      hourlyRate: hourlyRate.trim() ? Number(hourlyRate) : null,
+    });
   };
 
   const getInitials = (name: string) => {
@@ -133,67 +231,112 @@ export default function Profile() {
                   />
                 </div>
 
-                {user?.role === "mentor" && (
-                  <>
-                    <div className="space-y-2">
-                      <Label htmlFor="subjects">Subjects</Label>
-                      <div className="flex gap-2">
-                        <Input
-                          id="subjects"
-                          placeholder="Add a subject (e.g., Math, Physics)..."
-                          value={newSubject}
-                          onChange={(e) => setNewSubject(e.target.value)}
-                          onKeyDown={(e) => {
-                            if (e.key === "Enter") {
-                              e.preventDefault();
-                              handleAddSubject();
-                            }
-                          }}
-                          data-testid="input-subject"
-                        />
-                        <Button
-                          type="button"
-                          onClick={handleAddSubject}
-                          data-testid="button-add-subject"
-                        >
-                          Add
-                        </Button>
-                      </div>
-                      {subjects.length > 0 && (
-                        <div className="flex flex-wrap gap-2 mt-3">
-                          {subjects.map((subject) => (
-                            <Badge
-                              key={subject}
-                              variant="secondary"
-                              className="gap-1 pr-1"
-                              data-testid={`badge-subject-${subject}`}
-                            >
-                              {subject}
-                              <button
-                                type="button"
-                                onClick={() => handleRemoveSubject(subject)}
-                                className="ml-1 hover:bg-secondary-foreground/20 rounded-full p-0.5"
-                                data-testid={`button-remove-subject-${subject}`}
-                              >
-                                <X className="h-3 w-3" />
-                              </button>
-                            </Badge>
-                          ))}
-                        </div>
-                      )}
-                    </div>
+                <div className="space-y-2">
+                  <Label htmlFor="profileTimezone">Timezone</Label>
+                  <TimeZoneSelect
+                    id="profileTimezone"
+                    value={timezone}
+                    onValueChange={setTimezone}
+                    data-testid="select-profile-timezone"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {profile?.timezone
+                      ? "Session times are shown in this timezone."
+                      : "Detected from your browser. Save your profile to share it with the people you meet."}
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="subjects">
+                    {user?.role === "mentor" ? "Subjects you teach" : "Subjects you want to learn"}
+                  </Label>
+                  <SubjectPicker
+                    id="subjects"
+                    role={user?.role ?? "student"}
+                    value={subjects}
+                    onChange={setSubjects}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {user?.role === "mentor"
+                      ? "Pick the highest level you teach each subject at."
+                      : "Pick the level you are at, so mentors know where to start."}
+                  </p>
+                  {uncatalogedSubjects.length > 0 && (
+                    <p className="text-xs text-muted-foreground" data-testid="text-uncataloged-subjects">
+                      Not in the subject catalog: {uncatalogedSubjects.join(", ")}. Add the closest subjects
+                      above instead; these are removed when you save.
+                    </p>
+                  )}
+                </div>
 
-                    <div className="space-y-2">
-                      <Label htmlFor="availability">Availability</Label>
+                {user?.role === "mentor" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="languages">Languages</Label>
+                    <div className="flex gap-2">
                       <Input
-                        id="availability"
-                        placeholder="e.g., Mon-Fri 5PM-7PM, Weekends"
-                        value={availability}
-                        onChange={(e) => setAvailability(e.target.value)}
-                        data-testid="input-availability"
+                        id="languages"
+                        placeholder="Add a language you teach in (e.g., English)..."
+                        value={newLanguage}
+                        onChange={(e) => setNewLanguage(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") {
+                            e.preventDefault();
+                            handleAddLanguage();
+                          }
+                        }}
+                        data-testid="input-language"
                       />
+                      <Button
+                        type="button"
+                        onClick={handleAddLanguage}
+                        data-testid="button-add-language"
+                      >
+                        Add
+                      </Button>
                     </div>
-                  </>
+                    {languages.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-3">
+                        {languages.map((language) => (
+                          <Badge
+                            key={language}
+                            variant="secondary"
+                            className="gap-1 pr-1"
+                            data-testid={`badge-language-${language}`}
+                          >
+                            {language}
+                            <button
+                              type="button"
+                              onClick={() => handleRemoveLanguage(language)}
+                              className="ml-1 hover:bg-secondary-foreground/20 rounded-full p-0.5"
+                              data-testid={`button-remove-language-${language}`}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {user?.role === "mentor" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="hourlyRate">Hourly rate ($)</Label>
+                    <Input
+                      id="hourlyRate"
+                      type="number"
+                      min={0}
+                      max={1000}
+                      step={1}
+                      placeholder="e.g. 40"
+                      value={hourlyRate}
+                      onChange={(e) => setHourlyRate(e.target.value)}
+                      data-testid="input-hourly-rate"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Shown on your profile and used by the price filter. Leave empty to not list a rate.
+                    </p>
+                  </div>
                 )}
 
                 <Button
@@ -208,6 +351,72 @@ export default function Profile() {
             </CardContent>
           </Card>
         )}
+
+        {user?.role === "mentor" && (
+          <AvailabilityEditor mentorId={user.id} availabilityNote={profile?.availabilityNote} />
+        )}
+
+        <CalendarFeedCard />
+
+        <Card className="mt-6">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>Active devices</CardTitle>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              onClick={() => logoutAllMutation.mutate()}
+              disabled={logoutAllMutation.isPending}
+              data-testid="button-logout-all"
+            >
+              <LogOut className="h-4 w-4" />
+              Log out of all devices
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {isLoadingDevices ? (
+              <div className="flex items-center justify-center py-6">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {devices?.map((device) => {
+                  const { label, isMobile } = describeDevice(device.userAgent);
+                  const Icon = isMobile ? Smartphone : Monitor;
+
+                  return (
+                    <div
+                      key={device.id}
+                      className="flex items-center gap-4 rounded-md border border-border p-3"
+                      data-testid={`device-${device.id}`}
+                    >
+                      <Icon className="h-5 w-5 text-muted-foreground" />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <p className="font-medium truncate">{label}</p>
+                          {device.current && <Badge variant="secondary">This device</Badge>}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {device.ipAddress ? `${device.ipAddress} · ` : ""}
+                          Active {formatDistanceToNow(new Date(device.lastUsedAt), { addSuffix: true })}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => revokeDeviceMutation.mutate(device)}
+                        disabled={revokeDeviceMutation.isPending}
+                        data-testid={`button-revoke-device-${device.id}`}
+                      >
+                        Log out
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
       </main>
 
       <MobileNav />
@@ -0,0 +1,7 @@
+DROP TABLE "users";
+--> statement-breakpoint
+DROP TABLE "sessions";
+--> statement-breakpoint
+DROP TABLE "profiles";
+--> statement-breakpoint
+DROP TABLE "messages";
@@ -0,0 +1 @@
+CREATE INDEX "messages_conversation_idx" ON "messages" USING btree ("sender_id","receiver_id","timestamp");
\ No newline at end of file
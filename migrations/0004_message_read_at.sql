@@ -0,0 +1 @@
+ALTER TABLE "messages" ADD COLUMN "read_at" timestamp;
\ No newline at end of file
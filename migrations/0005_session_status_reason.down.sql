@@ -0,0 +1,3 @@
+ALTER TABLE "sessions" DROP COLUMN "status_changed_at";--> statement-breakpoint
+ALTER TABLE "sessions" DROP COLUMN "status_reason";--> statement-breakpoint
+ALTER TABLE "sessions" DROP COLUMN "status_changed_by";
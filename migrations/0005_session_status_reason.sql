@@ -0,0 +1,3 @@
+ALTER TABLE "sessions" ADD COLUMN "status_changed_by" varchar;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "status_reason" text;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "status_changed_at" timestamp;
\ No newline at end of file
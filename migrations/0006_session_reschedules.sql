@@ -0,0 +1,13 @@
+CREATE TABLE "session_reschedules" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" varchar NOT NULL,
+	"proposed_by" varchar NOT NULL,
+	"previous_time" timestamp NOT NULL,
+	"proposed_time" timestamp NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"responded_by" varchar,
+	"responded_at" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX "session_reschedules_session_idx" ON "session_reschedules" USING btree ("session_id","created_at");
\ No newline at end of file
@@ -0,0 +1,3 @@
+DROP INDEX "sessions_student_time_idx";--> statement-breakpoint
+DROP INDEX "sessions_mentor_time_idx";--> statement-breakpoint
+ALTER TABLE "sessions" DROP COLUMN "duration_minutes";
@@ -0,0 +1,3 @@
+ALTER TABLE "sessions" ADD COLUMN "duration_minutes" integer DEFAULT 60 NOT NULL;--> statement-breakpoint
+CREATE INDEX "sessions_mentor_time_idx" ON "sessions" USING btree ("mentor_id","scheduled_time");--> statement-breakpoint
+CREATE INDEX "sessions_student_time_idx" ON "sessions" USING btree ("student_id","scheduled_time");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "profiles" RENAME COLUMN "availability_note" TO "availability";--> statement-breakpoint
+DROP TABLE "availability_slots";--> statement-breakpoint
+DROP TABLE "availability_exceptions";
@@ -0,0 +1,23 @@
+CREATE TABLE "availability_exceptions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"mentor_id" varchar NOT NULL,
+	"date" text NOT NULL,
+	"kind" text NOT NULL,
+	"start_time" text,
+	"end_time" text,
+	"timezone" text NOT NULL,
+	"note" text
+);
+--> statement-breakpoint
+CREATE TABLE "availability_slots" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"mentor_id" varchar NOT NULL,
+	"day_of_week" integer NOT NULL,
+	"start_time" text NOT NULL,
+	"end_time" text NOT NULL,
+	"timezone" text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "availability_exceptions_mentor_date_idx" ON "availability_exceptions" USING btree ("mentor_id","date");--> statement-breakpoint
+CREATE INDEX "availability_slots_mentor_idx" ON "availability_slots" USING btree ("mentor_id");--> statement-breakpoint
+ALTER TABLE "profiles" RENAME COLUMN "availability" TO "availability_note";
\ No newline at end of file
@@ -0,0 +1,17 @@
+ALTER TABLE "sessions" DROP COLUMN "timezone";--> statement-breakpoint
+ALTER TABLE "profiles" DROP COLUMN "timezone";--> statement-breakpoint
+ALTER TABLE "login_sessions" ALTER COLUMN "created_at" SET DATA TYPE timestamp USING "created_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "login_sessions" ALTER COLUMN "last_used_at" SET DATA TYPE timestamp USING "last_used_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "login_sessions" ALTER COLUMN "expires_at" SET DATA TYPE timestamp USING "expires_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "login_sessions" ALTER COLUMN "revoked_at" SET DATA TYPE timestamp USING "revoked_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "messages" ALTER COLUMN "timestamp" SET DATA TYPE timestamp USING "timestamp" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "messages" ALTER COLUMN "read_at" SET DATA TYPE timestamp USING "read_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "refresh_tokens" ALTER COLUMN "expires_at" SET DATA TYPE timestamp USING "expires_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "refresh_tokens" ALTER COLUMN "created_at" SET DATA TYPE timestamp USING "created_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "refresh_tokens" ALTER COLUMN "revoked_at" SET DATA TYPE timestamp USING "revoked_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "session_reschedules" ALTER COLUMN "previous_time" SET DATA TYPE timestamp USING "previous_time" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "session_reschedules" ALTER COLUMN "proposed_time" SET DATA TYPE timestamp USING "proposed_time" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "session_reschedules" ALTER COLUMN "created_at" SET DATA TYPE timestamp USING "created_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "session_reschedules" ALTER COLUMN "responded_at" SET DATA TYPE timestamp USING "responded_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "sessions" ALTER COLUMN "scheduled_time" SET DATA TYPE timestamp USING "scheduled_time" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "sessions" ALTER COLUMN "status_changed_at" SET DATA TYPE timestamp USING "status_changed_at" AT TIME ZONE 'UTC';
\ No newline at end of file
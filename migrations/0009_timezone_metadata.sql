@@ -0,0 +1,22 @@
+ALTER TABLE "login_sessions" ALTER COLUMN "created_at" SET DATA TYPE timestamp with time zone USING "created_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "login_sessions" ALTER COLUMN "created_at" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "login_sessions" ALTER COLUMN "last_used_at" SET DATA TYPE timestamp with time zone USING "last_used_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "login_sessions" ALTER COLUMN "last_used_at" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "login_sessions" ALTER COLUMN "expires_at" SET DATA TYPE timestamp with time zone USING "expires_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "login_sessions" ALTER COLUMN "revoked_at" SET DATA TYPE timestamp with time zone USING "revoked_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "messages" ALTER COLUMN "timestamp" SET DATA TYPE timestamp with time zone USING "timestamp" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "messages" ALTER COLUMN "timestamp" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "messages" ALTER COLUMN "read_at" SET DATA TYPE timestamp with time zone USING "read_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "refresh_tokens" ALTER COLUMN "expires_at" SET DATA TYPE timestamp with time zone USING "expires_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "refresh_tokens" ALTER COLUMN "created_at" SET DATA TYPE timestamp with time zone USING "created_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "refresh_tokens" ALTER COLUMN "created_at" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "refresh_tokens" ALTER COLUMN "revoked_at" SET DATA TYPE timestamp with time zone USING "revoked_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "session_reschedules" ALTER COLUMN "previous_time" SET DATA TYPE timestamp with time zone USING "previous_time" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "session_reschedules" ALTER COLUMN "proposed_time" SET DATA TYPE timestamp with time zone USING "proposed_time" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "session_reschedules" ALTER COLUMN "created_at" SET DATA TYPE timestamp with time zone USING "created_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "session_reschedules" ALTER COLUMN "created_at" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "session_reschedules" ALTER COLUMN "responded_at" SET DATA TYPE timestamp with time zone USING "responded_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "sessions" ALTER COLUMN "scheduled_time" SET DATA TYPE timestamp with time zone USING "scheduled_time" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "sessions" ALTER COLUMN "status_changed_at" SET DATA TYPE timestamp with time zone USING "status_changed_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "profiles" ADD COLUMN "timezone" text;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "timezone" text DEFAULT 'UTC' NOT NULL;
\ No newline at end of file
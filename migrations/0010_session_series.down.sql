@@ -0,0 +1,4 @@
+DROP INDEX "sessions_series_time_idx";--> statement-breakpoint
+ALTER TABLE "sessions" DROP COLUMN "series_id";--> statement-breakpoint
+ALTER TABLE "session_reschedules" DROP COLUMN "scope";--> statement-breakpoint
+DROP TABLE "session_series";
@@ -0,0 +1,13 @@
+CREATE TABLE "session_series" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"student_id" varchar NOT NULL,
+	"mentor_id" varchar NOT NULL,
+	"subject" text NOT NULL,
+	"frequency" text NOT NULL,
+	"timezone" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "session_reschedules" ADD COLUMN "scope" text DEFAULT 'session' NOT NULL;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "series_id" varchar;--> statement-breakpoint
+CREATE INDEX "sessions_series_time_idx" ON "sessions" USING btree ("series_id","scheduled_time");
\ No newline at end of file
@@ -0,0 +1,8 @@
+CREATE TABLE "calendar_feeds" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"token" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "calendar_feeds_user_id_unique" UNIQUE("user_id"),
+	CONSTRAINT "calendar_feeds_token_unique" UNIQUE("token")
+);
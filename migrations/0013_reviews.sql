@@ -0,0 +1,14 @@
+CREATE TABLE "reviews" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" varchar NOT NULL,
+	"mentor_id" varchar NOT NULL,
+	"student_id" varchar NOT NULL,
+	"rating" integer NOT NULL,
+	"comment" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"response" text,
+	"responded_at" timestamp with time zone,
+	CONSTRAINT "reviews_session_id_unique" UNIQUE("session_id")
+);
+--> statement-breakpoint
+CREATE INDEX "reviews_mentor_created_idx" ON "reviews" USING btree ("mentor_id","created_at");
\ No newline at end of file
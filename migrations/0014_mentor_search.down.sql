@@ -0,0 +1,3 @@
+DROP TABLE "profile_search";--> statement-breakpoint
+ALTER TABLE "profiles" DROP COLUMN "languages";--> statement-breakpoint
+ALTER TABLE "profiles" DROP COLUMN "hourly_rate";
@@ -0,0 +1,22 @@
+CREATE EXTENSION IF NOT EXISTS pg_trgm;--> statement-breakpoint
+CREATE TABLE "profile_search" (
+	"user_id" varchar PRIMARY KEY NOT NULL,
+	"document" "tsvector" NOT NULL,
+	"text" text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "profiles" ADD COLUMN "languages" text[];--> statement-breakpoint
+ALTER TABLE "profiles" ADD COLUMN "hourly_rate" integer;--> statement-breakpoint
+CREATE INDEX "profile_search_document_idx" ON "profile_search" USING gin ("document");--> statement-breakpoint
+CREATE INDEX "profile_search_text_idx" ON "profile_search" USING gin ("text" gin_trgm_ops);--> statement-breakpoint
+-- Index the existing profiles the way DbStorage does when a profile is saved
+INSERT INTO "profile_search" ("user_id", "document", "text")
+SELECT
+	p."user_id",
+	setweight(to_tsvector('english', coalesce(array_to_string(p."subjects", ' '), '')), 'A')
+		|| setweight(to_tsvector('english', u."username"), 'B')
+		|| setweight(to_tsvector('english', coalesce(p."bio", '')), 'C'),
+	lower(concat_ws(' ', u."username", array_to_string(p."subjects", ' '), p."bio"))
+FROM "profiles" p
+JOIN "users" u ON u."id" = p."user_id"
+ON CONFLICT ("user_id") DO NOTHING;
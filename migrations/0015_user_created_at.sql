@@ -0,0 +1 @@
+ALTER TABLE "users" ADD COLUMN "created_at" timestamp with time zone DEFAULT now() NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "notifications" DROP COLUMN "mentor_id";--> statement-breakpoint
+DROP TABLE "saved_searches";--> statement-breakpoint
+DROP TABLE "favorite_mentors";
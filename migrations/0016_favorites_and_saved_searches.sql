@@ -0,0 +1,21 @@
+CREATE TABLE "favorite_mentors" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"student_id" varchar NOT NULL,
+	"mentor_id" varchar NOT NULL,
+	"notify" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "saved_searches" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"filters" jsonb NOT NULL,
+	"notify" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "notifications" ADD COLUMN "mentor_id" varchar;--> statement-breakpoint
+CREATE UNIQUE INDEX "favorite_mentors_student_mentor_idx" ON "favorite_mentors" USING btree ("student_id","mentor_id");--> statement-breakpoint
+CREATE INDEX "favorite_mentors_mentor_idx" ON "favorite_mentors" USING btree ("mentor_id");--> statement-breakpoint
+CREATE INDEX "saved_searches_user_idx" ON "saved_searches" USING btree ("user_id");
\ No newline at end of file
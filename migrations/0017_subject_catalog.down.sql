@@ -0,0 +1,3 @@
+-- Profiles keep the catalog names their free-text subjects were rewritten to
+DROP TABLE "profile_subjects";--> statement-breakpoint
+DROP TABLE "subjects";
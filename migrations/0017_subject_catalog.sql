@@ -0,0 +1,113 @@
+CREATE TABLE "profile_subjects" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"subject_id" varchar NOT NULL,
+	"level" text NOT NULL,
+	"position" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "subjects" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"category" text NOT NULL,
+	"parent_id" varchar,
+	"aliases" text[] DEFAULT '{}'::text[] NOT NULL,
+	CONSTRAINT "subjects_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "profile_subjects_user_subject_idx" ON "profile_subjects" USING btree ("user_id","subject_id");--> statement-breakpoint
+CREATE INDEX "profile_subjects_subject_idx" ON "profile_subjects" USING btree ("subject_id");--> statement-breakpoint
+-- The catalog as of this migration, for matching existing subjects; the server syncs server/subjectCatalog.ts on start
+INSERT INTO "subjects" ("id", "name", "category", "parent_id", "aliases") VALUES
+	('mathematics', 'Mathematics', 'Mathematics', NULL, ARRAY['math', 'maths']),
+	('algebra', 'Algebra', 'Mathematics', 'mathematics', ARRAY['algebra 1', 'algebra 2', 'algebra i', 'algebra ii']),
+	('linear-algebra', 'Linear Algebra', 'Mathematics', 'algebra', ARRAY['matrices']),
+	('geometry', 'Geometry', 'Mathematics', 'mathematics', '{}'::text[]),
+	('trigonometry', 'Trigonometry', 'Mathematics', 'mathematics', ARRAY['trig']),
+	('calculus', 'Calculus', 'Mathematics', 'mathematics', ARRAY['calc']),
+	('ap-calculus', 'AP Calculus', 'Mathematics', 'calculus', ARRAY['ap calc', 'ap calculus ab', 'ap calculus bc', 'calculus ab', 'calculus bc']),
+	('multivariable-calculus', 'Multivariable Calculus', 'Mathematics', 'calculus', ARRAY['calculus 3', 'calc 3', 'vector calculus']),
+	('statistics', 'Statistics', 'Mathematics', 'mathematics', ARRAY['stats']),
+	('ap-statistics', 'AP Statistics', 'Mathematics', 'statistics', ARRAY['ap stats']),
+	('probability', 'Probability', 'Mathematics', 'statistics', '{}'::text[]),
+	('discrete-mathematics', 'Discrete Mathematics', 'Mathematics', 'mathematics', ARRAY['discrete math', 'discrete maths']),
+	('physics', 'Physics', 'Sciences', NULL, '{}'::text[]),
+	('ap-physics', 'AP Physics', 'Sciences', 'physics', ARRAY['ap physics 1', 'ap physics 2', 'ap physics c']),
+	('chemistry', 'Chemistry', 'Sciences', NULL, ARRAY['chem']),
+	('organic-chemistry', 'Organic Chemistry', 'Sciences', 'chemistry', ARRAY['orgo', 'ochem', 'o-chem']),
+	('ap-chemistry', 'AP Chemistry', 'Sciences', 'chemistry', ARRAY['ap chem']),
+	('biology', 'Biology', 'Sciences', NULL, ARRAY['bio']),
+	('ap-biology', 'AP Biology', 'Sciences', 'biology', ARRAY['ap bio']),
+	('computer-science', 'Computer Science', 'Computer Science', NULL, ARRAY['cs', 'comp sci', 'computing']),
+	('programming', 'Programming', 'Computer Science', 'computer-science', ARRAY['coding']),
+	('javascript', 'JavaScript', 'Computer Science', 'programming', ARRAY['js']),
+	('typescript', 'TypeScript', 'Computer Science', 'programming', ARRAY['ts']),
+	('react', 'React', 'Computer Science', 'javascript', ARRAY['react.js', 'reactjs']),
+	('python', 'Python', 'Computer Science', 'programming', ARRAY['python 3']),
+	('java', 'Java', 'Computer Science', 'programming', '{}'::text[]),
+	('data-structures', 'Data Structures', 'Computer Science', 'computer-science', ARRAY['data structure']),
+	('algorithms', 'Algorithms', 'Computer Science', 'computer-science', ARRAY['algorithm', 'algos']),
+	('web-development', 'Web Development', 'Computer Science', 'computer-science', ARRAY['web dev']),
+	('english', 'English', 'Languages', NULL, ARRAY['english language']),
+	('esl', 'English as a Second Language', 'Languages', 'english', ARRAY['esl', 'efl']),
+	('spanish', 'Spanish', 'Languages', NULL, ARRAY['español', 'espanol']),
+	('french', 'French', 'Languages', NULL, ARRAY['français', 'francais']),
+	('german', 'German', 'Languages', NULL, ARRAY['deutsch']),
+	('mandarin', 'Mandarin Chinese', 'Languages', NULL, ARRAY['mandarin', 'chinese']),
+	('japanese', 'Japanese', 'Languages', NULL, '{}'::text[]),
+	('writing', 'Writing', 'Humanities', NULL, '{}'::text[]),
+	('essay-writing', 'Essay Writing', 'Humanities', 'writing', ARRAY['essays', 'academic writing']),
+	('creative-writing', 'Creative Writing', 'Humanities', 'writing', '{}'::text[]),
+	('literature', 'Literature', 'Humanities', NULL, ARRAY['english literature', 'lit']),
+	('history', 'History', 'Humanities', NULL, '{}'::text[]),
+	('ap-us-history', 'AP US History', 'Humanities', 'history', ARRAY['apush']),
+	('economics', 'Economics', 'Humanities', NULL, ARRAY['econ']),
+	('psychology', 'Psychology', 'Humanities', NULL, ARRAY['psych']),
+	('sat', 'SAT', 'Test Prep', NULL, ARRAY['sat prep']),
+	('act', 'ACT', 'Test Prep', NULL, ARRAY['act prep']),
+	('gre', 'GRE', 'Test Prep', NULL, '{}'::text[]),
+	('gmat', 'GMAT', 'Test Prep', NULL, '{}'::text[]),
+	('ielts', 'IELTS', 'Test Prep', NULL, '{}'::text[]),
+	('toefl', 'TOEFL', 'Test Prep', NULL, '{}'::text[])
+ON CONFLICT ("id") DO NOTHING;--> statement-breakpoint
+-- Attach the catalog subjects whose name or alias matches a profile's free-text subjects, ignoring
+-- case and spacing; their levels are not known, so they start at intermediate
+INSERT INTO "profile_subjects" ("user_id", "subject_id", "level", "position")
+SELECT m."user_id", m."subject_id", 'intermediate', (row_number() OVER (PARTITION BY m."user_id" ORDER BY m."ord")) - 1
+FROM (
+	SELECT p."user_id", c."id" AS "subject_id", min(t."ord") AS "ord"
+	FROM "profiles" p
+	CROSS JOIN LATERAL unnest(p."subjects") WITH ORDINALITY AS t("name", "ord")
+	JOIN "subjects" c
+		ON lower(c."name") = lower(regexp_replace(trim(t."name"), '\s+', ' ', 'g'))
+		OR lower(regexp_replace(trim(t."name"), '\s+', ' ', 'g')) = ANY(c."aliases")
+	GROUP BY p."user_id", c."id"
+) m
+ON CONFLICT ("user_id", "subject_id") DO NOTHING;--> statement-breakpoint
+-- Matched subjects take their catalog name, once; free text nothing matched is kept as it was
+UPDATE "profiles" p SET "subjects" = ARRAY(
+	SELECT coalesce(c."name", trim(t."name"))
+	FROM unnest(p."subjects") WITH ORDINALITY AS t("name", "ord")
+	LEFT JOIN "subjects" c
+		ON lower(c."name") = lower(regexp_replace(trim(t."name"), '\s+', ' ', 'g'))
+		OR lower(regexp_replace(trim(t."name"), '\s+', ' ', 'g')) = ANY(c."aliases")
+	WHERE trim(t."name") <> ''
+	GROUP BY coalesce(c."name", trim(t."name"))
+	ORDER BY min(t."ord")
+)
+WHERE p."subjects" IS NOT NULL;--> statement-breakpoint
+-- Reindex profiles with the aliases of their subjects, the way DbStorage does when a profile is saved
+UPDATE "profile_search" ps SET
+	"document" = setweight(to_tsvector('english', st."subject_text"), 'A')
+		|| setweight(to_tsvector('english', u."username"), 'B')
+		|| setweight(to_tsvector('english', coalesce(p."bio", '')), 'C'),
+	"text" = lower(concat_ws(' ', u."username", nullif(st."subject_text", ''), p."bio"))
+FROM "profiles" p
+JOIN "users" u ON u."id" = p."user_id"
+CROSS JOIN LATERAL (
+	SELECT concat_ws(' ',
+		array_to_string(p."subjects", ' '),
+		(SELECT string_agg(array_to_string(c."aliases", ' '), ' ') FROM "subjects" c WHERE c."name" = ANY(p."subjects") AND c."aliases" <> '{}')
+	) AS "subject_text"
+) st
+WHERE ps."user_id" = p."user_id";
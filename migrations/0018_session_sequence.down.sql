@@ -0,0 +1,2 @@
+ALTER TABLE "sessions" DROP COLUMN "sequence";--> statement-breakpoint
+ALTER TABLE "sessions" DROP COLUMN "updated_at";
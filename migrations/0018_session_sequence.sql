@@ -0,0 +1,4 @@
+ALTER TABLE "sessions" ADD COLUMN "sequence" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "updated_at" timestamp with time zone DEFAULT now() NOT NULL;--> statement-breakpoint
+-- Sessions whose status changed were last modified then; the rest count from the migration
+UPDATE "sessions" SET "updated_at" = "status_changed_at" WHERE "status_changed_at" IS NOT NULL;
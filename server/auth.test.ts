@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import jwt from "jsonwebtoken";
+import { storage } from "./storage";
+import { CustomError } from "./middleware/errorHandler";
+import { rotateRefreshToken, startLoginSession, verifyAccessToken } from "./auth";
+
+async function createUser(name: string) {
+  const suffix = Math.random().toString(36).slice(2, 8);
+  return storage.createUser({
+    username: `${name}-${suffix}`,
+    email: `${name}-${suffix}@example.com`,
+    password: "hashed",
+    role: "student",
+  });
+}
+
+const sessionOf = (token: string) => (jwt.decode(token) as jwt.JwtPayload).sid as string;
+
+describe("refresh token rotation", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("rotates a refresh token into a new pair that can be rotated again", async () => {
+    const { refreshToken } = await startLoginSession(await createUser("ada"));
+
+    const next = await rotateRefreshToken(refreshToken);
+    const after = await rotateRefreshToken(next.refreshToken);
+
+    expect(await verifyAccessToken(after.accessToken)).toMatchObject({ sid: sessionOf(refreshToken) });
+  });
+
+  it("keeps the session when two tabs refresh with one token at the same time", async () => {
+    const { refreshToken } = await startLoginSession(await createUser("ada"));
+
+    const [first, second] = await Promise.all([rotateRefreshToken(refreshToken), rotateRefreshToken(refreshToken)]);
+
+    expect((jwt.decode(second.refreshToken) as jwt.JwtPayload).jti).toBe(
+      (jwt.decode(first.refreshToken) as jwt.JwtPayload).jti,
+    );
+    expect(await verifyAccessToken(first.accessToken)).not.toBeNull();
+    expect(await verifyAccessToken(second.accessToken)).not.toBeNull();
+    expect((await storage.getLoginSession(sessionOf(refreshToken)))?.revokedAt).toBeNull();
+
+    // Either tab can go on refreshing with the replacement
+    await expect(rotateRefreshToken(second.refreshToken)).resolves.toHaveProperty("accessToken");
+  });
+
+  it("revokes the session when a rotated token comes back after the grace period", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const { refreshToken } = await startLoginSession(await createUser("ada"));
+    const next = await rotateRefreshToken(refreshToken);
+
+    vi.setSystemTime(Date.now() + 60_000);
+
+    await expect(rotateRefreshToken(refreshToken)).rejects.toThrow(CustomError);
+    expect((await storage.getLoginSession(sessionOf(refreshToken)))?.revokedAt).not.toBeNull();
+    expect(await verifyAccessToken(next.accessToken)).toBeNull();
+  });
+
+  it("revokes the session when a rotated token comes back after its replacement was used", async () => {
+    const { refreshToken } = await startLoginSession(await createUser("ada"));
+    const next = await rotateRefreshToken(refreshToken);
+    await rotateRefreshToken(next.refreshToken);
+
+    await expect(rotateRefreshToken(refreshToken)).rejects.toThrow("Refresh token reuse detected");
+    expect((await storage.getLoginSession(sessionOf(refreshToken)))?.revokedAt).not.toBeNull();
+  });
+});
@@ -1,14 +1,23 @@
-import jwt, { JwtPayload } from "jsonwebtoken";
+import jwt, { JwtPayload, type SignOptions } from "jsonwebtoken";
+import { randomUUID } from "crypto";
 import { type Request, type Response, type NextFunction } from "express";
 import { type User } from "@shared/schema";
 import { hashPassword, comparePassword } from "./utils/password";
 import { CustomError } from "./middleware/errorHandler";
+import { storage } from "./storage";
+import { connectionHub } from "./connectionHub";
 
 // ==================== JWT Configuration ====================
 
 const JWT_SECRET = process.env.SESSION_SECRET || (process.env.NODE_ENV === 'development' ? 'dev-secret-key' : undefined);
-const ACCESS_TOKEN_EXPIRY = process.env.JWT_ACCESS_EXPIRES || "15m";
-const REFRESH_TOKEN_EXPIRY = process.env.JWT_REFRESH_EXPIRES || "30d";
+const ACCESS_TOKEN_EXPIRY = (process.env.JWT_ACCESS_EXPIRES || "15m") as SignOptions["expiresIn"];
+const REFRESH_TOKEN_EXPIRY = (process.env.JWT_REFRESH_EXPIRES || "30d") as SignOptions["expiresIn"];
+
+/**
+ * How long a rotated refresh token may still be presented, e.g. by another tab that
+ * refreshed at the same moment; it gets the replacement that was already issued
+ */
+const REFRESH_REUSE_GRACE_MS = 30_000;
 
 if (!JWT_SECRET) {
   throw new Error("SESSION_SECRET environment variable is required");
@@ -21,11 +30,19 @@ export interface TokenPayload extends JwtPayload {
   email: string;
   role: "student" | "mentor";
   type: "access" | "refresh";
+  /** Login session (device) the token was issued for */
+  sid?: string;
 }
 
 export interface AuthRequest extends Request {
   user?: User & { id: string };
   token?: string;
+  sessionId?: string;
+}
+
+export interface DeviceInfo {
+  userAgent?: string | null;
+  ipAddress?: string | null;
 }
 
 // ==================== Password Functions ====================
@@ -36,46 +53,145 @@ export { hashPassword, comparePassword };
 
 /**
  * Generate a short-lived access token
+ * @param sessionId - Login session the token belongs to
  */
-export function generateAccessToken(user: User): string {
+export function generateAccessToken(user: User, sessionId: string): string {
   const payload: Omit<TokenPayload, "iat" | "exp"> = {
     id: user.id,
     email: user.email,
     role: user.role as "student" | "mentor",
     type: "access",
+    sid: sessionId,
   };
 
   return jwt.sign(payload, JWT_SECRET as string, {
     expiresIn: ACCESS_TOKEN_EXPIRY,
+    jwtid: randomUUID(),
   });
 }
 
 /**
  * Generate a long-lived refresh token
+ * @param jti - Unique token id, used to look the token up when it is rotated
+ * @param sessionId - Login session the token belongs to
  */
-export function generateRefreshToken(user: User): string {
+export function generateRefreshToken(user: User, jti: string, sessionId: string): string {
   const payload: Omit<TokenPayload, "iat" | "exp"> = {
     id: user.id,
     email: user.email,
     role: user.role as "student" | "mentor",
     type: "refresh",
+    sid: sessionId,
   };
 
   return jwt.sign(payload, JWT_SECRET as string, {
     expiresIn: REFRESH_TOKEN_EXPIRY,
+    jwtid: jti,
   });
 }
 
 /**
  * Generate both access and refresh tokens
  */
-export function generateTokenPair(user: User) {
+export function generateTokenPair(user: User, jti: string, sessionId: string) {
   return {
-    accessToken: generateAccessToken(user),
-    refreshToken: generateRefreshToken(user),
+    accessToken: generateAccessToken(user, sessionId),
+    refreshToken: generateRefreshToken(user, jti, sessionId),
   };
 }
 
+/**
+ * Read the expiry date of a token we signed ourselves
+ */
+function getTokenExpiry(token: string): Date {
+  const { exp } = jwt.decode(token) as TokenPayload;
+  return new Date(exp! * 1000);
+}
+
+/**
+ * Start a login session for a new device and issue its first token pair
+ */
+export async function startLoginSession(user: User, device: DeviceInfo = {}) {
+  const sessionId = randomUUID();
+  const jti = randomUUID();
+  const tokens = generateTokenPair(user, jti, sessionId);
+  const expiresAt = getTokenExpiry(tokens.refreshToken);
+
+  await storage.createLoginSession({
+    id: sessionId,
+    userId: user.id,
+    userAgent: device.userAgent ?? null,
+    ipAddress: device.ipAddress ?? null,
+    expiresAt,
+  });
+  await storage.createRefreshToken({ id: jti, userId: user.id, familyId: sessionId, expiresAt });
+
+  return tokens;
+}
+
+/**
+ * Exchange a refresh token for a new token pair (refresh token rotation)
+ * - Every refresh token can be used exactly once
+ * - Within REFRESH_REUSE_GRACE_MS of its rotation, a token is answered with its replacement
+ *   instead, so tabs that refresh at the same time all stay logged in
+ * - Presenting an already rotated token after that means it leaked, so its login session is revoked
+ */
+export async function rotateRefreshToken(token: string) {
+  const decoded = await verifyRefreshToken(token);
+  if (!decoded) {
+    throw new CustomError("Invalid or expired refresh token", 401);
+  }
+
+  const stored = await storage.getRefreshToken(decoded.jti!);
+  if (!stored || stored.userId !== decoded.id) {
+    throw new CustomError("Invalid or expired refresh token", 401);
+  }
+
+  const nextJti = randomUUID();
+  const rotated = await storage.revokeRefreshToken(stored.id, nextJti);
+  if (!rotated) {
+    const replacementJti = await getRecentReplacement(stored.id);
+    if (!replacementJti) {
+      await storage.revokeLoginSession(stored.familyId);
+      connectionHub.closeLoginSession(stored.familyId);
+      throw new CustomError("Refresh token reuse detected", 401);
+    }
+
+    const user = await storage.getUser(decoded.id);
+    if (!user) {
+      throw new CustomError("User not found", 401);
+    }
+    return generateTokenPair(user, replacementJti, stored.familyId);
+  }
+
+  const user = await storage.getUser(decoded.id);
+  if (!user) {
+    throw new CustomError("User not found", 401);
+  }
+
+  const tokens = generateTokenPair(user, nextJti, stored.familyId);
+  const expiresAt = getTokenExpiry(tokens.refreshToken);
+
+  await storage.createRefreshToken({ id: nextJti, userId: user.id, familyId: stored.familyId, expiresAt });
+  await storage.touchLoginSession(stored.familyId, expiresAt);
+
+  return tokens;
+}
+
+/**
+ * The token that replaced a refresh token rotated less than REFRESH_REUSE_GRACE_MS ago,
+ * as long as the replacement itself has not been used or revoked
+ */
+async function getRecentReplacement(jti: string): Promise<string | null> {
+  const rotated = await storage.getRefreshToken(jti);
+  if (!rotated?.replacedBy || !rotated.revokedAt) return null;
+  if (Date.now() - rotated.revokedAt.getTime() > REFRESH_REUSE_GRACE_MS) return null;
+
+  // The replacement row may not be written yet when both requests arrive together
+  const replacement = await storage.getRefreshToken(rotated.replacedBy);
+  return replacement?.revokedAt ? null : rotated.replacedBy;
+}
+
 /**
  * Verify and decode a token
  */
@@ -88,12 +204,22 @@ export function verifyToken(token: string): TokenPayload | null {
   }
 }
 
+/**
+ * Check the login session registry: false once the session was logged out or revoked
+ */
+async function isLoginSessionActive(sessionId: string | undefined, userId: string): Promise<boolean> {
+  if (!sessionId) return false;
+
+  const session = await storage.getLoginSession(sessionId);
+  return !!session && session.userId === userId && !session.revokedAt;
+}
+
 /**
  * Verify and decode an access token specifically
  */
-export function verifyAccessToken(token: string): TokenPayload | null {
+export async function verifyAccessToken(token: string): Promise<TokenPayload | null> {
   const decoded = verifyToken(token);
-  if (decoded && decoded.type === "access") {
+  if (decoded && decoded.type === "access" && (await isLoginSessionActive(decoded.sid, decoded.id))) {
     return decoded;
   }
   return null;
@@ -102,9 +228,14 @@ export function verifyAccessToken(token: string): TokenPayload | null {
 /**
  * Verify and decode a refresh token specifically
  */
-export function verifyRefreshToken(token: string): TokenPayload | null {
+export async function verifyRefreshToken(token: string): Promise<TokenPayload | null> {
   const decoded = verifyToken(token);
-  if (decoded && decoded.type === "refresh") {
+  if (
+    decoded &&
+    decoded.type === "refresh" &&
+    decoded.jti &&
+    (await isLoginSessionActive(decoded.sid, decoded.id))
+  ) {
     return decoded;
   }
   return null;
@@ -115,11 +246,11 @@ export function verifyRefreshToken(token: string): TokenPayload | null {
 /**
  * Middleware to verify bearer token in Authorization header
  */
-export function authMiddleware(
+export async function authMiddleware(
   req: AuthRequest,
   res: Response,
   next: NextFunction,
-): void {
+): Promise<void> {
   try {
     const authHeader = req.headers.authorization;
 
@@ -129,7 +260,7 @@ export function authMiddleware(
     }
 
     const token = authHeader.substring(7);
-    const decoded = verifyAccessToken(token);
+    const decoded = await verifyAccessToken(token);
 
     if (!decoded) {
       res.status(401).json({ message: "Invalid or expired access token" });
@@ -142,6 +273,7 @@ export function authMiddleware(
       role: decoded.role,
     } as User & { id: string };
     req.token = token;
+    req.sessionId = decoded.sid;
     next();
   } catch (error) {
     res.status(401).json({ message: "Unauthorized" });
@@ -151,16 +283,16 @@ export function authMiddleware(
 /**
  * Optional auth middleware - doesn't fail if token is missing, but sets user if valid
  */
-export function optionalAuthMiddleware(
+export async function optionalAuthMiddleware(
   req: AuthRequest,
   res: Response,
   next: NextFunction,
-): void {
+): Promise<void> {
   const authHeader = req.headers.authorization;
 
   if (authHeader && authHeader.startsWith("Bearer ")) {
     const token = authHeader.substring(7);
-    const decoded = verifyAccessToken(token);
+    const decoded = await verifyAccessToken(token).catch(() => null);
 
     if (decoded) {
       req.user = {
@@ -169,6 +301,7 @@ export function optionalAuthMiddleware(
         role: decoded.role,
       } as User & { id: string };
       req.token = token;
+      req.sessionId = decoded.sid;
     }
   }
 
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { storage } from "./storage";
+import { getOpenings } from "./availability";
+
+const NOW = new Date("2030-01-01T00:00:00Z");
+
+async function createMentor(slots: { dayOfWeek: number; startTime: string; endTime: string }[], timezone: string) {
+  const suffix = Math.random().toString(36).slice(2, 8);
+  const mentor = await storage.createUser({
+    username: `mentor-${suffix}`,
+    email: `mentor-${suffix}@example.com`,
+    password: "hashed",
+    role: "mentor",
+  });
+  await storage.replaceAvailabilitySlots(
+    mentor.id,
+    slots.map((slot) => ({ ...slot, mentorId: mentor.id, timezone })),
+  );
+  return mentor;
+}
+
+const startsOf = (openings: { start: Date }[]) => openings.map((opening) => opening.start.toISOString());
+
+describe("openings across DST changes", () => {
+  it("only offers the hours that exist on the night clocks spring forward", async () => {
+    // Sunday 01:00-04:00 in New York is two real hours on 10 March 2030
+    const mentor = await createMentor([{ dayOfWeek: 0, startTime: "01:00", endTime: "04:00" }], "America/New_York");
+
+    const openings = await getOpenings(
+      mentor.id,
+      new Date("2030-03-10T00:00:00Z"),
+      new Date("2030-03-11T00:00:00Z"),
+      60,
+      NOW,
+    );
+
+    expect(startsOf(openings)).toEqual(["2030-03-10T06:00:00.000Z", "2030-03-10T06:30:00.000Z", "2030-03-10T07:00:00.000Z"]);
+  });
+
+  it("offers an opening that spans the hour repeated when clocks fall back", async () => {
+    // Sunday 01:00-03:00 in New York is three real hours on 3 November 2030
+    const mentor = await createMentor([{ dayOfWeek: 0, startTime: "01:00", endTime: "03:00" }], "America/New_York");
+
+    const openings = await getOpenings(
+      mentor.id,
+      new Date("2030-11-03T00:00:00Z"),
+      new Date("2030-11-04T00:00:00Z"),
+      120,
+      NOW,
+    );
+
+    expect(startsOf(openings)).toEqual(["2030-11-03T05:00:00.000Z", "2030-11-03T05:30:00.000Z", "2030-11-03T06:00:00.000Z"]);
+    // The first one starts at 01:00 EDT and ends at 02:00 EST, two hours later
+    expect(openings[0].end.toISOString()).toBe("2030-11-03T07:00:00.000Z");
+  });
+
+  it("keeps a weekly slot at its wall-clock time on both sides of the change", async () => {
+    const mentor = await createMentor([{ dayOfWeek: 1, startTime: "09:00", endTime: "10:00" }], "America/New_York");
+
+    const openings = await getOpenings(
+      mentor.id,
+      new Date("2030-03-04T00:00:00Z"),
+      new Date("2030-03-12T00:00:00Z"),
+      60,
+      NOW,
+    );
+
+    expect(startsOf(openings)).toEqual(["2030-03-04T14:00:00.000Z", "2030-03-11T13:00:00.000Z"]);
+  });
+});
@@ -0,0 +1,322 @@
+import { storage } from "./storage";
+import { CustomError } from "./middleware/errorHandler";
+import { zonedTimeToUtc, toZonedDate, addDays, getDayOfWeek } from "@shared/timezone";
+import { type AvailabilitySlot, type AvailabilityException, type Session } from "@shared/schema";
+
+// ==================== Configuration ====================
+
+/** Openings start this far apart within an availability window */
+const OPENING_STEP_MINUTES = 30;
+
+/** Longest date range openings can be requested for */
+export const MAX_OPENINGS_RANGE_DAYS = 42;
+
+// ==================== Types ====================
+
+export interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+// ==================== Helpers ====================
+
+/**
+ * Sort and join overlapping or touching ranges
+ */
+function mergeRanges(ranges: TimeRange[]): TimeRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const merged: TimeRange[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      if (range.end > last.end) last.end = range.end;
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Remove every part of the ranges covered by one of the holes
+ */
+function subtractRanges(ranges: TimeRange[], holes: TimeRange[]): TimeRange[] {
+  let remaining = ranges;
+
+  for (const hole of holes) {
+    remaining = remaining.flatMap((range) => {
+      if (hole.end <= range.start || hole.start >= range.end) return [range];
+
+      const pieces: TimeRange[] = [];
+      if (hole.start > range.start) pieces.push({ start: range.start, end: hole.start });
+      if (hole.end < range.end) pieces.push({ start: hole.end, end: range.end });
+      return pieces;
+    });
+  }
+
+  return remaining;
+}
+
+// ==================== Availability ====================
+
+/** The time an exception covers; the whole local day when it has no times */
+export function getExceptionRange(exception: AvailabilityException): TimeRange {
+  return exception.startTime && exception.endTime
+    ? {
+        start: zonedTimeToUtc(exception.date, exception.startTime, exception.timezone),
+        end: zonedTimeToUtc(exception.date, exception.endTime, exception.timezone),
+      }
+    : {
+        start: zonedTimeToUtc(exception.date, "00:00", exception.timezone),
+        end: zonedTimeToUtc(exception.date, "24:00", exception.timezone),
+      };
+}
+
+/** Local dates, padded by a day on both sides, that can overlap [from, to) in any timezone */
+function localDateRange(from: Date, to: Date) {
+  return { firstDate: addDays(toZonedDate(from, "UTC"), -1), lastDate: addDays(toZonedDate(to, "UTC"), 1) };
+}
+
+/**
+ * Merged availability ranges overlapping [from, to) from a mentor's slots and exceptions
+ * - exceptions must cover the local date range of [from, to)
+ */
+function buildAvailabilityWindows(
+  slots: AvailabilitySlot[],
+  exceptions: AvailabilityException[],
+  from: Date,
+  to: Date,
+): TimeRange[] {
+  const { firstDate, lastDate } = localDateRange(from, to);
+
+  const open: TimeRange[] = [];
+  for (let date = firstDate; date <= lastDate; date = addDays(date, 1)) {
+    const dayOfWeek = getDayOfWeek(date);
+    for (const slot of slots) {
+      if (slot.dayOfWeek !== dayOfWeek) continue;
+      open.push({
+        start: zonedTimeToUtc(date, slot.startTime, slot.timezone),
+        end: zonedTimeToUtc(date, slot.endTime, slot.timezone),
+      });
+    }
+  }
+
+  const closed: TimeRange[] = [];
+  for (const exception of exceptions) {
+    const range = getExceptionRange(exception);
+    if (exception.kind === "available") {
+      open.push(range);
+    } else {
+      closed.push(range);
+    }
+  }
+
+  return subtractRanges(mergeRanges(open), closed).filter((range) => range.start < to && range.end > from);
+}
+
+/**
+ * Times within [from, to) that a new weekly schedule covers and the previous one did not,
+ * ignoring exceptions; ranges are clipped to [from, to)
+ */
+export function findAddedAvailability(
+  before: AvailabilitySlot[],
+  after: AvailabilitySlot[],
+  from: Date,
+  to: Date,
+): TimeRange[] {
+  const added = subtractRanges(
+    buildAvailabilityWindows(after, [], from, to),
+    buildAvailabilityWindows(before, [], from, to),
+  );
+  return added
+    .map((range) => ({ start: range.start < from ? from : range.start, end: range.end > to ? to : range.end }))
+    .filter((range) => range.start < range.end);
+}
+
+/**
+ * Times a mentor can be booked that overlap [from, to), as merged UTC ranges
+ * - Ranges are not clipped to [from, to)
+ * - Weekly slots are expanded on every local date of their timezone, so a
+ *   slot keeps its wall-clock time across DST changes
+ * - "available" exceptions add hours; "unavailable" ones remove them, or the
+ *   whole local day when they have no times
+ */
+export async function getAvailabilityWindows(mentorId: string, from: Date, to: Date): Promise<TimeRange[]> {
+  const { firstDate, lastDate } = localDateRange(from, to);
+  const [slots, exceptions] = await Promise.all([
+    storage.getAvailabilitySlots(mentorId),
+    storage.getAvailabilityExceptions(mentorId, firstDate, lastDate),
+  ]);
+
+  return buildAvailabilityWindows(slots, exceptions, from, to);
+}
+
+/**
+ * Session-length openings within the windows that start in [from, to)
+ * - booked: sessions of the mentor that may overlap the openings
+ * - stops after `limit` openings
+ */
+function findOpenings(
+  windows: TimeRange[],
+  booked: Session[],
+  from: Date,
+  to: Date,
+  durationMinutes: number,
+  now: Date,
+  limit = Infinity,
+): TimeRange[] {
+  const durationMs = durationMinutes * 60_000;
+  const stepMs = OPENING_STEP_MINUTES * 60_000;
+  const busy = booked.map((session) => ({
+    start: session.scheduledTime,
+    end: new Date(session.scheduledTime.getTime() + session.durationMinutes * 60_000),
+  }));
+
+  const openings: TimeRange[] = [];
+  for (const window of windows) {
+    for (let start = window.start.getTime(); start + durationMs <= window.end.getTime(); start += stepMs) {
+      if (start < from.getTime() || start >= to.getTime() || start <= now.getTime()) continue;
+
+      const end = start + durationMs;
+      if (busy.some((range) => range.start.getTime() < end && range.end.getTime() > start)) continue;
+
+      openings.push({ start: new Date(start), end: new Date(end) });
+      if (openings.length >= limit) return openings;
+    }
+  }
+
+  return openings;
+}
+
+/**
+ * Sessions the mentor can be booked for that start in [from, to)
+ * - Starts are spaced OPENING_STEP_MINUTES apart from the start of each window
+ *   and the whole session must fit in the window
+ * - Past starts and times overlapping the mentor's pending or confirmed
+ *   sessions are left out
+ */
+export async function getOpenings(
+  mentorId: string,
+  from: Date,
+  to: Date,
+  durationMinutes: number,
+  now = new Date(),
+): Promise<TimeRange[]> {
+  const [windows, booked] = await Promise.all([
+    getAvailabilityWindows(mentorId, from, to),
+    // Sessions starting near the end of the range may run past it
+    storage.getOverlappingSessions([mentorId], from, new Date(to.getTime() + durationMinutes * 60_000)),
+  ]);
+
+  return findOpenings(windows, booked, from, to, durationMinutes, now);
+}
+
+/**
+ * Availability windows overlapping [from, to) and pending or confirmed sessions
+ * overlapping [from, bookedUntil) of each mentor, keyed by mentor id
+ * - Three queries however many mentors are asked for
+ */
+async function getMentorsSchedules(
+  mentorIds: string[],
+  from: Date,
+  to: Date,
+  bookedUntil: Date,
+): Promise<Map<string, { windows: TimeRange[]; booked: Session[] }>> {
+  const { firstDate, lastDate } = localDateRange(from, to);
+  const [slots, exceptions, booked] = await Promise.all([
+    storage.getMentorsAvailabilitySlots(mentorIds),
+    storage.getMentorsAvailabilityExceptions(mentorIds, firstDate, lastDate),
+    storage.getOverlappingSessions(mentorIds, from, bookedUntil),
+  ]);
+
+  return new Map(
+    mentorIds.map((mentorId) => [
+      mentorId,
+      {
+        windows: buildAvailabilityWindows(
+          slots.filter((slot) => slot.mentorId === mentorId),
+          exceptions.filter((exception) => exception.mentorId === mentorId),
+          from,
+          to,
+        ),
+        // A mentor can be busy with sessions they booked as a student
+        booked: booked.filter((session) => session.mentorId === mentorId || session.studentId === mentorId),
+      },
+    ]),
+  );
+}
+
+/**
+ * The earliest opening of each mentor that starts in [from, to), keyed by mentor id;
+ * null for mentors without one
+ * - Same rules as getOpenings, but three queries however many mentors are asked for
+ */
+export async function getFirstOpenings(
+  mentorIds: string[],
+  from: Date,
+  to: Date,
+  durationMinutes: number,
+  now = new Date(),
+): Promise<Map<string, Date | null>> {
+  const schedules = await getMentorsSchedules(mentorIds, from, to, new Date(to.getTime() + durationMinutes * 60_000));
+
+  const firstOpenings = new Map<string, Date | null>();
+  for (const mentorId of mentorIds) {
+    const { windows, booked } = schedules.get(mentorId)!;
+    const [first] = findOpenings(windows, booked, from, to, durationMinutes, now, 1);
+    firstOpenings.set(mentorId, first?.start ?? null);
+  }
+  return firstOpenings;
+}
+
+/**
+ * Time within [from, to) that each mentor is available and not booked, keyed by mentor id
+ * - Ranges are clipped to [from, to)
+ */
+export async function getFreeTime(mentorIds: string[], from: Date, to: Date): Promise<Map<string, TimeRange[]>> {
+  const schedules = await getMentorsSchedules(mentorIds, from, to, to);
+
+  const freeTime = new Map<string, TimeRange[]>();
+  for (const mentorId of mentorIds) {
+    const { windows, booked } = schedules.get(mentorId)!;
+    const busy = booked.map((session) => ({
+      start: session.scheduledTime,
+      end: new Date(session.scheduledTime.getTime() + session.durationMinutes * 60_000),
+    }));
+    const clipped = windows.map((window) => ({
+      start: window.start < from ? from : window.start,
+      end: window.end > to ? to : window.end,
+    }));
+    freeTime.set(mentorId, subtractRanges(clipped, busy));
+  }
+  return freeTime;
+}
+
+/**
+ * Whether a mentor has set up availability: weekly hours, or extra available days
+ */
+export async function hasConfiguredAvailability(mentorId: string): Promise<boolean> {
+  const [slots, exceptions] = await Promise.all([
+    storage.getAvailabilitySlots(mentorId),
+    storage.getAvailabilityExceptions(mentorId),
+  ]);
+  return slots.length > 0 || exceptions.some((exception) => exception.kind === "available");
+}
+
+/**
+ * Throw 409 unless the whole range falls within the mentor's availability
+ * - Mentors who have not set up availability yet can be booked at any time,
+ *   as before availability existed; they confirm or decline each request
+ */
+export async function assertWithinAvailability(mentorId: string, range: TimeRange): Promise<void> {
+  if (!(await hasConfiguredAvailability(mentorId))) return;
+
+  const windows = await getAvailabilityWindows(mentorId, range.start, range.end);
+  const covered = windows.some((window) => window.start <= range.start && window.end >= range.end);
+
+  if (!covered) {
+    throw new CustomError("The mentor is not available at that time", 409);
+  }
+}
@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { storage } from "./storage";
+import { renderCalendar, renderSessionCalendar } from "./calendar";
+import { transitionSession } from "./sessionLifecycle";
+
+const DAY_MS = 24 * 60 * 60_000;
+
+async function createSession(subject = "Physics") {
+  const suffix = Math.random().toString(36).slice(2, 8);
+  const createUser = (name: string, role: "student" | "mentor") =>
+    storage.createUser({ username: `${name}-${suffix}`, email: `${name}-${suffix}@example.com`, password: "hashed", role });
+
+  const mentor = await createUser("mentor", "mentor");
+  const student = await createUser("sam", "student");
+  const session = await storage.createSession({
+    studentId: student.id,
+    mentorId: mentor.id,
+    subject,
+    scheduledTime: new Date("2030-05-06T14:00:00Z"),
+  });
+  return { mentor, student, session };
+}
+
+/** The content lines of a document, with folded lines joined back up */
+const unfold = (ics: string) => ics.replace(/\r\n /g, "").split("\r\n");
+
+const property = (ics: string, name: string) =>
+  unfold(ics)
+    .filter((line) => line.startsWith(`${name}:`))
+    .map((line) => line.slice(name.length + 1));
+
+describe("session calendar events", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("raises SEQUENCE and LAST-MODIFIED whenever the time or status changes", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2030-05-01T09:00:00Z"));
+    const { mentor, student, session } = await createSession();
+
+    const booked = await renderSessionCalendar(session, student.id);
+    expect(property(booked, "SEQUENCE")).toEqual(["0"]);
+    expect(property(booked, "LAST-MODIFIED")).toEqual(["20300501T090000Z"]);
+
+    vi.setSystemTime(new Date("2030-05-02T10:30:00Z"));
+    const confirmed = await transitionSession(session, "confirmed", { actorId: mentor.id });
+    vi.setSystemTime(new Date("2030-05-03T08:15:00Z"));
+    const moved = await storage.updateSessionTime(session.id, new Date("2030-05-07T14:00:00Z"), ["confirmed"]);
+
+    const afterConfirm = await renderSessionCalendar(confirmed, student.id);
+    expect(property(afterConfirm, "SEQUENCE")).toEqual(["1"]);
+    expect(property(afterConfirm, "LAST-MODIFIED")).toEqual(["20300502T103000Z"]);
+    const afterMove = await renderSessionCalendar(moved!, student.id);
+    expect(property(afterMove, "SEQUENCE")).toEqual(["2"]);
+    expect(property(afterMove, "LAST-MODIFIED")).toEqual(["20300503T081500Z"]);
+    expect(property(afterMove, "DTSTART")).toEqual(["20300507T140000Z"]);
+    expect(property(afterMove, "DTSTAMP")).toEqual(["20300503T081500Z"]);
+  });
+
+  it("escapes text values", async () => {
+    const { mentor, student, session } = await createSession("Chemistry; organic, part 1\\2");
+    const cancelled = await transitionSession(session, "cancelled", { actorId: mentor.id, reason: "Ill,\nsorry" });
+
+    const ics = await renderSessionCalendar(cancelled, student.id);
+
+    expect(property(ics, "SUMMARY")).toEqual([`Chemistry\\; organic\\, part 1\\\\2 with ${mentor.username}`]);
+    expect(property(ics, "DESCRIPTION")).toEqual([
+      "MentorConnect session (booked in UTC)\\nReason: Ill\\,\\nsorry",
+    ]);
+    expect(property(ics, "STATUS")).toEqual(["CANCELLED"]);
+  });
+
+  it("folds long lines at 75 octets without splitting characters", async () => {
+    const subject = "Études avancées de mécanique quantique — séance préparatoire ".repeat(4).trim();
+    const { session } = await createSession(subject);
+
+    const ics = renderCalendar([{ session }], "Sessions", new Date("2030-05-01T09:00:00Z"));
+    const lines = ics.split("\r\n");
+
+    expect(ics.endsWith("\r\n")).toBe(true);
+    expect(lines.at(-1)).toBe("");
+    expect(lines.every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(lines.filter((line) => line.startsWith(" ")).length).toBeGreaterThan(2);
+    expect(lines.some((line) => line.includes("�"))).toBe(false);
+    expect(property(ics, "SUMMARY")).toEqual([subject]);
+  });
+
+  it("lists every session of a calendar between one VCALENDAR header and footer", async () => {
+    const first = await createSession();
+    const second = await createSession();
+
+    const ics = renderCalendar([{ session: first.session }, { session: second.session }], "Sessions", new Date(DAY_MS));
+    const lines = unfold(ics);
+
+    expect(lines.slice(0, 6)).toEqual([
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//MentorConnect//Sessions//EN",
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      "X-WR-CALNAME:Sessions",
+    ]);
+    expect(property(ics, "UID")).toEqual([`${first.session.id}@mentorconnect`, `${second.session.id}@mentorconnect`]);
+    expect(lines.at(-2)).toBe("END:VCALENDAR");
+  });
+});
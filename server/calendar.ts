@@ -0,0 +1,169 @@
+import { randomBytes } from "crypto";
+import { storage } from "./storage";
+import { getSessionEnd } from "./sessionLifecycle";
+import { type Session, type SessionStatus, type User } from "@shared/schema";
+
+// ==================== Configuration ====================
+
+const PRODUCT_ID = "-//MentorConnect//Sessions//EN";
+
+/** Right-hand side of event UIDs, keeping them unique across calendars */
+const UID_DOMAIN = "mentorconnect";
+
+const FEED_NAME = "MentorConnect sessions";
+
+/** Statuses listed in subscription feeds; cancelled ones are kept so calendars remove them */
+const FEED_STATUSES: readonly SessionStatus[] = ["confirmed", "cancelled"];
+
+/** Longest content line in octets, not counting the line break (RFC 5545 3.1) */
+const MAX_LINE_OCTETS = 75;
+
+const EVENT_STATUS: Record<SessionStatus, "TENTATIVE" | "CONFIRMED" | "CANCELLED"> = {
+  pending: "TENTATIVE",
+  confirmed: "CONFIRMED",
+  declined: "CANCELLED",
+  cancelled: "CANCELLED",
+  completed: "CONFIRMED",
+  no_show: "CONFIRMED",
+};
+
+// ==================== Types ====================
+
+/**
+ * A session as seen by one of its participants
+ * - counterpart: the other participant, named in the event title
+ */
+export interface CalendarEvent {
+  session: Session;
+  counterpart?: User;
+}
+
+// ==================== Formatting ====================
+
+/** UTC date-time such as 20261019T173000Z, so no VTIMEZONE definitions are needed */
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** Escape a TEXT value (RFC 5545 3.3.11) */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Split a content line into lines of at most 75 octets
+ * - Continuation lines start with a space, which counts towards their length
+ * - Multi-byte characters are never split
+ */
+function foldLine(line: string): string {
+  const lines: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of Array.from(line)) {
+    const size = Buffer.byteLength(char);
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+
+  return lines.join("\r\n ");
+}
+
+/**
+ * One VEVENT for a session
+ * - SEQUENCE goes up with every change of time or status, so calendars that
+ *   imported an earlier copy replace it rather than keep both
+ */
+function renderEvent({ session, counterpart }: CalendarEvent, now: Date): string[] {
+  const title = counterpart ? `${session.subject} with ${counterpart.username}` : session.subject;
+  const description = [
+    `MentorConnect session (booked in ${session.timezone})`,
+    EVENT_STATUS[session.status] === "CANCELLED" && session.statusReason ? `Reason: ${session.statusReason}` : null,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${session.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `DTSTART:${formatDateTime(session.scheduledTime)}`,
+    `DTEND:${formatDateTime(getSessionEnd(session))}`,
+    `SUMMARY:${escapeText(title)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `STATUS:${EVENT_STATUS[session.status]}`,
+    `SEQUENCE:${session.sequence}`,
+    `LAST-MODIFIED:${formatDateTime(session.updatedAt)}`,
+    "END:VEVENT",
+  ];
+}
+
+/**
+ * An iCalendar (RFC 5545) document with one VEVENT per session
+ * - Lines end in CRLF and are folded at 75 octets
+ * @param name - Calendar name shown by clients that subscribe to it
+ */
+export function renderCalendar(events: CalendarEvent[], name?: string, now = new Date()): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...(name ? [`X-WR-CALNAME:${escapeText(name)}`] : []),
+    ...events.flatMap((event) => renderEvent(event, now)),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// ==================== Feeds ====================
+
+async function toCalendarEvent(session: Session, viewerId: string): Promise<CalendarEvent> {
+  const counterpartId = session.studentId === viewerId ? session.mentorId : session.studentId;
+  return { session, counterpart: await storage.getUser(counterpartId) };
+}
+
+/**
+ * A single session as an .ics document, titled for the given participant
+ */
+export async function renderSessionCalendar(session: Session, viewerId: string, now = new Date()): Promise<string> {
+  return renderCalendar([await toCalendarEvent(session, viewerId)], undefined, now);
+}
+
+/**
+ * The token behind a user's subscription URL, created on first use
+ * @param reset - Issue a new token, so the previous URL stops working
+ */
+export async function getCalendarFeedToken(userId: string, reset = false): Promise<string> {
+  const existing = reset ? undefined : await storage.getCalendarFeed(userId);
+  if (existing) return existing.token;
+
+  const feed = await storage.replaceCalendarFeed(userId, randomBytes(24).toString("base64url"));
+  return feed.token;
+}
+
+/**
+ * A user's subscription feed: their confirmed sessions that have not ended yet,
+ * plus upcoming cancelled ones so calendars that already have them mark them cancelled
+ */
+export async function renderCalendarFeed(userId: string, now = new Date()): Promise<string> {
+  const sessions = (await storage.getUserSessions(userId))
+    .filter((session) => FEED_STATUSES.includes(session.status) && getSessionEnd(session) > now)
+    .sort((a, b) => a.scheduledTime.getTime() - b.scheduledTime.getTime());
+
+  const events = await Promise.all(sessions.map((session) => toCalendarEvent(session, userId)));
+  return renderCalendar(events, FEED_NAME, now);
+}
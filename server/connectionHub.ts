@@ -0,0 +1,221 @@
+import { WebSocket } from "ws";
+
+// ==================== Configuration ====================
+
+/** Interval between heartbeat pings; sockets that miss one pong are dropped */
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+/** Close code sent when the token is missing, invalid or expired, or its login session was revoked */
+export const WS_CLOSE_UNAUTHORIZED = 4001;
+
+// ==================== Types ====================
+
+export interface Presence {
+  userId: string;
+  online: boolean;
+  /** When the user's last connection closed; null while online or if not seen since startup */
+  lastSeen: Date | null;
+}
+
+// ==================== Connection Hub ====================
+
+/**
+ * Registry of open chat sockets, keyed by user
+ * - A user may be connected from several devices at once
+ * - Heartbeats (ping/pong) prune connections that died without a close frame
+ * - Presence: a user is online while they have at least one socket; sockets that
+ *   watch a user get a `presence` event whenever that flips
+ * - Each socket remembers the login session it authenticated with, so logging out
+ *   or revoking that session closes it
+ */
+export class ConnectionHub {
+  private connections: Map<string, Set<WebSocket>>;
+  private alive: WeakMap<WebSocket, boolean>;
+  private loginSessions: WeakMap<WebSocket, string>;
+  private lastSeen: Map<string, Date>;
+  private watchers: Map<string, Set<WebSocket>>;
+  private watching: WeakMap<WebSocket, Set<string>>;
+  private heartbeatTimer: NodeJS.Timeout | null;
+
+  constructor() {
+    this.connections = new Map();
+    this.alive = new WeakMap();
+    this.loginSessions = new WeakMap();
+    this.lastSeen = new Map();
+    this.watchers = new Map();
+    this.watching = new WeakMap();
+    this.heartbeatTimer = null;
+  }
+
+  add(userId: string, ws: WebSocket, loginSessionId?: string): void {
+    let sockets = this.connections.get(userId);
+    const cameOnline = !sockets;
+    if (!sockets) {
+      sockets = new Set();
+      this.connections.set(userId, sockets);
+    }
+
+    if (!sockets.has(ws)) {
+      sockets.add(ws);
+      this.alive.set(ws, true);
+      ws.on("pong", () => this.alive.set(ws, true));
+    }
+
+    if (loginSessionId) {
+      this.loginSessions.set(ws, loginSessionId);
+    } else {
+      this.loginSessions.delete(ws);
+    }
+
+    if (cameOnline) {
+      this.notifyWatchers(userId);
+    }
+  }
+
+  remove(userId: string, ws: WebSocket): void {
+    this.unwatch(ws);
+
+    const sockets = this.connections.get(userId);
+    if (!sockets) return;
+
+    sockets.delete(ws);
+    if (sockets.size === 0) {
+      this.connections.delete(userId);
+      this.lastSeen.set(userId, new Date());
+      this.notifyWatchers(userId);
+    }
+  }
+
+  isOnline(userId: string): boolean {
+    return this.connections.has(userId);
+  }
+
+  getPresence(userId: string): Presence {
+    const online = this.isOnline(userId);
+    return { userId, online, lastSeen: online ? null : this.lastSeen.get(userId) ?? null };
+  }
+
+  /**
+   * Subscribe a socket to presence changes of the given users,
+   * replacing whatever it watched before
+   * @returns Current presence of each watched user
+   */
+  watch(ws: WebSocket, userIds: string[]): Presence[] {
+    this.unwatch(ws);
+
+    const watched = new Set(userIds);
+    this.watching.set(ws, watched);
+    for (const userId of Array.from(watched)) {
+      let sockets = this.watchers.get(userId);
+      if (!sockets) {
+        sockets = new Set();
+        this.watchers.set(userId, sockets);
+      }
+      sockets.add(ws);
+    }
+
+    return Array.from(watched).map((userId) => this.getPresence(userId));
+  }
+
+  private unwatch(ws: WebSocket): void {
+    const watched = this.watching.get(ws);
+    if (!watched) return;
+
+    for (const userId of Array.from(watched)) {
+      const sockets = this.watchers.get(userId);
+      sockets?.delete(ws);
+      if (sockets?.size === 0) {
+        this.watchers.delete(userId);
+      }
+    }
+    this.watching.delete(ws);
+  }
+
+  private notifyWatchers(userId: string): void {
+    const sockets = this.watchers.get(userId);
+    if (!sockets) return;
+
+    const data = JSON.stringify({ type: "presence", ...this.getPresence(userId) });
+    for (const ws of Array.from(sockets)) {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(data);
+      }
+    }
+  }
+
+  /**
+   * Send a payload to every open socket of the given users
+   * A user listed twice (e.g. messaging themselves) still receives it once per socket
+   */
+  sendToUsers(userIds: string[], payload: unknown): void {
+    const data = JSON.stringify(payload);
+
+    for (const userId of Array.from(new Set(userIds))) {
+      const sockets = this.connections.get(userId);
+      if (!sockets) continue;
+
+      for (const ws of Array.from(sockets)) {
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.send(data);
+        }
+      }
+    }
+  }
+
+  sendToUser(userId: string, payload: unknown): void {
+    this.sendToUsers([userId], payload);
+  }
+
+  /**
+   * Close every socket authenticated with the given login session
+   * - Closing emits "close", which removes the socket from the hub
+   */
+  closeLoginSession(loginSessionId: string): void {
+    for (const sockets of Array.from(this.connections.values())) {
+      for (const ws of Array.from(sockets)) {
+        if (this.loginSessions.get(ws) === loginSessionId) {
+          ws.close(WS_CLOSE_UNAUTHORIZED, "Session revoked");
+        }
+      }
+    }
+  }
+
+  /** Close every socket of the user, e.g. after logging out everywhere */
+  closeUser(userId: string): void {
+    for (const ws of Array.from(this.connections.get(userId) ?? [])) {
+      ws.close(WS_CLOSE_UNAUTHORIZED, "Session revoked");
+    }
+  }
+
+  /**
+   * Start pinging every socket; those that did not answer the previous ping are terminated
+   */
+  startHeartbeat(intervalMs = HEARTBEAT_INTERVAL_MS): void {
+    this.stopHeartbeat();
+
+    this.heartbeatTimer = setInterval(() => {
+      for (const sockets of Array.from(this.connections.values())) {
+        for (const ws of Array.from(sockets)) {
+          if (!this.alive.get(ws)) {
+            // terminate() emits "close", which removes the socket from the hub
+            ws.terminate();
+            continue;
+          }
+
+          this.alive.set(ws, false);
+          ws.ping();
+        }
+      }
+    }, intervalMs);
+    this.heartbeatTimer.unref();
+  }
+
+  stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+}
+
+export const connectionHub = new ConnectionHub();
@@ -0,0 +1,16 @@
+import pg from "pg";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import * as schema from "@shared/schema";
+
+export type Database = NodePgDatabase<typeof schema>;
+
+/**
+ * Create a Drizzle client backed by a node-postgres connection pool
+ * @param connectionString - PostgreSQL connection URL (usually DATABASE_URL)
+ * @returns The Drizzle client and the pool it uses
+ */
+export function createDb(connectionString: string): { db: Database; pool: pg.Pool } {
+  const pool = new pg.Pool({ connectionString });
+  const db = drizzle(pool, { schema });
+  return { db, pool };
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import { storage } from "./storage";
+import { formatNotificationTime } from "./notifications";
+import {
+  FAVORITE_AVAILABILITY_JOB,
+  listFavoriteMentors,
+  queueFavoriteAvailabilityNotice,
+  saveFavoriteMentor,
+  sendFavoriteAvailabilityNotice,
+} from "./favorites";
+
+const DAY_MS = 24 * 60 * 60_000;
+const HOUR_MS = 60 * 60_000;
+
+const inDays = (days: number, hour = 0) =>
+  new Date(Math.ceil(Date.now() / DAY_MS) * DAY_MS + days * DAY_MS + hour * HOUR_MS);
+
+async function createUser(name: string, role: "student" | "mentor") {
+  const suffix = Math.random().toString(36).slice(2, 8);
+  return storage.createUser({
+    username: `${name}-${suffix}`,
+    email: `${name}-${suffix}@example.com`,
+    password: "hashed",
+    role,
+  });
+}
+
+/** A mentor available 09:00-17:00 UTC every day */
+async function createAvailableMentor() {
+  const mentor = await createUser("mentor", "mentor");
+  await storage.replaceAvailabilitySlots(
+    mentor.id,
+    [0, 1, 2, 3, 4, 5, 6].map((dayOfWeek) => ({
+      mentorId: mentor.id,
+      dayOfWeek,
+      startTime: "09:00",
+      endTime: "17:00",
+      timezone: "UTC",
+    })),
+  );
+  return mentor;
+}
+
+describe("favorite mentors", () => {
+  it("only lets students favorite, and only mentors", async () => {
+    const mentor = await createUser("mentor", "mentor");
+    const student = await createUser("sam", "student");
+
+    await expect(saveFavoriteMentor(mentor, mentor.id)).rejects.toMatchObject({ status: 403 });
+    await expect(saveFavoriteMentor(student, student.id)).rejects.toMatchObject({ status: 404 });
+    await expect(saveFavoriteMentor(student, mentor.id)).resolves.toMatchObject({
+      studentId: student.id,
+      mentorId: mentor.id,
+      notify: false,
+    });
+  });
+
+  it("lists a student's own favorites, with the mentor's next opening", async () => {
+    const mentor = await createAvailableMentor();
+    const [student, other] = [await createUser("sam", "student"), await createUser("eve", "student")];
+    await saveFavoriteMentor(student, mentor.id);
+    // Saving again only changes whether the student is notified
+    await saveFavoriteMentor(student, mentor.id, true);
+
+    const favorites = await listFavoriteMentors(student.id, inDays(1));
+
+    expect(favorites).toHaveLength(1);
+    expect(favorites[0]).toMatchObject({
+      mentor: { id: mentor.id },
+      favorite: { notify: true },
+      rating: { average: null, count: 0 },
+      nextOpening: inDays(1, 9),
+    });
+    expect(await listFavoriteMentors(other.id)).toEqual([]);
+  });
+});
+
+describe("favorite availability notices", () => {
+  it("gathers changes made close together into one notice, from the earliest time added", async () => {
+    const mentor = await createAvailableMentor();
+    const now = inDays(1);
+
+    await queueFavoriteAvailabilityNotice(mentor.id, [{ start: inDays(3, 9), end: inDays(3, 17) }], now);
+    const later = new Date(now.getTime() + 5 * 60_000);
+    await queueFavoriteAvailabilityNotice(mentor.id, [{ start: inDays(2, 9), end: inDays(2, 17) }], later);
+
+    expect(await storage.getJob(`${FAVORITE_AVAILABILITY_JOB}:${mentor.id}`)).toMatchObject({
+      type: FAVORITE_AVAILABILITY_JOB,
+      status: "pending",
+      runAt: new Date(later.getTime() + 15 * 60_000),
+      payload: { mentorId: mentor.id, from: inDays(2, 9).toISOString() },
+    });
+  });
+
+  it("notifies the students who asked, in their own timezone", async () => {
+    const mentor = await createAvailableMentor();
+    const [notified, quiet] = [await createUser("sam", "student"), await createUser("eve", "student")];
+    await storage.createOrUpdateProfile({ userId: notified.id, timezone: "Asia/Tokyo" });
+    await saveFavoriteMentor(notified, mentor.id, true);
+    await saveFavoriteMentor(quiet, mentor.id, false);
+    const now = inDays(1);
+    const job = await queueAndRead(mentor.id, now);
+
+    await sendFavoriteAvailabilityNotice(job.payload, { job, now, savePayload: async () => {} });
+
+    const [notification] = await storage.getUserNotifications(notified.id, 10);
+    expect(notification).toMatchObject({
+      type: "favorite_availability",
+      title: `${mentor.username} has new availability`,
+      body: `Open from ${formatNotificationTime(inDays(1, 9), "Asia/Tokyo")}`,
+      mentorId: mentor.id,
+    });
+    expect(await storage.getUserNotifications(quiet.id, 10)).toEqual([]);
+  });
+
+  it("sends nothing once the added time has been removed again", async () => {
+    const mentor = await createAvailableMentor();
+    const student = await createUser("sam", "student");
+    await saveFavoriteMentor(student, mentor.id, true);
+    const now = inDays(1);
+    const job = await queueAndRead(mentor.id, now);
+    await storage.replaceAvailabilitySlots(mentor.id, []);
+
+    await sendFavoriteAvailabilityNotice(job.payload, { job, now, savePayload: async () => {} });
+
+    expect(await storage.getUserNotifications(student.id, 10)).toEqual([]);
+  });
+
+  async function queueAndRead(mentorId: string, now: Date) {
+    await queueFavoriteAvailabilityNotice(mentorId, [{ start: now, end: new Date(now.getTime() + DAY_MS) }], now);
+    return (await storage.getJob(`${FAVORITE_AVAILABILITY_JOB}:${mentorId}`))!;
+  }
+});
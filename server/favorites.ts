@@ -0,0 +1,145 @@
+import { storage } from "./storage";
+import { CustomError } from "./middleware/errorHandler";
+import { jobScheduler, type JobHandler, type JobScheduler } from "./jobScheduler";
+import { notifyUser, formatNotificationTime } from "./notifications";
+import { getRatingSummaries, type RatingSummary } from "./reviews";
+import { getFirstOpenings, getFreeTime, type TimeRange } from "./availability";
+import { NEXT_OPENING_HORIZON_DAYS } from "./mentorSearch";
+import { DEFAULT_SESSION_DURATION_MINUTES, type FavoriteMentor, type Profile, type User } from "@shared/schema";
+
+// ==================== Configuration ====================
+
+export const FAVORITE_AVAILABILITY_JOB = "favorite-availability";
+
+/** Availability changes are gathered for this long, so a mentor editing their week sends one notification */
+const AVAILABILITY_NOTICE_DELAY_MS = 15 * 60_000;
+
+const DAY_MS = 24 * 60 * 60_000;
+
+// ==================== Types ====================
+
+/** A favorite as listed to its student */
+export interface FavoriteMentorListing {
+  favorite: FavoriteMentor;
+  mentor: User;
+  profile?: Profile;
+  rating: RatingSummary;
+  nextOpening: Date | null;
+}
+
+// ==================== Favorites ====================
+
+/**
+ * Add a mentor to a student's favorites, or change whether the student is notified about them
+ * - Only students have favorites, and only mentors can be one
+ */
+export async function saveFavoriteMentor(student: User, mentorId: string, notify?: boolean): Promise<FavoriteMentor> {
+  if (student.role !== "student") {
+    throw new CustomError("Only students can favorite mentors", 403);
+  }
+
+  const mentor = await storage.getUser(mentorId);
+  if (!mentor || mentor.role !== "mentor") {
+    throw new CustomError("Mentor not found", 404);
+  }
+
+  return storage.saveFavoriteMentor({ studentId: student.id, mentorId, notify });
+}
+
+/**
+ * A student's favorite mentors, most recently added first, as GET /api/mentors lists them
+ * - A handful of queries, however many favorites there are
+ */
+export async function listFavoriteMentors(studentId: string, now = new Date()): Promise<FavoriteMentorListing[]> {
+  const favorites = await storage.getFavoriteMentors(studentId);
+  const mentorIds = favorites.map((favorite) => favorite.mentorId);
+
+  const [hits, ratings, nextOpenings] = await Promise.all([
+    storage.searchMentors({ mentorIds }),
+    getRatingSummaries(mentorIds),
+    getFirstOpenings(
+      mentorIds,
+      now,
+      new Date(now.getTime() + NEXT_OPENING_HORIZON_DAYS * DAY_MS),
+      DEFAULT_SESSION_DURATION_MINUTES,
+      now,
+    ),
+  ]);
+
+  return favorites.flatMap((favorite) => {
+    const hit = hits.find((candidate) => candidate.mentor.id === favorite.mentorId);
+    if (!hit) return [];
+    return [
+      {
+        favorite,
+        mentor: hit.mentor,
+        profile: hit.profile,
+        rating: ratings.get(favorite.mentorId)!,
+        nextOpening: nextOpenings.get(favorite.mentorId) ?? null,
+      },
+    ];
+  });
+}
+
+// ==================== Availability Notices ====================
+
+const availabilityNoticeKey = (mentorId: string) => `${FAVORITE_AVAILABILITY_JOB}:${mentorId}`;
+
+/**
+ * Let the students who favorited a mentor, and asked to be notified, know of time the mentor added
+ * - The notice goes out AVAILABILITY_NOTICE_DELAY_MS after the latest change; changes made
+ *   before then are sent together, from the earliest time added
+ */
+export async function queueFavoriteAvailabilityNotice(
+  mentorId: string,
+  added: TimeRange[],
+  now = new Date(),
+): Promise<void> {
+  if (added.length === 0) return;
+
+  const key = availabilityNoticeKey(mentorId);
+  const earliest = Math.min(...added.map((range) => range.start.getTime()));
+  const queued = await storage.getJob(key);
+  const queuedFrom = queued?.status === "pending" ? Date.parse(String(queued.payload.from)) : NaN;
+  const from = new Date(Number.isNaN(queuedFrom) ? earliest : Math.min(earliest, queuedFrom));
+
+  await jobScheduler.schedule(FAVORITE_AVAILABILITY_JOB, key, new Date(now.getTime() + AVAILABILITY_NOTICE_DELAY_MS), {
+    mentorId,
+    from: from.toISOString(),
+  });
+}
+
+/**
+ * Tell the students following a mentor when they can book them next
+ * - Skipped when the added time has since been removed or booked; only
+ *   time within NEXT_OPENING_HORIZON_DAYS counts
+ * - Each student sees the time in their own timezone
+ */
+export const sendFavoriteAvailabilityNotice: JobHandler = async (payload, { now }) => {
+  const mentorId = String(payload.mentorId);
+  const [mentor, favorites] = await Promise.all([storage.getUser(mentorId), storage.getNotifyingFavorites(mentorId)]);
+  if (!mentor || favorites.length === 0) return;
+
+  const from = new Date(Math.max(Date.parse(String(payload.from)) || 0, now.getTime()));
+  const to = new Date(now.getTime() + NEXT_OPENING_HORIZON_DAYS * DAY_MS);
+  if (from >= to) return;
+
+  const freeTime = await getFreeTime([mentorId], from, to);
+  const [first] = freeTime.get(mentorId) ?? [];
+  if (!first) return;
+
+  for (const favorite of favorites) {
+    const profile = await storage.getProfile(favorite.studentId);
+    await notifyUser({
+      userId: favorite.studentId,
+      type: "favorite_availability",
+      title: `${mentor.username} has new availability`,
+      body: `Open from ${formatNotificationTime(first.start, profile?.timezone ?? "UTC")}`,
+      mentorId,
+    });
+  }
+};
+
+export function registerFavoriteJobs(scheduler: JobScheduler = jobScheduler): void {
+  scheduler.define(FAVORITE_AVAILABILITY_JOB, sendFavoriteAvailabilityNotice);
+}
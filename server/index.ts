@@ -1,7 +1,10 @@
 import 'dotenv/config';
-import express, { type Request, Response, NextFunction } from "express";
+import express from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { createDb } from "./db";
+import { runMigrations } from "./migrate";
+import { errorHandler } from "./middleware/errorHandler";
 
 const app = express();
 
@@ -48,16 +51,21 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Opt-in so that several instances sharing a database don't race each other
+  if (process.env.MIGRATE_ON_BOOT === "true" && process.env.DATABASE_URL) {
+    const { db, pool } = createDb(process.env.DATABASE_URL);
+    try {
+      await runMigrations(db);
+      log("database migrations applied");
+    } finally {
+      await pool.end();
+    }
+  }
+
   const server = await registerRoutes(app);
 
   // Error handling middleware MUST be last
-  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
-    console.error('Error:', err);
-    const status = err.status || err.statusCode || 500;
-    const message = err.message || "Internal Server Error";
-
-    res.status(status).json({ message });
-  });
+  app.use(errorHandler);
 
   // importantly only setup vite in development and after
   // setting up all the other routes so the catch-all route
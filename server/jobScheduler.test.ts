@@ -0,0 +1,188 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MemStorage } from "./storage";
+import { JobScheduler, type Clock, type JobHandler } from "./jobScheduler";
+
+const MINUTE = 60_000;
+
+class FakeClock implements Clock {
+  constructor(private time: Date) {}
+
+  now(): Date {
+    return new Date(this.time);
+  }
+
+  advance(ms: number): void {
+    this.time = new Date(this.time.getTime() + ms);
+  }
+}
+
+describe("JobScheduler", () => {
+  let storage: MemStorage;
+  let clock: FakeClock;
+  let scheduler: JobScheduler;
+
+  beforeEach(() => {
+    storage = new MemStorage();
+    clock = new FakeClock(new Date("2030-01-01T12:00:00Z"));
+    scheduler = new JobScheduler(storage, { clock, maxAttempts: 3 });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    vi.restoreAllMocks();
+  });
+
+  it("runs jobs once they are due, and only once", async () => {
+    const handler = vi.fn<JobHandler>(async () => {});
+    scheduler.define("remind", handler);
+    await scheduler.schedule("remind", "remind:a", new Date(clock.now().getTime() + 10 * MINUTE), { sessionId: "a" });
+
+    expect(await scheduler.runDueJobs()).toBe(0);
+    expect(handler).not.toHaveBeenCalled();
+
+    clock.advance(10 * MINUTE);
+    expect(await scheduler.runDueJobs()).toBe(1);
+    expect(handler).toHaveBeenCalledWith({ sessionId: "a" }, expect.objectContaining({ now: clock.now() }));
+    expect((await storage.getJob("remind:a"))?.status).toBe("completed");
+
+    expect(await scheduler.runDueJobs()).toBe(0);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("runs due jobs earliest first and skips cancelled ones", async () => {
+    const ran: string[] = [];
+    scheduler.define("remind", async (payload) => {
+      ran.push(String(payload.name));
+    });
+    const now = clock.now().getTime();
+    await scheduler.schedule("remind", "second", new Date(now - MINUTE), { name: "second" });
+    await scheduler.schedule("remind", "first", new Date(now - 2 * MINUTE), { name: "first" });
+    await scheduler.schedule("remind", "cancelled", new Date(now - 3 * MINUTE), { name: "cancelled" });
+    await scheduler.cancel(["cancelled"]);
+
+    expect(await scheduler.runDueJobs()).toBe(2);
+    expect(ran).toEqual(["first", "second"]);
+  });
+
+  it("retries a failing job with exponential backoff, then marks it failed", async () => {
+    const handler = vi.fn<JobHandler>(async () => {
+      throw new Error("mail server down");
+    });
+    scheduler.define("email", handler);
+    await scheduler.schedule("email", "email:1", clock.now());
+
+    await scheduler.runDueJobs();
+    let job = await storage.getJob("email:1");
+    expect(job).toMatchObject({ status: "pending", attempts: 1, lastError: "mail server down" });
+    expect(job!.runAt).toEqual(new Date(clock.now().getTime() + MINUTE));
+
+    // Not retried before the backoff has passed
+    clock.advance(MINUTE - 1);
+    expect(await scheduler.runDueJobs()).toBe(0);
+
+    clock.advance(1);
+    await scheduler.runDueJobs();
+    job = await storage.getJob("email:1");
+    expect(job).toMatchObject({ status: "pending", attempts: 2 });
+    expect(job!.runAt).toEqual(new Date(clock.now().getTime() + 2 * MINUTE));
+
+    clock.advance(2 * MINUTE);
+    await scheduler.runDueJobs();
+    expect(await storage.getJob("email:1")).toMatchObject({ status: "failed", attempts: 3 });
+    expect(handler).toHaveBeenCalledTimes(3);
+
+    clock.advance(60 * MINUTE);
+    expect(await scheduler.runDueJobs()).toBe(0);
+  });
+
+  it("hands a retry the payload saved by the failed run", async () => {
+    const sent: string[] = [];
+    let failures = 1;
+    scheduler.define("email", async (payload, { savePayload }) => {
+      const done = payload.done as string[];
+      for (const recipient of ["ada", "bob"]) {
+        if (done.includes(recipient)) continue;
+        if (recipient === "bob" && failures-- > 0) throw new Error("mail server down");
+        sent.push(recipient);
+        await savePayload({ done: [...done, recipient] });
+      }
+    });
+    await scheduler.schedule("email", "email:1", clock.now(), { done: [] });
+
+    await scheduler.runDueJobs();
+    clock.advance(MINUTE);
+    await scheduler.runDueJobs();
+
+    expect(sent).toEqual(["ada", "bob"]);
+    expect(await storage.getJob("email:1")).toMatchObject({ status: "completed", attempts: 2 });
+  });
+
+  it("fails jobs of a type without a handler", async () => {
+    await scheduler.schedule("unknown", "unknown:1", clock.now());
+
+    await scheduler.runDueJobs();
+
+    expect(await storage.getJob("unknown:1")).toMatchObject({
+      status: "failed",
+      lastError: 'No handler for job type "unknown"',
+    });
+  });
+
+  it("queues a recurring job once, keeping its next run across restarts", async () => {
+    const handler = vi.fn<JobHandler>(async () => {});
+    scheduler.defineRecurring("cleanup", 15 * MINUTE, handler);
+
+    await scheduler.start();
+    await scheduler.runDueJobs();
+    expect(handler).toHaveBeenCalledTimes(1);
+    const next = (await storage.getJob("cleanup"))!.runAt;
+    expect(next).toEqual(new Date(clock.now().getTime() + 15 * MINUTE));
+
+    // A restart does not queue it again or move its next run forward
+    scheduler.stop();
+    const restarted = new JobScheduler(storage, { clock });
+    restarted.defineRecurring("cleanup", 15 * MINUTE, handler);
+    await restarted.start();
+    await restarted.runDueJobs();
+    restarted.stop();
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect((await storage.getJob("cleanup"))!.runAt).toEqual(next);
+
+    clock.advance(15 * MINUTE);
+    await scheduler.runDueJobs();
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps an existing job when scheduling it only if missing", async () => {
+    const runAt = new Date(clock.now().getTime() + MINUTE);
+    await scheduler.schedule("remind", "remind:a", runAt, { version: 1 });
+
+    const kept = await storage.scheduleJobIfMissing({
+      key: "remind:a",
+      type: "remind",
+      runAt: new Date(runAt.getTime() + MINUTE),
+      payload: { version: 2 },
+    });
+
+    expect(kept).toMatchObject({ runAt, payload: { version: 1 } });
+  });
+
+  it("revives a recurring job that ran out of attempts when started", async () => {
+    scheduler.defineRecurring("cleanup", 15 * MINUTE, async () => {
+      throw new Error("disk full");
+    });
+    await scheduler.start();
+    scheduler.stop();
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await scheduler.runDueJobs();
+      clock.advance(60 * MINUTE);
+    }
+    expect((await storage.getJob("cleanup"))?.status).toBe("failed");
+
+    await scheduler.start();
+    scheduler.stop();
+    await scheduler.runDueJobs();
+    expect(await storage.getJob("cleanup")).toMatchObject({ status: "pending", attempts: 1 });
+  });
+});
@@ -0,0 +1,238 @@
+import { randomUUID } from "crypto";
+import { storage, type IStorage } from "./storage";
+import { type ScheduledJob } from "@shared/schema";
+
+// ==================== Configuration ====================
+
+/** How often the queue is checked for due jobs */
+const POLL_INTERVAL_MS = 10_000;
+
+/** How long a worker may run a job before another one may take it over */
+const LOCK_DURATION_MS = 5 * 60_000;
+
+/** Runs of a failing job, including the first, before it is marked failed */
+const MAX_ATTEMPTS = 5;
+
+/** Delay before the first retry of a failed run; doubled for every further attempt */
+const RETRY_BASE_DELAY_MS = 60_000;
+
+// ==================== Types ====================
+
+/**
+ * Source of the current time
+ * - Swapped for a fake clock to run jobs at a chosen moment
+ */
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+export interface JobContext {
+  job: ScheduledJob;
+  /** The scheduler's clock when the run started */
+  now: Date;
+  /** Replace the job's payload, so a retry after a failure sees what this run already did */
+  savePayload(payload: Record<string, unknown>): Promise<void>;
+}
+
+export type JobHandler = (payload: Record<string, unknown>, context: JobContext) => Promise<void>;
+
+interface JobDefinition {
+  handler: JobHandler;
+  /** Set for recurring jobs: the delay between the end of one run and the next */
+  intervalMs?: number;
+}
+
+export interface JobSchedulerOptions {
+  clock?: Clock;
+  pollIntervalMs?: number;
+  lockDurationMs?: number;
+  maxAttempts?: number;
+}
+
+// ==================== Job Scheduler ====================
+
+/**
+ * Runs persisted jobs once they are due
+ * - Jobs live in storage, so those scheduled before a restart still run after it;
+ *   a job left locked by a process that died runs again once its lock expires
+ * - Each job type has one handler; a handler that throws is retried with
+ *   exponential backoff until it has run MAX_ATTEMPTS times
+ * - Handlers must tolerate running late, or more than once; one with several
+ *   side effects can record those done with savePayload, so a retry skips them
+ * - All time decisions go through the clock, and runDueJobs() can be called directly,
+ *   so jobs can be driven without waiting for the poll timer
+ */
+export class JobScheduler {
+  private storage: IStorage;
+  private clock: Clock;
+  private pollIntervalMs: number;
+  private lockDurationMs: number;
+  private maxAttempts: number;
+  private workerId: string;
+  private definitions: Map<string, JobDefinition>;
+  private pollTimer: NodeJS.Timeout | null;
+  private running: Promise<number> | null;
+
+  constructor(jobStorage: IStorage, options: JobSchedulerOptions = {}) {
+    this.storage = jobStorage;
+    this.clock = options.clock ?? systemClock;
+    this.pollIntervalMs = options.pollIntervalMs ?? POLL_INTERVAL_MS;
+    this.lockDurationMs = options.lockDurationMs ?? LOCK_DURATION_MS;
+    this.maxAttempts = options.maxAttempts ?? MAX_ATTEMPTS;
+    this.workerId = randomUUID();
+    this.definitions = new Map();
+    this.pollTimer = null;
+    this.running = null;
+  }
+
+  /** Register the handler for jobs of a type */
+  define(type: string, handler: JobHandler): void {
+    this.definitions.set(type, { handler });
+  }
+
+  /**
+   * Register a job that runs every intervalMs for as long as the scheduler is started
+   * - There is a single job of the type, keyed by the type; it is queued on start()
+   */
+  defineRecurring(type: string, intervalMs: number, handler: JobHandler): void {
+    this.definitions.set(type, { handler, intervalMs });
+  }
+
+  /**
+   * Queue a job to run at runAt
+   * - Scheduling an existing key again replaces its time and payload and makes it pending,
+   *   even if it already ran or was cancelled
+   */
+  schedule(type: string, key: string, runAt: Date, payload: Record<string, unknown> = {}): Promise<ScheduledJob> {
+    return this.storage.scheduleJob({ key, type, runAt, payload });
+  }
+
+  /** Drop the given jobs if they have not run yet */
+  cancel(keys: string[]): Promise<void> {
+    return this.storage.cancelJobs(keys);
+  }
+
+  /**
+   * Run every job that is due, one at a time, until none is left
+   * - Calls made while a run is in progress wait for it instead of starting another
+   * @returns Number of jobs run
+   */
+  runDueJobs(): Promise<number> {
+    if (!this.running) {
+      this.running = this.drain().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async drain(): Promise<number> {
+    let count = 0;
+    for (;;) {
+      const now = this.clock.now();
+      const job = await this.storage.claimDueJob(
+        now,
+        this.workerId,
+        new Date(now.getTime() + this.lockDurationMs),
+      );
+      if (!job) return count;
+
+      await this.runJob(job, now);
+      count++;
+    }
+  }
+
+  private async runJob(job: ScheduledJob, now: Date): Promise<void> {
+    const definition = this.definitions.get(job.type);
+    if (!definition) {
+      await this.storage.finishJob(
+        job.id,
+        this.workerId,
+        { status: "failed", lastError: `No handler for job type "${job.type}"` },
+        now,
+      );
+      return;
+    }
+
+    try {
+      await definition.handler(job.payload, {
+        job,
+        now,
+        savePayload: async (payload) => {
+          await this.storage.updateJobPayload(job.id, this.workerId, payload);
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Job ${job.key} failed (attempt ${job.attempts}):`, error);
+
+      const finishedAt = this.clock.now();
+      const retry = job.attempts < this.maxAttempts;
+      await this.storage.finishJob(
+        job.id,
+        this.workerId,
+        retry
+          ? {
+              status: "pending",
+              runAt: new Date(finishedAt.getTime() + RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1)),
+              lastError: message,
+            }
+          : { status: "failed", lastError: message },
+        finishedAt,
+      );
+      return;
+    }
+
+    const finishedAt = this.clock.now();
+    await this.storage.finishJob(
+      job.id,
+      this.workerId,
+      definition.intervalMs
+        ? { status: "pending", runAt: new Date(finishedAt.getTime() + definition.intervalMs), attempts: 0 }
+        : { status: "completed" },
+      finishedAt,
+    );
+  }
+
+  /**
+   * Queue the recurring jobs and start polling for due jobs
+   * - A recurring job that is already queued keeps its next run time
+   */
+  async start(): Promise<void> {
+    this.stop();
+
+    const now = this.clock.now();
+    for (const [type, definition] of Array.from(this.definitions.entries())) {
+      if (!definition.intervalMs) continue;
+
+      const job = await this.storage.scheduleJobIfMissing({ key: type, type, runAt: now });
+      // A recurring job is never meant to stop; revive it if it ran out of attempts
+      if (job.status !== "pending") {
+        await this.storage.scheduleJob({ key: type, type, runAt: now });
+      }
+    }
+
+    const poll = () => {
+      this.runDueJobs().catch((error) => {
+        console.error("Job scheduler error:", error);
+      });
+    };
+
+    poll();
+    this.pollTimer = setInterval(poll, this.pollIntervalMs);
+    this.pollTimer.unref();
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+}
+
+export const jobScheduler = new JobScheduler(storage);
@@ -0,0 +1,229 @@
+import { storage, type MentorSearchFilters, type MentorSearchKey } from "./storage";
+import { CustomError } from "./middleware/errorHandler";
+import { type RatingSummary } from "./reviews";
+import { getFirstOpenings, MAX_OPENINGS_RANGE_DAYS } from "./availability";
+import { resolveSubjectFilter } from "./subjects";
+import { tokenize } from "./utils/search";
+import { type MentorSearchQueryInput } from "./validation/schemas";
+import { DEFAULT_SESSION_DURATION_MINUTES, type MentorSort, type Profile, type User } from "@shared/schema";
+
+// ==================== Configuration ====================
+
+export const DEFAULT_MENTOR_PAGE_SIZE = 12;
+
+/** How far ahead a mentor's next opening is looked for */
+export const NEXT_OPENING_HORIZON_DAYS = 14;
+
+/** Most mentors ranked by their openings, when sorting by them or filtering by an availability window */
+export const MAX_OPENING_CANDIDATES = 200;
+
+const DAY_MS = 24 * 60 * 60_000;
+
+// ==================== Types ====================
+
+/**
+ * A mentor in the listing
+ * - nextOpening: start of the mentor's first opening within NEXT_OPENING_HORIZON_DAYS, if any
+ */
+export interface MentorSearchResult {
+  mentor: User;
+  profile?: Profile;
+  rating: RatingSummary;
+  relevance: number;
+  nextOpening: Date | null;
+}
+
+/**
+ * One page of the listing
+ * - nextCursor: pass as `cursor` to get the following page; null on the last page
+ * - total: how many mentors match, across all pages
+ */
+export interface MentorSearchPage {
+  results: MentorSearchResult[];
+  nextCursor: string | null;
+  total: number;
+}
+
+// ==================== Ordering ====================
+
+/**
+ * The values a listing is ordered by; cursors carry the key of the last mentor of a page
+ * - Storage orders by the same values for every sort but "soonest" (see MentorSearchOptions);
+ *   these comparators order the mentors ranked by their openings
+ */
+interface SortKey {
+  id: string;
+  username: string;
+  relevance: number;
+  average: number | null;
+  count: number;
+  createdAt: number;
+  nextOpening: number | null;
+}
+
+const toSortKey = (result: MentorSearchResult): SortKey => ({
+  id: result.mentor.id,
+  username: result.mentor.username,
+  relevance: result.relevance,
+  average: result.rating.average,
+  count: result.rating.count,
+  createdAt: result.mentor.createdAt.getTime(),
+  nextOpening: result.nextOpening?.getTime() ?? null,
+});
+
+const byRelevance = (a: SortKey, b: SortKey) => b.relevance - a.relevance;
+
+/** Better rated first; unrated mentors last, then more reviewed first */
+const byRating = (a: SortKey, b: SortKey) => (b.average ?? 0) - (a.average ?? 0) || b.count - a.count;
+
+/** Final tie-break, so every mentor has a distinct place and cursors never skip or repeat one */
+const byName = (a: SortKey, b: SortKey) =>
+  a.username.localeCompare(b.username) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+/** Earliest opening first; mentors without one last */
+const byNextOpening = (a: SortKey, b: SortKey) =>
+  (a.nextOpening ?? Number.MAX_SAFE_INTEGER) - (b.nextOpening ?? Number.MAX_SAFE_INTEGER);
+
+const comparators: Record<MentorSort, (a: SortKey, b: SortKey) => number> = {
+  relevance: (a, b) => byRelevance(a, b) || byRating(a, b) || byName(a, b),
+  rating: (a, b) => byRating(a, b) || byRelevance(a, b) || byName(a, b),
+  newest: (a, b) => b.createdAt - a.createdAt || byName(a, b),
+  soonest: (a, b) => byNextOpening(a, b) || byRelevance(a, b) || byRating(a, b) || byName(a, b),
+};
+
+// ==================== Cursors ====================
+
+function encodeCursor(sort: MentorSort, key: SortKey): string {
+  return Buffer.from(JSON.stringify({ sort, key })).toString("base64url");
+}
+
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+function decodeCursor(cursor: string, sort: MentorSort): SortKey {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    const key = decoded?.sort === sort ? decoded.key : undefined;
+    // Storage compares rows with every value of the key, so all of them have to be well-formed
+    if (
+      typeof key?.id === "string" &&
+      typeof key.username === "string" &&
+      isNumber(key.relevance) &&
+      (key.average === null || isNumber(key.average)) &&
+      isNumber(key.count) &&
+      isNumber(key.createdAt) &&
+      (key.nextOpening === null || isNumber(key.nextOpening))
+    ) {
+      return key;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new CustomError("Invalid cursor", 400);
+}
+
+const toStorageKey = (key: SortKey): MentorSearchKey => ({
+  id: key.id,
+  username: key.username,
+  relevance: key.relevance,
+  average: key.average,
+  count: key.count,
+  createdAt: new Date(key.createdAt),
+});
+
+// ==================== Search ====================
+
+/**
+ * Find mentors by free text and filters, one page at a time
+ * - Storage filters, orders and pages the mentors in one query; openings are
+ *   then looked up for the page only
+ * - Openings cannot be compared in storage, so sorting by the soonest opening or
+ *   filtering by an availability window ranks at most MAX_OPENING_CANDIDATES
+ *   mentors, the best matches by relevance (or by the sort asked for)
+ * - The subject filter is resolved against the catalog (see resolveSubjectFilter)
+ * - Availability means at least one opening of the default session length in the window
+ * - Pages follow the sort order; a cursor resumes after the mentor it was taken
+ *   from, so mentors that join or leave the results between pages do not shift the rest
+ */
+export async function searchMentors(query: MentorSearchQueryInput, now = new Date()): Promise<MentorSearchPage> {
+  const sort = query.sort ?? "relevance";
+  const limit = query.limit ?? DEFAULT_MENTOR_PAGE_SIZE;
+  const after = query.cursor ? decodeCursor(query.cursor, sort) : undefined;
+
+  const from = query.availableFrom ? new Date(query.availableFrom) : undefined;
+  const to = query.availableTo ? new Date(query.availableTo) : undefined;
+  if (from && to && to.getTime() - from.getTime() > MAX_OPENINGS_RANGE_DAYS * DAY_MS) {
+    throw new CustomError(`The availability window can be at most ${MAX_OPENINGS_RANGE_DAYS} days`, 400);
+  }
+
+  const filters: MentorSearchFilters = {
+    terms: query.q ? tokenize(query.q) : [],
+    ...(await resolveSubjectFilter(query.subject || undefined)),
+    language: query.language || undefined,
+    minRating: query.minRating,
+    minPrice: query.minPrice,
+    maxPrice: query.maxPrice,
+  };
+
+  const findNextOpenings = (mentorIds: string[]) =>
+    getFirstOpenings(
+      mentorIds,
+      now,
+      new Date(now.getTime() + NEXT_OPENING_HORIZON_DAYS * DAY_MS),
+      DEFAULT_SESSION_DURATION_MINUTES,
+      now,
+    );
+
+  if (sort !== "soonest" && !(from && to)) {
+    // One extra mentor tells whether there is a next page
+    const [hits, total] = await Promise.all([
+      storage.searchMentors(filters, { sort, after: after && toStorageKey(after), limit: limit + 1 }),
+      storage.countMentors(filters),
+    ]);
+    const page = hits.slice(0, limit);
+    const nextOpenings = await findNextOpenings(page.map((hit) => hit.mentor.id));
+    const results = page.map((hit) => ({ ...hit, nextOpening: nextOpenings.get(hit.mentor.id) ?? null }));
+    const last = results[results.length - 1];
+
+    return {
+      results,
+      nextCursor: hits.length > limit && last ? encodeCursor(sort, toSortKey(last)) : null,
+      total,
+    };
+  }
+
+  let hits = await storage.searchMentors(filters, {
+    sort: sort === "soonest" ? "relevance" : sort,
+    limit: MAX_OPENING_CANDIDATES,
+  });
+
+  if (from && to) {
+    const openings = await getFirstOpenings(
+      hits.map((hit) => hit.mentor.id),
+      from,
+      to,
+      DEFAULT_SESSION_DURATION_MINUTES,
+      now,
+    );
+    hits = hits.filter((hit) => openings.get(hit.mentor.id));
+  }
+
+  // Next openings are needed for every candidate to sort by them, otherwise only for the page shown
+  const sortOpenings = sort === "soonest" ? await findNextOpenings(hits.map((hit) => hit.mentor.id)) : undefined;
+
+  const compare = comparators[sort];
+  const sorted = hits
+    .map((hit) => ({ ...hit, nextOpening: sortOpenings?.get(hit.mentor.id) ?? null }))
+    .map((result) => ({ result, key: toSortKey(result) }))
+    .sort((a, b) => compare(a.key, b.key));
+
+  const remaining = after ? sorted.filter(({ key }) => compare(key, after) > 0) : sorted;
+  const page = remaining.slice(0, limit).map(({ result }) => result);
+  const last = page[page.length - 1];
+  const nextOpenings = sortOpenings ?? (await findNextOpenings(page.map((result) => result.mentor.id)));
+
+  return {
+    results: page.map((result) => ({ ...result, nextOpening: nextOpenings.get(result.mentor.id) ?? null })),
+    nextCursor: remaining.length > limit && last ? encodeCursor(sort, toSortKey(last)) : null,
+    total: sorted.length,
+  };
+}
@@ -32,15 +32,7 @@ export function errorHandler(
 
   // Handle Zod validation errors
   if (err instanceof ZodError) {
-    const validationErrors = err.issues.map((issue) => ({
-      field: issue.path.join("."),
-      message: issue.message,
-    }));
-
-    res.status(400).json({
-      error: "Validation failed",
-      details: validationErrors,
-    });
+    sendValidationError(res, err);
     return;
   }
 
@@ -74,6 +66,20 @@ export function errorHandler(
   }
 }
 
+/**
+ * Respond 400 with every issue of a failed validation
+ * - Body: `{ error: "Validation failed", details: [{ field, message }] }`
+ */
+export function sendValidationError(res: Response, error: ZodError): Response {
+  return res.status(400).json({
+    error: "Validation failed",
+    details: error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+    })),
+  });
+}
+
 /**
  * Async error wrapper - catches errors in async route handlers
  */
@@ -0,0 +1,57 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { sql } from "drizzle-orm";
+import type { Database } from "./db";
+import { createPgliteDb } from "./test/pglite";
+import { rollbackMigrations, runMigrations } from "./migrate";
+
+// Migrations after 0007, the last one with free-text availability
+const SINCE_FREE_TEXT_AVAILABILITY = 11;
+
+describe("migrations", () => {
+  let db: Database;
+  let close: () => Promise<void>;
+
+  beforeAll(async () => {
+    ({ db, close } = createPgliteDb());
+    await runMigrations(db);
+  });
+
+  afterAll(async () => {
+    await close();
+  });
+
+  it("rolls every migration back and applies it again", async () => {
+    const tables = async () =>
+      (await db.execute<{ tablename: string }>(sql`select tablename from pg_tables where schemaname = 'public'`)).rows
+        .map((row) => row.tablename)
+        .sort();
+    const migrated = await tables();
+
+    const rolledBack = await rollbackMigrations(db, 100);
+    expect(rolledBack.at(-1)).toBe("0000_init");
+    expect(await tables()).toEqual([]);
+
+    await runMigrations(db);
+    expect(await tables()).toEqual(migrated);
+  });
+
+  it("keeps free-text availability as a note, and restores it on rollback", async () => {
+    await rollbackMigrations(db, SINCE_FREE_TEXT_AVAILABILITY);
+    await db.execute(
+      sql`insert into profiles (user_id, availability) values ('mentor', 'Weekday evenings after 6pm')`,
+    );
+
+    await runMigrations(db);
+    const { rows } = await db.execute<{ availability_note: string }>(
+      sql`select availability_note from profiles where user_id = 'mentor'`,
+    );
+    expect(rows).toEqual([{ availability_note: "Weekday evenings after 6pm" }]);
+
+    await rollbackMigrations(db, SINCE_FREE_TEXT_AVAILABILITY);
+    const restored = await db.execute<{ availability: string }>(
+      sql`select availability from profiles where user_id = 'mentor'`,
+    );
+    expect(restored.rows).toEqual([{ availability: "Weekday evenings after 6pm" }]);
+    await runMigrations(db);
+  });
+});
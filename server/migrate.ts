@@ -0,0 +1,73 @@
+import fs from "fs";
+import path from "path";
+import { sql } from "drizzle-orm";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import { type Database } from "./db";
+
+// ==================== Configuration ====================
+
+const MIGRATIONS_FOLDER = path.resolve(process.cwd(), "migrations");
+
+interface JournalEntry {
+  idx: number;
+  when: number;
+  tag: string;
+}
+
+// ==================== Migration Functions ====================
+
+/**
+ * Apply every pending migration from ./migrations
+ */
+export async function runMigrations(db: Database): Promise<void> {
+  await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
+}
+
+/**
+ * Roll back the most recently applied migrations
+ * Each migration `<tag>.sql` is undone by running its `<tag>.down.sql` sibling
+ * @param steps - Number of migrations to roll back (default 1)
+ * @returns Tags of the migrations that were rolled back
+ */
+export async function rollbackMigrations(db: Database, steps = 1): Promise<string[]> {
+  const journal = JSON.parse(
+    fs.readFileSync(path.join(MIGRATIONS_FOLDER, "meta", "_journal.json"), "utf-8"),
+  ) as { entries: JournalEntry[] };
+
+  const rolledBack: string[] = [];
+
+  for (let i = 0; i < steps; i++) {
+    const { rows } = await db.execute<{ id: number; created_at: string }>(
+      sql`select id, created_at from drizzle.__drizzle_migrations order by created_at desc limit 1`,
+    );
+    const latest = rows[0];
+    if (!latest) break;
+
+    const entry = journal.entries.find((e) => e.when === Number(latest.created_at));
+    if (!entry) {
+      throw new Error(`Applied migration ${latest.created_at} is not in the migrations journal`);
+    }
+
+    const downPath = path.join(MIGRATIONS_FOLDER, `${entry.tag}.down.sql`);
+    if (!fs.existsSync(downPath)) {
+      throw new Error(`No rollback file ${entry.tag}.down.sql found in ${MIGRATIONS_FOLDER}`);
+    }
+
+    const statements = fs
+      .readFileSync(downPath, "utf-8")
+      .split("--> statement-breakpoint")
+      .map((statement) => statement.trim())
+      .filter(Boolean);
+
+    await db.transaction(async (tx) => {
+      for (const statement of statements) {
+        await tx.execute(sql.raw(statement));
+      }
+      await tx.execute(sql`delete from drizzle.__drizzle_migrations where id = ${latest.id}`);
+    });
+
+    rolledBack.push(entry.tag);
+  }
+
+  return rolledBack;
+}
@@ -0,0 +1,29 @@
+import { storage } from "./storage";
+import { connectionHub } from "./connectionHub";
+import { type InsertNotification, type Notification } from "@shared/schema";
+
+/** Most notifications returned by GET /api/notifications */
+export const NOTIFICATION_LIST_LIMIT = 50;
+
+/**
+ * Store an in-app notification and push it to every open /ws connection of its user
+ * - Users who are offline see it in their notification list next time
+ */
+export async function notifyUser(notification: InsertNotification): Promise<Notification> {
+  const saved = await storage.createNotification(notification);
+  connectionHub.sendToUser(saved.userId, { type: "notification", notification: saved });
+  return saved;
+}
+
+/** "Tue, Oct 20, 5:30 PM EDT" in the given zone */
+export function formatNotificationTime(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  }).format(date);
+}
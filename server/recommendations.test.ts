@@ -0,0 +1,125 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { storage } from "./storage";
+import { CustomError } from "./middleware/errorHandler";
+import { recommendMentors } from "./recommendations";
+
+const DAY_MS = 24 * 60 * 60_000;
+
+async function createUser(name: string, role: "student" | "mentor", subjects?: string[]) {
+  const suffix = Math.random().toString(36).slice(2, 8);
+  const user = await storage.createUser({
+    username: `${name}-${suffix}`,
+    email: `${name}-${suffix}@example.com`,
+    password: "hashed",
+    role,
+  });
+  if (subjects) {
+    await storage.createOrUpdateProfile({ userId: user.id, subjects });
+  }
+  return user;
+}
+
+/** Reviews from other students, each for a session of its own */
+async function rate(mentorId: string, ratings: number[]) {
+  const reviewer = await createUser("reviewer", "student");
+  for (const rating of ratings) {
+    await storage.createReview({
+      sessionId: crypto.randomUUID(),
+      mentorId,
+      studentId: reviewer.id,
+      rating,
+      comment: "Thanks",
+    });
+  }
+}
+
+/** A subject no other test uses, so each test only sees its own mentors */
+const uniqueSubject = (name: string) => `${name} ${Math.random().toString(36).slice(2, 8)}`;
+
+describe("mentor recommendations", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("ranks mentors teaching the student's subjects, better rated first, and leaves out the rest", async () => {
+    const chemistry = uniqueSubject("Chemistry");
+    const student = await createUser("sam", "student", [chemistry]);
+    const rated = await createUser("ada", "mentor", [chemistry]);
+    const unrated = await createUser("bob", "mentor", [chemistry]);
+    const other = await createUser("cy", "mentor", [uniqueSubject("Art")]);
+    await rate(rated.id, [5, 5, 5]);
+    await rate(other.id, [5, 5, 5]);
+
+    const recommendations = await recommendMentors(student, {});
+
+    expect(recommendations.map((recommendation) => recommendation.mentor.id)).toEqual([rated.id, unrated.id]);
+    expect(recommendations[0].reasons).toEqual([`Teaches ${chemistry}`, "Rated 5 from 3 reviews"]);
+    expect(recommendations[0].score).toBeGreaterThan(recommendations[1].score);
+  });
+
+  it("ranks a mentor the student liked before above one they have not met", async () => {
+    const biology = uniqueSubject("Biology");
+    const student = await createUser("sam", "student", [biology]);
+    const liked = await createUser("ada", "mentor", [biology]);
+    const stranger = await createUser("bob", "mentor", [biology]);
+    const session = await storage.createSession({
+      studentId: student.id,
+      mentorId: liked.id,
+      subject: biology,
+      scheduledTime: new Date(Date.now() - 7 * DAY_MS),
+    });
+    await storage.updateSessionStatus(session.id, "pending", "completed");
+    await storage.createReview({ sessionId: session.id, mentorId: liked.id, studentId: student.id, rating: 5, comment: "Great" });
+
+    const recommendations = await recommendMentors(student, {});
+
+    expect(recommendations.map((recommendation) => recommendation.mentor.id)).toEqual([liked.id, stranger.id]);
+    expect(recommendations[0].reasons).toContain("You rated your 1 session together 5 stars");
+  });
+
+  it("leaves out a mentor the student rated poorly", async () => {
+    const history = uniqueSubject("History");
+    const student = await createUser("sam", "student", [history]);
+    const disliked = await createUser("ada", "mentor", [history]);
+    const session = await storage.createSession({
+      studentId: student.id,
+      mentorId: disliked.id,
+      subject: history,
+      scheduledTime: new Date(Date.now() - 7 * DAY_MS),
+    });
+    await storage.updateSessionStatus(session.id, "pending", "completed");
+    await storage.createReview({ sessionId: session.id, mentorId: disliked.id, studentId: student.id, rating: 1, comment: "No" });
+
+    expect(await recommendMentors(student, {})).toEqual([]);
+  });
+
+  it("recommends well rated mentors to a student without subjects, and honours the limit", async () => {
+    const student = await createUser("sam", "student");
+    const best = await createUser("ada", "mentor", [uniqueSubject("Music")]);
+    await rate(best.id, [5, 5, 5, 5, 5, 5]);
+
+    const recommendations = await recommendMentors(student, { limit: 1 });
+
+    expect(recommendations).toHaveLength(1);
+    expect(recommendations[0].reasons).toContain("Rated 5 from 6 reviews");
+  });
+
+  it("only loads a bounded set of candidates from storage", async () => {
+    const physics = uniqueSubject("Physics");
+    const student = await createUser("sam", "student", [physics]);
+    const search = vi.spyOn(storage, "searchMentors");
+
+    await recommendMentors(student, {});
+
+    expect(search).toHaveBeenCalledWith({ anySubject: [physics] }, expect.objectContaining({ limit: expect.any(Number) }));
+    for (const [filters, options] of search.mock.calls) {
+      expect(filters.mentorIds !== undefined || options?.limit !== undefined).toBe(true);
+    }
+  });
+
+  it("is only available to students", async () => {
+    const mentor = await createUser("ada", "mentor");
+
+    await expect(recommendMentors(mentor, {})).rejects.toThrow(CustomError);
+  });
+});
@@ -0,0 +1,363 @@
+import { storage, type MentorSearchHit } from "./storage";
+import { CustomError } from "./middleware/errorHandler";
+import { getRatingSummaries, type RatingSummary } from "./reviews";
+import { getFirstOpenings, getFreeTime, type TimeRange } from "./availability";
+import { NEXT_OPENING_HORIZON_DAYS } from "./mentorSearch";
+import { matchDocument, tokenize, SEARCH_WEIGHTS } from "./utils/search";
+import { type RecommendedMentorsQueryInput } from "./validation/schemas";
+import { toZonedDate, toZonedTime, getDayOfWeek } from "@shared/timezone";
+import {
+  DEFAULT_SESSION_DURATION_MINUTES,
+  MAX_RATING,
+  MIN_RATING,
+  subjectLevels,
+  type Profile,
+  type ProfileSubject,
+  type Session,
+  type User,
+} from "@shared/schema";
+
+// ==================== Configuration ====================
+
+export const DEFAULT_RECOMMENDATIONS = 6;
+
+/** Share of the score each signal can contribute; they add up to 1 */
+const SIGNAL_WEIGHTS = { subjects: 0.35, goals: 0.15, availability: 0.2, rating: 0.15, history: 0.15 } as const;
+
+/** Free hours at suitable times, over the horizon, that count as a full availability match */
+const FULL_AVAILABILITY_HOURS = 10;
+
+/** Hours of the day assumed to suit a student who has not booked yet: 08:00 to 21:00 */
+const DEFAULT_PREFERRED_HOURS = { start: 8, end: 21 };
+
+/** Ratings are averaged with this many reviews of PRIOR_RATING, so one 5-star review does not top the list */
+const PRIOR_REVIEWS = 3;
+const PRIOR_RATING = 3.5;
+
+/** A student who rated a mentor this low on average is not recommended them again */
+const DISLIKED_RATING = 2;
+
+/** Reasons given per recommendation, strongest first */
+const MAX_REASONS = 3;
+
+/** Most mentors scored per request, best rated first, however many mentors there are */
+const MAX_CANDIDATES = 50;
+
+const HOUR_MS = 60 * 60_000;
+const STEP_MS = 30 * 60_000;
+
+// ==================== Types ====================
+
+type Signal = keyof typeof SIGNAL_WEIGHTS;
+
+/**
+ * A recommended mentor
+ * - score: 0 to 1, the weighted sum of the signals
+ * - reasons: why they are recommended, most important first
+ */
+export interface MentorRecommendation {
+  mentor: User;
+  profile?: Profile;
+  rating: RatingSummary;
+  nextOpening: Date | null;
+  score: number;
+  reasons: string[];
+}
+
+/** What the recommendations are based on */
+interface StudentContext {
+  /** Subjects from the profile and past bookings */
+  interests: string[];
+  /** Catalog subjects of the profile with the level the student is learning at, keyed by lowercase name */
+  learning: Map<string, ProfileSubject>;
+  /** Search terms of the profile's bio, where students describe their learning goals */
+  goalTerms: string[];
+  timeZone: string;
+  /** "day:hour" keys, in the student's timezone, of the hours that suit them */
+  preferredHours: Set<string>;
+  /** Whether preferredHours come from past bookings rather than the default */
+  hasBookingHistory: boolean;
+  /** The student's sessions with each mentor, keyed by mentor id */
+  sessionsByMentor: Map<string, Session[]>;
+  /** Ratings the student gave each mentor, keyed by mentor id */
+  ratingsGiven: Map<string, number[]>;
+}
+
+interface SignalResult {
+  value: number;
+  reason?: string;
+}
+
+// ==================== Helpers ====================
+
+/** "a", "a and b", "a, b and c" */
+function formatList(items: string[]): string {
+  return items.length <= 1 ? items.join("") : `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`;
+
+function hourKey(instant: Date, timeZone: string): string {
+  const day = getDayOfWeek(toZonedDate(instant, timeZone));
+  return `${day}:${Number(toZonedTime(instant, timeZone).slice(0, 2))}`;
+}
+
+/** Minutes of the ranges that fall in the preferred hours, counted in half-hour steps */
+function minutesInPreferredHours(ranges: TimeRange[], context: StudentContext): number {
+  let minutes = 0;
+  for (const range of ranges) {
+    for (let start = range.start.getTime(); start + STEP_MS <= range.end.getTime(); start += STEP_MS) {
+      if (context.preferredHours.has(hourKey(new Date(start), context.timeZone))) minutes += STEP_MS / 60_000;
+    }
+  }
+  return minutes;
+}
+
+async function loadStudentContext(student: User, profile?: Profile): Promise<StudentContext> {
+  const timeZone = profile?.timezone ?? "UTC";
+  const sessions = (await storage.getUserSessions(student.id)).filter(
+    (session) => session.studentId === student.id && session.status !== "declined" && session.status !== "cancelled",
+  );
+  const [reviews, catalog, subjectLevels] = await Promise.all([
+    storage.getSessionReviews(sessions.map((session) => session.id)),
+    storage.getSubjects(),
+    storage.getProfileSubjects([student.id]),
+  ]);
+
+  const interests = new Map<string, string>();
+  for (const subject of [...(profile?.subjects ?? []), ...sessions.map((session) => session.subject)]) {
+    if (!interests.has(subject.toLowerCase())) interests.set(subject.toLowerCase(), subject);
+  }
+
+  // Hours the student has booked before, or daytime when they have not
+  const preferredHours = new Set<string>();
+  for (const session of sessions) {
+    const end = session.scheduledTime.getTime() + session.durationMinutes * 60_000;
+    for (let start = session.scheduledTime.getTime(); start < end; start += HOUR_MS) {
+      preferredHours.add(hourKey(new Date(start), timeZone));
+    }
+  }
+  const hasBookingHistory = preferredHours.size > 0;
+  if (!hasBookingHistory) {
+    for (let day = 0; day < 7; day++) {
+      for (let hour = DEFAULT_PREFERRED_HOURS.start; hour < DEFAULT_PREFERRED_HOURS.end; hour++) {
+        preferredHours.add(`${day}:${hour}`);
+      }
+    }
+  }
+
+  const learning = new Map<string, ProfileSubject>();
+  for (const entry of subjectLevels) {
+    const subject = catalog.find((candidate) => candidate.id === entry.subjectId);
+    if (subject) learning.set(subject.name.toLowerCase(), entry);
+  }
+
+  const sessionsByMentor = new Map<string, Session[]>();
+  for (const session of sessions) {
+    sessionsByMentor.set(session.mentorId, [...(sessionsByMentor.get(session.mentorId) ?? []), session]);
+  }
+  const ratingsGiven = new Map<string, number[]>();
+  for (const review of reviews) {
+    ratingsGiven.set(review.mentorId, [...(ratingsGiven.get(review.mentorId) ?? []), review.rating]);
+  }
+
+  return {
+    interests: Array.from(interests.values()),
+    learning,
+    goalTerms: tokenize(profile?.bio ?? ""),
+    timeZone,
+    preferredHours,
+    hasBookingHistory,
+    sessionsByMentor,
+    ratingsGiven,
+  };
+}
+
+/**
+ * Mentors worth scoring for the student, narrowed down in storage
+ * - Mentors listing one of the student's subjects, and those the student had sessions with
+ * - The best rated mentors when the student has no subjects yet
+ */
+async function loadCandidates(student: User, context: StudentContext): Promise<MentorSearchHit[]> {
+  const options = { sort: "rating", limit: MAX_CANDIDATES } as const;
+  const pastMentorIds = Array.from(context.sessionsByMentor.keys());
+  const searches = await Promise.all([
+    storage.searchMentors(context.interests.length > 0 ? { anySubject: context.interests } : {}, options),
+    pastMentorIds.length > 0 ? storage.searchMentors({ mentorIds: pastMentorIds }) : [],
+  ]);
+
+  const candidates = new Map<string, MentorSearchHit>();
+  for (const hit of searches.flat()) {
+    if (hit.mentor.id !== student.id) candidates.set(hit.mentor.id, hit);
+  }
+  return Array.from(candidates.values());
+}
+
+// ==================== Signals ====================
+
+/**
+ * Share of the student's subjects the mentor teaches
+ * - A catalog subject the mentor only teaches below the student's level does not count
+ */
+function scoreSubjects(context: StudentContext, profile: Profile | undefined, teaching: ProfileSubject[]): SignalResult {
+  const taught = [{ text: (profile?.subjects ?? []).join(" "), weight: 1 }];
+  const matched = context.interests.filter((interest) => {
+    const learning = context.learning.get(interest.toLowerCase());
+    const taughtLevel = learning && teaching.find((entry) => entry.subjectId === learning.subjectId)?.level;
+    if (taughtLevel && subjectLevels.indexOf(taughtLevel) < subjectLevels.indexOf(learning.level)) return false;
+
+    const terms = tokenize(interest);
+    return terms.length > 0 && matchDocument(terms, taught) !== null;
+  });
+
+  if (matched.length === 0) return { value: 0 };
+  return { value: matched.length / context.interests.length, reason: `Teaches ${formatList(matched)}` };
+}
+
+/** How well the mentor's subjects and bio cover the goals in the student's bio */
+function scoreGoals(context: StudentContext, profile?: Profile): SignalResult {
+  const fields = [
+    { text: (profile?.subjects ?? []).join(" "), weight: SEARCH_WEIGHTS.subjects },
+    { text: profile?.bio ?? "", weight: SEARCH_WEIGHTS.bio },
+  ];
+
+  let relevance = 0;
+  const matched: string[] = [];
+  for (const term of context.goalTerms) {
+    const termRelevance = matchDocument([term], fields);
+    if (termRelevance === null) continue;
+    relevance += termRelevance;
+    matched.push(`"${term}"`);
+  }
+
+  if (matched.length === 0) return { value: 0 };
+  return {
+    value: relevance / context.goalTerms.length,
+    reason: `Matches your goals: ${formatList(matched.slice(0, MAX_REASONS))}`,
+  };
+}
+
+/** Free time in the coming days at hours that suit the student */
+function scoreAvailability(context: StudentContext, freeTime: TimeRange[]): SignalResult {
+  const hours = Math.floor(minutesInPreferredHours(freeTime, context) / 60);
+
+  if (hours === 0) return { value: 0 };
+  return {
+    value: Math.min(1, hours / FULL_AVAILABILITY_HOURS),
+    reason: context.hasBookingHistory
+      ? `Free at times you usually book (${hours} h in the next ${NEXT_OPENING_HORIZON_DAYS} days)`
+      : `${hours} h free during your daytime in the next ${NEXT_OPENING_HORIZON_DAYS} days`,
+  };
+}
+
+/** The mentor's rating, pulled towards PRIOR_RATING while they have few reviews */
+function scoreRating(rating: RatingSummary): SignalResult {
+  const average = ((rating.average ?? 0) * rating.count + PRIOR_RATING * PRIOR_REVIEWS) / (rating.count + PRIOR_REVIEWS);
+  const value = (average - MIN_RATING) / (MAX_RATING - MIN_RATING);
+
+  if (rating.average === null || rating.average < 4) return { value };
+  return { value, reason: `Rated ${rating.average} from ${plural(rating.count, "review")}` };
+}
+
+/** Completed sessions the student had with the mentor, weighed by how they rated them */
+function scoreHistory(context: StudentContext, mentorId: string): SignalResult {
+  const completed = (context.sessionsByMentor.get(mentorId) ?? []).filter((session) => session.status === "completed");
+  if (completed.length === 0) return { value: 0 };
+
+  const given = context.ratingsGiven.get(mentorId) ?? [];
+  if (given.length === 0) {
+    return { value: 0.75, reason: `You've had ${plural(completed.length, "session")} together` };
+  }
+
+  const average = given.reduce((sum, rating) => sum + rating, 0) / given.length;
+  return {
+    value: (average - MIN_RATING) / (MAX_RATING - MIN_RATING),
+    reason: `You rated your ${plural(completed.length, "session")} together ${Math.round(average * 10) / 10} stars`,
+  };
+}
+
+// ==================== Recommendations ====================
+
+/**
+ * Mentors a student is likely to want to book, best first, each with the reasons why
+ * - Scores the student's profile subjects and past booked subjects against what
+ *   each mentor teaches (at the student's level or above, for catalog subjects), the goals in their bio against the mentor's profile,
+ *   the mentor's free time at hours the student books (or daytime, before their
+ *   first booking), the mentor's rating and the student's sessions with them
+ * - Only up to MAX_CANDIDATES mentors teaching the student's subjects (or the best
+ *   rated, before they have any) and the mentors they had sessions with are scored
+ * - Mentors the student rated DISLIKED_RATING or lower, and mentors with no
+ *   reason to recommend them, are left out
+ */
+export async function recommendMentors(
+  student: User,
+  query: RecommendedMentorsQueryInput,
+  now = new Date(),
+): Promise<MentorRecommendation[]> {
+  if (student.role !== "student") {
+    throw new CustomError("Recommendations are only available to students", 403);
+  }
+
+  const limit = query.limit ?? DEFAULT_RECOMMENDATIONS;
+  const profile = await storage.getProfile(student.id);
+  const context = await loadStudentContext(student, profile);
+
+  const candidates = await loadCandidates(student, context);
+  const mentorIds = candidates.map((hit) => hit.mentor.id);
+  const horizon = new Date(now.getTime() + NEXT_OPENING_HORIZON_DAYS * 24 * HOUR_MS);
+  const [ratings, freeTime, teaching] = await Promise.all([
+    getRatingSummaries(mentorIds),
+    getFreeTime(mentorIds, now, horizon),
+    storage.getProfileSubjects(mentorIds),
+  ]);
+
+  const scored = candidates.flatMap(({ mentor, profile: mentorProfile }) => {
+    const given = context.ratingsGiven.get(mentor.id) ?? [];
+    if (given.length > 0 && given.reduce((sum, rating) => sum + rating, 0) / given.length <= DISLIKED_RATING) {
+      return [];
+    }
+
+    const rating = ratings.get(mentor.id)!;
+    const signals: Record<Signal, SignalResult> = {
+      subjects: scoreSubjects(
+        context,
+        mentorProfile,
+        teaching.filter((entry) => entry.userId === mentor.id),
+      ),
+      goals: scoreGoals(context, mentorProfile),
+      availability: scoreAvailability(context, freeTime.get(mentor.id) ?? []),
+      rating: scoreRating(rating),
+      history: scoreHistory(context, mentor.id),
+    };
+
+    const weighted = (Object.keys(signals) as Signal[]).map((signal) => ({
+      contribution: signals[signal].value * SIGNAL_WEIGHTS[signal],
+      reason: signals[signal].reason,
+    }));
+    const reasons = weighted
+      .filter((entry) => entry.reason)
+      .sort((a, b) => b.contribution - a.contribution)
+      .slice(0, MAX_REASONS)
+      .map((entry) => entry.reason!);
+    if (reasons.length === 0) return [];
+
+    const score = Math.round(weighted.reduce((sum, entry) => sum + entry.contribution, 0) * 1000) / 1000;
+    return [{ mentor, profile: mentorProfile, rating, score, reasons }];
+  });
+
+  const top = scored
+    .sort((a, b) => b.score - a.score || a.mentor.username.localeCompare(b.mentor.username))
+    .slice(0, limit);
+  const nextOpenings = await getFirstOpenings(
+    top.map((recommendation) => recommendation.mentor.id),
+    now,
+    horizon,
+    DEFAULT_SESSION_DURATION_MINUTES,
+    now,
+  );
+
+  return top.map((recommendation) => ({
+    ...recommendation,
+    nextOpening: nextOpenings.get(recommendation.mentor.id) ?? null,
+  }));
+}
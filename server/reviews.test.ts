@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { storage } from "./storage";
+import { CustomError } from "./middleware/errorHandler";
+import { getRatingSummaries, respondToReview, submitReview } from "./reviews";
+
+const DAY_MS = 24 * 60 * 60_000;
+
+async function createSession(status: "pending" | "confirmed" | "completed" = "completed") {
+  const suffix = Math.random().toString(36).slice(2, 8);
+  const createUser = (name: string, role: "student" | "mentor") =>
+    storage.createUser({ username: `${name}-${suffix}`, email: `${name}-${suffix}@example.com`, password: "hashed", role });
+
+  const mentor = await createUser("mentor", "mentor");
+  const student = await createUser("sam", "student");
+  let session = await storage.createSession({
+    studentId: student.id,
+    mentorId: mentor.id,
+    subject: "Physics",
+    scheduledTime: new Date(Date.now() - 2 * DAY_MS),
+  });
+  if (status !== "pending") {
+    session = (await storage.updateSessionStatus(session.id, "pending", "confirmed"))!;
+  }
+  if (status === "completed") {
+    session = (await storage.updateSessionStatus(session.id, "confirmed", "completed"))!;
+  }
+  return { mentor, student, session };
+}
+
+describe("reviews", () => {
+  it("lets the student review a completed session and tells the mentor", async () => {
+    const { mentor, student, session } = await createSession();
+
+    const review = await submitReview(session, student.id, { rating: 4, comment: "Clear explanations" });
+
+    expect(review).toMatchObject({ sessionId: session.id, mentorId: mentor.id, studentId: student.id, rating: 4 });
+    const [notification] = await storage.getUserNotifications(mentor.id, 10);
+    expect(notification).toMatchObject({ type: "new_review", sessionId: session.id });
+    expect(notification.body).toContain("rated your Physics session 4 out of 5");
+  });
+
+  it("only accepts reviews of completed sessions", async () => {
+    for (const status of ["pending", "confirmed"] as const) {
+      const { student, session } = await createSession(status);
+
+      await expect(submitReview(session, student.id, { rating: 5, comment: "Great" })).rejects.toMatchObject({
+        status: 409,
+      });
+    }
+  });
+
+  it("only accepts a review from the session's student", async () => {
+    const { mentor, session } = await createSession();
+
+    const review = submitReview(session, mentor.id, { rating: 5, comment: "Great" });
+
+    await expect(review).rejects.toThrow(CustomError);
+    await expect(review).rejects.toMatchObject({ status: 403 });
+    expect(await storage.getMentorReviews(mentor.id)).toEqual([]);
+  });
+
+  it("accepts one review per session", async () => {
+    const { mentor, student, session } = await createSession();
+    await submitReview(session, student.id, { rating: 5, comment: "Great" });
+
+    await expect(submitReview(session, student.id, { rating: 1, comment: "Changed my mind" })).rejects.toThrow(
+      "You have already reviewed this session",
+    );
+    expect((await storage.getMentorReviews(mentor.id)).map((review) => review.rating)).toEqual([5]);
+  });
+
+  it("lets only the reviewed mentor respond, replacing an earlier response", async () => {
+    const { mentor, student, session } = await createSession();
+    const review = await submitReview(session, student.id, { rating: 3, comment: "Fine" });
+
+    await expect(respondToReview(review, student.id, "Thanks")).rejects.toMatchObject({ status: 403 });
+    await respondToReview(review, mentor.id, "Thanks");
+    const updated = await respondToReview(review, mentor.id, "Thanks, see you next week");
+
+    expect(updated.response).toBe("Thanks, see you next week");
+  });
+
+  it("summarises each mentor's ratings, with none for a mentor without reviews", async () => {
+    const rated = await createSession();
+    const unrated = await createSession();
+    await submitReview(rated.session, rated.student.id, { rating: 4, comment: "Good" });
+    const second = await createSession();
+    await storage.createReview({
+      sessionId: second.session.id,
+      mentorId: rated.mentor.id,
+      studentId: second.student.id,
+      rating: 5,
+      comment: "Great",
+    });
+
+    const summaries = await getRatingSummaries([rated.mentor.id, unrated.mentor.id]);
+
+    expect(summaries.get(rated.mentor.id)).toEqual({ average: 4.5, count: 2 });
+    expect(summaries.get(unrated.mentor.id)).toEqual({ average: null, count: 0 });
+  });
+});
@@ -0,0 +1,87 @@
+import { storage, type MentorRating } from "./storage";
+import { CustomError } from "./middleware/errorHandler";
+import { notifyUser } from "./notifications";
+import { type CreateReviewInput } from "./validation/schemas";
+import { type Review, type Session } from "@shared/schema";
+
+// ==================== Types ====================
+
+/**
+ * Rating shown next to a mentor
+ * - average: rounded to two decimals; null until the mentor has a review
+ */
+export interface RatingSummary {
+  average: number | null;
+  count: number;
+}
+
+// ==================== Ratings ====================
+
+export function toRatingSummary(rating?: MentorRating): RatingSummary {
+  return rating
+    ? { average: Math.round(rating.average * 100) / 100, count: rating.count }
+    : { average: null, count: 0 };
+}
+
+/**
+ * Rating summaries of the given mentors, keyed by mentor id
+ * - One aggregate query, however many mentors are listed
+ */
+export async function getRatingSummaries(mentorIds: string[]): Promise<Map<string, RatingSummary>> {
+  const ratings = await storage.getMentorRatings(mentorIds);
+  return new Map(mentorIds.map((id) => [id, toRatingSummary(ratings.find((rating) => rating.mentorId === id))]));
+}
+
+// ==================== Reviews ====================
+
+/**
+ * Rate a session on behalf of its student
+ * - Only completed sessions can be reviewed, and each one only once
+ * - The mentor is notified of the new review
+ */
+export async function submitReview(session: Session, studentId: string, input: CreateReviewInput): Promise<Review> {
+  if (session.studentId !== studentId) {
+    throw new CustomError("Only the student of a session can review it", 403);
+  }
+
+  if (session.status !== "completed") {
+    throw new CustomError("Only completed sessions can be reviewed", 409);
+  }
+
+  const review = await storage.createReview({
+    sessionId: session.id,
+    mentorId: session.mentorId,
+    studentId,
+    rating: input.rating,
+    comment: input.comment,
+  });
+  if (!review) {
+    throw new CustomError("You have already reviewed this session", 409);
+  }
+
+  const student = await storage.getUser(studentId);
+  await notifyUser({
+    userId: session.mentorId,
+    type: "new_review",
+    title: "New review",
+    body: `${student?.username ?? "A student"} rated your ${session.subject} session ${review.rating} out of 5`,
+    sessionId: session.id,
+  });
+
+  return review;
+}
+
+/**
+ * Publish the mentor's answer to a review, replacing any earlier one
+ */
+export async function respondToReview(review: Review, mentorId: string, response: string): Promise<Review> {
+  if (review.mentorId !== mentorId) {
+    throw new CustomError("Only the reviewed mentor can respond", 403);
+  }
+
+  const updated = await storage.setReviewResponse(review.id, response);
+  if (!updated) {
+    throw new CustomError("Review not found", 404);
+  }
+  return updated;
+}
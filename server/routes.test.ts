@@ -0,0 +1,137 @@
+import { type Server } from "http";
+import { type AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import express from "express";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+import { startLoginSession } from "./auth";
+import { errorHandler } from "./middleware/errorHandler";
+import { registerRoutes } from "./routes";
+
+const DAY_MS = 24 * 60 * 60_000;
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  app.use(errorHandler);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+interface Participant {
+  user: User;
+  request(method: string, path: string, body?: unknown): Promise<{ status: number; body: any }>;
+}
+
+async function createParticipant(name: string, role: "student" | "mentor"): Promise<Participant> {
+  const suffix = Math.random().toString(36).slice(2, 8);
+  const user = await storage.createUser({
+    username: `${name}-${suffix}`,
+    email: `${name}-${suffix}@example.com`,
+    password: "hashed",
+    role,
+  });
+  const { accessToken } = await startLoginSession(user);
+
+  return {
+    user,
+    async request(method, path, body) {
+      const res = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: { Authorization: `Bearer ${accessToken}`, "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      return { status: res.status, body: res.status === 204 ? null : await res.json() };
+    },
+  };
+}
+
+const inDays = (days: number, hour = 10) =>
+  new Date(Math.ceil(Date.now() / DAY_MS) * DAY_MS + days * DAY_MS + hour * 60 * 60_000);
+
+describe("session status routes", () => {
+  async function book() {
+    const mentor = await createParticipant("mentor", "mentor");
+    const student = await createParticipant("sam", "student");
+    const outsider = await createParticipant("eve", "student");
+    const booked = await student.request("POST", "/api/sessions/book", {
+      mentorId: mentor.user.id,
+      subject: "Physics",
+      scheduledTime: inDays(2).toISOString(),
+    });
+    expect(booked.status).toBe(200);
+    return { mentor, student, outsider, sessionId: booked.body.id as string };
+  }
+
+  it("only lets the mentor confirm, decline, complete or report a no-show", async () => {
+    const { student, sessionId } = await book();
+
+    for (const [action, body] of [["confirm"], ["decline", { reason: "Busy" }], ["complete"], ["no-show"]] as const) {
+      const res = await student.request("PUT", `/api/sessions/${sessionId}/${action}`, body);
+      expect(res.status).toBe(403);
+    }
+    expect(await storage.getSession(sessionId)).toMatchObject({ status: "pending" });
+  });
+
+  it("lets either participant cancel, but nobody else", async () => {
+    const { mentor, outsider, sessionId } = await book();
+
+    expect((await outsider.request("PUT", `/api/sessions/${sessionId}/cancel`, {})).status).toBe(403);
+    const cancelled = await mentor.request("PUT", `/api/sessions/${sessionId}/cancel`, { reason: "Ill" });
+
+    expect(cancelled.status).toBe(200);
+    expect(cancelled.body).toMatchObject({ status: "cancelled", statusChangedBy: mentor.user.id, statusReason: "Ill" });
+  });
+
+  it("answers 409 for a change the state machine does not allow", async () => {
+    const { mentor, student, sessionId } = await book();
+    await student.request("PUT", `/api/sessions/${sessionId}/cancel`, {});
+
+    const confirmed = await mentor.request("PUT", `/api/sessions/${sessionId}/confirm`);
+
+    expect(confirmed.status).toBe(409);
+    expect(confirmed.body.error).toBe("Cannot change a cancelled session to confirmed");
+  });
+});
+
+describe("favorites and saved searches routes", () => {
+  it("keeps each student's saved searches to themselves", async () => {
+    const owner = await createParticipant("sam", "student");
+    const other = await createParticipant("eve", "student");
+    const created = await owner.request("POST", "/api/saved-searches", {
+      name: "Physics",
+      filters: { subject: "Physics" },
+    });
+    expect(created.status).toBe(201);
+    const path = `/api/saved-searches/${created.body.id}`;
+
+    expect((await other.request("PATCH", path, { name: "Mine now" })).status).toBe(404);
+    expect((await other.request("DELETE", path)).status).toBe(404);
+    expect((await other.request("GET", "/api/saved-searches")).body).toEqual([]);
+    expect(await storage.getSavedSearch(created.body.id)).toMatchObject({ name: "Physics" });
+
+    expect((await owner.request("DELETE", path)).status).toBe(200);
+    expect(await storage.getSavedSearch(created.body.id)).toBeUndefined();
+  });
+
+  it("only removes the favorites of the student asking", async () => {
+    const mentor = await createParticipant("mentor", "mentor");
+    const owner = await createParticipant("sam", "student");
+    const other = await createParticipant("eve", "student");
+    expect((await owner.request("PUT", `/api/favorites/${mentor.user.id}`, { notify: true })).status).toBe(200);
+
+    expect((await other.request("DELETE", `/api/favorites/${mentor.user.id}`)).status).toBe(404);
+    const favorites = await owner.request("GET", "/api/favorites");
+
+    expect(favorites.body.map((favorite: { id: string }) => favorite.id)).toEqual([mentor.user.id]);
+    expect(favorites.body[0]).not.toHaveProperty("password");
+  });
+});
@@ -1,21 +1,95 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { WebSocketServer, WebSocket } from "ws";
 import { storage } from "./storage";
+import { setupWebSocket, markConversationRead } from "./websocket";
+import { connectionHub } from "./connectionHub";
+import {
+  transitionSession,
+  bookSession,
+  bookSeries,
+  transitionSeries,
+  proposeReschedule,
+  respondToReschedule,
+  SessionConflictError,
+  registerSessionJobs,
+} from "./sessionLifecycle";
+import { jobScheduler } from "./jobScheduler";
+import { scheduleMissingSessionReminders } from "./sessionReminders";
+import { NOTIFICATION_LIST_LIMIT } from "./notifications";
+import { getRatingSummaries, submitReview, respondToReview } from "./reviews";
+import { searchMentors, NEXT_OPENING_HORIZON_DAYS } from "./mentorSearch";
+import { recommendMentors } from "./recommendations";
+import {
+  saveFavoriteMentor,
+  listFavoriteMentors,
+  queueFavoriteAvailabilityNotice,
+  registerFavoriteJobs,
+} from "./favorites";
+import { createSavedSearch, queueSavedSearchMatch, registerSavedSearchJobs } from "./savedSearches";
+import { syncSubjectCatalog, resolveProfileSubjects } from "./subjects";
+import {
+  getOpenings,
+  findAddedAvailability,
+  getExceptionRange,
+  hasConfiguredAvailability,
+  MAX_OPENINGS_RANGE_DAYS,
+} from "./availability";
+import { renderSessionCalendar, renderCalendarFeed, getCalendarFeedToken } from "./calendar";
 import {
   generateAccessToken,
-  generateTokenPair,
+  startLoginSession,
+  rotateRefreshToken,
   verifyAccessToken,
   authMiddleware,
   type AuthRequest,
 } from "./auth";
 import { hashPassword, comparePassword } from "./utils/password";
-import { insertUserSchema, insertProfileSchema, insertSessionSchema } from "@shared/schema";
+import { CustomError, sendValidationError } from "./middleware/errorHandler";
+import {
+  LoginSchema,
+  RefreshTokenSchema,
+  ChatQuerySchema,
+  DeclineSessionSchema,
+  CancelSessionSchema,
+  RescheduleSessionSchema,
+  BookSessionSchema,
+  BookSeriesSchema,
+  UpdateAvailabilitySchema,
+  CreateAvailabilityExceptionSchema,
+  OpeningsQuerySchema,
+  CreateProfileSchema,
+  MentorSearchQuerySchema,
+  RecommendedMentorsQuerySchema,
+  FavoriteMentorSchema,
+  CreateSavedSearchSchema,
+  UpdateSavedSearchSchema,
+  TimeZoneSchema,
+  CreateReviewSchema,
+  ReviewResponseSchema,
+} from "./validation/schemas";
+import {
+  insertUserSchema,
+  insertProfileSchema,
+  insertSessionSchema,
+  DEFAULT_SESSION_DURATION_MINUTES,
+} from "@shared/schema";
+import { addDays, toZonedDate } from "@shared/timezone";
+
+const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+
+/** Longest last-message preview sent with the conversation list */
+const MESSAGE_SNIPPET_LENGTH = 120;
+
+function toSnippet(content: string): string {
+  const text = content.replace(/\s+/g, " ").trim();
+  return text.length > MESSAGE_SNIPPET_LENGTH ? `${text.slice(0, MESSAGE_SNIPPET_LENGTH - 1)}…` : text;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  app.post("/api/auth/register", async (req, res) => {
+  app.post("/api/auth/register", async (req, res, next) => {
     try {
       const { username, email, password, role } = insertUserSchema.parse(req.body);
+      const timezone = TimeZoneSchema.optional().parse(req.body.timezone);
 
       const existingUser = await storage.getUserByEmail(email);
       if (existingUser) {
@@ -35,30 +109,107 @@ export async function registerRoutes(app: Express): Promise<Server> {
         role: role as "student" | "mentor",
       });
 
-      const tokens = generateTokenPair(user);
+      if (timezone) {
+        await storage.createOrUpdateProfile({ userId: user.id, bio: null, subjects: null, timezone });
+      }
+
+      const tokens = await startLoginSession(user, {
+        userAgent: req.get("user-agent"),
+        ipAddress: req.ip,
+      });
       const { password: _, ...userWithoutPassword } = user;
 
       res.json({ user: userWithoutPassword, token: tokens.accessToken, ...tokens });
     } catch (error) {
-      res.status(400).json({ error: "Invalid request" });
+      next(error);
     }
   });
 
-  app.post("/api/auth/login", async (req, res) => {
+  app.post("/api/auth/login", async (req, res, next) => {
     try {
-      const { email, password } = req.body;
+      const { email, password } = LoginSchema.parse(req.body);
 
       const user = await storage.getUserByEmail(email);
       if (!user || !(await comparePassword(password, user.password))) {
         return res.status(401).json({ error: "Invalid credentials" });
       }
 
-      const tokens = generateTokenPair(user);
+      const tokens = await startLoginSession(user, {
+        userAgent: req.get("user-agent"),
+        ipAddress: req.ip,
+      });
       const { password: _, ...userWithoutPassword } = user;
 
       res.json({ user: userWithoutPassword, token: tokens.accessToken, ...tokens });
     } catch (error) {
-      res.status(400).json({ error: "Invalid request" });
+      next(error);
+    }
+  });
+
+  app.post("/api/auth/refresh", async (req, res, next) => {
+    try {
+      const { refreshToken } = RefreshTokenSchema.parse(req.body);
+      const tokens = await rotateRefreshToken(refreshToken);
+
+      res.json({ token: tokens.accessToken, ...tokens });
+    } catch (error) {
+      if (error instanceof CustomError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  app.post("/api/auth/logout", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      await storage.revokeLoginSession(req.sessionId!);
+      connectionHub.closeLoginSession(req.sessionId!);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.post("/api/auth/logout-all", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      await storage.revokeUserLoginSessions(req.user!.id);
+      connectionHub.closeUser(req.user!.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.get("/api/auth/sessions", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const sessions = await storage.getActiveLoginSessions(req.user!.id);
+      res.json(
+        sessions.map(({ id, userAgent, ipAddress, createdAt, lastUsedAt }) => ({
+          id,
+          userAgent,
+          ipAddress,
+          createdAt,
+          lastUsedAt,
+          current: id === req.sessionId,
+        })),
+      );
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.delete("/api/auth/sessions/:id", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const session = await storage.getLoginSession(req.params.id);
+      if (!session || session.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+
+      await storage.revokeLoginSession(session.id);
+      connectionHub.closeLoginSession(session.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
     }
   });
 
@@ -71,51 +222,102 @@ export async function registerRoutes(app: Express): Promise<Server> {
           userId: req.user!.id,
           bio: null,
           subjects: null,
-          availability: null,
         });
       }
-      res.json(profile);
+      const subjectLevels = await storage.getProfileSubjects([req.user!.id]);
+      res.json({ ...profile, subjectLevels });
     } catch (error) {
       res.status(500).json({ error: "Server error" });
     }
   });
 
-  app.post("/api/profile", authMiddleware, async (req: AuthRequest, res) => {
+  app.post("/api/profile", authMiddleware, async (req: AuthRequest, res, next) => {
     try {
-      const { bio, subjects, availability } = req.body;
+      const { bio, subjects, timezone, languages, hourlyRate } = CreateProfileSchema.parse(req.body);
+      const picked = subjects && (await resolveProfileSubjects(subjects));
       const profile = await storage.createOrUpdateProfile({
         userId: req.user!.id,
         bio,
-        subjects,
-        availability,
+        subjects: picked?.map((entry) => entry.subject.name),
+        timezone,
+        languages,
+        hourlyRate,
       });
-      res.json(profile);
+      const subjectLevels = picked
+        ? await storage.replaceProfileSubjects(
+            req.user!.id,
+            picked.map((entry) => ({ subjectId: entry.subject.id, level: entry.level })),
+          )
+        : await storage.getProfileSubjects([req.user!.id]);
+
+      // Students with a saved search matching a new mentor hear of them once the profile is filled in
+      const user = await storage.getUser(req.user!.id);
+      if (user) await queueSavedSearchMatch(user);
+
+      res.json({ ...profile, subjectLevels });
     } catch (error) {
-      res.status(400).json({ error: "Invalid request" });
+      if (error instanceof CustomError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  app.get("/api/subjects", authMiddleware, async (_req: AuthRequest, res) => {
+    try {
+      res.json(await storage.getSubjects());
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
     }
   });
 
   app.get("/api/mentors", authMiddleware, async (req: AuthRequest, res) => {
     try {
-      const { subject } = req.query;
-      let mentors;
+      const parsed = MentorSearchQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return sendValidationError(res, parsed.error);
+      }
+
+      const { results, nextCursor, total } = await searchMentors(parsed.data);
+      res.json({
+        mentors: results.map(({ mentor, profile, rating, nextOpening }) => {
+          const { password: _, ...mentorWithoutPassword } = mentor;
+          return { ...mentorWithoutPassword, profile, rating, nextOpening };
+        }),
+        nextCursor,
+        total,
+      });
+    } catch (error) {
+      if (error instanceof CustomError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.get("/api/mentors/recommended", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const parsed = RecommendedMentorsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return sendValidationError(res, parsed.error);
+      }
 
-      if (subject && typeof subject === "string") {
-        mentors = await storage.getMentorsBySubject(subject);
-      } else {
-        mentors = await storage.getAllMentors();
+      const student = await storage.getUser(req.user!.id);
+      if (!student) {
+        return res.status(404).json({ error: "User not found" });
       }
 
-      const mentorsWithProfiles = await Promise.all(
-        mentors.map(async (mentor) => {
-          const profile = await storage.getProfile(mentor.id);
+      const recommendations = await recommendMentors(student, parsed.data);
+      res.json(
+        recommendations.map(({ mentor, profile, rating, nextOpening, score, reasons }) => {
           const { password: _, ...mentorWithoutPassword } = mentor;
-          return { ...mentorWithoutPassword, profile };
-        })
+          return { ...mentorWithoutPassword, profile, rating, nextOpening, score, reasons };
+        }),
       );
-
-      res.json(mentorsWithProfiles);
     } catch (error) {
+      if (error instanceof CustomError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       res.status(500).json({ error: "Server error" });
     }
   });
@@ -127,36 +329,382 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Mentor not found" });
       }
 
-      const profile = await storage.getProfile(mentor.id);
+      const [profile, subjectLevels, ratings] = await Promise.all([
+        storage.getProfile(mentor.id),
+        storage.getProfileSubjects([mentor.id]),
+        getRatingSummaries([mentor.id]),
+      ]);
       const { password: _, ...mentorWithoutPassword } = mentor;
-      res.json({ ...mentorWithoutPassword, profile });
+      res.json({ ...mentorWithoutPassword, profile, subjectLevels, rating: ratings.get(mentor.id) });
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.get("/api/mentors/:id/reviews", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const mentor = await storage.getUser(req.params.id);
+      if (!mentor || mentor.role !== "mentor") {
+        return res.status(404).json({ error: "Mentor not found" });
+      }
+
+      const [reviews, ratings] = await Promise.all([
+        storage.getMentorReviews(mentor.id),
+        getRatingSummaries([mentor.id]),
+      ]);
+      const reviewsWithStudents = await Promise.all(
+        reviews.map(async (review) => {
+          const student = await storage.getUser(review.studentId);
+          return { ...review, student: student ? { id: student.id, username: student.username } : null };
+        }),
+      );
+
+      res.json({ rating: ratings.get(mentor.id), reviews: reviewsWithStudents });
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.get("/api/mentors/:id/availability", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const mentor = await storage.getUser(req.params.id);
+      if (!mentor || mentor.role !== "mentor") {
+        return res.status(404).json({ error: "Mentor not found" });
+      }
+
+      // Exceptions dated yesterday in UTC may still be today in the mentor's timezone
+      const [slots, exceptions] = await Promise.all([
+        storage.getAvailabilitySlots(mentor.id),
+        storage.getAvailabilityExceptions(mentor.id, addDays(toZonedDate(new Date(), "UTC"), -1)),
+      ]);
+
+      res.json({ timezone: slots[0]?.timezone ?? null, slots, exceptions });
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.get("/api/mentors/:id/openings", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const mentor = await storage.getUser(req.params.id);
+      if (!mentor || mentor.role !== "mentor") {
+        return res.status(404).json({ error: "Mentor not found" });
+      }
+
+      const parsed = OpeningsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return sendValidationError(res, parsed.error);
+      }
+
+      const from = new Date(parsed.data.from);
+      const to = new Date(parsed.data.to);
+      if (from >= to || to.getTime() - from.getTime() > MAX_OPENINGS_RANGE_DAYS * 24 * 60 * 60_000) {
+        return res.status(400).json({ error: `The range must be positive and at most ${MAX_OPENINGS_RANGE_DAYS} days` });
+      }
+
+      const [configured, openings] = await Promise.all([
+        hasConfiguredAvailability(mentor.id),
+        getOpenings(mentor.id, from, to, parsed.data.durationMinutes ?? DEFAULT_SESSION_DURATION_MINUTES),
+      ]);
+
+      res.json({ configured, openings });
     } catch (error) {
       res.status(500).json({ error: "Server error" });
     }
   });
 
-  app.post("/api/sessions/book", authMiddleware, async (req: AuthRequest, res) => {
+  app.get("/api/favorites", authMiddleware, async (req: AuthRequest, res) => {
     try {
-      const { mentorId, subject, scheduledTime } = req.body;
+      const favorites = await listFavoriteMentors(req.user!.id);
+      res.json(
+        favorites.map(({ favorite, mentor, profile, rating, nextOpening }) => {
+          const { password: _, ...mentorWithoutPassword } = mentor;
+          return { ...mentorWithoutPassword, profile, rating, nextOpening, favorite };
+        }),
+      );
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
 
+  app.put("/api/favorites/:mentorId", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const parsed = FavoriteMentorSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return sendValidationError(res, parsed.error);
+      }
+
+      const student = await storage.getUser(req.user!.id);
+      if (!student) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const favorite = await saveFavoriteMentor(student, req.params.mentorId, parsed.data.notify);
+      res.json(favorite);
+    } catch (error) {
+      if (error instanceof CustomError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.delete("/api/favorites/:mentorId", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const deleted = await storage.deleteFavoriteMentor(req.user!.id, req.params.mentorId);
+      if (!deleted) {
+        return res.status(404).json({ error: "Favorite not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.get("/api/saved-searches", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const searches = await storage.getUserSavedSearches(req.user!.id);
+      res.json(searches);
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.post("/api/saved-searches", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const parsed = CreateSavedSearchSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return sendValidationError(res, parsed.error);
+      }
+
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const search = await createSavedSearch(user, parsed.data);
+      res.status(201).json(search);
+    } catch (error) {
+      if (error instanceof CustomError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.patch("/api/saved-searches/:id", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const search = await storage.getSavedSearch(req.params.id);
+      if (!search || search.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Saved search not found" });
+      }
+
+      const parsed = UpdateSavedSearchSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return sendValidationError(res, parsed.error);
+      }
+
+      const updated = await storage.updateSavedSearch(search.id, parsed.data);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.delete("/api/saved-searches/:id", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const search = await storage.getSavedSearch(req.params.id);
+      if (!search || search.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Saved search not found" });
+      }
+
+      await storage.deleteSavedSearch(search.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.put("/api/availability", authMiddleware, async (req: AuthRequest, res, next) => {
+    try {
+      if (req.user!.role !== "mentor") {
+        return res.status(403).json({ error: "Only mentors can set availability" });
+      }
+
+      const parsed = UpdateAvailabilitySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return sendValidationError(res, parsed.error);
+      }
+
+      const { timezone, slots } = parsed.data;
+      const previous = await storage.getAvailabilitySlots(req.user!.id);
+      const saved = await storage.replaceAvailabilitySlots(
+        req.user!.id,
+        slots.map((slot) => ({ ...slot, mentorId: req.user!.id, timezone })),
+      );
+
+      const now = new Date();
+      const horizon = new Date(now.getTime() + NEXT_OPENING_HORIZON_DAYS * 24 * 60 * 60_000);
+      await queueFavoriteAvailabilityNotice(req.user!.id, findAddedAvailability(previous, saved, now, horizon), now);
+
+      res.json({ timezone, slots: saved });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/availability/exceptions", authMiddleware, async (req: AuthRequest, res, next) => {
+    try {
+      if (req.user!.role !== "mentor") {
+        return res.status(403).json({ error: "Only mentors can set availability" });
+      }
+
+      const parsed = CreateAvailabilityExceptionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return sendValidationError(res, parsed.error);
+      }
+
+      const exception = await storage.createAvailabilityException({
+        ...parsed.data,
+        mentorId: req.user!.id,
+        note: parsed.data.note || null,
+      });
+
+      const range = getExceptionRange(exception);
+      const now = new Date();
+      if (exception.kind === "available" && range.end > now) {
+        const added = { start: range.start < now ? now : range.start, end: range.end };
+        await queueFavoriteAvailabilityNotice(req.user!.id, [added], now);
+      }
+
+      res.json(exception);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/availability/exceptions/:id", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const exception = await storage.getAvailabilityException(req.params.id);
+      if (!exception || exception.mentorId !== req.user!.id) {
+        return res.status(404).json({ error: "Exception not found" });
+      }
+
+      await storage.deleteAvailabilityException(exception.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.post("/api/sessions/book", authMiddleware, async (req: AuthRequest, res, next) => {
+    try {
       if (req.user!.role !== "student") {
         return res.status(403).json({ error: "Only students can book sessions" });
       }
 
-      const session = await storage.createSession({
-        studentId: req.user!.id,
-        mentorId,
-        subject,
-        scheduledTime: new Date(scheduledTime),
-      });
+      const parsed = BookSessionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return sendValidationError(res, parsed.error);
+      }
 
+      const session = await bookSession(req.user!.id, parsed.data);
       res.json(session);
     } catch (error) {
-      res.status(400).json({ error: "Invalid request" });
+      if (error instanceof SessionConflictError) {
+        return res.status(409).json({ error: error.message, conflicts: error.conflicts });
+      }
+      if (error instanceof CustomError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  app.post("/api/series", authMiddleware, async (req: AuthRequest, res, next) => {
+    try {
+      if (req.user!.role !== "student") {
+        return res.status(403).json({ error: "Only students can book sessions" });
+      }
+
+      const parsed = BookSeriesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return sendValidationError(res, parsed.error);
+      }
+
+      const result = await bookSeries(req.user!.id, parsed.data);
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof SessionConflictError) {
+        return res.status(409).json({ error: error.message, conflicts: error.conflicts });
+      }
+      if (error instanceof CustomError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  app.get("/api/series/:id", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const series = await storage.getSessionSeries(req.params.id);
+      if (!series || (series.studentId !== req.user!.id && series.mentorId !== req.user!.id)) {
+        return res.status(404).json({ error: "Series not found" });
+      }
+
+      res.json({ ...series, sessions: await storage.getSeriesSessions(series.id) });
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.put("/api/series/:id/confirm", authMiddleware, async (req: AuthRequest, res, next) => {
+    try {
+      const series = await storage.getSessionSeries(req.params.id);
+      if (!series) {
+        return res.status(404).json({ error: "Series not found" });
+      }
+
+      if (series.mentorId !== req.user!.id) {
+        return res.status(403).json({ error: "Only the mentor can confirm this series" });
+      }
+
+      const sessions = await transitionSeries(series, "confirmed", { actorId: req.user!.id });
+      res.json(sessions);
+    } catch (error) {
+      if (error instanceof CustomError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  app.put("/api/series/:id/cancel", authMiddleware, async (req: AuthRequest, res, next) => {
+    try {
+      const series = await storage.getSessionSeries(req.params.id);
+      if (!series) {
+        return res.status(404).json({ error: "Series not found" });
+      }
+
+      if (series.studentId !== req.user!.id && series.mentorId !== req.user!.id) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+
+      const { reason } = CancelSessionSchema.parse(req.body ?? {});
+      const sessions = await transitionSeries(series, "cancelled", {
+        actorId: req.user!.id,
+        reason: reason || null,
+      });
+      res.json(sessions);
+    } catch (error) {
+      if (error instanceof CustomError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      next(error);
     }
   });
 
-  app.put("/api/sessions/:id/confirm", authMiddleware, async (req: AuthRequest, res) => {
+  app.put("/api/sessions/:id/confirm", authMiddleware, async (req: AuthRequest, res, next) => {
     try {
       const session = await storage.getSession(req.params.id);
       if (!session) {
@@ -167,14 +715,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "Only the mentor can confirm this session" });
       }
 
-      const updated = await storage.updateSessionStatus(req.params.id, "confirmed");
+      const updated = await transitionSession(session, "confirmed", { actorId: req.user!.id });
       res.json(updated);
     } catch (error) {
-      res.status(400).json({ error: "Invalid request" });
+      if (error instanceof CustomError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      next(error);
     }
   });
 
-  app.put("/api/sessions/:id/cancel", authMiddleware, async (req: AuthRequest, res) => {
+  app.put("/api/sessions/:id/cancel", authMiddleware, async (req: AuthRequest, res, next) => {
     try {
       const session = await storage.getSession(req.params.id);
       if (!session) {
@@ -185,29 +736,245 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "Unauthorized" });
       }
 
-      const updated = await storage.updateSessionStatus(req.params.id, "cancelled");
+      const { reason } = CancelSessionSchema.parse(req.body ?? {});
+      const updated = await transitionSession(session, "cancelled", {
+        actorId: req.user!.id,
+        reason: reason || null,
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof CustomError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  app.put("/api/sessions/:id/decline", authMiddleware, async (req: AuthRequest, res, next) => {
+    try {
+      const session = await storage.getSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+
+      if (session.mentorId !== req.user!.id) {
+        return res.status(403).json({ error: "Only the mentor can decline this session" });
+      }
+
+      const parsed = DeclineSessionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return sendValidationError(res, parsed.error);
+      }
+
+      const updated = await transitionSession(session, "declined", {
+        actorId: req.user!.id,
+        reason: parsed.data.reason,
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof CustomError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  app.put("/api/sessions/:id/complete", authMiddleware, async (req: AuthRequest, res, next) => {
+    try {
+      const session = await storage.getSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+
+      if (session.mentorId !== req.user!.id) {
+        return res.status(403).json({ error: "Only the mentor can complete this session" });
+      }
+
+      const updated = await transitionSession(session, "completed", { actorId: req.user!.id });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof CustomError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  app.put("/api/sessions/:id/no-show", authMiddleware, async (req: AuthRequest, res, next) => {
+    try {
+      const session = await storage.getSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+
+      if (session.mentorId !== req.user!.id) {
+        return res.status(403).json({ error: "Only the mentor can report a no-show" });
+      }
+
+      const updated = await transitionSession(session, "no_show", { actorId: req.user!.id });
       res.json(updated);
     } catch (error) {
-      res.status(400).json({ error: "Invalid request" });
+      if (error instanceof CustomError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  app.post("/api/sessions/:id/reschedule", authMiddleware, async (req: AuthRequest, res, next) => {
+    try {
+      const session = await storage.getSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+
+      if (session.studentId !== req.user!.id && session.mentorId !== req.user!.id) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+
+      const parsed = RescheduleSessionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return sendValidationError(res, parsed.error);
+      }
+
+      const proposal = await proposeReschedule(
+        session,
+        req.user!.id,
+        new Date(parsed.data.scheduledTime),
+        parsed.data.scope,
+      );
+      res.status(201).json(proposal);
+    } catch (error) {
+      if (error instanceof SessionConflictError) {
+        return res.status(409).json({ error: error.message, conflicts: error.conflicts });
+      }
+      if (error instanceof CustomError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  app.get("/api/sessions/:id/reschedules", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const session = await storage.getSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+
+      if (session.studentId !== req.user!.id && session.mentorId !== req.user!.id) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+
+      res.json(await storage.getSessionReschedules(session.id));
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.put("/api/sessions/:id/reschedules/:proposalId/accept", authMiddleware, async (req: AuthRequest, res, next) => {
+    try {
+      const session = await storage.getSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+
+      if (session.studentId !== req.user!.id && session.mentorId !== req.user!.id) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+
+      const proposal = await storage.getRescheduleProposal(req.params.proposalId);
+      if (!proposal || proposal.sessionId !== session.id) {
+        return res.status(404).json({ error: "Proposal not found" });
+      }
+
+      const result = await respondToReschedule(session, proposal, req.user!.id, true);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof SessionConflictError) {
+        return res.status(409).json({ error: error.message, conflicts: error.conflicts });
+      }
+      if (error instanceof CustomError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  app.put("/api/sessions/:id/reschedules/:proposalId/reject", authMiddleware, async (req: AuthRequest, res, next) => {
+    try {
+      const session = await storage.getSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+
+      if (session.studentId !== req.user!.id && session.mentorId !== req.user!.id) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+
+      const proposal = await storage.getRescheduleProposal(req.params.proposalId);
+      if (!proposal || proposal.sessionId !== session.id) {
+        return res.status(404).json({ error: "Proposal not found" });
+      }
+
+      const result = await respondToReschedule(session, proposal, req.user!.id, false);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof CustomError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      next(error);
     }
   });
 
   app.get("/api/sessions/me", authMiddleware, async (req: AuthRequest, res) => {
     try {
       const sessions = await storage.getUserSessions(req.user!.id);
+      const pendingReschedules = await storage.getPendingReschedules(sessions.map((s) => s.id));
+      const reviews = await storage.getSessionReviews(sessions.map((s) => s.id));
+      const seriesIds = Array.from(new Set(sessions.flatMap((s) => (s.seriesId ? [s.seriesId] : []))));
+      const seriesList = await Promise.all(seriesIds.map((id) => storage.getSessionSeries(id)));
+      
+      // Where each occurrence falls in its series, e.g. "3 of 8"; both participants see every occurrence
+      const getSeriesInfo = (session: (typeof sessions)[number]) => {
+        const series = seriesList.find((candidate) => candidate?.id === session.seriesId);
+        if (!series) return null;
+
+        const occurrences = sessions
+          .filter((s) => s.seriesId === series.id)
+          .sort((a, b) => a.scheduledTime.getTime() - b.scheduledTime.getTime());
+        return {
+          id: series.id,
+          frequency: series.frequency,
+          occurrence: occurrences.findIndex((s) => s.id === session.id) + 1,
+          occurrences: occurrences.length,
+        };
+      };
       
       const sessionsWithUsers = await Promise.all(
         sessions.map(async (session) => {
           const student = await storage.getUser(session.studentId);
           const mentor = await storage.getUser(session.mentorId);
+          const [studentProfile, mentorProfile] = await Promise.all([
+            storage.getProfile(session.studentId),
+            storage.getProfile(session.mentorId),
+          ]);
           
-          const studentWithoutPassword = student ? (({ password, ...rest }) => rest)(student) : undefined;
-          const mentorWithoutPassword = mentor ? (({ password, ...rest }) => rest)(mentor) : undefined;
+          // Each participant's timezone lets the other see the session in both zones
+          const studentWithoutPassword = student
+            ? (({ password, ...rest }) => ({ ...rest, timezone: studentProfile?.timezone ?? null }))(student)
+            : undefined;
+          const mentorWithoutPassword = mentor
+            ? (({ password, ...rest }) => ({ ...rest, timezone: mentorProfile?.timezone ?? null }))(mentor)
+            : undefined;
           
           return {
             ...session,
             student: studentWithoutPassword,
             mentor: mentorWithoutPassword,
+            pendingReschedule: pendingReschedules.find((p) => p.sessionId === session.id) ?? null,
+            series: getSeriesInfo(session),
+            review: reviews.find((r) => r.sessionId === session.id) ?? null,
           };
         })
       );
@@ -218,13 +985,120 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post("/api/sessions/:id/review", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const session = await storage.getSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+
+      const parsed = CreateReviewSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return sendValidationError(res, parsed.error);
+      }
+
+      const review = await submitReview(session, req.user!.id, parsed.data);
+      res.status(201).json(review);
+    } catch (error) {
+      if (error instanceof CustomError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.put("/api/reviews/:id/response", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const review = await storage.getReview(req.params.id);
+      if (!review) {
+        return res.status(404).json({ error: "Review not found" });
+      }
+
+      const parsed = ReviewResponseSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return sendValidationError(res, parsed.error);
+      }
+
+      const updated = await respondToReview(review, req.user!.id, parsed.data.response);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof CustomError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.get("/api/sessions/:id/ics", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const session = await storage.getSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+
+      if (session.studentId !== req.user!.id && session.mentorId !== req.user!.id) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+
+      res
+        .type("text/calendar; charset=utf-8")
+        .attachment(`session-${session.id}.ics`)
+        .send(await renderSessionCalendar(session, req.user!.id));
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  // The feed URL is the credential, so calendar apps can subscribe without logging in
+  app.get("/api/calendar/feed", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const token = await getCalendarFeedToken(req.user!.id);
+      res.json({ path: `/api/calendar/${token}.ics` });
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.post("/api/calendar/feed/reset", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const token = await getCalendarFeedToken(req.user!.id, true);
+      res.json({ path: `/api/calendar/${token}.ics` });
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.get("/api/calendar/:token.ics", async (req, res) => {
+    try {
+      const feed = await storage.getCalendarFeedByToken(req.params.token);
+      if (!feed) {
+        return res.status(404).json({ error: "Calendar not found" });
+      }
+
+      res.type("text/calendar; charset=utf-8").send(await renderCalendarFeed(feed.userId));
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
   app.get("/api/messages/:userId", authMiddleware, async (req: AuthRequest, res) => {
     try {
-      const messages = await storage.getMessagesBetweenUsers(
-        req.user!.id,
-        req.params.userId
-      );
-      res.json(messages);
+      const query = ChatQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return sendValidationError(res, query.error);
+      }
+
+      const { limit = DEFAULT_MESSAGE_PAGE_SIZE, before, beforeId } = query.data;
+
+      // Fetch one extra message to know whether an older page exists
+      const page = await storage.getMessagesBetweenUsers(req.user!.id, req.params.userId, {
+        limit: limit + 1,
+        before: before ? new Date(before) : undefined,
+        beforeId,
+      });
+      const hasMore = page.length > limit;
+
+      res.json({ messages: hasMore ? page.slice(1) : page, hasMore });
     } catch (error) {
       res.status(500).json({ error: "Server error" });
     }
@@ -232,9 +1106,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/conversations", authMiddleware, async (req: AuthRequest, res) => {
     try {
-      const partners = await storage.getConversationPartners(req.user!.id);
-      const partnersWithoutPasswords = partners.map(({ password, ...rest }) => rest);
-      res.json(partnersWithoutPasswords);
+      const summaries = await storage.getConversationSummaries(req.user!.id);
+      res.json(
+        summaries.map(({ partner: { password, ...partner }, lastMessage, unreadCount }) => ({
+          partner,
+          lastMessage: {
+            id: lastMessage.id,
+            senderId: lastMessage.senderId,
+            snippet: toSnippet(lastMessage.content),
+            timestamp: lastMessage.timestamp,
+            readAt: lastMessage.readAt,
+          },
+          unreadCount,
+        })),
+      );
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.post("/api/conversations/:userId/read", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const receipt = await markConversationRead(req.user!.id, req.params.userId);
+      res.json(receipt);
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.get("/api/notifications", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const notifications = await storage.getUserNotifications(req.user!.id, NOTIFICATION_LIST_LIMIT);
+      res.json(notifications);
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.post("/api/notifications/read", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      await storage.markAllNotificationsRead(req.user!.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.post("/api/notifications/:id/read", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const notification = await storage.markNotificationRead(req.params.id, req.user!.id);
+      if (!notification) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+      res.json(notification);
     } catch (error) {
       res.status(500).json({ error: "Server error" });
     }
@@ -255,58 +1179,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   const httpServer = createServer(app);
 
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
-
-  const userConnections = new Map<string, WebSocket>();
-
-  wss.on('connection', (ws: WebSocket) => {
-    let userId: string | null = null;
-
-    ws.on('message', async (data: string) => {
-      try {
-        const message = JSON.parse(data.toString());
-
-        if (message.type === 'join') {
-          userId = message.userId;
-          if (userId) {
-            userConnections.set(userId, ws);
-          }
-        } else if (message.type === 'sendMessage') {
-          const { senderId, receiverId, content } = message;
-
-          const savedMessage = await storage.createMessage({
-            senderId: senderId as string,
-            receiverId: receiverId as string,
-            content: content as string,
-          });
-
-          const senderWs = userConnections.get(senderId);
-          if (senderWs && senderWs.readyState === WebSocket.OPEN) {
-            senderWs.send(JSON.stringify({
-              type: 'message',
-              message: savedMessage,
-            }));
-          }
-
-          const receiverWs = userConnections.get(receiverId);
-          if (receiverWs && receiverWs.readyState === WebSocket.OPEN) {
-            receiverWs.send(JSON.stringify({
-              type: 'message',
-              message: savedMessage,
-            }));
-          }
-        }
-      } catch (error) {
-        console.error('WebSocket error:', error);
-      }
-    });
-
-    ws.on('close', () => {
-      if (userId) {
-        userConnections.delete(userId);
-      }
-    });
-  });
+  setupWebSocket(httpServer);
+
+  registerSessionJobs();
+  registerFavoriteJobs();
+  registerSavedSearchJobs();
+  await syncSubjectCatalog();
+  await scheduleMissingSessionReminders();
+  await jobScheduler.start();
+  httpServer.on("close", () => jobScheduler.stop());
 
   return httpServer;
 }
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { storage } from "./storage";
+import { MAX_SAVED_SEARCHES, createSavedSearch, notifySavedSearchMatches } from "./savedSearches";
+
+async function createUser(name: string, role: "student" | "mentor") {
+  const suffix = Math.random().toString(36).slice(2, 8);
+  return storage.createUser({
+    username: `${name}-${suffix}`,
+    email: `${name}-${suffix}@example.com`,
+    password: "hashed",
+    role,
+  });
+}
+
+/** A term no other test uses, so searches only match this test's mentor */
+const uniqueTerm = () => `term${Math.random().toString(36).slice(2, 8)}`;
+
+async function runMatch(mentorId: string) {
+  const job = await storage.scheduleJob({ key: `match:${mentorId}`, type: "saved-search-match", runAt: new Date() });
+  await notifySavedSearchMatches({ mentorId }, { job, now: new Date(), savePayload: async () => {} });
+}
+
+describe("saved searches", () => {
+  it("only lets students save searches, up to the limit", async () => {
+    const mentor = await createUser("mentor", "mentor");
+    const student = await createUser("sam", "student");
+    const input = { name: "Physics", filters: { subject: "Physics" } };
+
+    await expect(createSavedSearch(mentor, input)).rejects.toMatchObject({ status: 403 });
+    for (let i = 0; i < MAX_SAVED_SEARCHES; i++) {
+      await createSavedSearch(student, input);
+    }
+    await expect(createSavedSearch(student, input)).rejects.toMatchObject({ status: 409 });
+    expect(await storage.getUserSavedSearches(student.id)).toHaveLength(MAX_SAVED_SEARCHES);
+  });
+
+  it("notifies the owners of matching searches that asked, once each", async () => {
+    const term = uniqueTerm();
+    const mentor = await createUser("mentor", "mentor");
+    await storage.createOrUpdateProfile({ userId: mentor.id, bio: `Teaches ${term}`, hourlyRate: 40 });
+    const [owner, quiet, picky] = [
+      await createUser("sam", "student"),
+      await createUser("eve", "student"),
+      await createUser("cy", "student"),
+    ];
+    await createSavedSearch(owner, { name: "First", filters: { q: term }, notify: true });
+    await createSavedSearch(owner, { name: "Second", filters: { q: term, maxPrice: 50 }, notify: true });
+    await createSavedSearch(quiet, { name: "Quiet", filters: { q: term } });
+    await createSavedSearch(picky, { name: "Cheap", filters: { q: term, maxPrice: 30 }, notify: true });
+
+    await runMatch(mentor.id);
+
+    const notifications = await storage.getUserNotifications(owner.id, 10);
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0]).toMatchObject({
+      type: "saved_search_match",
+      title: 'New mentor for "First"',
+      mentorId: mentor.id,
+    });
+    expect(await storage.getUserNotifications(quiet.id, 10)).toEqual([]);
+    expect(await storage.getUserNotifications(picky.id, 10)).toEqual([]);
+  });
+});
@@ -0,0 +1,102 @@
+import { storage } from "./storage";
+import { CustomError } from "./middleware/errorHandler";
+import { jobScheduler, type JobHandler, type JobScheduler } from "./jobScheduler";
+import { notifyUser } from "./notifications";
+import { resolveSubjectFilter } from "./subjects";
+import { tokenize } from "./utils/search";
+import { type CreateSavedSearchInput } from "./validation/schemas";
+import { type SavedSearch, type User } from "@shared/schema";
+
+// ==================== Configuration ====================
+
+export const SAVED_SEARCH_MATCH_JOB = "saved-search-match";
+
+/** Most searches one student can save */
+export const MAX_SAVED_SEARCHES = 20;
+
+/** Mentors who registered this recently count as new when they save their profile */
+const NEW_MENTOR_DAYS = 7;
+
+/** A new mentor is matched this long after they first save their profile, once it is likely filled in */
+const NEW_MENTOR_MATCH_DELAY_MS = 30 * 60_000;
+
+const DAY_MS = 24 * 60 * 60_000;
+
+// ==================== Saved Searches ====================
+
+/**
+ * Save a student's mentor search
+ * - At most MAX_SAVED_SEARCHES per student
+ */
+export async function createSavedSearch(user: User, input: CreateSavedSearchInput): Promise<SavedSearch> {
+  if (user.role !== "student") {
+    throw new CustomError("Only students can save searches", 403);
+  }
+
+  const existing = await storage.getUserSavedSearches(user.id);
+  if (existing.length >= MAX_SAVED_SEARCHES) {
+    throw new CustomError(`You can keep at most ${MAX_SAVED_SEARCHES} saved searches`, 409);
+  }
+
+  return storage.createSavedSearch({ userId: user.id, name: input.name, filters: input.filters, notify: input.notify });
+}
+
+// ==================== New Mentor Matches ====================
+
+/**
+ * Queue matching a new mentor against the saved searches that asked to be notified
+ * - To be called whenever a mentor saves their profile; only mentors who registered
+ *   in the last NEW_MENTOR_DAYS count, and each mentor is matched once
+ */
+export async function queueSavedSearchMatch(mentor: User, now = new Date()): Promise<void> {
+  if (mentor.role !== "mentor" || now.getTime() - mentor.createdAt.getTime() > NEW_MENTOR_DAYS * DAY_MS) return;
+
+  await storage.scheduleJobIfMissing({
+    key: `${SAVED_SEARCH_MATCH_JOB}:${mentor.id}`,
+    type: SAVED_SEARCH_MATCH_JOB,
+    runAt: new Date(now.getTime() + NEW_MENTOR_MATCH_DELAY_MS),
+    payload: { mentorId: mentor.id },
+  });
+}
+
+/**
+ * Notify the owners of saved searches the new mentor matches
+ * - Searches are matched with the same rules as GET /api/mentors
+ * - A student with several matching searches is notified once, naming the first
+ */
+export const notifySavedSearchMatches: JobHandler = async (payload) => {
+  const mentor = await storage.getUser(String(payload.mentorId));
+  if (!mentor || mentor.role !== "mentor") return;
+
+  const searches = await storage.getNotifyingSavedSearches();
+  const notified = new Set<string>([mentor.id]);
+
+  for (const search of searches) {
+    if (notified.has(search.userId)) continue;
+
+    const { q, subject, language, minRating, minPrice, maxPrice } = search.filters;
+    const [hit] = await storage.searchMentors({
+      mentorIds: [mentor.id],
+      terms: q ? tokenize(q) : [],
+      ...(await resolveSubjectFilter(subject)),
+      language,
+      minRating,
+      minPrice,
+      maxPrice,
+    });
+    if (!hit) continue;
+
+    notified.add(search.userId);
+    await notifyUser({
+      userId: search.userId,
+      type: "saved_search_match",
+      title: `New mentor for "${search.name}"`,
+      body: `${mentor.username} just joined and matches your saved search`,
+      mentorId: mentor.id,
+    });
+  }
+};
+
+export function registerSavedSearchJobs(scheduler: JobScheduler = jobScheduler): void {
+  scheduler.define(SAVED_SEARCH_MATCH_JOB, notifySavedSearchMatches);
+}
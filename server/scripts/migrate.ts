@@ -0,0 +1,42 @@
+import 'dotenv/config';
+import { createDb } from "../db";
+import { runMigrations, rollbackMigrations } from "../migrate";
+
+/**
+ * Usage:
+ *   tsx server/scripts/migrate.ts up          Apply pending migrations
+ *   tsx server/scripts/migrate.ts down [n]    Roll back the last n migrations (default 1)
+ */
+async function main() {
+  const [command = "up", stepsArg] = process.argv.slice(2);
+
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL environment variable is required");
+  }
+
+  const { db, pool } = createDb(process.env.DATABASE_URL);
+
+  try {
+    if (command === "up") {
+      await runMigrations(db);
+      console.log("Migrations applied");
+    } else if (command === "down") {
+      const steps = stepsArg ? parseInt(stepsArg, 10) : 1;
+      const rolledBack = await rollbackMigrations(db, steps);
+      console.log(
+        rolledBack.length > 0
+          ? `Rolled back: ${rolledBack.join(", ")}`
+          : "No migrations to roll back",
+      );
+    } else {
+      throw new Error(`Unknown command "${command}", expected "up" or "down [n]"`);
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,348 @@
+import 'dotenv/config';
+import { createDb } from "../db";
+import { DbStorage, type IStorage } from "../storage";
+import { hashPassword } from "../utils/password";
+import { SUBJECT_CATALOG } from "../subjectCatalog";
+import { addDays, toZonedDate, toZonedTime, zonedTimeToUtc } from "@shared/timezone";
+import { type User, type SessionStatus, type SubjectLevel } from "@shared/schema";
+
+// ==================== Seed Data ====================
+
+const SEED_PASSWORD = "password123";
+
+const subjectAt = (subjectId: string, level: SubjectLevel) => ({ subjectId, level });
+
+const mentors = [
+  {
+    username: "priya_sharma",
+    email: "priya.sharma@example.com",
+    bio: "Math PhD candidate who loves making calculus click. Ten years of tutoring high school and first-year university students.",
+    subjects: [
+      subjectAt("calculus", "advanced"),
+      subjectAt("ap-calculus", "advanced"),
+      subjectAt("linear-algebra", "advanced"),
+      subjectAt("statistics", "intermediate"),
+    ],
+    timezone: "America/New_York",
+    languages: ["English", "Hindi"],
+    hourlyRate: 45,
+    // Mon-Thu 5PM-8PM
+    slots: [1, 2, 3, 4].map((dayOfWeek) => ({ dayOfWeek, startTime: "17:00", endTime: "20:00" })),
+  },
+  {
+    username: "daniel_okafor",
+    email: "daniel.okafor@example.com",
+    bio: "Senior software engineer. I mentor students on web development, data structures and preparing for technical interviews.",
+    subjects: [
+      subjectAt("javascript", "advanced"),
+      subjectAt("react", "advanced"),
+      subjectAt("data-structures", "advanced"),
+      subjectAt("algorithms", "intermediate"),
+    ],
+    timezone: "Europe/London",
+    languages: ["English"],
+    hourlyRate: 60,
+    // Weekends 10AM-2PM
+    slots: [6, 0].map((dayOfWeek) => ({ dayOfWeek, startTime: "10:00", endTime: "14:00" })),
+  },
+  {
+    username: "elena_rossi",
+    email: "elena.rossi@example.com",
+    bio: "High school physics teacher. Happy to help with mechanics, electricity and lab report writing.",
+    subjects: [
+      subjectAt("physics", "advanced"),
+      subjectAt("ap-physics", "advanced"),
+      subjectAt("chemistry", "intermediate"),
+    ],
+    timezone: "Europe/Rome",
+    languages: ["Italian", "English"],
+    hourlyRate: 35,
+    // Tue & Fri 4PM-6PM
+    slots: [2, 5].map((dayOfWeek) => ({ dayOfWeek, startTime: "16:00", endTime: "18:00" })),
+  },
+  {
+    username: "kenji_watanabe",
+    email: "kenji.watanabe@example.com",
+    bio: "Published author and former writing centre coordinator. Essays, college applications and creative writing.",
+    subjects: [
+      subjectAt("english", "advanced"),
+      subjectAt("essay-writing", "advanced"),
+      subjectAt("creative-writing", "advanced"),
+    ],
+    timezone: "America/Los_Angeles",
+    languages: ["English", "Japanese"],
+    // Wed 6PM-9PM, Sat mornings
+    slots: [
+      { dayOfWeek: 3, startTime: "18:00", endTime: "21:00" },
+      { dayOfWeek: 6, startTime: "09:00", endTime: "12:00" },
+    ],
+  },
+];
+
+const students = [
+  {
+    username: "aisha_khan",
+    email: "aisha.khan@example.com",
+    timezone: "America/Chicago",
+    bio: "First-year engineering student struggling with integrals.",
+    subjects: [subjectAt("calculus", "beginner")],
+  },
+  {
+    username: "liam_chen",
+    email: "liam.chen@example.com",
+    timezone: "Asia/Singapore",
+    bio: "Self-taught programmer aiming for my first frontend job.",
+    subjects: [
+      subjectAt("javascript", "intermediate"),
+      subjectAt("react", "beginner"),
+    ],
+  },
+  {
+    username: "sofia_martinez",
+    email: "sofia.martinez@example.com",
+    timezone: "Europe/Madrid",
+    bio: "High school junior preparing for AP Physics and college essays.",
+    subjects: [
+      subjectAt("ap-physics", "intermediate"),
+      subjectAt("essay-writing", "beginner"),
+    ],
+  },
+];
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Statuses each seeded session passes through after being booked
+const statusPath: Partial<Record<SessionStatus, SessionStatus[]>> = {
+  pending: [],
+  confirmed: ["confirmed"],
+  completed: ["confirmed", "completed"],
+  no_show: ["confirmed", "no_show"],
+  cancelled: ["cancelled"],
+  declined: ["declined"],
+};
+
+// ==================== Seed Functions ====================
+
+async function createUserWithProfile(
+  storage: IStorage,
+  data: {
+    username: string;
+    email: string;
+    bio: string;
+    subjects?: Array<{ subjectId: string; level: SubjectLevel }>;
+    timezone: string;
+    languages?: string[];
+    hourlyRate?: number;
+  },
+  role: "student" | "mentor",
+): Promise<User> {
+  const user = await storage.createUser({
+    username: data.username,
+    email: data.email,
+    password: await hashPassword(SEED_PASSWORD),
+    role,
+  });
+
+  const subjects = data.subjects ?? [];
+  await storage.createOrUpdateProfile({
+    userId: user.id,
+    bio: data.bio,
+    subjects: subjects.map(({ subjectId }) => SUBJECT_CATALOG.find((subject) => subject.id === subjectId)!.name),
+    timezone: data.timezone,
+    languages: data.languages ?? null,
+    hourlyRate: data.hourlyRate ?? null,
+  });
+  await storage.replaceProfileSubjects(user.id, subjects);
+
+  return user;
+}
+
+async function seed(storage: IStorage) {
+  if (await storage.getUserByEmail(mentors[0].email)) {
+    console.log("Database already seeded, skipping");
+    return;
+  }
+
+  // Profiles name their subjects from the catalog, which the server would otherwise add on start
+  await storage.saveSubjects(SUBJECT_CATALOG);
+
+  const [priya, daniel, elena, kenji] = await Promise.all(
+    mentors.map((mentor) => createUserWithProfile(storage, mentor, "mentor")),
+  );
+  const [aisha, liam, sofia] = await Promise.all(
+    students.map((student) => createUserWithProfile(storage, student, "student")),
+  );
+
+  const now = Date.now();
+
+  const mentorUsers = [priya, daniel, elena, kenji];
+  for (let i = 0; i < mentors.length; i++) {
+    const { timezone, slots } = mentors[i];
+    await storage.replaceAvailabilitySlots(
+      mentorUsers[i].id,
+      slots.map((slot) => ({ ...slot, mentorId: mentorUsers[i].id, timezone })),
+    );
+  }
+
+  await storage.createAvailabilityException({
+    mentorId: priya.id,
+    date: toZonedDate(new Date(now + 10 * DAY), mentors[0].timezone),
+    kind: "unavailable",
+    timezone: mentors[0].timezone,
+    note: "Presenting at a conference",
+  });
+  await storage.createAvailabilityException({
+    mentorId: elena.id,
+    date: toZonedDate(new Date(now + 6 * DAY), mentors[2].timezone),
+    kind: "available",
+    startTime: "10:00",
+    endTime: "12:00",
+    timezone: mentors[2].timezone,
+    note: "Extra exam-prep morning",
+  });
+  const sessionPlan: Array<{
+    student: User;
+    mentor: User;
+    subject: string;
+    offset: number;
+    status: SessionStatus;
+    reason?: string;
+    review?: { rating: number; comment: string; response?: string };
+  }> = [
+    { student: aisha, mentor: priya, subject: "Calculus", offset: 2 * DAY, status: "pending" },
+    { student: liam, mentor: daniel, subject: "React", offset: 1 * DAY + 3 * HOUR, status: "confirmed" },
+    { student: sofia, mentor: elena, subject: "Physics", offset: 4 * DAY, status: "confirmed" },
+    {
+      student: aisha,
+      mentor: priya,
+      subject: "Linear Algebra",
+      offset: -7 * DAY,
+      status: "completed",
+      review: {
+        rating: 5,
+        comment: "Eigenvectors finally make sense. Priya explains the intuition before the formulas.",
+        response: "Thanks Aisha, you did the hard work!",
+      },
+    },
+    {
+      student: liam,
+      mentor: daniel,
+      subject: "Algorithms",
+      offset: -3 * DAY,
+      status: "completed",
+      review: { rating: 4, comment: "Great mock interview. Would have liked a few more graph problems." },
+    },
+    { student: sofia, mentor: kenji, subject: "Essay Writing", offset: -2 * DAY, status: "cancelled", reason: "Exam moved to the same afternoon, sorry!" },
+    { student: liam, mentor: kenji, subject: "Creative Writing", offset: -5 * DAY, status: "no_show" },
+    {
+      student: aisha,
+      mentor: elena,
+      subject: "Chemistry",
+      offset: 3 * DAY,
+      status: "declined",
+      reason: "I'm away at a conference that week. Could you try the week after?",
+    },
+  ];
+
+  for (const plan of sessionPlan) {
+    const session = await storage.createSession({
+      studentId: plan.student.id,
+      mentorId: plan.mentor.id,
+      subject: plan.subject,
+      scheduledTime: new Date(now + plan.offset),
+      timezone: (await storage.getProfile(plan.student.id))?.timezone ?? "UTC",
+    });
+    // Students cancel, mentors handle everything else
+    let status: SessionStatus = "pending";
+    for (const next of statusPath[plan.status] ?? []) {
+      await storage.updateSessionStatus(session.id, status, next, {
+        actorId: next === "cancelled" ? plan.student.id : plan.mentor.id,
+        reason: next === plan.status ? plan.reason : null,
+      });
+      status = next;
+    }
+
+    if (plan.review) {
+      const review = await storage.createReview({
+        sessionId: session.id,
+        mentorId: plan.mentor.id,
+        studentId: plan.student.id,
+        rating: plan.review.rating,
+        comment: plan.review.comment,
+      });
+      if (review && plan.review.response) {
+        await storage.setReviewResponse(review.id, plan.review.response);
+      }
+    }
+  }
+
+  // Liam meets Daniel every week; the mentor confirmed the whole series
+  const seriesTimezone = (await storage.getProfile(liam.id))?.timezone ?? "UTC";
+  const firstWeekly = new Date(now + 6 * DAY);
+  const { sessions: weekly } = await storage.createSessionSeries(
+    { studentId: liam.id, mentorId: daniel.id, subject: "Data Structures", frequency: "weekly", timezone: seriesTimezone },
+    [0, 1, 2, 3].map((week) => ({
+      studentId: liam.id,
+      mentorId: daniel.id,
+      subject: "Data Structures",
+      scheduledTime: zonedTimeToUtc(
+        addDays(toZonedDate(firstWeekly, seriesTimezone), week * 7),
+        toZonedTime(firstWeekly, seriesTimezone),
+        seriesTimezone,
+      ),
+      timezone: seriesTimezone,
+    })),
+  );
+  for (const session of weekly) {
+    await storage.updateSessionStatus(session.id, "pending", "confirmed", { actorId: daniel.id });
+  }
+
+  const threads: Array<[User, User, string[]]> = [
+    [aisha, priya, [
+      "Hi Priya! I have an exam on integration by parts next week.",
+      "Happy to help! Bring a couple of problems you got stuck on.",
+      "Great, I'll send them before our session.",
+    ]],
+    [liam, daniel, [
+      "Thanks for the session on hooks, it finally makes sense.",
+      "Glad it helped! Try rebuilding the todo app with useReducer next.",
+    ]],
+    [sofia, elena, [
+      "Could we go over circuits on Friday?",
+      "Sure, I'll prepare some practice questions on Kirchhoff's laws.",
+    ]],
+  ];
+
+  for (const [student, mentor, lines] of threads) {
+    for (let i = 0; i < lines.length; i++) {
+      const [sender, receiver] = i % 2 === 0 ? [student, mentor] : [mentor, student];
+      await storage.createMessage({ senderId: sender.id, receiverId: receiver.id, content: lines[i] });
+    }
+  }
+
+  console.log(
+    `Seeded ${mentors.length} mentors, ${students.length} students, ` +
+      `${sessionPlan.length + weekly.length} sessions and ${threads.length} message threads ` +
+      `(password for every account: ${SEED_PASSWORD})`,
+  );
+}
+
+async function main() {
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL environment variable is required");
+  }
+
+  const { db, pool } = createDb(process.env.DATABASE_URL);
+
+  try {
+    await seed(new DbStorage(db));
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
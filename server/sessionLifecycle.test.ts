@@ -0,0 +1,309 @@
+import { describe, expect, it } from "vitest";
+import { storage } from "./storage";
+import { CustomError } from "./middleware/errorHandler";
+import {
+  bookSeries,
+  bookSession,
+  canTransition,
+  getSeriesStartTimes,
+  proposeReschedule,
+  respondToReschedule,
+  SessionConflictError,
+  transitionSeries,
+  transitionSession,
+} from "./sessionLifecycle";
+
+const DAY_MS = 24 * 60 * 60_000;
+
+async function createParticipants(hours = { startTime: "00:00", endTime: "24:00" }) {
+  const suffix = Math.random().toString(36).slice(2, 8);
+  const createUser = (name: string, role: "student" | "mentor") =>
+    storage.createUser({ username: `${name}-${suffix}`, email: `${name}-${suffix}@example.com`, password: "hashed", role });
+
+  const mentor = await createUser("mentor", "mentor");
+  const students = [await createUser("sam", "student"), await createUser("eve", "student")];
+  await storage.replaceAvailabilitySlots(
+    mentor.id,
+    [0, 1, 2, 3, 4, 5, 6].map((dayOfWeek) => ({
+      mentorId: mentor.id,
+      dayOfWeek,
+      ...hours,
+      timezone: "UTC",
+    })),
+  );
+  return { mentor, students };
+}
+
+describe("concurrent bookings", () => {
+  it("books only one of two sessions requested at the same time", async () => {
+    const { mentor, students } = await createParticipants();
+    const scheduledTime = new Date(Math.ceil(Date.now() / DAY_MS) * DAY_MS + 2 * DAY_MS).toISOString();
+
+    const results = await Promise.allSettled(
+      students.map((student) => bookSession(student.id, { mentorId: mentor.id, subject: "Physics", scheduledTime })),
+    );
+
+    expect(results.filter((result) => result.status === "fulfilled")).toHaveLength(1);
+    const [rejected] = results.filter((result): result is PromiseRejectedResult => result.status === "rejected");
+    expect(rejected.reason).toBeInstanceOf(SessionConflictError);
+    expect(await storage.getUserSessions(mentor.id)).toHaveLength(1);
+  });
+
+  it("books only one of a session and a series that overlap", async () => {
+    const { mentor, students } = await createParticipants();
+    const scheduledTime = new Date(Math.ceil(Date.now() / DAY_MS) * DAY_MS + 3 * DAY_MS).toISOString();
+
+    const results = await Promise.allSettled([
+      bookSeries(students[0].id, {
+        mentorId: mentor.id,
+        subject: "Physics",
+        scheduledTime,
+        frequency: "weekly",
+        occurrences: 3,
+      }),
+      bookSession(students[1].id, { mentorId: mentor.id, subject: "Physics", scheduledTime }),
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(["fulfilled", "rejected"]);
+    const sessions = await storage.getUserSessions(mentor.id);
+    expect(sessions.filter((session) => session.scheduledTime.toISOString() === scheduledTime)).toHaveLength(1);
+  });
+});
+
+describe("status transitions", () => {
+  const inDays = (days: number, hour = 10) =>
+    new Date(Math.ceil(Date.now() / DAY_MS) * DAY_MS + days * DAY_MS + hour * 60 * 60_000);
+
+  async function createSession(scheduledTime = inDays(2)) {
+    const { mentor, students } = await createParticipants();
+    const session = await storage.createSession({
+      studentId: students[0].id,
+      mentorId: mentor.id,
+      subject: "Physics",
+      scheduledTime,
+    });
+    return { mentor, student: students[0], session };
+  }
+
+  it("only allows the changes of the state machine", () => {
+    expect(canTransition("pending", "confirmed")).toBe(true);
+    expect(canTransition("pending", "completed")).toBe(false);
+    expect(canTransition("confirmed", "no_show")).toBe(true);
+    expect(canTransition("confirmed", "declined")).toBe(false);
+    for (const final of ["declined", "cancelled", "completed", "no_show"] as const) {
+      expect(canTransition(final, "confirmed")).toBe(false);
+      expect(canTransition(final, "cancelled")).toBe(false);
+    }
+  });
+
+  it("rejects a change the state machine does not allow with 409", async () => {
+    const { mentor, session } = await createSession();
+    const cancelled = await transitionSession(session, "cancelled", { actorId: mentor.id });
+
+    const confirmed = transitionSession(cancelled, "confirmed", { actorId: mentor.id });
+
+    await expect(confirmed).rejects.toThrow("Cannot change a cancelled session to confirmed");
+    await expect(confirmed).rejects.toMatchObject({ status: 409 });
+    expect(await storage.getSession(session.id)).toMatchObject({ status: "cancelled" });
+  });
+
+  it("only completes a confirmed session once it has started", async () => {
+    const start = inDays(2);
+    const { mentor, session } = await createSession(start);
+    const confirmed = await transitionSession(session, "confirmed", { actorId: mentor.id });
+
+    await expect(transitionSession(confirmed, "completed", { actorId: mentor.id })).rejects.toMatchObject({
+      status: 409,
+    });
+    await expect(
+      transitionSession(confirmed, "completed", { actorId: mentor.id }, new Date(start.getTime() + 60 * 60_000)),
+    ).resolves.toMatchObject({ status: "completed", statusChangedBy: mentor.id });
+  });
+
+  it("requires a reason to decline", async () => {
+    const { mentor, session } = await createSession();
+
+    await expect(transitionSession(session, "declined", { actorId: mentor.id, reason: " " })).rejects.toMatchObject({
+      status: 400,
+    });
+    await expect(
+      transitionSession(session, "declined", { actorId: mentor.id, reason: "Fully booked" }),
+    ).resolves.toMatchObject({ status: "declined", statusReason: "Fully booked" });
+  });
+
+  it("rejects a change made from a status that is no longer current", async () => {
+    const { mentor, student, session } = await createSession();
+    await transitionSession(session, "cancelled", { actorId: student.id });
+
+    // The mentor confirms from the pending session read before the cancellation
+    await expect(transitionSession(session, "confirmed", { actorId: mentor.id })).rejects.toMatchObject({
+      status: 409,
+    });
+    expect(await storage.getSession(session.id)).toMatchObject({ status: "cancelled" });
+  });
+});
+
+describe("booking and availability", () => {
+  const tomorrowAt = (hour: number) =>
+    new Date(Math.ceil(Date.now() / DAY_MS) * DAY_MS + DAY_MS + hour * 60 * 60_000).toISOString();
+
+  it("books a mentor who has not set up availability at any time", async () => {
+    const { mentor, students } = await createParticipants();
+    await storage.replaceAvailabilitySlots(mentor.id, []);
+
+    await expect(
+      bookSession(students[0].id, { mentorId: mentor.id, subject: "Physics", scheduledTime: tomorrowAt(3) }),
+    ).resolves.toMatchObject({ status: "pending" });
+  });
+
+  it("only books a mentor with availability within it", async () => {
+    const { mentor, students } = await createParticipants({ startTime: "09:00", endTime: "17:00" });
+
+    await expect(
+      bookSession(students[0].id, { mentorId: mentor.id, subject: "Physics", scheduledTime: tomorrowAt(3) }),
+    ).rejects.toThrow(CustomError);
+    await expect(
+      bookSession(students[0].id, { mentorId: mentor.id, subject: "Physics", scheduledTime: tomorrowAt(10) }),
+    ).resolves.toMatchObject({ mentorId: mentor.id });
+  });
+});
+
+describe("series start times", () => {
+  it("keeps a weekly series at the same wall-clock time across a DST change", () => {
+    // New York springs forward on 10 March 2030
+    const first = new Date("2030-03-03T14:00:00Z");
+
+    const startTimes = getSeriesStartTimes(first, "America/New_York", "weekly", { occurrences: 3 });
+
+    expect(startTimes.map((start) => start.toISOString())).toEqual([
+      "2030-03-03T14:00:00.000Z",
+      "2030-03-10T13:00:00.000Z",
+      "2030-03-17T13:00:00.000Z",
+    ]);
+  });
+
+  it("follows the series timezone, not UTC, when clocks fall back", () => {
+    // London falls back on 27 October 2030
+    const first = new Date("2030-10-15T17:30:00Z");
+
+    const startTimes = getSeriesStartTimes(first, "Europe/London", "biweekly", { until: "2030-11-12" });
+
+    expect(startTimes.map((start) => start.toISOString())).toEqual([
+      "2030-10-15T17:30:00.000Z",
+      "2030-10-29T18:30:00.000Z",
+      "2030-11-12T18:30:00.000Z",
+    ]);
+  });
+});
+
+describe("series occurrences", () => {
+  const inDays = (days: number, hour = 10) =>
+    new Date(Math.ceil(Date.now() / DAY_MS) * DAY_MS + days * DAY_MS + hour * 60 * 60_000);
+
+  async function bookWeekly(occurrences = 3) {
+    const { mentor, students } = await createParticipants();
+    const { series, sessions } = await bookSeries(students[0].id, {
+      mentorId: mentor.id,
+      subject: "Physics",
+      scheduledTime: inDays(2).toISOString(),
+      frequency: "weekly",
+      occurrences,
+      timezone: "UTC",
+    });
+    return { mentor, student: students[0], series, sessions };
+  }
+
+  const statuses = async (seriesId: string) =>
+    (await storage.getSeriesSessions(seriesId)).map((session) => session.status);
+
+  it("cancels a single occurrence and leaves the rest of the series booked", async () => {
+    const { student, series, sessions } = await bookWeekly();
+
+    await transitionSession(sessions[1], "cancelled", { actorId: student.id });
+
+    expect(await statuses(series.id)).toEqual(["pending", "cancelled", "pending"]);
+  });
+
+  it("confirms every upcoming occurrence that can be, skipping started and cancelled ones", async () => {
+    const { mentor, student, series, sessions } = await bookWeekly(4);
+    await transitionSession(sessions[2], "cancelled", { actorId: student.id });
+
+    // As seen once the first occurrence has started
+    const confirmed = await transitionSeries(series, "confirmed", { actorId: mentor.id }, inDays(2, 11));
+
+    expect(confirmed.map((session) => session.id)).toEqual([sessions[1].id, sessions[3].id]);
+    expect(await statuses(series.id)).toEqual(["pending", "confirmed", "cancelled", "confirmed"]);
+  });
+
+  it("cancels the rest of a series and refuses when nothing is left to change", async () => {
+    const { student, series } = await bookWeekly();
+
+    const cancelled = await transitionSeries(series, "cancelled", { actorId: student.id, reason: "Moving away" });
+
+    expect(cancelled).toHaveLength(3);
+    expect(cancelled.every((session) => session.statusReason === "Moving away")).toBe(true);
+    await expect(transitionSeries(series, "cancelled", { actorId: student.id })).rejects.toMatchObject({
+      status: 409,
+    });
+  });
+
+  it("moves one occurrence, or it and every later one, depending on the scope", async () => {
+    const { mentor, student, series, sessions } = await bookWeekly();
+
+    const single = await proposeReschedule(sessions[0], student.id, inDays(3));
+    await respondToReschedule(sessions[0], single, mentor.id, true);
+    expect((await storage.getSeriesSessions(series.id)).map((session) => session.scheduledTime)).toEqual([
+      inDays(3),
+      inDays(9),
+      inDays(16),
+    ]);
+
+    const moved = (await storage.getSeriesSessions(series.id))[1];
+    const rest = await proposeReschedule(moved, mentor.id, inDays(10, 14), "series");
+    await respondToReschedule(moved, rest, student.id, true);
+    expect((await storage.getSeriesSessions(series.id)).map((session) => session.scheduledTime)).toEqual([
+      inDays(3),
+      inDays(10, 14),
+      inDays(17, 14),
+    ]);
+  });
+});
+
+describe("rescheduling", () => {
+  const inDays = (days: number, hour = 10) =>
+    new Date(Math.ceil(Date.now() / DAY_MS) * DAY_MS + days * DAY_MS + hour * 60 * 60_000);
+
+  it("moves the session once the other participant accepts", async () => {
+    const { mentor, students } = await createParticipants();
+    const session = await bookSession(students[0].id, {
+      mentorId: mentor.id,
+      subject: "Physics",
+      scheduledTime: inDays(2).toISOString(),
+    });
+    const proposal = await proposeReschedule(session, students[0].id, inDays(3));
+
+    const result = await respondToReschedule(session, proposal, mentor.id, true);
+
+    expect(result.session.scheduledTime).toEqual(inDays(3));
+    expect(result.proposal.status).toBe("accepted");
+  });
+
+  it("refuses to move a session cancelled after the proposal was read", async () => {
+    const { mentor, students } = await createParticipants();
+    const session = await bookSession(students[0].id, {
+      mentorId: mentor.id,
+      subject: "Physics",
+      scheduledTime: inDays(2).toISOString(),
+    });
+    const proposal = await proposeReschedule(session, students[0].id, inDays(3));
+    await transitionSession(session, "cancelled", { actorId: students[0].id });
+
+    // The route read the session and the proposal before the cancellation landed
+    const accepted = respondToReschedule(session, proposal, mentor.id, true);
+
+    await expect(accepted).rejects.toThrow(CustomError);
+    await expect(accepted).rejects.toMatchObject({ status: 409 });
+    expect(await storage.getSession(session.id)).toMatchObject({ status: "cancelled", scheduledTime: inDays(2) });
+    expect((await storage.getRescheduleProposal(proposal.id))?.status).toBe("pending");
+  });
+});
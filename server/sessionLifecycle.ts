@@ -0,0 +1,549 @@
+import { storage, type IStorage, type SessionStatusChange } from "./storage";
+import { CustomError } from "./middleware/errorHandler";
+import { assertWithinAvailability } from "./availability";
+import { jobScheduler, type JobScheduler } from "./jobScheduler";
+import { SESSION_REMINDER_JOB, sendSessionReminder, syncSessionReminders } from "./sessionReminders";
+import { type BookSessionInput, type BookSeriesInput } from "./validation/schemas";
+import {
+  type Session,
+  type SessionStatus,
+  type SessionSeries,
+  type SeriesFrequency,
+  type SessionReschedule,
+  type RescheduleScope,
+  DEFAULT_SESSION_DURATION_MINUTES,
+  MAX_SERIES_OCCURRENCES,
+} from "@shared/schema";
+import { addDays, daysBetween, toZonedDate, toZonedTime, zonedTimeToUtc } from "@shared/timezone";
+
+// ==================== Configuration ====================
+
+/** How often confirmed sessions past their end are marked completed */
+const AUTO_COMPLETE_INTERVAL_MS = 60_000;
+
+// ==================== State Machine ====================
+
+/**
+ * Allowed status changes; anything not listed is rejected
+ * - declined, cancelled, completed and no_show are final
+ */
+const TRANSITIONS: Record<SessionStatus, readonly SessionStatus[]> = {
+  pending: ["confirmed", "declined", "cancelled"],
+  confirmed: ["completed", "no_show", "cancelled"],
+  declined: [],
+  cancelled: [],
+  completed: [],
+  no_show: [],
+};
+
+/** Outcomes that can only be recorded once the session has started */
+const REQUIRES_STARTED: readonly SessionStatus[] = ["completed", "no_show"];
+
+export function canTransition(from: SessionStatus, to: SessionStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+export function getSessionEnd(session: Pick<Session, "scheduledTime" | "durationMinutes">): Date {
+  return new Date(session.scheduledTime.getTime() + session.durationMinutes * 60_000);
+}
+
+/**
+ * Move a session to a new status
+ * - Throws 409 when the state machine does not allow it, or when the
+ *   session's status changed concurrently since it was read
+ * - Callers are responsible for checking who may perform the change
+ * - Declining requires a reason
+ */
+export async function transitionSession(
+  session: Session,
+  to: SessionStatus,
+  change: SessionStatusChange = {},
+  now = new Date(),
+): Promise<Session> {
+  if (!canTransition(session.status, to)) {
+    throw new CustomError(`Cannot change a ${session.status} session to ${to}`, 409);
+  }
+
+  if (REQUIRES_STARTED.includes(to) && session.scheduledTime > now) {
+    throw new CustomError("Session has not started yet", 409);
+  }
+
+  if (to === "declined" && !change.reason?.trim()) {
+    throw new CustomError("A reason is required to decline a session", 400);
+  }
+
+  const updated = await storage.updateSessionStatus(session.id, session.status, to, change);
+  if (!updated) {
+    throw new CustomError("Session was updated by someone else, please reload", 409);
+  }
+
+  await syncSessionReminders(updated, now);
+  return updated;
+}
+
+// ==================== Scheduling ====================
+
+export interface SessionConflict {
+  /** Which participant of the requested session is already busy */
+  participant: "mentor" | "student";
+  start: Date;
+  end: Date;
+  /** Position (from 1) of the clashing session when several are requested at once, e.g. a series */
+  occurrence?: number;
+}
+
+/**
+ * Thrown when a time slot overlaps another pending or confirmed session of
+ * either participant; only the clashing time ranges are exposed, not who
+ * the other sessions are with
+ */
+export class SessionConflictError extends CustomError {
+  conflicts: SessionConflict[];
+
+  constructor(conflicts: SessionConflict[]) {
+    super("The requested time overlaps another session", 409);
+    this.name = "SessionConflictError";
+    this.conflicts = conflicts;
+  }
+}
+
+type SessionSlot = Pick<Session, "mentorId" | "studentId" | "scheduledTime" | "durationMinutes">;
+
+/**
+ * Check that a slot starts in the future and is free for both participants
+ * - Throws 400 for past times and SessionConflictError for overlaps
+ * - Only holds until the slot is booked when run with the participants' calendar
+ *   locked (see IStorage.withCalendarLock), passing the locked storage as `store`
+ * @param excludeSessionIds - Sessions being moved, which cannot clash with themselves
+ */
+export async function assertSlotAvailable(
+  slot: SessionSlot,
+  excludeSessionIds: string[] = [],
+  now = new Date(),
+  store: IStorage = storage,
+): Promise<void> {
+  if (slot.scheduledTime <= now) {
+    throw new CustomError("Sessions must be scheduled in the future", 400);
+  }
+
+  const overlapping = await store.getOverlappingSessions(
+    [slot.mentorId, slot.studentId],
+    slot.scheduledTime,
+    getSessionEnd(slot),
+    excludeSessionIds,
+  );
+
+  if (overlapping.length > 0) {
+    throw new SessionConflictError(
+      overlapping.map((session) => ({
+        participant:
+          session.mentorId === slot.mentorId || session.studentId === slot.mentorId ? "mentor" : "student",
+        start: session.scheduledTime,
+        end: getSessionEnd(session),
+      })),
+    );
+  }
+}
+
+/**
+ * Check several slots at once, e.g. the occurrences of a series
+ * - Overlaps of every slot are reported together, each tagged with the
+ *   position of its slot when there is more than one
+ */
+async function assertSlotsAvailable(
+  slots: SessionSlot[],
+  excludeSessionIds: string[] = [],
+  now = new Date(),
+  store: IStorage = storage,
+): Promise<void> {
+  const conflicts: SessionConflict[] = [];
+
+  for (let index = 0; index < slots.length; index++) {
+    try {
+      await assertSlotAvailable(slots[index], excludeSessionIds, now, store);
+    } catch (error) {
+      if (!(error instanceof SessionConflictError)) throw error;
+      conflicts.push(
+        ...error.conflicts.map((conflict) => (slots.length > 1 ? { ...conflict, occurrence: index + 1 } : conflict)),
+      );
+    }
+  }
+
+  if (conflicts.length > 0) {
+    throw new SessionConflictError(conflicts);
+  }
+}
+
+/**
+ * Check that every slot fits within the mentor's availability
+ * - When there are several, the error names the first date that does not fit
+ */
+async function assertSlotsWithinAvailability(slots: SessionSlot[], timezone: string): Promise<void> {
+  for (const slot of slots) {
+    try {
+      await assertWithinAvailability(slot.mentorId, { start: slot.scheduledTime, end: getSessionEnd(slot) });
+    } catch (error) {
+      if (slots.length === 1 || !(error instanceof CustomError)) throw error;
+      throw new CustomError(`The mentor is not available at that time on ${toZonedDate(slot.scheduledTime, timezone)}`, 409);
+    }
+  }
+}
+
+/**
+ * Book a session with a mentor on behalf of a student
+ * - The session must fit within the mentor's availability
+ * - The final overlap check and the booking happen under both participants'
+ *   calendar lock, so two requests for the same time cannot both succeed
+ * - The session records the timezone its time was picked in
+ */
+export async function bookSession(studentId: string, input: BookSessionInput): Promise<Session> {
+  const mentor = await storage.getUser(input.mentorId);
+  if (!mentor || mentor.role !== "mentor") {
+    throw new CustomError("Mentor not found", 404);
+  }
+
+  const slot: SessionSlot = {
+    mentorId: mentor.id,
+    studentId,
+    scheduledTime: new Date(input.scheduledTime),
+    durationMinutes: input.durationMinutes ?? DEFAULT_SESSION_DURATION_MINUTES,
+  };
+  await assertSlotAvailable(slot);
+  await assertWithinAvailability(mentor.id, { start: slot.scheduledTime, end: getSessionEnd(slot) });
+
+  const timezone = input.timezone ?? (await storage.getProfile(studentId))?.timezone ?? "UTC";
+
+  // Checked again under the lock, as another booking may have taken the time meanwhile
+  return storage.withCalendarLock([mentor.id, studentId], async (locked) => {
+    await assertSlotAvailable(slot, [], new Date(), locked);
+    return locked.createSession({ ...slot, subject: input.subject, timezone });
+  });
+}
+
+// ==================== Recurring Series ====================
+
+const FREQUENCY_DAYS: Record<SeriesFrequency, number> = {
+  weekly: 7,
+  biweekly: 14,
+};
+
+/**
+ * Start times of a series' occurrences, the first one included
+ * - Occurrences keep the first one's wall-clock time in the timezone,
+ *   so the series does not drift by an hour across DST changes
+ * - Stops after `occurrences` sessions or on the last date up to `until`,
+ *   and never goes past MAX_SERIES_OCCURRENCES
+ */
+export function getSeriesStartTimes(
+  first: Date,
+  timezone: string,
+  frequency: SeriesFrequency,
+  end: { occurrences?: number; until?: string },
+): Date[] {
+  const firstDate = toZonedDate(first, timezone);
+  const time = toZonedTime(first, timezone);
+  const count = Math.min(end.occurrences ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+
+  const startTimes = [first];
+  for (let index = 1; index < count; index++) {
+    const date = addDays(firstDate, index * FREQUENCY_DAYS[frequency]);
+    if (end.until && date > end.until) break;
+    startTimes.push(zonedTimeToUtc(date, time, timezone));
+  }
+
+  return startTimes;
+}
+
+/**
+ * Book a recurring series of sessions on behalf of a student
+ * - Every occurrence is checked like a single booking; if any of them
+ *   clashes or falls outside the mentor's availability, nothing is booked
+ * - Occurrences are ordinary sessions, confirmed, cancelled and
+ *   rescheduled one by one or for the whole series
+ */
+export async function bookSeries(
+  studentId: string,
+  input: BookSeriesInput,
+): Promise<{ series: SessionSeries; sessions: Session[] }> {
+  const mentor = await storage.getUser(input.mentorId);
+  if (!mentor || mentor.role !== "mentor") {
+    throw new CustomError("Mentor not found", 404);
+  }
+
+  const timezone = input.timezone ?? (await storage.getProfile(studentId))?.timezone ?? "UTC";
+  const durationMinutes = input.durationMinutes ?? DEFAULT_SESSION_DURATION_MINUTES;
+
+  const slots: SessionSlot[] = getSeriesStartTimes(
+    new Date(input.scheduledTime),
+    timezone,
+    input.frequency,
+    input,
+  ).map((scheduledTime) => ({ mentorId: mentor.id, studentId, scheduledTime, durationMinutes }));
+  if (slots.length < 2) {
+    throw new CustomError("A series needs at least two sessions before its end date", 400);
+  }
+
+  await assertSlotsAvailable(slots);
+  await assertSlotsWithinAvailability(slots, timezone);
+
+  // Checked again under the lock, as another booking may have taken a time meanwhile
+  return storage.withCalendarLock([mentor.id, studentId], async (locked) => {
+    await assertSlotsAvailable(slots, [], new Date(), locked);
+    return locked.createSessionSeries(
+      { studentId, mentorId: mentor.id, subject: input.subject, frequency: input.frequency, timezone },
+      slots.map((slot) => ({ ...slot, subject: input.subject, timezone })),
+    );
+  });
+}
+
+/**
+ * Apply a status change to every upcoming occurrence of a series that allows it
+ * - Occurrences that have started, or whose status does not allow the
+ *   change, are left as they are
+ * - Throws 409 when no occurrence could be changed
+ * @returns The occurrences that changed
+ */
+export async function transitionSeries(
+  series: SessionSeries,
+  to: "confirmed" | "cancelled",
+  change: SessionStatusChange = {},
+  now = new Date(),
+): Promise<Session[]> {
+  const occurrences = await storage.getSeriesSessions(series.id);
+
+  const changed: Session[] = [];
+  for (const session of occurrences) {
+    if (session.scheduledTime <= now || !canTransition(session.status, to)) continue;
+
+    // Skip occurrences that were changed in the meantime
+    const updated = await storage.updateSessionStatus(session.id, session.status, to, change);
+    if (updated) {
+      await syncSessionReminders(updated, now);
+      changed.push(updated);
+    }
+  }
+
+  if (changed.length === 0) {
+    throw new CustomError(`No upcoming sessions in this series can be ${to}`, 409);
+  }
+
+  return changed;
+}
+
+// ==================== Rescheduling ====================
+
+/** Statuses in which a session's time can still change */
+const RESCHEDULABLE: readonly SessionStatus[] = ["pending", "confirmed"];
+
+interface SessionMove {
+  session: Session;
+  scheduledTime: Date;
+}
+
+/**
+ * The sessions a reschedule moves, with their new start times
+ * - A "series" move also takes every later occurrence that can still be
+ *   rescheduled, shifted by the same number of days and to the same
+ *   wall-clock time in the session's timezone
+ */
+async function getRescheduleMoves(
+  session: Session,
+  proposedTime: Date,
+  scope: RescheduleScope,
+): Promise<SessionMove[]> {
+  if (scope === "session") {
+    return [{ session, scheduledTime: proposedTime }];
+  }
+
+  if (!session.seriesId) {
+    throw new CustomError("This session is not part of a series", 400);
+  }
+
+  const { timezone } = session;
+  const dayShift = daysBetween(toZonedDate(session.scheduledTime, timezone), toZonedDate(proposedTime, timezone));
+  const time = toZonedTime(proposedTime, timezone);
+
+  const later = (await storage.getSeriesSessions(session.seriesId)).filter(
+    (occurrence) => occurrence.scheduledTime > session.scheduledTime && RESCHEDULABLE.includes(occurrence.status),
+  );
+
+  return [
+    { session, scheduledTime: proposedTime },
+    ...later.map((occurrence) => ({
+      session: occurrence,
+      scheduledTime: zonedTimeToUtc(addDays(toZonedDate(occurrence.scheduledTime, timezone), dayShift), time, timezone),
+    })),
+  ];
+}
+
+const toSlots = (moves: SessionMove[]): SessionSlot[] =>
+  moves.map(({ session, scheduledTime }) => ({ ...session, scheduledTime }));
+
+/**
+ * Propose a new time for a session on behalf of one of its participants
+ * - A proposal still awaiting an answer is superseded by the new one,
+ *   so the other party can reply to a proposal with a counter-proposal
+ * - Students can only propose times within the mentor's availability
+ * - With the "series" scope, the later occurrences of the session's series
+ *   move along with it and are checked as well
+ */
+export async function proposeReschedule(
+  session: Session,
+  proposedBy: string,
+  proposedTime: Date,
+  scope: RescheduleScope = "session",
+  now = new Date(),
+): Promise<SessionReschedule> {
+  if (!RESCHEDULABLE.includes(session.status)) {
+    throw new CustomError(`A ${session.status} session can no longer be rescheduled`, 409);
+  }
+
+  if (proposedTime.getTime() === session.scheduledTime.getTime()) {
+    throw new CustomError("The session is already scheduled at that time", 400);
+  }
+
+  const moves = await getRescheduleMoves(session, proposedTime, scope);
+  const movedIds = moves.map((move) => move.session.id);
+  await assertSlotsAvailable(toSlots(moves), movedIds, now);
+  if (proposedBy === session.studentId) {
+    await assertSlotsWithinAvailability(toSlots(moves), session.timezone);
+  }
+
+  const [pending] = await storage.getPendingReschedules([session.id]);
+  if (pending) {
+    await storage.resolveRescheduleProposal(pending.id, "superseded", proposedBy);
+  }
+
+  return storage.createRescheduleProposal({
+    sessionId: session.id,
+    proposedBy,
+    previousTime: session.scheduledTime,
+    proposedTime,
+    scope,
+  });
+}
+
+/**
+ * Accept or reject a pending proposal
+ * - Only the participant who did not make the proposal may answer it
+ * - Accepting moves the session to the proposed time and keeps its status;
+ *   a "series" proposal moves the later occurrences too, superseding any
+ *   proposals still open on them
+ * - The times are checked and moved under both participants' calendar lock
+ */
+export async function respondToReschedule(
+  session: Session,
+  proposal: SessionReschedule,
+  respondedBy: string,
+  accept: boolean,
+  now = new Date(),
+): Promise<{ session: Session; proposal: SessionReschedule }> {
+  if (proposal.proposedBy === respondedBy) {
+    throw new CustomError("You cannot answer your own proposal", 403);
+  }
+
+  if (proposal.status !== "pending") {
+    throw new CustomError("This proposal has already been answered", 409);
+  }
+
+  let moves: SessionMove[] = [];
+  if (accept) {
+    if (!RESCHEDULABLE.includes(session.status)) {
+      throw new CustomError(`A ${session.status} session can no longer be rescheduled`, 409);
+    }
+    if (proposal.proposedTime <= now) {
+      throw new CustomError("The proposed time has already passed", 409);
+    }
+    moves = await getRescheduleMoves(session, proposal.proposedTime, proposal.scope);
+  }
+
+  const { resolved, moved } = await storage.withCalendarLock(
+    [session.mentorId, session.studentId],
+    async (locked) => {
+      if (accept) {
+        // The session may have been cancelled or declined since it was read
+        const current = await locked.getSession(session.id);
+        if (!current) {
+          throw new CustomError("Session not found", 404);
+        }
+        if (!RESCHEDULABLE.includes(current.status)) {
+          throw new CustomError(`A ${current.status} session can no longer be rescheduled`, 409);
+        }
+
+        // The calendars may have filled up since the proposal was made
+        await assertSlotsAvailable(
+          toSlots(moves),
+          moves.map((move) => move.session.id),
+          now,
+          locked,
+        );
+      }
+
+      const resolved = await locked.resolveRescheduleProposal(
+        proposal.id,
+        accept ? "accepted" : "rejected",
+        respondedBy,
+      );
+      if (!resolved) {
+        throw new CustomError("This proposal has already been answered", 409);
+      }
+
+      const moved: Session[] = [];
+      for (const move of moves) {
+        // Guarded by status too, as cancelling a session does not take the calendar lock
+        const updated = await locked.updateSessionTime(move.session.id, move.scheduledTime, RESCHEDULABLE);
+        if (updated) moved.push(updated);
+        if (move.session.id === session.id) continue;
+
+        const [stale] = await locked.getPendingReschedules([move.session.id]);
+        if (stale) {
+          await locked.resolveRescheduleProposal(stale.id, "superseded", respondedBy);
+        }
+      }
+      return { resolved, moved };
+    },
+  );
+
+  // After the lock is released: reminders are jobs, written outside its transaction
+  for (const updated of moved) {
+    await syncSessionReminders(updated, now);
+  }
+
+  return { session: moved.find((updated) => updated.id === session.id) ?? session, proposal: resolved };
+}
+
+// ==================== Auto-completion ====================
+
+/**
+ * Mark every confirmed session whose scheduled end has passed as completed
+ * @returns Number of sessions completed
+ */
+export async function completeOverdueSessions(now = new Date()): Promise<number> {
+  const overdue = await storage.getSessionsEndedBefore("confirmed", now);
+
+  let completed = 0;
+  for (const session of overdue) {
+    // Skip sessions that were cancelled or completed in the meantime
+    if (await storage.updateSessionStatus(session.id, "confirmed", "completed")) {
+      completed++;
+    }
+  }
+
+  return completed;
+}
+
+// ==================== Background Jobs ====================
+
+const AUTO_COMPLETE_JOB = "session-auto-complete";
+
+/**
+ * Register the session jobs with the scheduler
+ * - Reminders before confirmed sessions start (see sessionReminders.ts)
+ * - A recurring job that completes overdue sessions
+ */
+export function registerSessionJobs(scheduler: JobScheduler = jobScheduler): void {
+  scheduler.define(SESSION_REMINDER_JOB, sendSessionReminder);
+  scheduler.defineRecurring(AUTO_COMPLETE_JOB, AUTO_COMPLETE_INTERVAL_MS, async (_payload, { now }) => {
+    await completeOverdueSessions(now);
+  });
+}
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { storage } from "./storage";
+import { JobScheduler, type Clock } from "./jobScheduler";
+import { SESSION_REMINDER_JOB, sendSessionReminder, syncSessionReminders } from "./sessionReminders";
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+
+class FakeClock implements Clock {
+  constructor(private time: Date) {}
+
+  now(): Date {
+    return new Date(this.time);
+  }
+
+  set(time: Date): void {
+    this.time = time;
+  }
+}
+
+/** A confirmed session starting at `start`, with its reminders queued as of two days before */
+async function createConfirmedSession(start: Date) {
+  const suffix = Math.random().toString(36).slice(2, 8);
+  const createUser = (name: string, role: "student" | "mentor") =>
+    storage.createUser({ username: `${name}-${suffix}`, email: `${name}-${suffix}@example.com`, password: "hashed", role });
+
+  const mentor = await createUser("mentor", "mentor");
+  const student = await createUser("sam", "student");
+  const session = await storage.createSession({
+    studentId: student.id,
+    mentorId: mentor.id,
+    subject: "Physics",
+    scheduledTime: start,
+  });
+  const confirmed = (await storage.updateSessionStatus(session.id, "pending", "confirmed"))!;
+  await syncSessionReminders(confirmed, new Date(start.getTime() - 48 * HOUR));
+  return { mentor, student, session: confirmed };
+}
+
+const reminders = async (userId: string) =>
+  (await storage.getUserNotifications(userId, 10)).filter((notification) => notification.type === "session_reminder");
+
+/** Reminder titles in alphabetical order, as notifications sent within a millisecond have no set order */
+const reminderTitles = async (userId: string) =>
+  (await reminders(userId)).map((notification) => notification.title).sort();
+
+describe("session reminders", () => {
+  let clock: FakeClock;
+  let scheduler: JobScheduler;
+
+  beforeEach(() => {
+    clock = new FakeClock(new Date());
+    scheduler = new JobScheduler(storage, { clock });
+    scheduler.define(SESSION_REMINDER_JOB, sendSessionReminder);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("reminds both participants 24 hours and 15 minutes before", async () => {
+    const start = new Date("2030-06-03T15:00:00Z");
+    const { mentor, student } = await createConfirmedSession(start);
+
+    clock.set(new Date(start.getTime() - 24 * HOUR));
+    await scheduler.runDueJobs();
+    clock.set(new Date(start.getTime() - 15 * MINUTE));
+    await scheduler.runDueJobs();
+
+    for (const user of [student, mentor]) {
+      expect(await reminderTitles(user.id)).toEqual(["Session in 15 minutes", "Session in 24 hours"]);
+    }
+  });
+
+  it("counts the time actually left when the reminder runs late", async () => {
+    const start = new Date("2030-06-10T15:00:00Z");
+    const { student } = await createConfirmedSession(start);
+
+    // The server was down until three hours before the session
+    clock.set(new Date(start.getTime() - 3 * HOUR));
+    await scheduler.runDueJobs();
+    clock.set(new Date(start.getTime() - 10 * MINUTE));
+    await scheduler.runDueJobs();
+
+    expect(await reminderTitles(student.id)).toEqual(["Session in 10 minutes", "Session in 3 hours"]);
+  });
+
+  it("only notifies the participants a failed run missed when it is retried", async () => {
+    const start = new Date("2030-06-17T15:00:00Z");
+    const { mentor, student } = await createConfirmedSession(start);
+    const createNotification = storage.createNotification.bind(storage);
+    let failed = false;
+    vi.spyOn(storage, "createNotification").mockImplementation(async (notification) => {
+      // The first notice to the mentor fails, after the student's went out
+      if (notification.userId === mentor.id && !failed) {
+        failed = true;
+        throw new Error("database unavailable");
+      }
+      return createNotification(notification);
+    });
+
+    clock.set(new Date(start.getTime() - 24 * HOUR));
+    await scheduler.runDueJobs();
+    expect(await reminders(student.id)).toHaveLength(1);
+    expect(await reminders(mentor.id)).toHaveLength(0);
+
+    clock.set(new Date(start.getTime() - 23 * HOUR));
+    await scheduler.runDueJobs();
+
+    expect(await reminders(student.id)).toHaveLength(1);
+    expect(await reminderTitles(mentor.id)).toEqual(["Session in 23 hours"]);
+  });
+
+  it("skips a session that was cancelled or moved since the reminder was queued", async () => {
+    const start = new Date("2030-06-24T15:00:00Z");
+    const cancelled = await createConfirmedSession(start);
+    const moved = await createConfirmedSession(start);
+    await storage.updateSessionStatus(cancelled.session.id, "confirmed", "cancelled");
+    await storage.updateSessionTime(moved.session.id, new Date(start.getTime() + 2 * HOUR), ["confirmed"]);
+
+    clock.set(new Date(start.getTime() - 24 * HOUR));
+    await scheduler.runDueJobs();
+
+    expect(await reminders(cancelled.student.id)).toEqual([]);
+    expect(await reminders(moved.student.id)).toEqual([]);
+  });
+});
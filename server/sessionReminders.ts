@@ -0,0 +1,121 @@
+import { storage } from "./storage";
+import { jobScheduler, type JobHandler } from "./jobScheduler";
+import { notifyUser, formatNotificationTime } from "./notifications";
+import { type Session, type InsertScheduledJob } from "@shared/schema";
+
+// ==================== Configuration ====================
+
+export const SESSION_REMINDER_JOB = "session-reminder";
+
+/** Reminders sent to both participants of a confirmed session, by how long before it starts */
+const REMINDERS = [
+  { name: "24h", minutesBefore: 24 * 60 },
+  { name: "15m", minutesBefore: 15 },
+] as const;
+
+type Reminder = (typeof REMINDERS)[number];
+
+// ==================== Scheduling ====================
+
+const reminderKey = (sessionId: string, reminder: Reminder) =>
+  `${SESSION_REMINDER_JOB}:${sessionId}:${reminder.name}`;
+
+const reminderTime = (session: Session, reminder: Reminder) =>
+  new Date(session.scheduledTime.getTime() - reminder.minutesBefore * 60_000);
+
+/** The job sending a reminder; it carries the start time it was computed from to detect moves */
+const reminderJob = (session: Session, reminder: Reminder): InsertScheduledJob => ({
+  key: reminderKey(session.id, reminder),
+  type: SESSION_REMINDER_JOB,
+  runAt: reminderTime(session, reminder),
+  payload: { sessionId: session.id, reminder: reminder.name, scheduledTime: session.scheduledTime.toISOString() },
+});
+
+/**
+ * Bring a session's reminder jobs in line with its current status and time
+ * - Confirmed sessions get every reminder that is still ahead; moving the session moves them
+ * - Any other status drops the reminders that have not been sent
+ * - To be called whenever a session is confirmed, rescheduled or leaves the confirmed status
+ */
+export async function syncSessionReminders(session: Session, now = new Date()): Promise<void> {
+  const upcoming =
+    session.status === "confirmed" ? REMINDERS.filter((reminder) => reminderTime(session, reminder) > now) : [];
+
+  await jobScheduler.cancel(
+    REMINDERS.filter((reminder) => !upcoming.includes(reminder)).map((reminder) => reminderKey(session.id, reminder)),
+  );
+
+  for (const reminder of upcoming) {
+    const { type, key, runAt, payload } = reminderJob(session, reminder);
+    await jobScheduler.schedule(type, key, runAt, payload);
+  }
+}
+
+/**
+ * Queue the reminders of confirmed upcoming sessions that have none yet,
+ * e.g. sessions confirmed before reminders existed or created by the seed script
+ * - Reminders that were already sent or cancelled are left alone
+ */
+export async function scheduleMissingSessionReminders(now = new Date()): Promise<void> {
+  const sessions = await storage.getSessionsStartingAfter("confirmed", now);
+
+  for (const session of sessions) {
+    for (const reminder of REMINDERS) {
+      if (reminderTime(session, reminder) > now) {
+        await storage.scheduleJobIfMissing(reminderJob(session, reminder));
+      }
+    }
+  }
+}
+
+// ==================== Delivery ====================
+
+/** "Session in 24 hours", "Session in 40 minutes": rounded to hours from an hour on */
+function reminderTitle(session: Session, now: Date): string {
+  const minutes = Math.max(1, Math.round((session.scheduledTime.getTime() - now.getTime()) / 60_000));
+  if (minutes < 60) {
+    return `Session in ${minutes} ${minutes === 1 ? "minute" : "minutes"}`;
+  }
+  const hours = Math.round(minutes / 60);
+  return `Session in ${hours} ${hours === 1 ? "hour" : "hours"}`;
+}
+
+/**
+ * Notify both participants that their session is coming up
+ * - Skipped when the session is no longer confirmed, has moved since the
+ *   reminder was queued, or has already started (e.g. the server was down)
+ * - Each participant sees the start time in their own timezone; the title
+ *   counts the time actually left, which is less when the job runs late
+ * - Participants already notified are recorded in the payload, so a retry
+ *   after a failure only notifies the others
+ */
+export const sendSessionReminder: JobHandler = async (payload, { now, savePayload }) => {
+  const reminder = REMINDERS.find((candidate) => candidate.name === payload.reminder);
+  const session = await storage.getSession(String(payload.sessionId));
+  if (!reminder || !session || session.status !== "confirmed") return;
+  if (session.scheduledTime.toISOString() !== payload.scheduledTime || session.scheduledTime <= now) return;
+
+  const participants: Array<[string, string]> = [
+    [session.studentId, session.mentorId],
+    [session.mentorId, session.studentId],
+  ];
+  const notified = Array.isArray(payload.notified) ? payload.notified.map(String) : [];
+
+  for (const [userId, counterpartId] of participants) {
+    if (notified.includes(userId)) continue;
+
+    const [counterpart, profile] = await Promise.all([storage.getUser(counterpartId), storage.getProfile(userId)]);
+    const startTime = formatNotificationTime(session.scheduledTime, profile?.timezone ?? session.timezone);
+
+    await notifyUser({
+      userId,
+      type: "session_reminder",
+      title: reminderTitle(session, now),
+      body: `${session.subject} with ${counterpart?.username ?? "your partner"} starts ${startTime}`,
+      sessionId: session.id,
+    });
+
+    notified.push(userId);
+    await savePayload({ ...payload, notified });
+  }
+};
@@ -0,0 +1,481 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import type { InsertUser } from "@shared/schema";
+import { createPgliteStorage } from "./test/pglite";
+import { MemStorage, type IStorage, type MentorSearchKey, type MentorSearchSort } from "./storage";
+import { tokenize } from "./utils/search";
+
+interface Backend {
+  storage: IStorage;
+  reset(): Promise<void>;
+  close(): Promise<void>;
+}
+
+const backends: [string, () => Promise<Backend>][] = [
+  [
+    "MemStorage",
+    async () => {
+      const backend: Backend = {
+        storage: new MemStorage(),
+        reset: async () => {
+          backend.storage = new MemStorage();
+        },
+        close: async () => {},
+      };
+      return backend;
+    },
+  ],
+  ["DbStorage", createPgliteStorage],
+];
+
+const HOUR = 60 * 60 * 1000;
+
+// Every IStorage implementation has to pass the same contract
+describe.each(backends)("%s", (_name, createBackend) => {
+  let backend: Backend;
+  let storage: IStorage;
+
+  beforeAll(async () => {
+    backend = await createBackend();
+  });
+
+  afterAll(async () => {
+    await backend.close();
+  });
+
+  beforeEach(async () => {
+    await backend.reset();
+    storage = backend.storage;
+  });
+
+  const createUser = (username: string, role: InsertUser["role"] = "student") =>
+    storage.createUser({ username, email: `${username}@example.com`, password: "hashed", role });
+
+  describe("users", () => {
+    it("finds a user by id, username and email", async () => {
+      const user = await createUser("ada", "mentor");
+
+      expect(user).toMatchObject({ username: "ada", email: "ada@example.com", role: "mentor" });
+      expect(await storage.getUser(user.id)).toEqual(user);
+      expect(await storage.getUserByUsername("ada")).toEqual(user);
+      expect(await storage.getUserByEmail("ada@example.com")).toEqual(user);
+      expect(await storage.getUserByUsername("grace")).toBeUndefined();
+    });
+
+    it("lists only mentors", async () => {
+      const mentor = await createUser("ada", "mentor");
+      await createUser("sam");
+
+      expect((await storage.getAllMentors()).map((user) => user.id)).toEqual([mentor.id]);
+    });
+  });
+
+  describe("profiles", () => {
+    it("creates a profile and then updates the fields given in place", async () => {
+      const user = await createUser("ada", "mentor");
+
+      const created = await storage.createOrUpdateProfile({
+        userId: user.id,
+        bio: "Maths tutor",
+        subjects: ["Mathematics"],
+        hourlyRate: 40,
+      });
+      const updated = await storage.createOrUpdateProfile({
+        userId: user.id,
+        bio: "Physics tutor",
+        subjects: ["Physics"],
+        languages: ["English"],
+      });
+
+      expect(updated.id).toBe(created.id);
+      expect(await storage.getProfile(user.id)).toMatchObject({
+        bio: "Physics tutor",
+        subjects: ["Physics"],
+        languages: ["English"],
+        hourlyRate: 40,
+      });
+    });
+
+    it("keeps the fields a partial update gives as undefined", async () => {
+      const user = await createUser("ada", "mentor");
+      await storage.createOrUpdateProfile({
+        userId: user.id,
+        bio: "Maths tutor",
+        subjects: ["Mathematics"],
+        timezone: "Europe/London",
+        languages: ["English"],
+        hourlyRate: 40,
+      });
+
+      // What POST /api/profile passes when only the rate was sent
+      await storage.createOrUpdateProfile({
+        userId: user.id,
+        bio: undefined,
+        subjects: undefined,
+        timezone: undefined,
+        languages: undefined,
+        hourlyRate: 55,
+      });
+
+      expect(await storage.getProfile(user.id)).toMatchObject({
+        bio: "Maths tutor",
+        subjects: ["Mathematics"],
+        timezone: "Europe/London",
+        languages: ["English"],
+        hourlyRate: 55,
+      });
+    });
+  });
+
+  describe("sessions", () => {
+    it("moves a session between statuses only from the expected one", async () => {
+      const mentor = await createUser("ada", "mentor");
+      const student = await createUser("sam");
+      const session = await storage.createSession({
+        studentId: student.id,
+        mentorId: mentor.id,
+        subject: "Mathematics",
+        scheduledTime: new Date(Date.now() + 24 * HOUR),
+      });
+      expect(session).toMatchObject({ status: "pending", durationMinutes: 60, timezone: "UTC" });
+
+      const confirmed = await storage.updateSessionStatus(session.id, "pending", "confirmed", { actorId: mentor.id });
+      expect(confirmed).toMatchObject({ status: "confirmed", statusChangedBy: mentor.id });
+      expect(await storage.updateSessionStatus(session.id, "pending", "cancelled")).toBeUndefined();
+      expect((await storage.getSession(session.id))?.status).toBe("confirmed");
+      expect((await storage.getUserSessions(student.id)).map((s) => s.id)).toEqual([session.id]);
+    });
+
+    it("finds pending and confirmed sessions overlapping a time range", async () => {
+      const mentor = await createUser("ada", "mentor");
+      const student = await createUser("sam");
+      const start = new Date(Date.now() + 24 * HOUR);
+      const book = (scheduledTime: Date) =>
+        storage.createSession({ studentId: student.id, mentorId: mentor.id, subject: "Physics", scheduledTime });
+
+      const overlapping = await book(start);
+      const cancelled = await book(new Date(start.getTime() + 30 * 60 * 1000));
+      await storage.updateSessionStatus(cancelled.id, "pending", "cancelled");
+      // Ends exactly when the range starts, so it does not overlap
+      await book(new Date(start.getTime() - HOUR));
+
+      const found = await storage.getOverlappingSessions([mentor.id], start, new Date(start.getTime() + HOUR));
+      expect(found.map((s) => s.id)).toEqual([overlapping.id]);
+      expect(
+        await storage.getOverlappingSessions([mentor.id], start, new Date(start.getTime() + HOUR), [overlapping.id]),
+      ).toEqual([]);
+    });
+
+    it("moves a session to a new time only from the given statuses", async () => {
+      const mentor = await createUser("ada", "mentor");
+      const student = await createUser("sam");
+      const session = await storage.createSession({
+        studentId: student.id,
+        mentorId: mentor.id,
+        subject: "Physics",
+        scheduledTime: new Date(Date.now() + 24 * HOUR),
+      });
+      const later = new Date(session.scheduledTime.getTime() + HOUR);
+
+      expect(await storage.updateSessionTime(session.id, later, ["pending", "confirmed"])).toMatchObject({
+        scheduledTime: later,
+      });
+
+      await storage.updateSessionStatus(session.id, "pending", "cancelled");
+      expect(await storage.updateSessionTime(session.id, session.scheduledTime, ["pending", "confirmed"])).toBeUndefined();
+      expect((await storage.getSession(session.id))?.scheduledTime).toEqual(later);
+    });
+
+    it("raises the sequence and update time with every change of time or status", async () => {
+      const mentor = await createUser("ada", "mentor");
+      const student = await createUser("sam");
+      const session = await storage.createSession({
+        studentId: student.id,
+        mentorId: mentor.id,
+        subject: "Physics",
+        scheduledTime: new Date(Date.now() + 24 * HOUR),
+      });
+      expect(session.sequence).toBe(0);
+
+      const confirmed = await storage.updateSessionStatus(session.id, "pending", "confirmed");
+      const moved = await storage.updateSessionTime(session.id, new Date(Date.now() + 48 * HOUR), ["confirmed"]);
+      await storage.updateSessionStatus(session.id, "pending", "cancelled");
+      await storage.updateSessionTime(session.id, session.scheduledTime, ["pending"]);
+
+      expect(confirmed?.sequence).toBe(1);
+      expect(confirmed!.updatedAt.getTime()).toBeGreaterThanOrEqual(session.updatedAt.getTime());
+      expect(moved?.sequence).toBe(2);
+      expect(moved!.updatedAt.getTime()).toBeGreaterThanOrEqual(confirmed!.updatedAt.getTime());
+      // Changes that did not apply leave both alone
+      expect(await storage.getSession(session.id)).toMatchObject({ sequence: 2, updatedAt: moved!.updatedAt });
+    });
+  });
+
+  describe("calendar locks", () => {
+    it("runs holders that share a user one after the other", async () => {
+      const events: string[] = [];
+      const hold = (name: string, userIds: string[]) =>
+        storage.withCalendarLock(userIds, async (locked) => {
+          events.push(`${name} start`);
+          await locked.getUserSessions(userIds[0]);
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          events.push(`${name} end`);
+          return name;
+        });
+
+      const results = await Promise.all([hold("a", ["mentor", "sam"]), hold("b", ["eve", "mentor"])]);
+
+      expect(results).toEqual(["a", "b"]);
+      expect(events).toEqual(["a start", "a end", "b start", "b end"]);
+    });
+
+    it("releases the lock when the holder throws", async () => {
+      await expect(
+        storage.withCalendarLock(["mentor"], async () => {
+          throw new Error("conflict");
+        }),
+      ).rejects.toThrow("conflict");
+
+      expect(await storage.withCalendarLock(["mentor"], async () => "free")).toBe("free");
+    });
+  });
+
+  describe("messages", () => {
+    it("pages backwards through a conversation without gaps or repeats", async () => {
+      const ada = await createUser("ada", "mentor");
+      const sam = await createUser("sam");
+      const other = await createUser("other");
+      for (let i = 0; i < 7; i++) {
+        const [from, to] = i % 2 ? [ada, sam] : [sam, ada];
+        await storage.createMessage({ senderId: from.id, receiverId: to.id, content: `message ${i}` });
+      }
+      await storage.createMessage({ senderId: other.id, receiverId: ada.id, content: "elsewhere" });
+
+      const seen: string[] = [];
+      let page = await storage.getMessagesBetweenUsers(ada.id, sam.id, { limit: 3 });
+      while (page.length > 0) {
+        seen.unshift(...page.map((message) => message.content));
+        const oldest = page[0];
+        page = await storage.getMessagesBetweenUsers(sam.id, ada.id, {
+          limit: 3,
+          before: oldest.timestamp,
+          beforeId: oldest.id,
+        });
+      }
+
+      // Messages sent within the same millisecond are ordered by id, so compare with the unpaged conversation
+      const all = await storage.getMessagesBetweenUsers(ada.id, sam.id);
+      expect(all).toHaveLength(7);
+      expect(seen).toEqual(all.map((message) => message.content));
+    });
+
+    it("summarises conversations and marks them read", async () => {
+      const ada = await createUser("ada", "mentor");
+      const sam = await createUser("sam");
+      await storage.createMessage({ senderId: sam.id, receiverId: ada.id, content: "hello" });
+      await storage.createMessage({ senderId: sam.id, receiverId: ada.id, content: "are you there?" });
+      const [latest] = await storage.getMessagesBetweenUsers(ada.id, sam.id, { limit: 1 });
+
+      const [summary] = await storage.getConversationSummaries(ada.id);
+      expect(summary.partner.id).toBe(sam.id);
+      expect(summary.lastMessage.id).toBe(latest.id);
+      expect(summary.unreadCount).toBe(2);
+
+      expect((await storage.markConversationRead(ada.id, sam.id)).count).toBe(2);
+      expect((await storage.getConversationSummaries(ada.id))[0].unreadCount).toBe(0);
+    });
+
+    it("finds the contacts among candidates by message or session", async () => {
+      const ada = await createUser("ada", "mentor");
+      const sam = await createUser("sam");
+      const eve = await createUser("eve");
+      const stranger = await createUser("stranger");
+      await storage.createMessage({ senderId: sam.id, receiverId: ada.id, content: "hello" });
+      await storage.createMessage({ senderId: ada.id, receiverId: sam.id, content: "hi" });
+      await storage.createSession({
+        studentId: eve.id,
+        mentorId: ada.id,
+        subject: "Physics",
+        scheduledTime: new Date(Date.now() + 24 * HOUR),
+      });
+
+      const contacts = await storage.getContactIds(ada.id, [sam.id, eve.id, stranger.id]);
+      expect(contacts.sort()).toEqual([sam.id, eve.id].sort());
+      expect(await storage.getContactIds(eve.id, [ada.id, sam.id])).toEqual([ada.id]);
+      expect(await storage.getContactIds(ada.id, [])).toEqual([]);
+    });
+  });
+
+  describe("login sessions", () => {
+    it("lists active sessions and revokes one together with its refresh tokens", async () => {
+      const user = await createUser("ada");
+      const expiresAt = new Date(Date.now() + 24 * HOUR);
+      await storage.createLoginSession({ id: "laptop", userId: user.id, expiresAt });
+      await storage.createLoginSession({ id: "phone", userId: user.id, expiresAt });
+      await storage.createLoginSession({ id: "expired", userId: user.id, expiresAt: new Date(Date.now() - HOUR) });
+      await storage.createRefreshToken({ id: "token", userId: user.id, familyId: "phone", expiresAt });
+
+      await storage.touchLoginSession("laptop", new Date(Date.now() + 48 * HOUR));
+      expect((await storage.getActiveLoginSessions(user.id)).map((s) => s.id).sort()).toEqual(["laptop", "phone"]);
+
+      await storage.revokeLoginSession("phone");
+      expect((await storage.getActiveLoginSessions(user.id)).map((s) => s.id)).toEqual(["laptop"]);
+      expect((await storage.getRefreshToken("token"))?.revokedAt).toBeInstanceOf(Date);
+
+      await storage.revokeUserLoginSessions(user.id);
+      expect(await storage.getActiveLoginSessions(user.id)).toEqual([]);
+    });
+  });
+
+  describe("jobs", () => {
+    const now = new Date("2030-01-01T12:00:00Z");
+    const lockedUntil = new Date(now.getTime() + 60_000);
+
+    it("claims only due jobs, earliest first, and one worker at a time", async () => {
+      await storage.scheduleJob({ key: "later", type: "test", runAt: new Date(now.getTime() + HOUR) });
+      await storage.scheduleJob({ key: "second", type: "test", runAt: new Date(now.getTime() - 1000) });
+      await storage.scheduleJob({ key: "first", type: "test", runAt: new Date(now.getTime() - 2000) });
+
+      const first = await storage.claimDueJob(now, "worker-1", lockedUntil);
+      const second = await storage.claimDueJob(now, "worker-2", lockedUntil);
+      expect(first).toMatchObject({ key: "first", lockedBy: "worker-1", attempts: 1 });
+      expect(second).toMatchObject({ key: "second", lockedBy: "worker-2" });
+      expect(await storage.claimDueJob(now, "worker-3", lockedUntil)).toBeUndefined();
+
+      // An expired lock hands the job to another worker
+      const retaken = await storage.claimDueJob(new Date(lockedUntil.getTime() + 1), "worker-3", lockedUntil);
+      expect(retaken).toMatchObject({ key: "first", lockedBy: "worker-3", attempts: 2 });
+      expect(await storage.finishJob(first!.id, "worker-1", { status: "completed" }, now)).toBe(false);
+      expect(await storage.finishJob(retaken!.id, "worker-3", { status: "completed" }, now)).toBe(true);
+      expect((await storage.getJob("first"))?.status).toBe("completed");
+    });
+
+    it("replaces the payload of a job only for the worker holding it", async () => {
+      await storage.scheduleJob({ key: "progress", type: "test", runAt: now, payload: { done: [] } });
+      const claimed = await storage.claimDueJob(now, "worker-1", lockedUntil);
+
+      expect(await storage.updateJobPayload(claimed!.id, "worker-2", { done: ["b"] })).toBe(false);
+      expect(await storage.updateJobPayload(claimed!.id, "worker-1", { done: ["a"] })).toBe(true);
+      await storage.finishJob(claimed!.id, "worker-1", { status: "pending", runAt: now }, now);
+
+      expect(await storage.claimDueJob(now, "worker-1", lockedUntil)).toMatchObject({ payload: { done: ["a"] } });
+    });
+
+    it("keeps an existing job when scheduling it only if missing", async () => {
+      await storage.scheduleJob({ key: "job", type: "test", runAt: now, payload: { n: 1 } });
+      const kept = await storage.scheduleJobIfMissing({ key: "job", type: "test", runAt: lockedUntil, payload: { n: 2 } });
+      expect(kept).toMatchObject({ runAt: now, payload: { n: 1 } });
+
+      const moved = await storage.scheduleJob({ key: "job", type: "test", runAt: lockedUntil, payload: { n: 3 } });
+      expect(moved).toMatchObject({ runAt: lockedUntil, payload: { n: 3 }, status: "pending" });
+
+      await storage.cancelJobs(["job"]);
+      expect((await storage.getJob("job"))?.status).toBe("cancelled");
+      expect(await storage.claimDueJob(lockedUntil, "worker", lockedUntil)).toBeUndefined();
+    });
+  });
+
+  describe("mentor search", () => {
+    const createMentor = async (username: string, bio: string, subjects: string[], languages: string[], hourlyRate: number) => {
+      const mentor = await createUser(username, "mentor");
+      await storage.createOrUpdateProfile({ userId: mentor.id, bio, subjects, languages, hourlyRate });
+      return mentor;
+    };
+
+    it("matches terms with typos and applies every filter", async () => {
+      const physics = await createMentor("ada", "Patient tutor", ["Physics"], ["English"], 30);
+      const maths = await createMentor("grace", "Exam preparation", ["Mathematics"], ["German", "English"], 60);
+      await createUser("sam");
+
+      const search = async (query: string, filters = {}) =>
+        (await storage.searchMentors({ terms: tokenize(query), ...filters })).map((hit) => hit.mentor.id);
+
+      expect(await search("phisics")).toEqual([physics.id]);
+      expect(await search("tutoring")).toEqual([physics.id]);
+      expect((await search("")).sort()).toEqual([physics.id, maths.id].sort());
+      expect(await search("", { subject: "math" })).toEqual([maths.id]);
+      expect((await search("", { anySubject: ["MATH", "phys"] })).sort()).toEqual([physics.id, maths.id].sort());
+      expect(await search("", { anySubject: ["chemistry", "phys"] })).toEqual([physics.id]);
+      expect(await search("", { anySubject: [] })).toEqual([]);
+      expect(await search("", { language: "german" })).toEqual([maths.id]);
+      expect(await search("", { minPrice: 40 })).toEqual([maths.id]);
+      expect(await search("", { maxPrice: 40 })).toEqual([physics.id]);
+      expect(await search("", { mentorIds: [physics.id] })).toEqual([physics.id]);
+      expect(await search("", { mentorIds: [] })).toEqual([]);
+    });
+
+    it("orders by rating, unrated mentors last, and filters by the lowest rating", async () => {
+      const student = await createUser("sam");
+      const review = async (mentorId: string, rating: number) => {
+        await storage.createReview({
+          sessionId: `${mentorId}-${rating}-${Math.random()}`,
+          mentorId,
+          studentId: student.id,
+          rating,
+          comment: "Thanks",
+        });
+      };
+      const unrated = await createMentor("ada", "", [], [], 30);
+      const good = await createMentor("bob", "", [], [], 30);
+      const best = await createMentor("cy", "", [], [], 30);
+      const popular = await createMentor("di", "", [], [], 30);
+      await review(good.id, 4);
+      await review(best.id, 5);
+      await review(popular.id, 4);
+      await review(popular.id, 4);
+
+      const hits = await storage.searchMentors({}, { sort: "rating" });
+      expect(hits.map((hit) => hit.mentor.id)).toEqual([best.id, popular.id, good.id, unrated.id]);
+      expect(hits[1].rating).toEqual({ average: 4, count: 2 });
+      expect(hits[3].rating).toEqual({ average: null, count: 0 });
+
+      const rated = await storage.searchMentors({ minRating: 4.5 });
+      expect(rated.map((hit) => hit.mentor.id)).toEqual([best.id]);
+      expect(await storage.countMentors({ minRating: 4 })).toBe(3);
+    });
+
+    it.each<MentorSearchSort>(["relevance", "rating", "newest"])(
+      "pages through mentors by %s without gaps or repeats",
+      async (sort) => {
+        const student = await createUser("sam");
+        for (const [i, username] of ["eve", "ada", "cy", "bob", "di"].entries()) {
+          const mentor = await createMentor(username, "Maths tutor", ["Mathematics"], [], 30);
+          if (i % 2) {
+            await storage.createReview({ sessionId: username, mentorId: mentor.id, studentId: student.id, rating: 5, comment: "" });
+          }
+        }
+        const filters = { terms: tokenize("maths") };
+        const all = await storage.searchMentors(filters, { sort });
+
+        const seen: string[] = [];
+        let after: MentorSearchKey | undefined;
+        for (;;) {
+          const page = await storage.searchMentors(filters, { sort, after, limit: 2 });
+          if (page.length === 0) break;
+          seen.push(...page.map((hit) => hit.mentor.id));
+          const last = page[page.length - 1];
+          after = {
+            id: last.mentor.id,
+            username: last.mentor.username,
+            relevance: last.relevance,
+            average: last.rating.average,
+            count: last.rating.count,
+            createdAt: last.mentor.createdAt,
+          };
+        }
+
+        expect(all).toHaveLength(5);
+        expect(seen).toEqual(all.map((hit) => hit.mentor.id));
+        expect(await storage.countMentors(filters)).toBe(5);
+      },
+    );
+
+    it("ranks subject matches above bio matches", async () => {
+      const inBio = await createMentor("ada", "I also help with chemistry", ["Physics"], [], 30);
+      const inSubjects = await createMentor("grace", "Friendly tutor", ["Chemistry"], [], 30);
+
+      const hits = await storage.searchMentors({ terms: tokenize("chemistry") });
+      expect(hits.map((hit) => hit.mentor.id)).toEqual([inSubjects.id, inBio.id]);
+      expect(hits[0].relevance).toBeGreaterThan(hits[1].relevance);
+    });
+  });
+});
@@ -1,14 +1,182 @@
 import {
+  users,
+  profiles,
+  sessions,
+  sessionSeries,
+  sessionReschedules,
+  availabilitySlots,
+  availabilityExceptions,
+  messages,
+  refreshTokens,
+  loginSessions,
+  calendarFeeds,
+  scheduledJobs,
+  notifications,
+  reviews,
+  profileSearch,
+  subjects,
+  profileSubjects,
+  favoriteMentors,
+  savedSearches,
   type User,
   type InsertUser,
   type Profile,
   type InsertProfile,
+  type Subject,
+  type InsertSubject,
+  type ProfileSubject,
+  type InsertProfileSubject,
+  type FavoriteMentor,
+  type InsertFavoriteMentor,
+  type SavedSearch,
+  type InsertSavedSearch,
   type Session,
   type InsertSession,
+  type SessionStatus,
+  DEFAULT_SESSION_DURATION_MINUTES,
+  type SessionSeries,
+  type InsertSessionSeries,
+  type SessionReschedule,
+  type InsertSessionReschedule,
+  type RescheduleStatus,
+  type AvailabilitySlot,
+  type InsertAvailabilitySlot,
+  type AvailabilityException,
+  type InsertAvailabilityException,
   type Message,
   type InsertMessage,
+  type RefreshToken,
+  type InsertRefreshToken,
+  type LoginSession,
+  type InsertLoginSession,
+  type CalendarFeed,
+  type ScheduledJob,
+  type InsertScheduledJob,
+  type Notification,
+  type InsertNotification,
+  type Review,
+  type InsertReview,
+  type MentorSort,
 } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, asc, desc, eq, exists, gt, gte, inArray, isNull, lt, lte, notInArray, or, sql, type AnyColumn, type SQL } from "drizzle-orm";
+import { createDb, type Database } from "./db";
+import { matchDocument, SEARCH_WEIGHTS } from "./utils/search";
+
+/**
+ * Cursor for paging backwards through a conversation
+ * - limit: maximum number of messages to return (all when omitted)
+ * - before/beforeId: only return messages older than this one; the id breaks timestamp ties
+ */
+export interface MessagePageOptions {
+  limit?: number;
+  before?: Date;
+  beforeId?: string;
+}
+
+/**
+ * A conversation as shown in the chat list: the other participant,
+ * the most recent message exchanged and how many of theirs are unread
+ */
+export interface ConversationSummary {
+  partner: User;
+  lastMessage: Message;
+  unreadCount: number;
+}
+
+/**
+ * Who changed a session's status and why
+ * - actorId: null for automatic changes
+ * - reason: shown to the other participant, e.g. why a request was declined
+ */
+export interface SessionStatusChange {
+  actorId?: string | null;
+  reason?: string | null;
+}
+
+/**
+ * Average rating and number of reviews of a mentor; only mentors with reviews have one
+ */
+export interface MentorRating {
+  mentorId: string;
+  average: number;
+  count: number;
+}
+
+/**
+ * Filters of a mentor search; a mentor has to match all that are given
+ * - terms: search terms from utils/search tokenize(); each must match the
+ *   mentor's subjects, username or bio, allowing for inflections and typos
+ * - subject: part of one of the mentor's subject names, ignoring case
+ * - anySubject: like subject, for any one of these
+ * - subjectIds: one of the mentor's catalog subjects is among these
+ * - language: one of the mentor's languages, ignoring case
+ * - minRating: lowest average rating; unrated mentors count as 0
+ * - minPrice/maxPrice: hourly rate bounds; mentors without a rate never match them
+ * - mentorIds: only these mentors
+ */
+export interface MentorSearchFilters {
+  mentorIds?: string[];
+  terms?: string[];
+  subject?: string;
+  anySubject?: string[];
+  subjectIds?: string[];
+  language?: string;
+  minRating?: number;
+  minPrice?: number;
+  maxPrice?: number;
+}
+
+/** Orders storage can list search results in; "soonest" depends on openings and is sorted by the caller */
+export type MentorSearchSort = Exclude<MentorSort, "soonest">;
+
+/**
+ * The values search results are ordered by, taken from the last mentor of a page
+ * - average: as in MentorSearchHit.rating
+ */
+export interface MentorSearchKey {
+  id: string;
+  username: string;
+  relevance: number;
+  average: number | null;
+  count: number;
+  createdAt: Date;
+}
+
+/**
+ * Which page of search results to return
+ * - sort: relevance (then rating), rating (then relevance) or newest; ties go by username and id
+ * - after: only mentors ordered after this key
+ * - limit: maximum number of mentors to return (all when omitted)
+ */
+export interface MentorSearchOptions {
+  sort?: MentorSearchSort;
+  after?: MentorSearchKey;
+  limit?: number;
+}
+
+/**
+ * A mentor found by a search
+ * - relevance: how well the mentor matches the terms, higher is better; 0 without terms
+ * - rating: average rounded to two decimals as displayed, null without reviews
+ */
+export interface MentorSearchHit {
+  mentor: User;
+  profile?: Profile;
+  relevance: number;
+  rating: { average: number | null; count: number };
+}
+
+/**
+ * What became of a job its worker ran
+ * - status "pending" puts it back in the queue at runAt (a retry, or the next run of a recurring job)
+ */
+export interface JobOutcome {
+  status: "pending" | "completed" | "failed";
+  runAt?: Date;
+  attempts?: number;
+  lastError?: string | null;
+}
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
@@ -20,29 +188,216 @@ export interface IStorage {
   createOrUpdateProfile(profile: InsertProfile): Promise<Profile>;
   
   getAllMentors(): Promise<User[]>;
-  getMentorsBySubject(subject: string): Promise<User[]>;
+  /** Mentors matching the filters, in the order and page given by the options (most relevant first by default) */
+  searchMentors(filters: MentorSearchFilters, options?: MentorSearchOptions): Promise<MentorSearchHit[]>;
+  /** How many mentors match the filters */
+  countMentors(filters: MentorSearchFilters): Promise<number>;
+
+  /** The whole subject catalog, by category and then name */
+  getSubjects(): Promise<Subject[]>;
+  /** Add catalog subjects, or update the ones with the same id */
+  saveSubjects(subjects: InsertSubject[]): Promise<void>;
+  /** Catalog subjects of all the given users, each user's in the order they listed them */
+  getProfileSubjects(userIds: string[]): Promise<ProfileSubject[]>;
+  /** Replace a user's catalog subjects, listed in the order given */
+  replaceProfileSubjects(
+    userId: string,
+    subjects: Array<Pick<InsertProfileSubject, "subjectId" | "level">>,
+  ): Promise<ProfileSubject[]>;
+
+  /** Add a mentor to a student's favorites, or update the notify setting of the favorite */
+  saveFavoriteMentor(favorite: InsertFavoriteMentor): Promise<FavoriteMentor>;
+  /** Resolves false if the mentor was not one of the student's favorites */
+  deleteFavoriteMentor(studentId: string, mentorId: string): Promise<boolean>;
+  /** A student's favorites, most recently added first */
+  getFavoriteMentors(studentId: string): Promise<FavoriteMentor[]>;
+  /** Favorites of a mentor whose students asked to be notified of new availability */
+  getNotifyingFavorites(mentorId: string): Promise<FavoriteMentor[]>;
+
+  createSavedSearch(search: InsertSavedSearch): Promise<SavedSearch>;
+  getSavedSearch(id: string): Promise<SavedSearch | undefined>;
+  /** A user's saved searches, newest first */
+  getUserSavedSearches(userId: string): Promise<SavedSearch[]>;
+  updateSavedSearch(id: string, changes: Partial<Pick<SavedSearch, "name" | "notify">>): Promise<SavedSearch | undefined>;
+  deleteSavedSearch(id: string): Promise<void>;
+  /** Saved searches of every user that asked to be notified of new matching mentors */
+  getNotifyingSavedSearches(): Promise<SavedSearch[]>;
   
   createSession(session: InsertSession): Promise<Session>;
   getSession(id: string): Promise<Session | undefined>;
-  updateSessionStatus(id: string, status: "pending" | "confirmed" | "completed" | "cancelled"): Promise<Session | undefined>;
+  /** Move a session from one status to another; resolves undefined if it is no longer in `from` */
+  updateSessionStatus(
+    id: string,
+    from: SessionStatus,
+    to: SessionStatus,
+    change?: SessionStatusChange,
+  ): Promise<Session | undefined>;
   getUserSessions(userId: string): Promise<Session[]>;
+  /** Sessions in the given status whose scheduled end is before the given time */
+  getSessionsEndedBefore(status: SessionStatus, before: Date): Promise<Session[]>;
+  /** Sessions in the given status that start after the given time */
+  getSessionsStartingAfter(status: SessionStatus, after: Date): Promise<Session[]>;
+  /** Pending or confirmed sessions of any of the users that overlap [start, end) */
+  getOverlappingSessions(userIds: string[], start: Date, end: Date, excludeSessionIds?: string[]): Promise<Session[]>;
+  /** Move a session to a new time; resolves undefined if its status is no longer one of `from` */
+  updateSessionTime(id: string, scheduledTime: Date, from: readonly SessionStatus[]): Promise<Session | undefined>;
+  /**
+   * Run `run` holding the calendar locks of the given users, so an overlap check and the
+   * booking it allows cannot interleave with another booking of the same users
+   * - `run` gets a storage whose reads and writes join the lock's transaction; it must not
+   *   use any other, or it could wait for connections held by bookings queued on the lock
+   */
+  withCalendarLock<T>(userIds: string[], run: (locked: IStorage) => Promise<T>): Promise<T>;
+
+  /** Create a series together with its occurrences, all or nothing */
+  createSessionSeries(
+    series: InsertSessionSeries,
+    occurrences: InsertSession[],
+  ): Promise<{ series: SessionSeries; sessions: Session[] }>;
+  getSessionSeries(id: string): Promise<SessionSeries | undefined>;
+  /** Every occurrence of a series, earliest first */
+  getSeriesSessions(seriesId: string): Promise<Session[]>;
+
+  createRescheduleProposal(proposal: InsertSessionReschedule): Promise<SessionReschedule>;
+  getRescheduleProposal(id: string): Promise<SessionReschedule | undefined>;
+  /** Every proposal made for a session, newest first */
+  getSessionReschedules(sessionId: string): Promise<SessionReschedule[]>;
+  /** Unanswered proposals for any of the given sessions (at most one per session) */
+  getPendingReschedules(sessionIds: string[]): Promise<SessionReschedule[]>;
+  /** Answer a pending proposal; resolves undefined if it was no longer pending */
+  resolveRescheduleProposal(
+    id: string,
+    status: Exclude<RescheduleStatus, "pending">,
+    respondedBy: string,
+  ): Promise<SessionReschedule | undefined>;
+
+  /** Add a review; undefined when the session already has one */
+  createReview(review: InsertReview): Promise<Review | undefined>;
+  getReview(id: string): Promise<Review | undefined>;
+  /** Reviews of any of the given sessions */
+  getSessionReviews(sessionIds: string[]): Promise<Review[]>;
+  /** Every review of a mentor, newest first */
+  getMentorReviews(mentorId: string): Promise<Review[]>;
+  /** Set or replace the mentor's public response to a review */
+  setReviewResponse(id: string, response: string): Promise<Review | undefined>;
+  getMentorRatings(mentorIds: string[]): Promise<MentorRating[]>;
+
+  getAvailabilitySlots(mentorId: string): Promise<AvailabilitySlot[]>;
+  /** Weekly slots of all the given mentors, in no particular order */
+  getMentorsAvailabilitySlots(mentorIds: string[]): Promise<AvailabilitySlot[]>;
+  /** Replace a mentor's whole weekly schedule */
+  replaceAvailabilitySlots(mentorId: string, slots: InsertAvailabilitySlot[]): Promise<AvailabilitySlot[]>;
+  /** Exceptions of a mentor ordered by date, optionally limited to dates in [fromDate, toDate] */
+  getAvailabilityExceptions(mentorId: string, fromDate?: string, toDate?: string): Promise<AvailabilityException[]>;
+  /** Exceptions of all the given mentors dated in [fromDate, toDate], in no particular order */
+  getMentorsAvailabilityExceptions(mentorIds: string[], fromDate: string, toDate: string): Promise<AvailabilityException[]>;
+  getAvailabilityException(id: string): Promise<AvailabilityException | undefined>;
+  createAvailabilityException(exception: InsertAvailabilityException): Promise<AvailabilityException>;
+  deleteAvailabilityException(id: string): Promise<void>;
   
   createMessage(message: InsertMessage): Promise<Message>;
-  getMessagesBetweenUsers(userId1: string, userId2: string): Promise<Message[]>;
-  getConversationPartners(userId: string): Promise<User[]>;
+  /** Newest messages matching the cursor, returned oldest first */
+  getMessagesBetweenUsers(userId1: string, userId2: string, options?: MessagePageOptions): Promise<Message[]>;
+  /** One summary per conversation partner, most recently active first */
+  getConversationSummaries(userId: string): Promise<ConversationSummary[]>;
+  /** Mark every unread message from senderId to readerId as read */
+  markConversationRead(readerId: string, senderId: string): Promise<{ readAt: Date; count: number }>;
+  /** Those of candidateIds the user has exchanged a message or booked a session with, in no particular order */
+  getContactIds(userId: string, candidateIds: string[]): Promise<string[]>;
+
+  createRefreshToken(token: InsertRefreshToken): Promise<RefreshToken>;
+  getRefreshToken(id: string): Promise<RefreshToken | undefined>;
+  /** Revoke a single token; resolves false if it was already revoked */
+  revokeRefreshToken(id: string, replacedBy?: string): Promise<boolean>;
+  revokeRefreshTokenFamily(familyId: string): Promise<void>;
+
+  createLoginSession(session: InsertLoginSession): Promise<LoginSession>;
+  getLoginSession(id: string): Promise<LoginSession | undefined>;
+  getActiveLoginSessions(userId: string): Promise<LoginSession[]>;
+  touchLoginSession(id: string, expiresAt: Date): Promise<void>;
+  /** Revoke a login session together with every refresh token issued for it */
+  revokeLoginSession(id: string): Promise<void>;
+  revokeUserLoginSessions(userId: string): Promise<void>;
+
+  getCalendarFeed(userId: string): Promise<CalendarFeed | undefined>;
+  getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined>;
+  /** Give a user a new feed token, replacing any previous one */
+  replaceCalendarFeed(userId: string, token: string): Promise<CalendarFeed>;
+
+  /** Queue a job, or move the job with the same key back to pending at the new time */
+  scheduleJob(job: InsertScheduledJob): Promise<ScheduledJob>;
+  /** Queue a job unless one with the same key already exists, whatever its status */
+  scheduleJobIfMissing(job: InsertScheduledJob): Promise<ScheduledJob>;
+  getJob(key: string): Promise<ScheduledJob | undefined>;
+  /** Cancel the pending jobs among the given keys */
+  cancelJobs(keys: string[]): Promise<void>;
+  /**
+   * Lock the earliest pending job due at `now` whose lock is free or expired, counting the attempt
+   * - Safe to call from several workers: each job is handed to one of them
+   */
+  claimDueJob(now: Date, workerId: string, lockedUntil: Date): Promise<ScheduledJob | undefined>;
+  /**
+   * Record the outcome of a claimed job and release its lock
+   * - Returns false when the worker no longer holds the job, e.g. because it was
+   *   rescheduled while running; the job is then left as it is
+   */
+  finishJob(id: string, workerId: string, outcome: JobOutcome, now: Date): Promise<boolean>;
+  /**
+   * Replace the payload of a claimed job, e.g. to record progress a retry should not repeat
+   * - Returns false when the worker no longer holds the job
+   */
+  updateJobPayload(id: string, workerId: string, payload: Record<string, unknown>): Promise<boolean>;
+
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  /** A user's most recent notifications, newest first */
+  getUserNotifications(userId: string, limit: number): Promise<Notification[]>;
+  /** Mark one of the user's notifications read; undefined if it is not theirs */
+  markNotificationRead(id: string, userId: string): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: string): Promise<void>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private profiles: Map<string, Profile>;
+  private subjects: Map<string, Subject>;
+  private profileSubjects: Map<string, ProfileSubject>;
   private sessions: Map<string, Session>;
+  private sessionSeries: Map<string, SessionSeries>;
+  private sessionReschedules: Map<string, SessionReschedule>;
+  private availabilitySlots: Map<string, AvailabilitySlot>;
+  private availabilityExceptions: Map<string, AvailabilityException>;
   private messages: Map<string, Message>;
+  private refreshTokens: Map<string, RefreshToken>;
+  private loginSessions: Map<string, LoginSession>;
+  private calendarFeeds: Map<string, CalendarFeed>;
+  private scheduledJobs: Map<string, ScheduledJob>;
+  private notifications: Map<string, Notification>;
+  private reviews: Map<string, Review>;
+  private favoriteMentors: Map<string, FavoriteMentor>;
+  private savedSearches: Map<string, SavedSearch>;
+  // Settles when the holder of a user's calendar lock is done; see withCalendarLock
+  private calendarLocks: Map<string, Promise<void>>;
 
   constructor() {
     this.users = new Map();
     this.profiles = new Map();
+    this.subjects = new Map();
+    this.profileSubjects = new Map();
     this.sessions = new Map();
+    this.sessionSeries = new Map();
+    this.sessionReschedules = new Map();
+    this.availabilitySlots = new Map();
+    this.availabilityExceptions = new Map();
     this.messages = new Map();
+    this.refreshTokens = new Map();
+    this.loginSessions = new Map();
+    this.calendarFeeds = new Map();
+    this.scheduledJobs = new Map();
+    this.notifications = new Map();
+    this.reviews = new Map();
+    this.favoriteMentors = new Map();
+    this.savedSearches = new Map();
+    this.calendarLocks = new Map();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -63,7 +418,7 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = randomUUID();
-    const user: User = { ...insertUser, id, role: insertUser.role as "student" | "mentor" };
+    const user: User = { ...insertUser, id, role: insertUser.role as "student" | "mentor", createdAt: new Date() };
     this.users.set(id, user);
     return user;
   }
@@ -78,7 +433,9 @@ export class MemStorage implements IStorage {
     const existing = await this.getProfile(insertProfile.userId);
     
     if (existing) {
-      const updated: Profile = { ...existing, ...insertProfile };
+      // Like an SQL update, a field given as undefined keeps its value
+      const changes = Object.fromEntries(Object.entries(insertProfile).filter(([, value]) => value !== undefined));
+      const updated: Profile = { ...existing, ...changes };
       this.profiles.set(existing.id, updated);
       return updated;
     }
@@ -89,7 +446,10 @@ export class MemStorage implements IStorage {
       ...insertProfile, 
       bio: insertProfile.bio || null,
       subjects: insertProfile.subjects || null,
-      availability: insertProfile.availability || null,
+      availabilityNote: insertProfile.availabilityNote ?? null,
+      timezone: insertProfile.timezone || null,
+      languages: insertProfile.languages || null,
+      hourlyRate: insertProfile.hourlyRate ?? null,
     };
     this.profiles.set(id, profile);
     return profile;
@@ -101,18 +461,182 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async getMentorsBySubject(subject: string): Promise<User[]> {
+  async searchMentors(filters: MentorSearchFilters, options: MentorSearchOptions = {}): Promise<MentorSearchHit[]> {
+    const { mentorIds, terms = [], subject, anySubject, subjectIds, language, minRating, minPrice, maxPrice } = filters;
+    const { sort = "relevance", after, limit } = options;
     const mentors = await this.getAllMentors();
-    const mentorsWithProfiles: User[] = [];
-    
+    const ratings = await this.getMentorRatings(mentors.map((mentor) => mentor.id));
+    const hits: MentorSearchHit[] = [];
+
     for (const mentor of mentors) {
+      if (mentorIds && !mentorIds.includes(mentor.id)) continue;
       const profile = await this.getProfile(mentor.id);
-      if (profile?.subjects?.some(s => s.toLowerCase().includes(subject.toLowerCase()))) {
-        mentorsWithProfiles.push(mentor);
+      const rate = profile?.hourlyRate ?? null;
+
+      if (subject && !profile?.subjects?.some((s) => s.toLowerCase().includes(subject.toLowerCase()))) continue;
+      if (
+        anySubject &&
+        !profile?.subjects?.some((s) => anySubject.some((part) => s.toLowerCase().includes(part.toLowerCase())))
+      ) {
+        continue;
+      }
+      if (
+        subjectIds &&
+        !Array.from(this.profileSubjects.values()).some(
+          (entry) => entry.userId === mentor.id && subjectIds.includes(entry.subjectId),
+        )
+      ) {
+        continue;
+      }
+      if (language && !profile?.languages?.some((l) => l.toLowerCase() === language.toLowerCase())) continue;
+      if (minPrice !== undefined && (rate === null || rate < minPrice)) continue;
+      if (maxPrice !== undefined && (rate === null || rate > maxPrice)) continue;
+
+      const found = ratings.find((entry) => entry.mentorId === mentor.id);
+      const rating = found
+        ? { average: Math.round(found.average * 100) / 100, count: found.count }
+        : { average: null, count: 0 };
+      if (minRating !== undefined && (rating.average ?? 0) < minRating) continue;
+
+      const relevance = matchDocument(terms, [
+        { text: this.subjectSearchText(profile), weight: SEARCH_WEIGHTS.subjects },
+        { text: mentor.username, weight: SEARCH_WEIGHTS.username },
+        { text: profile?.bio ?? "", weight: SEARCH_WEIGHTS.bio },
+      ]);
+      if (relevance !== null) {
+        hits.push({ mentor, profile, relevance, rating });
       }
     }
-    
-    return mentorsWithProfiles;
+
+    const compare = mentorSearchOrders[sort];
+    const sorted = hits.sort((a, b) => compare(toMentorSearchKey(a), toMentorSearchKey(b)));
+    const remaining = after ? sorted.filter((hit) => compare(toMentorSearchKey(hit), after) > 0) : sorted;
+    return limit === undefined ? remaining : remaining.slice(0, limit);
+  }
+
+  async countMentors(filters: MentorSearchFilters): Promise<number> {
+    return (await this.searchMentors(filters)).length;
+  }
+
+  /** A profile's subject names followed by their catalog aliases, so "maths" finds a Mathematics mentor */
+  private subjectSearchText(profile?: Profile): string {
+    const names = profile?.subjects ?? [];
+    const aliases = Array.from(this.subjects.values())
+      .filter((subject) => names.includes(subject.name))
+      .flatMap((subject) => subject.aliases);
+    return [...names, ...aliases].join(" ");
+  }
+
+  async getSubjects(): Promise<Subject[]> {
+    return Array.from(this.subjects.values()).sort(
+      (a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name),
+    );
+  }
+
+  async saveSubjects(subjects: InsertSubject[]): Promise<void> {
+    for (const subject of subjects) {
+      this.subjects.set(subject.id, {
+        ...subject,
+        category: subject.category as Subject["category"],
+        parentId: subject.parentId ?? null,
+        aliases: subject.aliases ?? [],
+      });
+    }
+  }
+
+  async getProfileSubjects(userIds: string[]): Promise<ProfileSubject[]> {
+    return Array.from(this.profileSubjects.values())
+      .filter((entry) => userIds.includes(entry.userId))
+      .sort((a, b) => a.position - b.position);
+  }
+
+  async replaceProfileSubjects(
+    userId: string,
+    subjects: Array<Pick<InsertProfileSubject, "subjectId" | "level">>,
+  ): Promise<ProfileSubject[]> {
+    for (const entry of Array.from(this.profileSubjects.values())) {
+      if (entry.userId === userId) {
+        this.profileSubjects.delete(entry.id);
+      }
+    }
+
+    subjects.forEach((subject, position) => {
+      const id = randomUUID();
+      this.profileSubjects.set(id, { id, userId, subjectId: subject.subjectId, level: subject.level, position });
+    });
+
+    return this.getProfileSubjects([userId]);
+  }
+
+  async saveFavoriteMentor(insertFavorite: InsertFavoriteMentor): Promise<FavoriteMentor> {
+    const existing = Array.from(this.favoriteMentors.values()).find(
+      (favorite) => favorite.studentId === insertFavorite.studentId && favorite.mentorId === insertFavorite.mentorId,
+    );
+    const favorite: FavoriteMentor = existing
+      ? { ...existing, notify: insertFavorite.notify ?? existing.notify }
+      : { ...insertFavorite, id: randomUUID(), notify: insertFavorite.notify ?? false, createdAt: new Date() };
+    this.favoriteMentors.set(favorite.id, favorite);
+    return favorite;
+  }
+
+  async deleteFavoriteMentor(studentId: string, mentorId: string): Promise<boolean> {
+    const favorite = Array.from(this.favoriteMentors.values()).find(
+      (candidate) => candidate.studentId === studentId && candidate.mentorId === mentorId,
+    );
+    return favorite ? this.favoriteMentors.delete(favorite.id) : false;
+  }
+
+  async getFavoriteMentors(studentId: string): Promise<FavoriteMentor[]> {
+    return Array.from(this.favoriteMentors.values())
+      .filter((favorite) => favorite.studentId === studentId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getNotifyingFavorites(mentorId: string): Promise<FavoriteMentor[]> {
+    return Array.from(this.favoriteMentors.values()).filter(
+      (favorite) => favorite.mentorId === mentorId && favorite.notify,
+    );
+  }
+
+  async createSavedSearch(insertSearch: InsertSavedSearch): Promise<SavedSearch> {
+    const search: SavedSearch = {
+      ...insertSearch,
+      id: randomUUID(),
+      notify: insertSearch.notify ?? false,
+      createdAt: new Date(),
+    };
+    this.savedSearches.set(search.id, search);
+    return search;
+  }
+
+  async getSavedSearch(id: string): Promise<SavedSearch | undefined> {
+    return this.savedSearches.get(id);
+  }
+
+  async getUserSavedSearches(userId: string): Promise<SavedSearch[]> {
+    return Array.from(this.savedSearches.values())
+      .filter((search) => search.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async updateSavedSearch(
+    id: string,
+    changes: Partial<Pick<SavedSearch, "name" | "notify">>,
+  ): Promise<SavedSearch | undefined> {
+    const search = this.savedSearches.get(id);
+    if (!search) return undefined;
+
+    const updated = { ...search, ...changes };
+    this.savedSearches.set(id, updated);
+    return updated;
+  }
+
+  async deleteSavedSearch(id: string): Promise<void> {
+    this.savedSearches.delete(id);
+  }
+
+  async getNotifyingSavedSearches(): Promise<SavedSearch[]> {
+    return Array.from(this.savedSearches.values()).filter((search) => search.notify);
   }
 
   async createSession(insertSession: InsertSession): Promise<Session> {
@@ -120,7 +644,15 @@ export class MemStorage implements IStorage {
     const session: Session = {
       id,
       ...insertSession,
+      seriesId: insertSession.seriesId ?? null,
+      timezone: insertSession.timezone ?? "UTC",
+      durationMinutes: insertSession.durationMinutes ?? DEFAULT_SESSION_DURATION_MINUTES,
       status: "pending",
+      statusChangedBy: null,
+      statusReason: null,
+      statusChangedAt: null,
+      sequence: 0,
+      updatedAt: new Date(),
     };
     this.sessions.set(id, session);
     return session;
@@ -132,12 +664,23 @@ export class MemStorage implements IStorage {
 
   async updateSessionStatus(
     id: string,
-    status: "pending" | "confirmed" | "completed" | "cancelled",
+    from: SessionStatus,
+    to: SessionStatus,
+    change: SessionStatusChange = {},
   ): Promise<Session | undefined> {
     const session = this.sessions.get(id);
-    if (!session) return undefined;
+    if (!session || session.status !== from) return undefined;
     
-    const updated: Session = { ...session, status };
+    const now = new Date();
+    const updated: Session = {
+      ...session,
+      status: to,
+      statusChangedBy: change.actorId ?? null,
+      statusReason: change.reason ?? null,
+      statusChangedAt: now,
+      sequence: session.sequence + 1,
+      updatedAt: now,
+    };
     this.sessions.set(id, updated);
     return updated;
   }
@@ -148,46 +691,1660 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getSessionsEndedBefore(status: SessionStatus, before: Date): Promise<Session[]> {
+    return Array.from(this.sessions.values()).filter(
+      (session) => session.status === status && sessionEnd(session) < before,
+    );
+  }
+
+  async getSessionsStartingAfter(status: SessionStatus, after: Date): Promise<Session[]> {
+    return Array.from(this.sessions.values()).filter(
+      (session) => session.status === status && session.scheduledTime > after,
+    );
+  }
+
+  async getOverlappingSessions(
+    userIds: string[],
+    start: Date,
+    end: Date,
+    excludeSessionIds: string[] = [],
+  ): Promise<Session[]> {
+    return Array.from(this.sessions.values()).filter(
+      (session) =>
+        !excludeSessionIds.includes(session.id) &&
+        (session.status === "pending" || session.status === "confirmed") &&
+        (userIds.includes(session.studentId) || userIds.includes(session.mentorId)) &&
+        session.scheduledTime < end &&
+        sessionEnd(session) > start,
+    );
+  }
+
+  async updateSessionTime(id: string, scheduledTime: Date, from: readonly SessionStatus[]): Promise<Session | undefined> {
+    const session = this.sessions.get(id);
+    if (!session || !from.includes(session.status)) return undefined;
+
+    const updated: Session = { ...session, scheduledTime, sequence: session.sequence + 1, updatedAt: new Date() };
+    this.sessions.set(id, updated);
+    return updated;
+  }
+
+  async withCalendarLock<T>(userIds: string[], run: (locked: IStorage) => Promise<T>): Promise<T> {
+    const ids = Array.from(new Set(userIds));
+    const previous = Promise.all(ids.map((id) => this.calendarLocks.get(id)));
+    let release = () => {};
+    const done = new Promise<void>((resolve) => (release = resolve));
+    const held = previous.then(() => done);
+    // Queued behind every current holder at once, so two bookings that share users cannot deadlock
+    ids.forEach((id) => this.calendarLocks.set(id, held));
+
+    await previous;
+    try {
+      return await run(this);
+    } finally {
+      release();
+      ids.forEach((id) => {
+        if (this.calendarLocks.get(id) === held) this.calendarLocks.delete(id);
+      });
+    }
+  }
+
+  async createSessionSeries(
+    insertSeries: InsertSessionSeries,
+    occurrences: InsertSession[],
+  ): Promise<{ series: SessionSeries; sessions: Session[] }> {
+    const id = randomUUID();
+    const series: SessionSeries = { id, ...insertSeries, createdAt: new Date() };
+    this.sessionSeries.set(id, series);
+
+    const created: Session[] = [];
+    for (const occurrence of occurrences) {
+      created.push(await this.createSession({ ...occurrence, seriesId: id }));
+    }
+    return { series, sessions: created };
+  }
+
+  async getSessionSeries(id: string): Promise<SessionSeries | undefined> {
+    return this.sessionSeries.get(id);
+  }
+
+  async getSeriesSessions(seriesId: string): Promise<Session[]> {
+    return Array.from(this.sessions.values())
+      .filter((session) => session.seriesId === seriesId)
+      .sort((a, b) => a.scheduledTime.getTime() - b.scheduledTime.getTime());
+  }
+
+  async createRescheduleProposal(insertProposal: InsertSessionReschedule): Promise<SessionReschedule> {
+    const id = randomUUID();
+    const proposal: SessionReschedule = {
+      id,
+      ...insertProposal,
+      scope: insertProposal.scope ?? "session",
+      status: "pending",
+      createdAt: new Date(),
+      respondedBy: null,
+      respondedAt: null,
+    };
+    this.sessionReschedules.set(id, proposal);
+    return proposal;
+  }
+
+  async getRescheduleProposal(id: string): Promise<SessionReschedule | undefined> {
+    return this.sessionReschedules.get(id);
+  }
+
+  async getSessionReschedules(sessionId: string): Promise<SessionReschedule[]> {
+    return Array.from(this.sessionReschedules.values())
+      .filter((proposal) => proposal.sessionId === sessionId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getPendingReschedules(sessionIds: string[]): Promise<SessionReschedule[]> {
+    const ids = new Set(sessionIds);
+    return Array.from(this.sessionReschedules.values()).filter(
+      (proposal) => proposal.status === "pending" && ids.has(proposal.sessionId),
+    );
+  }
+
+  async resolveRescheduleProposal(
+    id: string,
+    status: Exclude<RescheduleStatus, "pending">,
+    respondedBy: string,
+  ): Promise<SessionReschedule | undefined> {
+    const proposal = this.sessionReschedules.get(id);
+    if (!proposal || proposal.status !== "pending") return undefined;
+
+    const updated: SessionReschedule = { ...proposal, status, respondedBy, respondedAt: new Date() };
+    this.sessionReschedules.set(id, updated);
+    return updated;
+  }
+
+  async createReview(insertReview: InsertReview): Promise<Review | undefined> {
+    const [existing] = await this.getSessionReviews([insertReview.sessionId]);
+    if (existing) return undefined;
+
+    const review: Review = {
+      ...insertReview,
+      id: randomUUID(),
+      createdAt: new Date(),
+      response: null,
+      respondedAt: null,
+    };
+    this.reviews.set(review.id, review);
+    return review;
+  }
+
+  async getReview(id: string): Promise<Review | undefined> {
+    return this.reviews.get(id);
+  }
+
+  async getSessionReviews(sessionIds: string[]): Promise<Review[]> {
+    return Array.from(this.reviews.values()).filter((review) => sessionIds.includes(review.sessionId));
+  }
+
+  async getMentorReviews(mentorId: string): Promise<Review[]> {
+    return Array.from(this.reviews.values())
+      .filter((review) => review.mentorId === mentorId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async setReviewResponse(id: string, response: string): Promise<Review | undefined> {
+    const review = this.reviews.get(id);
+    if (!review) return undefined;
+
+    const updated = { ...review, response, respondedAt: new Date() };
+    this.reviews.set(id, updated);
+    return updated;
+  }
+
+  async getMentorRatings(mentorIds: string[]): Promise<MentorRating[]> {
+    const ratings = new Map<string, MentorRating>();
+    for (const review of Array.from(this.reviews.values())) {
+      if (!mentorIds.includes(review.mentorId)) continue;
+
+      const rating = ratings.get(review.mentorId) ?? { mentorId: review.mentorId, average: 0, count: 0 };
+      rating.average = (rating.average * rating.count + review.rating) / (rating.count + 1);
+      rating.count++;
+      ratings.set(review.mentorId, rating);
+    }
+    return Array.from(ratings.values());
+  }
+
+  async getAvailabilitySlots(mentorId: string): Promise<AvailabilitySlot[]> {
+    return Array.from(this.availabilitySlots.values())
+      .filter((slot) => slot.mentorId === mentorId)
+      .sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.startTime.localeCompare(b.startTime));
+  }
+
+  async getMentorsAvailabilitySlots(mentorIds: string[]): Promise<AvailabilitySlot[]> {
+    return Array.from(this.availabilitySlots.values()).filter((slot) => mentorIds.includes(slot.mentorId));
+  }
+
+  async replaceAvailabilitySlots(mentorId: string, slots: InsertAvailabilitySlot[]): Promise<AvailabilitySlot[]> {
+    for (const slot of Array.from(this.availabilitySlots.values())) {
+      if (slot.mentorId === mentorId) {
+        this.availabilitySlots.delete(slot.id);
+      }
+    }
+
+    for (const insertSlot of slots) {
+      const id = randomUUID();
+      this.availabilitySlots.set(id, { id, ...insertSlot, mentorId });
+    }
+
+    return this.getAvailabilitySlots(mentorId);
+  }
+
+  async getAvailabilityExceptions(
+    mentorId: string,
+    fromDate?: string,
+    toDate?: string,
+  ): Promise<AvailabilityException[]> {
+    return Array.from(this.availabilityExceptions.values())
+      .filter(
+        (exception) =>
+          exception.mentorId === mentorId &&
+          (!fromDate || exception.date >= fromDate) &&
+          (!toDate || exception.date <= toDate),
+      )
+      .sort((a, b) => a.date.localeCompare(b.date) || (a.startTime ?? "").localeCompare(b.startTime ?? ""));
+  }
+
+  async getMentorsAvailabilityExceptions(
+    mentorIds: string[],
+    fromDate: string,
+    toDate: string,
+  ): Promise<AvailabilityException[]> {
+    return Array.from(this.availabilityExceptions.values()).filter(
+      (exception) =>
+        mentorIds.includes(exception.mentorId) && exception.date >= fromDate && exception.date <= toDate,
+    );
+  }
+
+  async getAvailabilityException(id: string): Promise<AvailabilityException | undefined> {
+    return this.availabilityExceptions.get(id);
+  }
+
+  async createAvailabilityException(insertException: InsertAvailabilityException): Promise<AvailabilityException> {
+    const id = randomUUID();
+    const exception: AvailabilityException = {
+      id,
+      ...insertException,
+      startTime: insertException.startTime ?? null,
+      endTime: insertException.endTime ?? null,
+      note: insertException.note ?? null,
+    };
+    this.availabilityExceptions.set(id, exception);
+    return exception;
+  }
+
+  async deleteAvailabilityException(id: string): Promise<void> {
+    this.availabilityExceptions.delete(id);
+  }
+
   async createMessage(insertMessage: InsertMessage): Promise<Message> {
     const id = randomUUID();
     const message: Message = {
       id,
       ...insertMessage,
       timestamp: new Date(),
+      readAt: null,
     };
     this.messages.set(id, message);
     return message;
   }
 
-  async getMessagesBetweenUsers(userId1: string, userId2: string): Promise<Message[]> {
-    return Array.from(this.messages.values())
+  async getMessagesBetweenUsers(
+    userId1: string,
+    userId2: string,
+    options: MessagePageOptions = {},
+  ): Promise<Message[]> {
+    const { limit, before, beforeId } = options;
+
+    const newestFirst = Array.from(this.messages.values())
       .filter(
         (msg) =>
           (msg.senderId === userId1 && msg.receiverId === userId2) ||
           (msg.senderId === userId2 && msg.receiverId === userId1),
       )
-      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+      .filter((msg) => {
+        if (!before) return true;
+        const diff = msg.timestamp.getTime() - before.getTime();
+        return diff < 0 || (diff === 0 && !!beforeId && msg.id < beforeId);
+      })
+      .sort((a, b) => compareMessages(b, a));
+
+    return (limit === undefined ? newestFirst : newestFirst.slice(0, limit)).reverse();
   }
 
-  async getConversationPartners(userId: string): Promise<User[]> {
-    const partnerIds = new Set<string>();
-    
+  async getConversationSummaries(userId: string): Promise<ConversationSummary[]> {
+    const latest = new Map<string, Message>();
+    const unread = new Map<string, number>();
+
     Array.from(this.messages.values()).forEach((msg) => {
-      if (msg.senderId === userId) {
-        partnerIds.add(msg.receiverId);
-      } else if (msg.receiverId === userId) {
-        partnerIds.add(msg.senderId);
+      if (msg.senderId !== userId && msg.receiverId !== userId) return;
+
+      const partnerId = msg.senderId === userId ? msg.receiverId : msg.senderId;
+      const current = latest.get(partnerId);
+      if (!current || compareMessages(msg, current) > 0) {
+        latest.set(partnerId, msg);
+      }
+      if (msg.receiverId === userId && msg.senderId === partnerId && !msg.readAt) {
+        unread.set(partnerId, (unread.get(partnerId) || 0) + 1);
       }
     });
-    
-    const partners: User[] = [];
-    for (const partnerId of Array.from(partnerIds)) {
-      const user = await this.getUser(partnerId);
-      if (user) partners.push(user);
+
+    const summaries: ConversationSummary[] = [];
+    for (const [partnerId, lastMessage] of Array.from(latest.entries())) {
+      const partner = this.users.get(partnerId);
+      if (partner) {
+        summaries.push({ partner, lastMessage, unreadCount: unread.get(partnerId) || 0 });
+      }
     }
-    
-    return partners;
+
+    return summaries.sort((a, b) => compareMessages(b.lastMessage, a.lastMessage));
+  }
+
+  async markConversationRead(readerId: string, senderId: string): Promise<{ readAt: Date; count: number }> {
+    const readAt = new Date();
+    let count = 0;
+
+    Array.from(this.messages.values()).forEach((msg) => {
+      if (msg.senderId === senderId && msg.receiverId === readerId && !msg.readAt) {
+        this.messages.set(msg.id, { ...msg, readAt });
+        count++;
+      }
+    });
+
+    return { readAt, count };
+  }
+
+  async getContactIds(userId: string, candidateIds: string[]): Promise<string[]> {
+    const candidates = new Set(candidateIds);
+    const contacts = new Set<string>();
+    const pairs = [
+      ...Array.from(this.messages.values()).map((msg) => [msg.senderId, msg.receiverId]),
+      ...Array.from(this.sessions.values()).map((session) => [session.studentId, session.mentorId]),
+    ];
+
+    for (const [a, b] of pairs) {
+      if (a === userId && candidates.has(b)) contacts.add(b);
+      if (b === userId && candidates.has(a)) contacts.add(a);
+    }
+
+    return Array.from(contacts);
+  }
+
+  async createRefreshToken(insertToken: InsertRefreshToken): Promise<RefreshToken> {
+    const token: RefreshToken = {
+      ...insertToken,
+      createdAt: new Date(),
+      revokedAt: null,
+      replacedBy: null,
+    };
+    this.refreshTokens.set(token.id, token);
+    return token;
+  }
+
+  async getRefreshToken(id: string): Promise<RefreshToken | undefined> {
+    return this.refreshTokens.get(id);
+  }
+
+  async revokeRefreshToken(id: string, replacedBy?: string): Promise<boolean> {
+    const token = this.refreshTokens.get(id);
+    if (!token || token.revokedAt) return false;
+
+    this.refreshTokens.set(id, { ...token, revokedAt: new Date(), replacedBy: replacedBy ?? null });
+    return true;
+  }
+
+  async revokeRefreshTokenFamily(familyId: string): Promise<void> {
+    const revokedAt = new Date();
+    Array.from(this.refreshTokens.values()).forEach((token) => {
+      if (token.familyId === familyId && !token.revokedAt) {
+        this.refreshTokens.set(token.id, { ...token, revokedAt });
+      }
+    });
+  }
+
+  async createLoginSession(insertSession: InsertLoginSession): Promise<LoginSession> {
+    const now = new Date();
+    const session: LoginSession = {
+      ...insertSession,
+      userAgent: insertSession.userAgent || null,
+      ipAddress: insertSession.ipAddress || null,
+      createdAt: now,
+      lastUsedAt: now,
+      revokedAt: null,
+    };
+    this.loginSessions.set(session.id, session);
+    return session;
+  }
+
+  async getLoginSession(id: string): Promise<LoginSession | undefined> {
+    return this.loginSessions.get(id);
+  }
+
+  async getActiveLoginSessions(userId: string): Promise<LoginSession[]> {
+    const now = Date.now();
+    return Array.from(this.loginSessions.values())
+      .filter(
+        (session) =>
+          session.userId === userId && !session.revokedAt && session.expiresAt.getTime() > now,
+      )
+      .sort((a, b) => b.lastUsedAt.getTime() - a.lastUsedAt.getTime());
+  }
+
+  async touchLoginSession(id: string, expiresAt: Date): Promise<void> {
+    const session = this.loginSessions.get(id);
+    if (session) {
+      this.loginSessions.set(id, { ...session, lastUsedAt: new Date(), expiresAt });
+    }
+  }
+
+  async revokeLoginSession(id: string): Promise<void> {
+    const session = this.loginSessions.get(id);
+    if (session && !session.revokedAt) {
+      this.loginSessions.set(id, { ...session, revokedAt: new Date() });
+    }
+    await this.revokeRefreshTokenFamily(id);
+  }
+
+  async revokeUserLoginSessions(userId: string): Promise<void> {
+    for (const session of Array.from(this.loginSessions.values())) {
+      if (session.userId === userId) {
+        await this.revokeLoginSession(session.id);
+      }
+    }
+  }
+
+  async getCalendarFeed(userId: string): Promise<CalendarFeed | undefined> {
+    return Array.from(this.calendarFeeds.values()).find((feed) => feed.userId === userId);
+  }
+
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    return Array.from(this.calendarFeeds.values()).find((feed) => feed.token === token);
+  }
+
+  async replaceCalendarFeed(userId: string, token: string): Promise<CalendarFeed> {
+    const existing = await this.getCalendarFeed(userId);
+    const feed: CalendarFeed = { id: existing?.id ?? randomUUID(), userId, token, createdAt: new Date() };
+    this.calendarFeeds.set(feed.id, feed);
+    return feed;
+  }
+
+  async scheduleJob(insertJob: InsertScheduledJob): Promise<ScheduledJob> {
+    const existing = await this.getJob(insertJob.key);
+    const job: ScheduledJob = {
+      id: existing?.id ?? randomUUID(),
+      key: insertJob.key,
+      type: insertJob.type,
+      payload: insertJob.payload ?? {},
+      runAt: insertJob.runAt,
+      status: "pending",
+      attempts: 0,
+      lastError: null,
+      lockedBy: null,
+      lockedUntil: null,
+      createdAt: existing?.createdAt ?? new Date(),
+      finishedAt: null,
+    };
+    this.scheduledJobs.set(job.id, job);
+    return job;
+  }
+
+  async scheduleJobIfMissing(insertJob: InsertScheduledJob): Promise<ScheduledJob> {
+    return (await this.getJob(insertJob.key)) ?? this.scheduleJob(insertJob);
+  }
+
+  async getJob(key: string): Promise<ScheduledJob | undefined> {
+    return Array.from(this.scheduledJobs.values()).find((job) => job.key === key);
   }
+
+  async cancelJobs(keys: string[]): Promise<void> {
+    for (const job of Array.from(this.scheduledJobs.values())) {
+      if (keys.includes(job.key) && job.status === "pending") {
+        this.scheduledJobs.set(job.id, { ...job, status: "cancelled", lockedBy: null, lockedUntil: null });
+      }
+    }
+  }
+
+  async claimDueJob(now: Date, workerId: string, lockedUntil: Date): Promise<ScheduledJob | undefined> {
+    const [due] = Array.from(this.scheduledJobs.values())
+      .filter(
+        (job) =>
+          job.status === "pending" && job.runAt <= now && (!job.lockedUntil || job.lockedUntil <= now),
+      )
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime());
+    if (!due) return undefined;
+
+    const claimed: ScheduledJob = { ...due, attempts: due.attempts + 1, lockedBy: workerId, lockedUntil };
+    this.scheduledJobs.set(claimed.id, claimed);
+    return claimed;
+  }
+
+  async finishJob(id: string, workerId: string, outcome: JobOutcome, now: Date): Promise<boolean> {
+    const job = this.scheduledJobs.get(id);
+    if (!job || job.lockedBy !== workerId) return false;
+
+    this.scheduledJobs.set(id, {
+      ...job,
+      status: outcome.status,
+      runAt: outcome.runAt ?? job.runAt,
+      attempts: outcome.attempts ?? job.attempts,
+      lastError: outcome.lastError ?? null,
+      lockedBy: null,
+      lockedUntil: null,
+      finishedAt: outcome.status === "pending" ? null : now,
+    });
+    return true;
+  }
+
+  async updateJobPayload(id: string, workerId: string, payload: Record<string, unknown>): Promise<boolean> {
+    const job = this.scheduledJobs.get(id);
+    if (!job || job.lockedBy !== workerId) return false;
+
+    this.scheduledJobs.set(id, { ...job, payload });
+    return true;
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const notification: Notification = {
+      ...insertNotification,
+      id: randomUUID(),
+      sessionId: insertNotification.sessionId ?? null,
+      mentorId: insertNotification.mentorId ?? null,
+      createdAt: new Date(),
+      readAt: null,
+    };
+    this.notifications.set(notification.id, notification);
+    return notification;
+  }
+
+  async getUserNotifications(userId: string, limit: number): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter((notification) => notification.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<Notification | undefined> {
+    const notification = this.notifications.get(id);
+    if (!notification || notification.userId !== userId) return undefined;
+    if (notification.readAt) return notification;
+
+    const read = { ...notification, readAt: new Date() };
+    this.notifications.set(id, read);
+    return read;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<void> {
+    const readAt = new Date();
+    for (const notification of Array.from(this.notifications.values())) {
+      if (notification.userId === userId && !notification.readAt) {
+        this.notifications.set(notification.id, { ...notification, readAt });
+      }
+    }
+  }
+}
+
+function sessionEnd(session: Session): Date {
+  return new Date(session.scheduledTime.getTime() + session.durationMinutes * 60_000);
+}
+
+/** Scheduled end of a session, computed in SQL */
+const sessionEndSql = sql`(${sessions.scheduledTime} + ${sessions.durationMinutes} * interval '1 minute')`;
+
+/**
+ * Chronological order of two messages; the id breaks timestamp ties
+ * the same way the database cursor does
+ */
+function compareMessages(a: Message, b: Message): number {
+  return a.timestamp.getTime() - b.timestamp.getTime() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+function toMentorSearchKey(hit: MentorSearchHit): MentorSearchKey {
+  return {
+    id: hit.mentor.id,
+    username: hit.mentor.username,
+    relevance: hit.relevance,
+    average: hit.rating.average,
+    count: hit.rating.count,
+    createdAt: hit.mentor.createdAt,
+  };
+}
+
+/** Better rated first; unrated mentors last, then more reviewed first */
+const byRating = (a: MentorSearchKey, b: MentorSearchKey) => (b.average ?? 0) - (a.average ?? 0) || b.count - a.count;
+
+/** Final tie-break, so every mentor has a distinct place and pages never skip or repeat one */
+const byName = (a: MentorSearchKey, b: MentorSearchKey) =>
+  a.username.localeCompare(b.username) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+// MemStorage's version of the orders DbStorage.searchMentors lists results in
+const mentorSearchOrders: Record<MentorSearchSort, (a: MentorSearchKey, b: MentorSearchKey) => number> = {
+  relevance: (a, b) => b.relevance - a.relevance || byRating(a, b) || byName(a, b),
+  rating: (a, b) => byRating(a, b) || b.relevance - a.relevance || byName(a, b),
+  newest: (a, b) => b.createdAt.getTime() - a.createdAt.getTime() || byName(a, b),
+};
+
+/**
+ * Escape LIKE wildcards so user input is matched literally
+ */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (ch) => `\\${ch}`);
+}
+
+/** First key of the advisory locks that guard users' calendars; the second is a hash of the user id */
+const CALENDAR_LOCK_SPACE = 1;
+
+/** Lowest pg_trgm word similarity at which a search term counts as a typo of a profile word */
+const TYPO_SIMILARITY_THRESHOLD = 0.4;
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+/**
+ * A column a query is ordered by
+ * - value: the column's value in the row a page resumes after
+ */
+interface SortColumn {
+  column: SQL | AnyColumn;
+  descending: boolean;
+  value: unknown;
+}
+
+/** Rows ordered after the one whose values the sort columns hold */
+function keysetAfter(order: SortColumn[]): SQL | undefined {
+  // The operators accept columns and expressions alike; only their overloads keep them apart
+  const column = (key: SortColumn) => key.column as SQL;
+  return or(
+    ...order.map((key, i) =>
+      and(
+        ...order.slice(0, i).map((previous) => eq(column(previous), previous.value)),
+        key.descending ? lt(column(key), key.value) : gt(column(key), key.value),
+      ),
+    ),
+  );
+}
+
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db
+      .insert(users)
+      .values({ ...insertUser, role: insertUser.role as "student" | "mentor" })
+      .returning();
+    return user;
+  }
+
+  async getProfile(userId: string): Promise<Profile | undefined> {
+    const [profile] = await this.db.select().from(profiles).where(eq(profiles.userId, userId));
+    return profile;
+  }
+
+  async createOrUpdateProfile(insertProfile: InsertProfile): Promise<Profile> {
+    const existing = await this.getProfile(insertProfile.userId);
+
+    if (existing) {
+      const [updated] = await this.db
+        .update(profiles)
+        .set(insertProfile)
+        .where(eq(profiles.id, existing.id))
+        .returning();
+      await this.indexProfile(updated);
+      return updated;
+    }
+
+    const [profile] = await this.db
+      .insert(profiles)
+      .values({
+        ...insertProfile,
+        bio: insertProfile.bio || null,
+        subjects: insertProfile.subjects || null,
+        timezone: insertProfile.timezone || null,
+        languages: insertProfile.languages || null,
+        hourlyRate: insertProfile.hourlyRate ?? null,
+      })
+      .returning();
+    await this.indexProfile(profile);
+    return profile;
+  }
+
+  /**
+   * Rebuild the search index entry of a profile
+   * - Migrations 0014 and 0017 index existing profiles with the same expressions
+   */
+  private async indexProfile(profile: Profile): Promise<void> {
+    const user = await this.getUser(profile.userId);
+    const username = user?.username ?? "";
+    const names = profile.subjects ?? [];
+    const bio = profile.bio ?? "";
+
+    // Catalog aliases are indexed with the names, so "maths" finds a Mathematics mentor
+    const catalog = names.length
+      ? await this.db.select({ aliases: subjects.aliases }).from(subjects).where(inArray(subjects.name, names))
+      : [];
+    const subjectText = [...names, ...catalog.flatMap((subject) => subject.aliases)].join(" ");
+
+    const entry = {
+      document: sql<string>`setweight(to_tsvector('english', ${subjectText}), 'A')
+        || setweight(to_tsvector('english', ${username}), 'B')
+        || setweight(to_tsvector('english', ${bio}), 'C')`,
+      text: [username, subjectText, bio].filter(Boolean).join(" ").toLowerCase(),
+    };
+    await this.db
+      .insert(profileSearch)
+      .values({ userId: profile.userId, ...entry })
+      .onConflictDoUpdate({ target: profileSearch.userId, set: entry });
+  }
+
+  async getAllMentors(): Promise<User[]> {
+    return this.db.select().from(users).where(eq(users.role, "mentor"));
+  }
+
+  async searchMentors(filters: MentorSearchFilters, options: MentorSearchOptions = {}): Promise<MentorSearchHit[]> {
+    const { sort = "relevance", after, limit } = options;
+    const { where, relevance, ratings } = this.mentorSearchQuery(filters);
+    const average = sql<string>`coalesce(${ratings.average}, 0)`;
+    const count = sql<number>`coalesce(${ratings.count}, 0)`;
+
+    // Keep in step with mentorSearchOrders, which MemStorage sorts by
+    const keys: Record<MentorSearchSort, SortColumn[]> = {
+      relevance: [
+        { column: relevance, descending: true, value: after?.relevance },
+        { column: average, descending: true, value: after?.average ?? 0 },
+        { column: count, descending: true, value: after?.count },
+      ],
+      rating: [
+        { column: average, descending: true, value: after?.average ?? 0 },
+        { column: count, descending: true, value: after?.count },
+        { column: relevance, descending: true, value: after?.relevance },
+      ],
+      newest: [{ column: users.createdAt, descending: true, value: after?.createdAt }],
+    };
+    const order: SortColumn[] = [
+      ...keys[sort],
+      { column: users.username, descending: false, value: after?.username },
+      { column: users.id, descending: false, value: after?.id },
+    ];
+
+    const rows = await this.withTypoThreshold((tx) => {
+      const query = tx
+        .select({ mentor: users, profile: profiles, relevance, average: ratings.average, count: ratings.count })
+        .from(users)
+        .leftJoin(profiles, eq(profiles.userId, users.id))
+        .leftJoin(profileSearch, eq(profileSearch.userId, users.id))
+        .leftJoin(ratings, eq(ratings.mentorId, users.id))
+        .where(and(where, after ? keysetAfter(order) : undefined))
+        .orderBy(...order.map((key) => (key.descending ? desc(key.column) : asc(key.column))));
+      return limit === undefined ? query : query.limit(limit);
+    });
+    return rows.map((row) => ({
+      mentor: row.mentor,
+      profile: row.profile ?? undefined,
+      relevance: Number(row.relevance),
+      // round() of numeric is numeric, which the driver returns as a string
+      rating: { average: row.average === null ? null : Number(row.average), count: row.count ?? 0 },
+    }));
+  }
+
+  async countMentors(filters: MentorSearchFilters): Promise<number> {
+    const { where, ratings } = this.mentorSearchQuery(filters);
+    const [row] = await this.withTypoThreshold((tx) =>
+      tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(users)
+        .leftJoin(profiles, eq(profiles.userId, users.id))
+        .leftJoin(profileSearch, eq(profileSearch.userId, users.id))
+        .leftJoin(ratings, eq(ratings.mentorId, users.id))
+        .where(where),
+    );
+    return row.count;
+  }
+
+  /**
+   * Conditions and relevance of a mentor search, over users joined with their
+   * profile, search index entry and `ratings` (rounded as in MentorSearchHit)
+   */
+  private mentorSearchQuery(filters: MentorSearchFilters) {
+    const { mentorIds, terms = [], subject, anySubject, subjectIds, language, minRating, minPrice, maxPrice } = filters;
+    const ratings = this.db
+      .select({
+        mentorId: reviews.mentorId,
+        average: sql<string>`round(avg(${reviews.rating}), 2)`.as("average"),
+        count: sql<number>`count(*)::int`.as("count"),
+      })
+      .from(reviews)
+      .groupBy(reviews.mentorId)
+      .as("ratings");
+
+    const conditions = [eq(users.role, "mentor")];
+    if (mentorIds) conditions.push(mentorIds.length ? inArray(users.id, mentorIds) : sql`false`);
+
+    // A term matches a stemmed word of the document, or is within a typo of one of its words (pg_trgm)
+    for (const term of terms) {
+      conditions.push(
+        sql`(${profileSearch.document} @@ plainto_tsquery('english', ${term}) or ${term} <% ${profileSearch.text})`,
+      );
+    }
+    if (subject) {
+      const pattern = `%${escapeLike(subject)}%`;
+      conditions.push(sql`exists (select 1 from unnest(${profiles.subjects}) as s where s ilike ${pattern})`);
+    }
+    if (anySubject) {
+      const matches = anySubject.map((part) => sql`s ilike ${`%${escapeLike(part)}%`}`);
+      conditions.push(
+        matches.length
+          ? sql`exists (select 1 from unnest(${profiles.subjects}) as s where ${sql.join(matches, sql` or `)})`
+          : sql`false`,
+      );
+    }
+    if (subjectIds) {
+      conditions.push(
+        subjectIds.length
+          ? exists(
+              this.db
+                .select({ id: profileSubjects.id })
+                .from(profileSubjects)
+                .where(and(eq(profileSubjects.userId, users.id), inArray(profileSubjects.subjectId, subjectIds))),
+            )
+          : sql`false`,
+      );
+    }
+    if (language) {
+      conditions.push(sql`exists (select 1 from unnest(${profiles.languages}) as l where lower(l) = lower(${language}))`);
+    }
+    if (minRating !== undefined) conditions.push(gte(sql`coalesce(${ratings.average}, 0)`, minRating));
+    if (minPrice !== undefined) conditions.push(gte(profiles.hourlyRate, minPrice));
+    if (maxPrice !== undefined) conditions.push(lte(profiles.hourlyRate, maxPrice));
+
+    const query = terms.join(" ");
+    const relevance = terms.length
+      ? sql<number>`ts_rank(${profileSearch.document}, to_tsquery('english', ${terms.join(" | ")}))
+          + word_similarity(${query}, ${profileSearch.text})`
+      : sql<number>`0::real`;
+
+    return { where: and(...conditions), relevance, ratings };
+  }
+
+  /** Run search queries with the typo threshold the `<%` operator matches terms at */
+  private withTypoThreshold<T>(run: (tx: Transaction) => Promise<T>): Promise<T> {
+    return this.db.transaction(async (tx) => {
+      // The 0.6 default of <% misses single typos in short words, e.g. "phisics"
+      await tx.execute(
+        sql`select set_config('pg_trgm.word_similarity_threshold', ${String(TYPO_SIMILARITY_THRESHOLD)}, true)`,
+      );
+      return run(tx);
+    });
+  }
+
+  async getSubjects(): Promise<Subject[]> {
+    return this.db.select().from(subjects).orderBy(asc(subjects.category), asc(subjects.name));
+  }
+
+  async saveSubjects(insertSubjects: InsertSubject[]): Promise<void> {
+    if (insertSubjects.length === 0) return;
+    await this.db
+      .insert(subjects)
+      .values(insertSubjects)
+      .onConflictDoUpdate({
+        target: subjects.id,
+        set: {
+          name: sql`excluded.name`,
+          category: sql`excluded.category`,
+          parentId: sql`excluded.parent_id`,
+          aliases: sql`excluded.aliases`,
+        },
+      });
+  }
+
+  async getProfileSubjects(userIds: string[]): Promise<ProfileSubject[]> {
+    if (userIds.length === 0) return [];
+    return this.db
+      .select()
+      .from(profileSubjects)
+      .where(inArray(profileSubjects.userId, userIds))
+      .orderBy(asc(profileSubjects.position));
+  }
+
+  async replaceProfileSubjects(
+    userId: string,
+    entries: Array<Pick<InsertProfileSubject, "subjectId" | "level">>,
+  ): Promise<ProfileSubject[]> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(profileSubjects).where(eq(profileSubjects.userId, userId));
+      if (entries.length === 0) return [];
+
+      const inserted = await tx
+        .insert(profileSubjects)
+        .values(entries.map((entry, position) => ({ userId, subjectId: entry.subjectId, level: entry.level, position })))
+        .returning();
+      return inserted.sort((a, b) => a.position - b.position);
+    });
+  }
+
+  async saveFavoriteMentor(insertFavorite: InsertFavoriteMentor): Promise<FavoriteMentor> {
+    const [favorite] = await this.db
+      .insert(favoriteMentors)
+      .values(insertFavorite)
+      .onConflictDoUpdate({
+        target: [favoriteMentors.studentId, favoriteMentors.mentorId],
+        // Favoriting again without a notify setting keeps the current one
+        set: { notify: insertFavorite.notify ?? sql`${favoriteMentors.notify}` },
+      })
+      .returning();
+    return favorite;
+  }
+
+  async deleteFavoriteMentor(studentId: string, mentorId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(favoriteMentors)
+      .where(and(eq(favoriteMentors.studentId, studentId), eq(favoriteMentors.mentorId, mentorId)))
+      .returning({ id: favoriteMentors.id });
+    return deleted.length > 0;
+  }
+
+  async getFavoriteMentors(studentId: string): Promise<FavoriteMentor[]> {
+    return this.db
+      .select()
+      .from(favoriteMentors)
+      .where(eq(favoriteMentors.studentId, studentId))
+      .orderBy(desc(favoriteMentors.createdAt));
+  }
+
+  async getNotifyingFavorites(mentorId: string): Promise<FavoriteMentor[]> {
+    return this.db
+      .select()
+      .from(favoriteMentors)
+      .where(and(eq(favoriteMentors.mentorId, mentorId), eq(favoriteMentors.notify, true)));
+  }
+
+  async createSavedSearch(insertSearch: InsertSavedSearch): Promise<SavedSearch> {
+    const [search] = await this.db.insert(savedSearches).values(insertSearch).returning();
+    return search;
+  }
+
+  async getSavedSearch(id: string): Promise<SavedSearch | undefined> {
+    const [search] = await this.db.select().from(savedSearches).where(eq(savedSearches.id, id));
+    return search;
+  }
+
+  async getUserSavedSearches(userId: string): Promise<SavedSearch[]> {
+    return this.db
+      .select()
+      .from(savedSearches)
+      .where(eq(savedSearches.userId, userId))
+      .orderBy(desc(savedSearches.createdAt));
+  }
+
+  async updateSavedSearch(
+    id: string,
+    changes: Partial<Pick<SavedSearch, "name" | "notify">>,
+  ): Promise<SavedSearch | undefined> {
+    const [search] = await this.db.update(savedSearches).set(changes).where(eq(savedSearches.id, id)).returning();
+    return search;
+  }
+
+  async deleteSavedSearch(id: string): Promise<void> {
+    await this.db.delete(savedSearches).where(eq(savedSearches.id, id));
+  }
+
+  async getNotifyingSavedSearches(): Promise<SavedSearch[]> {
+    return this.db.select().from(savedSearches).where(eq(savedSearches.notify, true));
+  }
+
+
+  async createSession(insertSession: InsertSession): Promise<Session> {
+    const [session] = await this.db
+      .insert(sessions)
+      .values({ ...insertSession, status: "pending" })
+      .returning();
+    return session;
+  }
+
+  async getSession(id: string): Promise<Session | undefined> {
+    const [session] = await this.db.select().from(sessions).where(eq(sessions.id, id));
+    return session;
+  }
+
+  async updateSessionStatus(
+    id: string,
+    from: SessionStatus,
+    to: SessionStatus,
+    change: SessionStatusChange = {},
+  ): Promise<Session | undefined> {
+    const now = new Date();
+    const [updated] = await this.db
+      .update(sessions)
+      .set({
+        status: to,
+        statusChangedBy: change.actorId ?? null,
+        statusReason: change.reason ?? null,
+        statusChangedAt: now,
+        sequence: sql`${sessions.sequence} + 1`,
+        updatedAt: now,
+      })
+      .where(and(eq(sessions.id, id), eq(sessions.status, from)))
+      .returning();
+    return updated;
+  }
+
+  async getUserSessions(userId: string): Promise<Session[]> {
+    return this.db
+      .select()
+      .from(sessions)
+      .where(or(eq(sessions.studentId, userId), eq(sessions.mentorId, userId)));
+  }
+
+  async getSessionsEndedBefore(status: SessionStatus, before: Date): Promise<Session[]> {
+    return this.db
+      .select()
+      .from(sessions)
+      .where(
+        and(
+          eq(sessions.status, status),
+          sql`${sessionEndSql} < ${sql.param(before, sessions.scheduledTime)}`,
+        ),
+      );
+  }
+
+  async getSessionsStartingAfter(status: SessionStatus, after: Date): Promise<Session[]> {
+    return this.db
+      .select()
+      .from(sessions)
+      .where(and(eq(sessions.status, status), gt(sessions.scheduledTime, after)));
+  }
+
+  async getOverlappingSessions(
+    userIds: string[],
+    start: Date,
+    end: Date,
+    excludeSessionIds: string[] = [],
+  ): Promise<Session[]> {
+    if (userIds.length === 0) return [];
+
+    return this.db
+      .select()
+      .from(sessions)
+      .where(
+        and(
+          inArray(sessions.status, ["pending", "confirmed"]),
+          or(inArray(sessions.studentId, userIds), inArray(sessions.mentorId, userIds)),
+          lt(sessions.scheduledTime, end),
+          sql`${sessionEndSql} > ${sql.param(start, sessions.scheduledTime)}`,
+          excludeSessionIds.length > 0 ? notInArray(sessions.id, excludeSessionIds) : undefined,
+        ),
+      );
+  }
+
+  async updateSessionTime(id: string, scheduledTime: Date, from: readonly SessionStatus[]): Promise<Session | undefined> {
+    if (from.length === 0) return undefined;
+
+    const [updated] = await this.db
+      .update(sessions)
+      .set({ scheduledTime, sequence: sql`${sessions.sequence} + 1`, updatedAt: new Date() })
+      .where(and(eq(sessions.id, id), inArray(sessions.status, [...from])))
+      .returning();
+    return updated;
+  }
+
+  async withCalendarLock<T>(userIds: string[], run: (locked: IStorage) => Promise<T>): Promise<T> {
+    return this.db.transaction(async (tx) => {
+      // Taken in a fixed order, so two bookings that share users cannot deadlock
+      for (const userId of Array.from(new Set(userIds)).sort()) {
+        await tx.execute(sql`select pg_advisory_xact_lock(${CALENDAR_LOCK_SPACE}, hashtext(${userId}))`);
+      }
+      return run(new DbStorage(tx as unknown as Database));
+    });
+  }
+
+  async createSessionSeries(
+    insertSeries: InsertSessionSeries,
+    occurrences: InsertSession[],
+  ): Promise<{ series: SessionSeries; sessions: Session[] }> {
+    return this.db.transaction(async (tx) => {
+      const [series] = await tx.insert(sessionSeries).values(insertSeries).returning();
+      const created = await tx
+        .insert(sessions)
+        .values(occurrences.map((occurrence) => ({ ...occurrence, seriesId: series.id, status: "pending" as const })))
+        .returning();
+      return {
+        series,
+        sessions: created.sort((a, b) => a.scheduledTime.getTime() - b.scheduledTime.getTime()),
+      };
+    });
+  }
+
+  async getSessionSeries(id: string): Promise<SessionSeries | undefined> {
+    const [series] = await this.db.select().from(sessionSeries).where(eq(sessionSeries.id, id));
+    return series;
+  }
+
+  async getSeriesSessions(seriesId: string): Promise<Session[]> {
+    return this.db
+      .select()
+      .from(sessions)
+      .where(eq(sessions.seriesId, seriesId))
+      .orderBy(sessions.scheduledTime);
+  }
+
+  async createRescheduleProposal(insertProposal: InsertSessionReschedule): Promise<SessionReschedule> {
+    const [proposal] = await this.db.insert(sessionReschedules).values(insertProposal).returning();
+    return proposal;
+  }
+
+  async getRescheduleProposal(id: string): Promise<SessionReschedule | undefined> {
+    const [proposal] = await this.db
+      .select()
+      .from(sessionReschedules)
+      .where(eq(sessionReschedules.id, id));
+    return proposal;
+  }
+
+  async getSessionReschedules(sessionId: string): Promise<SessionReschedule[]> {
+    return this.db
+      .select()
+      .from(sessionReschedules)
+      .where(eq(sessionReschedules.sessionId, sessionId))
+      .orderBy(desc(sessionReschedules.createdAt));
+  }
+
+  async getPendingReschedules(sessionIds: string[]): Promise<SessionReschedule[]> {
+    if (sessionIds.length === 0) return [];
+
+    return this.db
+      .select()
+      .from(sessionReschedules)
+      .where(
+        and(
+          inArray(sessionReschedules.sessionId, sessionIds),
+          eq(sessionReschedules.status, "pending"),
+        ),
+      );
+  }
+
+  async resolveRescheduleProposal(
+    id: string,
+    status: Exclude<RescheduleStatus, "pending">,
+    respondedBy: string,
+  ): Promise<SessionReschedule | undefined> {
+    const [updated] = await this.db
+      .update(sessionReschedules)
+      .set({ status, respondedBy, respondedAt: new Date() })
+      .where(and(eq(sessionReschedules.id, id), eq(sessionReschedules.status, "pending")))
+      .returning();
+    return updated;
+  }
+
+  async createReview(insertReview: InsertReview): Promise<Review | undefined> {
+    const [review] = await this.db
+      .insert(reviews)
+      .values(insertReview)
+      .onConflictDoNothing({ target: reviews.sessionId })
+      .returning();
+    return review;
+  }
+
+  async getReview(id: string): Promise<Review | undefined> {
+    const [review] = await this.db.select().from(reviews).where(eq(reviews.id, id));
+    return review;
+  }
+
+  async getSessionReviews(sessionIds: string[]): Promise<Review[]> {
+    if (sessionIds.length === 0) return [];
+    return this.db.select().from(reviews).where(inArray(reviews.sessionId, sessionIds));
+  }
+
+  async getMentorReviews(mentorId: string): Promise<Review[]> {
+    return this.db
+      .select()
+      .from(reviews)
+      .where(eq(reviews.mentorId, mentorId))
+      .orderBy(desc(reviews.createdAt));
+  }
+
+  async setReviewResponse(id: string, response: string): Promise<Review | undefined> {
+    const [review] = await this.db
+      .update(reviews)
+      .set({ response, respondedAt: new Date() })
+      .where(eq(reviews.id, id))
+      .returning();
+    return review;
+  }
+
+  async getMentorRatings(mentorIds: string[]): Promise<MentorRating[]> {
+    if (mentorIds.length === 0) return [];
+
+    const rows = await this.db
+      .select({
+        mentorId: reviews.mentorId,
+        average: sql<string>`avg(${reviews.rating})`,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(reviews)
+      .where(inArray(reviews.mentorId, mentorIds))
+      .groupBy(reviews.mentorId);
+    // avg() of integers is numeric, which the driver returns as a string
+    return rows.map((row) => ({ ...row, average: Number(row.average) }));
+  }
+
+  async getAvailabilitySlots(mentorId: string): Promise<AvailabilitySlot[]> {
+    return this.db
+      .select()
+      .from(availabilitySlots)
+      .where(eq(availabilitySlots.mentorId, mentorId))
+      .orderBy(availabilitySlots.dayOfWeek, availabilitySlots.startTime);
+  }
+
+  async getMentorsAvailabilitySlots(mentorIds: string[]): Promise<AvailabilitySlot[]> {
+    if (mentorIds.length === 0) return [];
+    return this.db.select().from(availabilitySlots).where(inArray(availabilitySlots.mentorId, mentorIds));
+  }
+
+  async replaceAvailabilitySlots(mentorId: string, slots: InsertAvailabilitySlot[]): Promise<AvailabilitySlot[]> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(availabilitySlots).where(eq(availabilitySlots.mentorId, mentorId));
+      if (slots.length === 0) return [];
+
+      const inserted = await tx
+        .insert(availabilitySlots)
+        .values(slots.map((slot) => ({ ...slot, mentorId })))
+        .returning();
+      return inserted.sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.startTime.localeCompare(b.startTime));
+    });
+  }
+
+  async getAvailabilityExceptions(
+    mentorId: string,
+    fromDate?: string,
+    toDate?: string,
+  ): Promise<AvailabilityException[]> {
+    return this.db
+      .select()
+      .from(availabilityExceptions)
+      .where(
+        and(
+          eq(availabilityExceptions.mentorId, mentorId),
+          fromDate ? gte(availabilityExceptions.date, fromDate) : undefined,
+          toDate ? lte(availabilityExceptions.date, toDate) : undefined,
+        ),
+      )
+      .orderBy(availabilityExceptions.date, availabilityExceptions.startTime);
+  }
+
+  async getMentorsAvailabilityExceptions(
+    mentorIds: string[],
+    fromDate: string,
+    toDate: string,
+  ): Promise<AvailabilityException[]> {
+    if (mentorIds.length === 0) return [];
+    return this.db
+      .select()
+      .from(availabilityExceptions)
+      .where(
+        and(
+          inArray(availabilityExceptions.mentorId, mentorIds),
+          gte(availabilityExceptions.date, fromDate),
+          lte(availabilityExceptions.date, toDate),
+        ),
+      );
+  }
+
+  async getAvailabilityException(id: string): Promise<AvailabilityException | undefined> {
+    const [exception] = await this.db
+      .select()
+      .from(availabilityExceptions)
+      .where(eq(availabilityExceptions.id, id));
+    return exception;
+  }
+
+  async createAvailabilityException(insertException: InsertAvailabilityException): Promise<AvailabilityException> {
+    const [exception] = await this.db.insert(availabilityExceptions).values(insertException).returning();
+    return exception;
+  }
+
+  async deleteAvailabilityException(id: string): Promise<void> {
+    await this.db.delete(availabilityExceptions).where(eq(availabilityExceptions.id, id));
+  }
+
+  async createMessage(insertMessage: InsertMessage): Promise<Message> {
+    // Timestamp set here (millisecond precision) so it round-trips exactly through pagination cursors
+    const [message] = await this.db
+      .insert(messages)
+      .values({ ...insertMessage, timestamp: new Date() })
+      .returning();
+    return message;
+  }
+
+  async getMessagesBetweenUsers(
+    userId1: string,
+    userId2: string,
+    options: MessagePageOptions = {},
+  ): Promise<Message[]> {
+    const { limit, before, beforeId } = options;
+
+    const conditions = [
+      or(
+        and(eq(messages.senderId, userId1), eq(messages.receiverId, userId2)),
+        and(eq(messages.senderId, userId2), eq(messages.receiverId, userId1)),
+      ),
+    ];
+    if (before) {
+      conditions.push(
+        beforeId
+          ? or(
+              lt(messages.timestamp, before),
+              and(eq(messages.timestamp, before), lt(messages.id, beforeId)),
+            )
+          : lt(messages.timestamp, before),
+      );
+    }
+
+    const query = this.db
+      .select()
+      .from(messages)
+      .where(and(...conditions))
+      .orderBy(desc(messages.timestamp), desc(messages.id));
+
+    const newestFirst = limit === undefined ? await query : await query.limit(limit);
+    return newestFirst.reverse();
+  }
+
+  async getConversationSummaries(userId: string): Promise<ConversationSummary[]> {
+    // A sender/receiver pair identifies the conversation without depending on userId,
+    // so the DISTINCT ON key and the ORDER BY prefix stay identical expressions
+    const pairLow = sql`least(${messages.senderId}, ${messages.receiverId})`;
+    const pairHigh = sql`greatest(${messages.senderId}, ${messages.receiverId})`;
+    const partnerId = sql<string>`case when ${messages.senderId} = ${userId} then ${messages.receiverId} else ${messages.senderId} end`;
+
+    const latestIds = this.db
+      .selectDistinctOn([pairLow, pairHigh], { id: messages.id })
+      .from(messages)
+      .where(or(eq(messages.senderId, userId), eq(messages.receiverId, userId)))
+      .orderBy(pairLow, pairHigh, desc(messages.timestamp), desc(messages.id));
+
+    const unread = this.db
+      .select({
+        senderId: messages.senderId,
+        count: sql<number>`count(*)::int`.as("unread_count"),
+      })
+      .from(messages)
+      .where(and(eq(messages.receiverId, userId), isNull(messages.readAt)))
+      .groupBy(messages.senderId)
+      .as("unread");
+
+    const rows = await this.db
+      .select({
+        partner: users,
+        lastMessage: messages,
+        unreadCount: sql<number>`coalesce(${unread.count}, 0)::int`,
+      })
+      .from(messages)
+      .innerJoin(users, eq(users.id, partnerId))
+      .leftJoin(unread, eq(unread.senderId, users.id))
+      .where(inArray(messages.id, latestIds))
+      .orderBy(desc(messages.timestamp), desc(messages.id));
+
+    return rows;
+  }
+
+  async markConversationRead(readerId: string, senderId: string): Promise<{ readAt: Date; count: number }> {
+    const readAt = new Date();
+    const updated = await this.db
+      .update(messages)
+      .set({ readAt })
+      .where(
+        and(
+          eq(messages.senderId, senderId),
+          eq(messages.receiverId, readerId),
+          isNull(messages.readAt),
+        ),
+      )
+      .returning({ id: messages.id });
+
+    return { readAt, count: updated.length };
+  }
+
+  async getContactIds(userId: string, candidateIds: string[]): Promise<string[]> {
+    if (candidateIds.length === 0) return [];
+
+    const contacts = (a: AnyColumn, b: AnyColumn) =>
+      this.db
+        .selectDistinct({ id: sql<string>`case when ${a} = ${userId} then ${b} else ${a} end`.as("contact_id") })
+        .from(a.table)
+        .where(or(and(eq(a, userId), inArray(b, candidateIds)), and(eq(b, userId), inArray(a, candidateIds))));
+
+    const rows = await contacts(messages.senderId, messages.receiverId).union(
+      contacts(sessions.studentId, sessions.mentorId),
+    );
+    return rows.map((row) => row.id);
+  }
+
+  async createRefreshToken(insertToken: InsertRefreshToken): Promise<RefreshToken> {
+    const [token] = await this.db.insert(refreshTokens).values(insertToken).returning();
+    return token;
+  }
+
+  async getRefreshToken(id: string): Promise<RefreshToken | undefined> {
+    const [token] = await this.db.select().from(refreshTokens).where(eq(refreshTokens.id, id));
+    return token;
+  }
+
+  async revokeRefreshToken(id: string, replacedBy?: string): Promise<boolean> {
+    const revoked = await this.db
+      .update(refreshTokens)
+      .set({ revokedAt: new Date(), replacedBy: replacedBy ?? null })
+      .where(and(eq(refreshTokens.id, id), isNull(refreshTokens.revokedAt)))
+      .returning({ id: refreshTokens.id });
+    return revoked.length > 0;
+  }
+
+  async revokeRefreshTokenFamily(familyId: string): Promise<void> {
+    await this.db
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(refreshTokens.familyId, familyId), isNull(refreshTokens.revokedAt)));
+  }
+
+  async createLoginSession(insertSession: InsertLoginSession): Promise<LoginSession> {
+    const [session] = await this.db.insert(loginSessions).values(insertSession).returning();
+    return session;
+  }
+
+  async getLoginSession(id: string): Promise<LoginSession | undefined> {
+    const [session] = await this.db.select().from(loginSessions).where(eq(loginSessions.id, id));
+    return session;
+  }
+
+  async getActiveLoginSessions(userId: string): Promise<LoginSession[]> {
+    return this.db
+      .select()
+      .from(loginSessions)
+      .where(
+        and(
+          eq(loginSessions.userId, userId),
+          isNull(loginSessions.revokedAt),
+          gt(loginSessions.expiresAt, new Date()),
+        ),
+      )
+      .orderBy(desc(loginSessions.lastUsedAt));
+  }
+
+  async touchLoginSession(id: string, expiresAt: Date): Promise<void> {
+    await this.db
+      .update(loginSessions)
+      .set({ lastUsedAt: new Date(), expiresAt })
+      .where(eq(loginSessions.id, id));
+  }
+
+  async revokeLoginSession(id: string): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx
+        .update(loginSessions)
+        .set({ revokedAt: new Date() })
+        .where(and(eq(loginSessions.id, id), isNull(loginSessions.revokedAt)));
+      await tx
+        .update(refreshTokens)
+        .set({ revokedAt: new Date() })
+        .where(and(eq(refreshTokens.familyId, id), isNull(refreshTokens.revokedAt)));
+    });
+  }
+
+  async revokeUserLoginSessions(userId: string): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx
+        .update(loginSessions)
+        .set({ revokedAt: new Date() })
+        .where(and(eq(loginSessions.userId, userId), isNull(loginSessions.revokedAt)));
+      await tx
+        .update(refreshTokens)
+        .set({ revokedAt: new Date() })
+        .where(and(eq(refreshTokens.userId, userId), isNull(refreshTokens.revokedAt)));
+    });
+  }
+
+  async getCalendarFeed(userId: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await this.db.select().from(calendarFeeds).where(eq(calendarFeeds.userId, userId));
+    return feed;
+  }
+
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await this.db.select().from(calendarFeeds).where(eq(calendarFeeds.token, token));
+    return feed;
+  }
+
+  async replaceCalendarFeed(userId: string, token: string): Promise<CalendarFeed> {
+    const [feed] = await this.db
+      .insert(calendarFeeds)
+      .values({ userId, token })
+      .onConflictDoUpdate({ target: calendarFeeds.userId, set: { token, createdAt: new Date() } })
+      .returning();
+    return feed;
+  }
+
+  async scheduleJob(insertJob: InsertScheduledJob): Promise<ScheduledJob> {
+    const job = { ...insertJob, payload: insertJob.payload ?? {} };
+    const [scheduled] = await this.db
+      .insert(scheduledJobs)
+      .values(job)
+      .onConflictDoUpdate({
+        target: scheduledJobs.key,
+        set: {
+          type: job.type,
+          payload: job.payload,
+          runAt: job.runAt,
+          status: "pending",
+          attempts: 0,
+          lastError: null,
+          lockedBy: null,
+          lockedUntil: null,
+          finishedAt: null,
+        },
+      })
+      .returning();
+    return scheduled;
+  }
+
+  async scheduleJobIfMissing(insertJob: InsertScheduledJob): Promise<ScheduledJob> {
+    const [created] = await this.db
+      .insert(scheduledJobs)
+      .values({ ...insertJob, payload: insertJob.payload ?? {} })
+      .onConflictDoNothing({ target: scheduledJobs.key })
+      .returning();
+    return created ?? (await this.getJob(insertJob.key))!;
+  }
+
+  async getJob(key: string): Promise<ScheduledJob | undefined> {
+    const [job] = await this.db.select().from(scheduledJobs).where(eq(scheduledJobs.key, key));
+    return job;
+  }
+
+  async cancelJobs(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+
+    await this.db
+      .update(scheduledJobs)
+      .set({ status: "cancelled", lockedBy: null, lockedUntil: null })
+      .where(and(inArray(scheduledJobs.key, keys), eq(scheduledJobs.status, "pending")));
+  }
+
+  async claimDueJob(now: Date, workerId: string, lockedUntil: Date): Promise<ScheduledJob | undefined> {
+    // SKIP LOCKED lets concurrent workers each take a different job instead of waiting
+    const due = this.db
+      .select({ id: scheduledJobs.id })
+      .from(scheduledJobs)
+      .where(
+        and(
+          eq(scheduledJobs.status, "pending"),
+          lte(scheduledJobs.runAt, now),
+          or(isNull(scheduledJobs.lockedUntil), lte(scheduledJobs.lockedUntil, now)),
+        ),
+      )
+      .orderBy(scheduledJobs.runAt)
+      .limit(1)
+      .for("update", { skipLocked: true });
+
+    const [claimed] = await this.db
+      .update(scheduledJobs)
+      .set({ attempts: sql`${scheduledJobs.attempts} + 1`, lockedBy: workerId, lockedUntil })
+      .where(inArray(scheduledJobs.id, due))
+      .returning();
+    return claimed;
+  }
+
+  async finishJob(id: string, workerId: string, outcome: JobOutcome, now: Date): Promise<boolean> {
+    const finished = await this.db
+      .update(scheduledJobs)
+      .set({
+        status: outcome.status,
+        ...(outcome.runAt ? { runAt: outcome.runAt } : {}),
+        ...(outcome.attempts !== undefined ? { attempts: outcome.attempts } : {}),
+        lastError: outcome.lastError ?? null,
+        lockedBy: null,
+        lockedUntil: null,
+        finishedAt: outcome.status === "pending" ? null : now,
+      })
+      .where(and(eq(scheduledJobs.id, id), eq(scheduledJobs.lockedBy, workerId)))
+      .returning({ id: scheduledJobs.id });
+    return finished.length > 0;
+  }
+
+  async updateJobPayload(id: string, workerId: string, payload: Record<string, unknown>): Promise<boolean> {
+    const updated = await this.db
+      .update(scheduledJobs)
+      .set({ payload })
+      .where(and(eq(scheduledJobs.id, id), eq(scheduledJobs.lockedBy, workerId)))
+      .returning({ id: scheduledJobs.id });
+    return updated.length > 0;
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const [notification] = await this.db.insert(notifications).values(insertNotification).returning();
+    return notification;
+  }
+
+  async getUserNotifications(userId: string, limit: number): Promise<Notification[]> {
+    return this.db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<Notification | undefined> {
+    const [notification] = await this.db
+      .update(notifications)
+      .set({ readAt: sql`coalesce(${notifications.readAt}, now())` })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return notification;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<void> {
+    await this.db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  }
+}
+
+/**
+ * Pick the storage backend from configuration
+ * - STORAGE_DRIVER=memory|postgres selects a backend explicitly
+ * - Otherwise Postgres is used whenever DATABASE_URL is set
+ */
+export function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  if (driver === "memory") {
+    return new MemStorage();
+  }
+
+  if (driver !== "postgres") {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "memory" or "postgres"`);
+  }
+
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL environment variable is required for the postgres storage driver");
+  }
+
+  return new DbStorage(createDb(process.env.DATABASE_URL).db);
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,71 @@
+import { type InsertSubject } from "@shared/schema";
+
+/**
+ * The subjects mentors can teach and students can learn
+ * - Synced to the subjects table when the server starts: entries are added or updated by id,
+ *   never deleted, so keep ids stable and retire a subject by renaming it instead
+ * - A parent comes before its children; aliases are lowercase and belong to one subject only
+ */
+export const SUBJECT_CATALOG: InsertSubject[] = [
+  // Mathematics
+  { id: "mathematics", name: "Mathematics", category: "Mathematics", parentId: null, aliases: ["math", "maths"] },
+  { id: "algebra", name: "Algebra", category: "Mathematics", parentId: "mathematics", aliases: ["algebra 1", "algebra 2", "algebra i", "algebra ii"] },
+  { id: "linear-algebra", name: "Linear Algebra", category: "Mathematics", parentId: "algebra", aliases: ["matrices"] },
+  { id: "geometry", name: "Geometry", category: "Mathematics", parentId: "mathematics", aliases: [] },
+  { id: "trigonometry", name: "Trigonometry", category: "Mathematics", parentId: "mathematics", aliases: ["trig"] },
+  { id: "calculus", name: "Calculus", category: "Mathematics", parentId: "mathematics", aliases: ["calc"] },
+  { id: "ap-calculus", name: "AP Calculus", category: "Mathematics", parentId: "calculus", aliases: ["ap calc", "ap calculus ab", "ap calculus bc", "calculus ab", "calculus bc"] },
+  { id: "multivariable-calculus", name: "Multivariable Calculus", category: "Mathematics", parentId: "calculus", aliases: ["calculus 3", "calc 3", "vector calculus"] },
+  { id: "statistics", name: "Statistics", category: "Mathematics", parentId: "mathematics", aliases: ["stats"] },
+  { id: "ap-statistics", name: "AP Statistics", category: "Mathematics", parentId: "statistics", aliases: ["ap stats"] },
+  { id: "probability", name: "Probability", category: "Mathematics", parentId: "statistics", aliases: [] },
+  { id: "discrete-mathematics", name: "Discrete Mathematics", category: "Mathematics", parentId: "mathematics", aliases: ["discrete math", "discrete maths"] },
+
+  // Sciences
+  { id: "physics", name: "Physics", category: "Sciences", parentId: null, aliases: [] },
+  { id: "ap-physics", name: "AP Physics", category: "Sciences", parentId: "physics", aliases: ["ap physics 1", "ap physics 2", "ap physics c"] },
+  { id: "chemistry", name: "Chemistry", category: "Sciences", parentId: null, aliases: ["chem"] },
+  { id: "organic-chemistry", name: "Organic Chemistry", category: "Sciences", parentId: "chemistry", aliases: ["orgo", "ochem", "o-chem"] },
+  { id: "ap-chemistry", name: "AP Chemistry", category: "Sciences", parentId: "chemistry", aliases: ["ap chem"] },
+  { id: "biology", name: "Biology", category: "Sciences", parentId: null, aliases: ["bio"] },
+  { id: "ap-biology", name: "AP Biology", category: "Sciences", parentId: "biology", aliases: ["ap bio"] },
+
+  // Computer Science
+  { id: "computer-science", name: "Computer Science", category: "Computer Science", parentId: null, aliases: ["cs", "comp sci", "computing"] },
+  { id: "programming", name: "Programming", category: "Computer Science", parentId: "computer-science", aliases: ["coding"] },
+  { id: "javascript", name: "JavaScript", category: "Computer Science", parentId: "programming", aliases: ["js"] },
+  { id: "typescript", name: "TypeScript", category: "Computer Science", parentId: "programming", aliases: ["ts"] },
+  { id: "react", name: "React", category: "Computer Science", parentId: "javascript", aliases: ["react.js", "reactjs"] },
+  { id: "python", name: "Python", category: "Computer Science", parentId: "programming", aliases: ["python 3"] },
+  { id: "java", name: "Java", category: "Computer Science", parentId: "programming", aliases: [] },
+  { id: "data-structures", name: "Data Structures", category: "Computer Science", parentId: "computer-science", aliases: ["data structure"] },
+  { id: "algorithms", name: "Algorithms", category: "Computer Science", parentId: "computer-science", aliases: ["algorithm", "algos"] },
+  { id: "web-development", name: "Web Development", category: "Computer Science", parentId: "computer-science", aliases: ["web dev"] },
+
+  // Languages
+  { id: "english", name: "English", category: "Languages", parentId: null, aliases: ["english language"] },
+  { id: "esl", name: "English as a Second Language", category: "Languages", parentId: "english", aliases: ["esl", "efl"] },
+  { id: "spanish", name: "Spanish", category: "Languages", parentId: null, aliases: ["español", "espanol"] },
+  { id: "french", name: "French", category: "Languages", parentId: null, aliases: ["français", "francais"] },
+  { id: "german", name: "German", category: "Languages", parentId: null, aliases: ["deutsch"] },
+  { id: "mandarin", name: "Mandarin Chinese", category: "Languages", parentId: null, aliases: ["mandarin", "chinese"] },
+  { id: "japanese", name: "Japanese", category: "Languages", parentId: null, aliases: [] },
+
+  // Humanities
+  { id: "writing", name: "Writing", category: "Humanities", parentId: null, aliases: [] },
+  { id: "essay-writing", name: "Essay Writing", category: "Humanities", parentId: "writing", aliases: ["essays", "academic writing"] },
+  { id: "creative-writing", name: "Creative Writing", category: "Humanities", parentId: "writing", aliases: [] },
+  { id: "literature", name: "Literature", category: "Humanities", parentId: null, aliases: ["english literature", "lit"] },
+  { id: "history", name: "History", category: "Humanities", parentId: null, aliases: [] },
+  { id: "ap-us-history", name: "AP US History", category: "Humanities", parentId: "history", aliases: ["apush"] },
+  { id: "economics", name: "Economics", category: "Humanities", parentId: null, aliases: ["econ"] },
+  { id: "psychology", name: "Psychology", category: "Humanities", parentId: null, aliases: ["psych"] },
+
+  // Test Prep
+  { id: "sat", name: "SAT", category: "Test Prep", parentId: null, aliases: ["sat prep"] },
+  { id: "act", name: "ACT", category: "Test Prep", parentId: null, aliases: ["act prep"] },
+  { id: "gre", name: "GRE", category: "Test Prep", parentId: null, aliases: [] },
+  { id: "gmat", name: "GMAT", category: "Test Prep", parentId: null, aliases: [] },
+  { id: "ielts", name: "IELTS", category: "Test Prep", parentId: null, aliases: [] },
+  { id: "toefl", name: "TOEFL", category: "Test Prep", parentId: null, aliases: [] },
+];
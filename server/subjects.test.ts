@@ -0,0 +1,92 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { storage } from "./storage";
+import { SUBJECT_CATALOG } from "./subjectCatalog";
+import { matchSubject, resolveProfileSubjects, resolveSubjectFilter, syncSubjectCatalog } from "./subjects";
+import { type Subject } from "@shared/schema";
+
+beforeAll(async () => {
+  await syncSubjectCatalog();
+});
+
+const sorted = (ids: string[] | undefined) => [...(ids ?? [])].sort();
+
+describe("subject matching", () => {
+  const catalog = SUBJECT_CATALOG as Subject[];
+
+  it("matches a name or alias regardless of case and spacing", () => {
+    expect(matchSubject(catalog, "  MATHS ")?.id).toBe("mathematics");
+    expect(matchSubject(catalog, "ap   calculus")?.id).toBe("ap-calculus");
+    expect(matchSubject(catalog, "Calculus BC")?.id).toBe("ap-calculus");
+    expect(matchSubject(catalog, "calculus b")).toBeUndefined();
+  });
+});
+
+describe("subject search filter", () => {
+  it("finds a subject by alias, with every narrower subject", async () => {
+    expect(sorted((await resolveSubjectFilter("Calc")).subjectIds)).toEqual([
+      "ap-calculus",
+      "calculus",
+      "multivariable-calculus",
+    ]);
+    expect((await resolveSubjectFilter("maths")).subjectIds).toEqual(
+      expect.arrayContaining(["mathematics", "algebra", "linear-algebra", "ap-statistics"]),
+    );
+  });
+
+  it("prefers an exact name or alias over subjects that merely contain the text", async () => {
+    // "Algebra" is also part of "Linear Algebra", which is narrower anyway; "ap calc" is AP Calculus alone
+    expect(sorted((await resolveSubjectFilter("Algebra")).subjectIds)).toEqual(["algebra", "linear-algebra"]);
+    expect(sorted((await resolveSubjectFilter("AP Calc")).subjectIds)).toEqual(["ap-calculus"]);
+    expect(sorted((await resolveSubjectFilter("probability")).subjectIds)).toEqual(["probability"]);
+  });
+
+  it("falls back to part of a name or alias", async () => {
+    expect(sorted((await resolveSubjectFilter("ector calc")).subjectIds)).toEqual(["multivariable-calculus"]);
+    expect(sorted((await resolveSubjectFilter("trigono")).subjectIds)).toEqual(["trigonometry"]);
+  });
+
+  it("looks for text matching no catalog subject in free-text subjects", async () => {
+    expect(await resolveSubjectFilter("Underwater basket weaving")).toEqual({ subject: "Underwater basket weaving" });
+    expect(await resolveSubjectFilter(undefined)).toEqual({});
+  });
+});
+
+describe("profile subjects", () => {
+  it("keeps the order given and the first level of a subject picked twice", async () => {
+    const resolved = await resolveProfileSubjects([
+      { subjectId: "ap-calculus", level: "advanced" },
+      { subjectId: "algebra", level: "beginner" },
+      { subjectId: "ap-calculus", level: "beginner" },
+    ]);
+
+    expect(resolved.map(({ subject, level }) => [subject.name, level])).toEqual([
+      ["AP Calculus", "advanced"],
+      ["Algebra", "beginner"],
+    ]);
+  });
+
+  it("rejects a subject that is not in the catalog", async () => {
+    await expect(resolveProfileSubjects([{ subjectId: "alchemy", level: "beginner" }])).rejects.toMatchObject({
+      status: 400,
+    });
+  });
+});
+
+describe("subject search", () => {
+  it("finds a mentor of a narrower subject through a broader alias", async () => {
+    const suffix = Math.random().toString(36).slice(2, 8);
+    const mentor = await storage.createUser({
+      username: `mentor-${suffix}`,
+      email: `mentor-${suffix}@example.com`,
+      password: "hashed",
+      role: "mentor",
+    });
+    await storage.replaceProfileSubjects(mentor.id, [{ subjectId: "ap-calculus", level: "advanced" }]);
+
+    const hits = await storage.searchMentors({ mentorIds: [mentor.id], ...(await resolveSubjectFilter("math")) });
+    const misses = await storage.searchMentors({ mentorIds: [mentor.id], ...(await resolveSubjectFilter("stats")) });
+
+    expect(hits.map((hit) => hit.mentor.id)).toEqual([mentor.id]);
+    expect(misses).toEqual([]);
+  });
+});
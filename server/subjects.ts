@@ -0,0 +1,101 @@
+import { storage, type MentorSearchFilters } from "./storage";
+import { CustomError } from "./middleware/errorHandler";
+import { SUBJECT_CATALOG } from "./subjectCatalog";
+import { type ProfileSubjectInput } from "./validation/schemas";
+import { type Subject, type SubjectLevel } from "@shared/schema";
+
+// ==================== Types ====================
+
+/** A catalog subject picked for a profile, with the level it is taught or learned at */
+export interface ResolvedProfileSubject {
+  subject: Subject;
+  level: SubjectLevel;
+}
+
+// ==================== Catalog ====================
+
+/**
+ * Bring the subjects table up to date with SUBJECT_CATALOG
+ * - Run when the server starts; search index entries pick up changed aliases as profiles are saved
+ */
+export async function syncSubjectCatalog(): Promise<void> {
+  await storage.saveSubjects(SUBJECT_CATALOG);
+}
+
+/** "  AP  Calculus " -> "ap calculus" */
+export function normalizeSubjectName(name: string): string {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * The catalog subject a free-text name stands for: the one with that name or alias, ignoring case and spacing
+ * - Migration 0017 matched the free-text subjects of existing profiles the same way
+ */
+export function matchSubject(catalog: Subject[], name: string): Subject | undefined {
+  const key = normalizeSubjectName(name);
+  return catalog.find((subject) => normalizeSubjectName(subject.name) === key || subject.aliases.includes(key));
+}
+
+/** Ids of the given subjects and of every subject under them */
+function withNarrowerSubjects(catalog: Subject[], roots: Subject[]): string[] {
+  const ids = new Set(roots.map((subject) => subject.id));
+  let added = true;
+  while (added) {
+    added = false;
+    for (const subject of catalog) {
+      if (subject.parentId && ids.has(subject.parentId) && !ids.has(subject.id)) {
+        ids.add(subject.id);
+        added = true;
+      }
+    }
+  }
+  return Array.from(ids);
+}
+
+/**
+ * Storage filters for the subject filter of a mentor search
+ * - A catalog name or alias finds mentors of that subject or a narrower one ("calc" finds
+ *   Calculus and AP Calculus mentors); failing that, part of a catalog name or alias does
+ * - Text matching no catalog subject is looked for in the mentors' subject names, which
+ *   may still hold free text on profiles not saved since the catalog was introduced
+ */
+export async function resolveSubjectFilter(
+  text: string | undefined,
+): Promise<Pick<MentorSearchFilters, "subject" | "subjectIds">> {
+  if (!text) return {};
+
+  const catalog = await storage.getSubjects();
+  const key = normalizeSubjectName(text);
+  const exact = matchSubject(catalog, key);
+  const roots = exact
+    ? [exact]
+    : catalog.filter(
+        (subject) =>
+          normalizeSubjectName(subject.name).includes(key) || subject.aliases.some((alias) => alias.includes(key)),
+      );
+
+  return roots.length > 0 ? { subjectIds: withNarrowerSubjects(catalog, roots) } : { subject: text };
+}
+
+// ==================== Profile Subjects ====================
+
+/**
+ * Look up the catalog subjects picked for a profile, in the order given
+ * - Unknown subjects are rejected; a subject picked twice keeps its first level
+ */
+export async function resolveProfileSubjects(picked: ProfileSubjectInput[]): Promise<ResolvedProfileSubject[]> {
+  const catalog = new Map((await storage.getSubjects()).map((subject) => [subject.id, subject]));
+  const resolved: ResolvedProfileSubject[] = [];
+
+  for (const { subjectId, level } of picked) {
+    const subject = catalog.get(subjectId);
+    if (!subject) {
+      throw new CustomError(`Unknown subject: ${subjectId}`, 400);
+    }
+    if (!resolved.some((entry) => entry.subject.id === subjectId)) {
+      resolved.push({ subject, level });
+    }
+  }
+
+  return resolved;
+}
@@ -0,0 +1,37 @@
+import { PGlite } from "@electric-sql/pglite";
+import { pg_trgm } from "@electric-sql/pglite/contrib/pg_trgm";
+import { drizzle } from "drizzle-orm/pglite";
+import { sql } from "drizzle-orm";
+import * as schema from "@shared/schema";
+import type { Database } from "../db";
+import { runMigrations } from "../migrate";
+import { DbStorage } from "../storage";
+
+/**
+ * An empty in-process Postgres (PGlite) with the extensions the migrations need
+ */
+export function createPgliteDb() {
+  const client = new PGlite({ extensions: { pg_trgm } });
+  // Both drivers expose the same query builder; only the connection type differs
+  const db = drizzle(client, { schema }) as unknown as Database;
+  return { db, close: () => client.close() };
+}
+
+/**
+ * A DbStorage on PGlite, migrated like a real database
+ * - reset() empties every table, so one migrated database serves a whole test file
+ */
+export async function createPgliteStorage() {
+  const { db, close } = createPgliteDb();
+  await runMigrations(db);
+
+  const reset = async () => {
+    const result = await db.execute<{ tablename: string }>(
+      sql`select tablename from pg_tables where schemaname = 'public'`,
+    );
+    const tables = result.rows.map((row) => `"${row.tablename}"`);
+    if (tables.length) await db.execute(sql.raw(`truncate ${tables.join(", ")}`));
+  };
+
+  return { storage: new DbStorage(db), reset, close };
+}
@@ -0,0 +1,126 @@
+/**
+ * Text analysis for mentor search
+ * - tokenize() turns a query into the terms every storage backend matches on
+ * - MemStorage scores documents with matchDocument(); DbStorage leaves stemming
+ *   and typo matching to Postgres full-text search and pg_trgm instead
+ */
+
+/** Most terms taken from one query; the rest are ignored */
+export const MAX_SEARCH_TERMS = 10;
+
+/** Relative weight of each part of a profile, as Postgres ranks tsvector weights A, B and C */
+export const SEARCH_WEIGHTS = { subjects: 1, username: 0.4, bio: 0.2 } as const;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "i", "in", "is", "it",
+  "me", "my", "of", "on", "or", "the", "to", "who", "with",
+]);
+
+/** Lowercased words of a text, without accents, punctuation, stop words or single letters */
+function words(text: string): string[] {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Search terms of a query
+ * @param query - Free text typed by the user
+ * @returns Distinct words of the query in order, at most MAX_SEARCH_TERMS
+ */
+export function tokenize(query: string): string[] {
+  return Array.from(new Set(words(query))).slice(0, MAX_SEARCH_TERMS);
+}
+
+/**
+ * Reduce an English word to a common stem, so "tutoring" and "tutors" both match "tutor"
+ * - A light suffix stripper; it only has to map a word and its inflections to the same stem
+ */
+export function stem(word: string): string {
+  if (word.length <= 3) return word;
+
+  let stemmed = word;
+  if (stemmed.endsWith("ies") && stemmed.length > 4) {
+    stemmed = `${stemmed.slice(0, -3)}y`;
+  } else if (stemmed.endsWith("sses")) {
+    stemmed = stemmed.slice(0, -2);
+  } else if (stemmed.endsWith("s") && !/(ss|us|is)$/.test(stemmed)) {
+    stemmed = stemmed.slice(0, -1);
+  }
+
+  for (const suffix of ["ingly", "edly", "ing", "ed", "ly"]) {
+    if (stemmed.endsWith(suffix) && stemmed.length - suffix.length >= 3) {
+      stemmed = stemmed.slice(0, -suffix.length);
+      // "programming" -> "programm" -> "program"
+      if (/([^aeiouslz])\1$/.test(stemmed)) stemmed = stemmed.slice(0, -1);
+      break;
+    }
+  }
+  return stemmed;
+}
+
+/** Edits allowed between a term and a word before it no longer counts as a typo */
+function maxEdits(term: string): number {
+  if (term.length <= 3) return 0;
+  return term.length <= 7 ? 1 : 2;
+}
+
+/** Levenshtein distance between a and b, or limit + 1 once it is known to exceed limit */
+function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) return limit + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * How well a term matches one word of a document
+ * @returns 1 when they share a stem, 0.5 for a likely typo or an unfinished word, 0 otherwise
+ */
+function matchWord(term: string, word: string): number {
+  if (stem(term) === stem(word)) return 1;
+  if (term.length >= 3 && word.startsWith(term)) return 0.5;
+  return editDistance(term, word, maxEdits(term)) <= maxEdits(term) ? 0.5 : 0;
+}
+
+export interface SearchField {
+  text: string;
+  weight: number;
+}
+
+/**
+ * Relevance of a document to the search terms
+ * - Every term has to match a word in one of the fields; each adds the
+ *   weight of the field it matches best, halved for inexact matches
+ * @returns The relevance, or null when some term does not match
+ */
+export function matchDocument(terms: string[], fields: SearchField[]): number | null {
+  const fieldWords = fields.map((field) => ({ weight: field.weight, words: words(field.text) }));
+
+  let relevance = 0;
+  for (const term of terms) {
+    let best = 0;
+    for (const field of fieldWords) {
+      for (const word of field.words) {
+        best = Math.max(best, matchWord(term, word) * field.weight);
+      }
+    }
+    if (best === 0) return null;
+    relevance += best;
+  }
+  return relevance;
+}
@@ -1,4 +1,21 @@
 import { z } from "zod";
+import {
+  availabilityExceptionKinds,
+  rescheduleScopes,
+  seriesFrequencies,
+  MAX_SERIES_OCCURRENCES,
+  MIN_RATING,
+  MAX_RATING,
+  mentorSorts,
+  subjectLevels,
+} from "@shared/schema";
+import { isValidTimeZone } from "@shared/timezone";
+
+/** IANA timezone name, e.g. "America/New_York", normalised to its canonical spelling */
+export const TimeZoneSchema = z
+  .string()
+  .refine(isValidTimeZone, "Unknown timezone")
+  .transform((timeZone) => new Intl.DateTimeFormat("en-US", { timeZone }).resolvedOptions().timeZone);
 
 // ==================== Auth Validation ====================
 
@@ -7,6 +24,7 @@ export const RegisterSchema = z.object({
   email: z.string().email(),
   password: z.string().min(8).max(100),
   role: z.enum(["student", "mentor"]),
+  timezone: TimeZoneSchema.optional(),
 });
 
 export const LoginSchema = z.object({
@@ -20,23 +38,241 @@ export const RefreshTokenSchema = z.object({
 
 // ==================== Profile Validation ====================
 
+/** Highest hourly rate a mentor can list, in US dollars */
+export const MAX_HOURLY_RATE = 1000;
+
+/** Most catalog subjects one profile can list */
+export const MAX_PROFILE_SUBJECTS = 20;
+
+/** A catalog subject on a profile: the highest level a mentor teaches, or the level a student is learning at */
+export const ProfileSubjectSchema = z.object({
+  subjectId: z.string().min(1).max(100),
+  level: z.enum(subjectLevels),
+});
+
 export const CreateProfileSchema = z.object({
   bio: z.string().max(500).optional(),
-  subjects: z.array(z.string()).optional(),
-  availability: z.string().max(200).optional(),
+  /** Replaces the profile's subjects, in the order listed */
+  subjects: z.array(ProfileSubjectSchema).max(MAX_PROFILE_SUBJECTS).optional(),
+  timezone: TimeZoneSchema.optional(),
+  languages: z.array(z.string().trim().min(1).max(50)).max(10).optional(),
+  /** null removes the rate */
+  hourlyRate: z.number().int().min(0).max(MAX_HOURLY_RATE).nullable().optional(),
 });
 
 export const UpdateProfileSchema = CreateProfileSchema;
 
+// ==================== Mentor Search Validation ====================
+
+/** Whole number from a query string parameter */
+const QueryIntSchema = z.string().regex(/^\d+$/, "Expected a whole number").transform(Number);
+
+/** Most mentors returned by one GET /api/mentors request */
+export const MAX_MENTOR_PAGE_SIZE = 50;
+
+export const MentorSearchQuerySchema = z
+  .object({
+    /** Free text matched against username, subjects and bio */
+    q: z.string().trim().max(200).optional(),
+    /** Catalog subject name or alias, also finding narrower subjects; or part of one */
+    subject: z.string().trim().max(100).optional(),
+    language: z.string().trim().max(50).optional(),
+    minRating: z.string().transform(Number).pipe(z.number().min(MIN_RATING).max(MAX_RATING)).optional(),
+    minPrice: QueryIntSchema.pipe(z.number().max(MAX_HOURLY_RATE)).optional(),
+    maxPrice: QueryIntSchema.pipe(z.number().max(MAX_HOURLY_RATE)).optional(),
+    /** Only mentors with an opening in [availableFrom, availableTo) */
+    availableFrom: z.string().datetime().optional(),
+    availableTo: z.string().datetime().optional(),
+    /** Defaults to relevance, which falls back to rating when there is no text */
+    sort: z.enum(mentorSorts).optional(),
+    limit: QueryIntSchema.pipe(z.number().min(1).max(MAX_MENTOR_PAGE_SIZE)).optional(),
+    /** nextCursor of the previous page */
+    cursor: z.string().max(1000).optional(),
+  })
+  .refine((query) => (query.availableFrom === undefined) === (query.availableTo === undefined), {
+    message: "Give both ends of the availability window",
+    path: ["availableTo"],
+  })
+  .refine((query) => !query.availableFrom || !query.availableTo || Date.parse(query.availableFrom) < Date.parse(query.availableTo), {
+    message: "The availability window must end after it starts",
+    path: ["availableTo"],
+  })
+  .refine((query) => query.minPrice === undefined || query.maxPrice === undefined || query.minPrice <= query.maxPrice, {
+    message: "The minimum price must not exceed the maximum",
+    path: ["maxPrice"],
+  });
+
+/** Most mentors returned by GET /api/mentors/recommended */
+export const MAX_RECOMMENDATIONS = 12;
+
+export const RecommendedMentorsQuerySchema = z.object({
+  limit: QueryIntSchema.pipe(z.number().min(1).max(MAX_RECOMMENDATIONS)).optional(),
+});
+
+// ==================== Favorites & Saved Search Validation ====================
+
+export const FavoriteMentorSchema = z.object({
+  /** Notify the student when the mentor adds availability; unchanged when omitted */
+  notify: z.boolean().optional(),
+});
+
+/** Filters kept by a saved search, as typed values of the GET /api/mentors parameters */
+const SavedSearchFiltersSchema = z
+  .object({
+    q: z.string().trim().min(1).max(200).optional(),
+    subject: z.string().trim().min(1).max(100).optional(),
+    language: z.string().trim().min(1).max(50).optional(),
+    minRating: z.number().min(MIN_RATING).max(MAX_RATING).optional(),
+    minPrice: z.number().int().min(0).max(MAX_HOURLY_RATE).optional(),
+    maxPrice: z.number().int().min(0).max(MAX_HOURLY_RATE).optional(),
+    sort: z.enum(mentorSorts).optional(),
+  })
+  .strict()
+  .refine((filters) => filters.minPrice === undefined || filters.maxPrice === undefined || filters.minPrice <= filters.maxPrice, {
+    message: "The minimum price must not exceed the maximum",
+    path: ["maxPrice"],
+  });
+
+export const CreateSavedSearchSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  filters: SavedSearchFiltersSchema,
+  /** Notify the student of new mentors matching the search */
+  notify: z.boolean().optional(),
+});
+
+export const UpdateSavedSearchSchema = z
+  .object({
+    name: z.string().trim().min(1).max(60).optional(),
+    notify: z.boolean().optional(),
+  })
+  .refine((changes) => changes.name !== undefined || changes.notify !== undefined, {
+    message: "Give a name or a notify setting",
+  });
+
 // ==================== Session Validation ====================
 
 export const BookSessionSchema = z.object({
   mentorId: z.string().uuid(),
   subject: z.string().min(1).max(100),
   scheduledTime: z.string().datetime(),
+  durationMinutes: z.number().int().min(15).max(240).optional(),
+  /** Zone the student picked the time in; defaults to their profile's */
+  timezone: TimeZoneSchema.optional(),
   description: z.string().max(500).optional(),
 });
 
+export const BookSeriesSchema = BookSessionSchema.extend({
+  frequency: z.enum(seriesFrequencies),
+  /** How many sessions to book, counting the first */
+  occurrences: z.number().int().min(2).max(MAX_SERIES_OCCURRENCES).optional(),
+  /** Last date an occurrence may fall on, as YYYY-MM-DD in the series timezone */
+  until: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date as YYYY-MM-DD")
+    .refine((date) => !Number.isNaN(Date.parse(date)), "Invalid date")
+    .optional(),
+}).refine((series) => (series.occurrences === undefined) !== (series.until === undefined), {
+  message: "Give either a number of occurrences or an end date",
+  path: ["occurrences"],
+});
+
+export const DeclineSessionSchema = z.object({
+  reason: z.string({ required_error: "A reason is required to decline a session" }).trim().min(1, "A reason is required to decline a session").max(500),
+});
+
+export const CancelSessionSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
+export const RescheduleSessionSchema = z.object({
+  scheduledTime: z.string().datetime(),
+  /** "series" also moves the later occurrences of a recurring session */
+  scope: z.enum(rescheduleScopes).default("session"),
+});
+
+// ==================== Review Validation ====================
+
+/** Longest review comment or mentor response */
+const MAX_REVIEW_LENGTH = 2000;
+
+export const CreateReviewSchema = z.object({
+  rating: z.number().int().min(MIN_RATING).max(MAX_RATING),
+  comment: z.string().trim().min(1, "Please write a few words about the session").max(MAX_REVIEW_LENGTH),
+});
+
+export const ReviewResponseSchema = z.object({
+  response: z.string({ required_error: "A response is required" }).trim().min(1, "A response is required").max(MAX_REVIEW_LENGTH),
+});
+
+// ==================== Availability Validation ====================
+
+const TimeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected a time as HH:MM");
+// Ranges may end at midnight
+const EndTimeSchema = z.union([TimeOfDaySchema, z.literal("24:00")]);
+
+export const AvailabilitySlotSchema = z
+  .object({
+    dayOfWeek: z.number().int().min(0).max(6),
+    startTime: TimeOfDaySchema,
+    endTime: EndTimeSchema,
+  })
+  .refine((slot) => slot.startTime < slot.endTime, {
+    message: "Start time must be before end time",
+    path: ["endTime"],
+  });
+
+export const UpdateAvailabilitySchema = z
+  .object({
+    timezone: TimeZoneSchema,
+    slots: z.array(AvailabilitySlotSchema).max(50),
+  })
+  .superRefine(({ slots }, ctx) => {
+    slots.forEach((slot, index) => {
+      const overlaps = slots.some(
+        (other, otherIndex) =>
+          otherIndex < index &&
+          other.dayOfWeek === slot.dayOfWeek &&
+          other.startTime < slot.endTime &&
+          slot.startTime < other.endTime,
+      );
+      if (overlaps) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Slots on the same day overlap", path: ["slots", index] });
+      }
+    });
+  });
+
+export const CreateAvailabilityExceptionSchema = z
+  .object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date as YYYY-MM-DD"),
+    kind: z.enum(availabilityExceptionKinds),
+    startTime: TimeOfDaySchema.optional(),
+    endTime: EndTimeSchema.optional(),
+    timezone: TimeZoneSchema,
+    note: z.string().trim().max(200).optional(),
+  })
+  .refine((exception) => !Number.isNaN(Date.parse(exception.date)), {
+    message: "Invalid date",
+    path: ["date"],
+  })
+  .refine((exception) => (exception.startTime === undefined) === (exception.endTime === undefined), {
+    message: "Give both a start and an end time, or neither for the whole day",
+    path: ["endTime"],
+  })
+  .refine((exception) => exception.kind === "unavailable" || exception.startTime !== undefined, {
+    message: "Extra availability needs a start and an end time",
+    path: ["startTime"],
+  })
+  .refine((exception) => !exception.startTime || !exception.endTime || exception.startTime < exception.endTime, {
+    message: "Start time must be before end time",
+    path: ["endTime"],
+  });
+
+export const OpeningsQuerySchema = z.object({
+  from: z.string().datetime(),
+  to: z.string().datetime(),
+  durationMinutes: z.string().transform(Number).pipe(z.number().int().min(15).max(240)).optional(),
+});
+
 // ==================== Chat Validation ====================
 
 export const SendMessageSchema = z.object({
@@ -44,17 +280,49 @@ export const SendMessageSchema = z.object({
   content: z.string().min(1).max(5000),
 });
 
+export const MarkReadSchema = z.object({
+  partnerId: z.string().uuid(),
+});
+
+export const TypingSchema = z.object({
+  receiverId: z.string().uuid(),
+});
+
+export const WatchPresenceSchema = z.object({
+  userIds: z.array(z.string().uuid()).max(200),
+});
+
 export const ChatQuerySchema = z.object({
-  limit: z.string().transform(Number).pipe(z.number().min(1).max(100)).optional(),
+  limit: z.string().transform(Number).pipe(z.number().int().min(1).max(100)).optional(),
   before: z.string().datetime().optional(),
+  beforeId: z.string().optional(),
 });
 
 // Export types
 export type RegisterInput = z.infer<typeof RegisterSchema>;
 export type LoginInput = z.infer<typeof LoginSchema>;
 export type RefreshTokenInput = z.infer<typeof RefreshTokenSchema>;
+export type ProfileSubjectInput = z.infer<typeof ProfileSubjectSchema>;
 export type CreateProfileInput = z.infer<typeof CreateProfileSchema>;
 export type UpdateProfileInput = z.infer<typeof UpdateProfileSchema>;
 export type BookSessionInput = z.infer<typeof BookSessionSchema>;
+export type BookSeriesInput = z.infer<typeof BookSeriesSchema>;
+export type DeclineSessionInput = z.infer<typeof DeclineSessionSchema>;
+export type CancelSessionInput = z.infer<typeof CancelSessionSchema>;
+export type RescheduleSessionInput = z.infer<typeof RescheduleSessionSchema>;
+export type CreateReviewInput = z.infer<typeof CreateReviewSchema>;
+export type ReviewResponseInput = z.infer<typeof ReviewResponseSchema>;
+export type AvailabilitySlotInput = z.infer<typeof AvailabilitySlotSchema>;
+export type UpdateAvailabilityInput = z.infer<typeof UpdateAvailabilitySchema>;
+export type CreateAvailabilityExceptionInput = z.infer<typeof CreateAvailabilityExceptionSchema>;
+export type MentorSearchQueryInput = z.infer<typeof MentorSearchQuerySchema>;
+export type RecommendedMentorsQueryInput = z.infer<typeof RecommendedMentorsQuerySchema>;
+export type FavoriteMentorInput = z.infer<typeof FavoriteMentorSchema>;
+export type CreateSavedSearchInput = z.infer<typeof CreateSavedSearchSchema>;
+export type UpdateSavedSearchInput = z.infer<typeof UpdateSavedSearchSchema>;
+export type OpeningsQueryInput = z.infer<typeof OpeningsQuerySchema>;
 export type SendMessageInput = z.infer<typeof SendMessageSchema>;
+export type MarkReadInput = z.infer<typeof MarkReadSchema>;
+export type TypingInput = z.infer<typeof TypingSchema>;
+export type WatchPresenceInput = z.infer<typeof WatchPresenceSchema>;
 export type ChatQueryInput = z.infer<typeof ChatQuerySchema>;
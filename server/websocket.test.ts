@@ -0,0 +1,262 @@
+import { createServer, type Server } from "http";
+import { type AddressInfo } from "net";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import jwt from "jsonwebtoken";
+import { WebSocket, type WebSocketServer } from "ws";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+import { startLoginSession } from "./auth";
+import { connectionHub, WS_CLOSE_UNAUTHORIZED } from "./connectionHub";
+import { setupWebSocket } from "./websocket";
+
+type Frame = Record<string, any>;
+
+interface TestClient {
+  ws: WebSocket;
+  /** The next frame of the given type, whether it already arrived or not */
+  next(type: string): Promise<Frame>;
+  send(frame: Frame): void;
+  closed: Promise<{ code: number; reason: string }>;
+}
+
+let server: Server;
+let wss: WebSocketServer;
+let url: string;
+const clients: WebSocket[] = [];
+
+beforeAll(async () => {
+  server = createServer();
+  wss = setupWebSocket(server);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/ws`;
+});
+
+afterEach(() => {
+  clients.splice(0).forEach((ws) => ws.terminate());
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => wss.close(resolve));
+  await new Promise((resolve) => server.close(resolve));
+});
+
+async function connect(query = ""): Promise<TestClient> {
+  const ws = new WebSocket(`${url}${query}`);
+  clients.push(ws);
+
+  const frames: Frame[] = [];
+  let arrived = () => {};
+  ws.on("message", (data) => {
+    frames.push(JSON.parse(data.toString()));
+    arrived();
+  });
+  const closed = new Promise<{ code: number; reason: string }>((resolve) =>
+    ws.on("close", (code, reason) => resolve({ code, reason: reason.toString() })),
+  );
+  await new Promise((resolve, reject) => {
+    ws.once("open", resolve);
+    ws.once("error", reject);
+  });
+
+  return {
+    ws,
+    closed,
+    send: (frame) => ws.send(JSON.stringify(frame)),
+    async next(type) {
+      for (;;) {
+        const index = frames.findIndex((frame) => frame.type === type);
+        if (index >= 0) return frames.splice(index, 1)[0];
+        await new Promise<void>((resolve) => (arrived = resolve));
+      }
+    },
+  };
+}
+
+async function createUser(name: string): Promise<{ user: User; token: string }> {
+  const suffix = Math.random().toString(36).slice(2, 8);
+  const user = await storage.createUser({
+    username: `${name}-${suffix}`,
+    email: `${name}-${suffix}@example.com`,
+    password: "hashed",
+    role: "student",
+  });
+  const { accessToken } = await startLoginSession(user);
+  return { user, token: accessToken };
+}
+
+async function connectAs(token: string): Promise<TestClient> {
+  const client = await connect(`?token=${token}`);
+  await client.next("authenticated");
+  return client;
+}
+
+describe("chat websocket", () => {
+  describe("authentication", () => {
+    it("accepts an access token in the query string", async () => {
+      const { user, token } = await createUser("ada");
+      const client = await connect(`?token=${token}`);
+
+      expect(await client.next("authenticated")).toEqual({ type: "authenticated", userId: user.id });
+    });
+
+    it("accepts an access token in a first auth frame", async () => {
+      const { user, token } = await createUser("ada");
+      const client = await connect();
+      client.send({ type: "auth", token });
+
+      expect(await client.next("authenticated")).toEqual({ type: "authenticated", userId: user.id });
+    });
+
+    it("closes with 4001 when a frame arrives before authenticating", async () => {
+      const client = await connect();
+      client.send({ type: "sendMessage", receiverId: crypto.randomUUID(), content: "hi" });
+
+      expect(await client.closed).toEqual({ code: WS_CLOSE_UNAUTHORIZED, reason: "Not authenticated" });
+    });
+
+    it("closes with 4001 for a missing or invalid token", async () => {
+      const missing = await connect();
+      missing.send({ type: "auth" });
+      const invalid = await connect("?token=not-a-token");
+
+      expect((await missing.closed).code).toBe(WS_CLOSE_UNAUTHORIZED);
+      expect((await invalid.closed).code).toBe(WS_CLOSE_UNAUTHORIZED);
+    });
+
+    it("closes with 4001 for an expired token, and when the token expires while connected", async () => {
+      const { user, token } = await createUser("ada");
+      const { sid } = jwt.decode(token) as jwt.JwtPayload;
+      const sign = (expiresIn: number) =>
+        jwt.sign(
+          { id: user.id, email: user.email, role: user.role, type: "access", sid },
+          process.env.SESSION_SECRET!,
+          { expiresIn },
+        );
+
+      const expired = await connect(`?token=${sign(-10)}`);
+      expect((await expired.closed).code).toBe(WS_CLOSE_UNAUTHORIZED);
+
+      const expiring = await connectAs(sign(1));
+      expect(await expiring.closed).toEqual({ code: WS_CLOSE_UNAUTHORIZED, reason: "Token expired" });
+    });
+
+    it("closes with 4001 for a token of a revoked login session", async () => {
+      const { token } = await createUser("ada");
+      const { sid } = jwt.decode(token) as jwt.JwtPayload;
+      await storage.revokeLoginSession(sid);
+
+      const client = await connect(`?token=${token}`);
+      expect((await client.closed).code).toBe(WS_CLOSE_UNAUTHORIZED);
+    });
+
+    it("closes the sockets of a login session when it is revoked, and no others", async () => {
+      const { user, token } = await createUser("ada");
+      const { accessToken: otherToken } = await startLoginSession(user);
+      const revoked = await connectAs(token);
+      const other = await connectAs(otherToken);
+
+      connectionHub.closeLoginSession((jwt.decode(token) as jwt.JwtPayload).sid);
+
+      expect(await revoked.closed).toEqual({ code: WS_CLOSE_UNAUTHORIZED, reason: "Session revoked" });
+      other.send({ type: "sendMessage", receiverId: crypto.randomUUID(), content: "still here?" });
+      expect(await other.next("error")).toEqual({ type: "error", error: "Recipient not found" });
+    });
+
+    it("closes every socket of a user who logged out everywhere", async () => {
+      const { user, token } = await createUser("ada");
+      const { accessToken: otherToken } = await startLoginSession(user);
+      const devices = [await connectAs(token), await connectAs(otherToken)];
+
+      connectionHub.closeUser(user.id);
+
+      for (const device of devices) {
+        expect((await device.closed).code).toBe(WS_CLOSE_UNAUTHORIZED);
+      }
+    });
+  });
+
+  describe("messages", () => {
+    it("sends as the authenticated user, whatever sender the frame names", async () => {
+      const ada = await createUser("ada");
+      const sam = await createUser("sam");
+      const client = await connectAs(ada.token);
+
+      client.send({ type: "sendMessage", receiverId: sam.user.id, senderId: sam.user.id, content: "hello" });
+
+      const { message } = await client.next("message");
+      expect(message).toMatchObject({ senderId: ada.user.id, receiverId: sam.user.id, content: "hello" });
+      const [stored] = await storage.getMessagesBetweenUsers(ada.user.id, sam.user.id);
+      expect(stored.senderId).toBe(ada.user.id);
+    });
+
+    it("delivers a message to every device of both parties", async () => {
+      const ada = await createUser("ada");
+      const sam = await createUser("sam");
+      const devices = [
+        await connectAs(ada.token),
+        await connectAs(ada.token),
+        await connectAs(sam.token),
+        await connectAs(sam.token),
+      ];
+
+      devices[0].send({ type: "sendMessage", receiverId: sam.user.id, content: "hello" });
+
+      const delivered = await Promise.all(devices.map((device) => device.next("message")));
+      expect(new Set(delivered.map(({ message }) => message.id)).size).toBe(1);
+      expect(delivered[3].message).toMatchObject({ senderId: ada.user.id, content: "hello" });
+    });
+
+    it("reports an unknown recipient", async () => {
+      const ada = await createUser("ada");
+      const client = await connectAs(ada.token);
+
+      client.send({ type: "sendMessage", receiverId: crypto.randomUUID(), content: "hello" });
+
+      expect(await client.next("error")).toEqual({ type: "error", error: "Recipient not found" });
+    });
+  });
+
+  describe("typing and presence", () => {
+    it("only reports the presence of users the caller has a conversation with", async () => {
+      const ada = await createUser("ada");
+      const sam = await createUser("sam");
+      const stranger = await createUser("eve");
+      await storage.createMessage({ senderId: ada.user.id, receiverId: sam.user.id, content: "hello" });
+      await connectAs(sam.token);
+      await connectAs(stranger.token);
+      const client = await connectAs(ada.token);
+
+      client.send({ type: "watchPresence", userIds: [stranger.user.id, sam.user.id] });
+
+      expect(await client.next("presence")).toMatchObject({ userId: sam.user.id, online: true });
+      // The error answers a later frame, so no presence of the stranger is coming
+      client.send({ type: "sendMessage", receiverId: crypto.randomUUID(), content: "hello" });
+      await client.next("error");
+      expect(await Promise.race([client.next("presence"), Promise.resolve(null)])).toBeNull();
+    });
+
+    it("relays typing to a user with a shared session, and not to a stranger", async () => {
+      const mentor = await createUser("ada");
+      const student = await createUser("sam");
+      const stranger = await createUser("eve");
+      await storage.createSession({
+        studentId: student.user.id,
+        mentorId: mentor.user.id,
+        subject: "Mathematics",
+        scheduledTime: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      });
+      const mentorDevice = await connectAs(mentor.token);
+      const strangerDevice = await connectAs(stranger.token);
+      const client = await connectAs(student.token);
+
+      client.send({ type: "typing", receiverId: stranger.user.id });
+      client.send({ type: "typing", receiverId: mentor.user.id });
+
+      expect(await mentorDevice.next("typing")).toEqual({ type: "typing", userId: student.user.id });
+      // The error answers a later frame, so no typing event is coming
+      strangerDevice.send({ type: "sendMessage", receiverId: crypto.randomUUID(), content: "hello" });
+      await strangerDevice.next("error");
+      expect(await Promise.race([strangerDevice.next("typing"), Promise.resolve(null)])).toBeNull();
+    });
+  });
+});
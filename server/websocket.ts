@@ -0,0 +1,215 @@
+import { type Server, type IncomingMessage } from "http";
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import { storage } from "./storage";
+import { connectionHub, WS_CLOSE_UNAUTHORIZED } from "./connectionHub";
+import { verifyAccessToken, type TokenPayload } from "./auth";
+import {
+  SendMessageSchema,
+  MarkReadSchema,
+  TypingSchema,
+  WatchPresenceSchema,
+} from "./validation/schemas";
+
+// ==================== Configuration ====================
+
+/** How long a connection may stay open without authenticating */
+const AUTH_TIMEOUT_MS = 10_000;
+
+// ==================== Helpers ====================
+
+function send(ws: WebSocket, payload: unknown) {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(payload));
+  }
+}
+
+function parseFrame(data: RawData): Record<string, unknown> | null {
+  try {
+    const frame = JSON.parse(data.toString());
+    return frame && typeof frame === "object" ? frame : null;
+  } catch {
+    return null;
+  }
+}
+
+// ==================== Events ====================
+
+/**
+ * Mark a conversation as read by readerId and push a `read` receipt to
+ * every device of both parties (the sender sees the receipt, the reader's
+ * other devices clear their unread badges)
+ */
+export async function markConversationRead(readerId: string, partnerId: string) {
+  const { readAt, count } = await storage.markConversationRead(readerId, partnerId);
+
+  if (count > 0) {
+    connectionHub.sendToUsers([partnerId, readerId], {
+      type: "read",
+      readerId,
+      partnerId,
+      readAt,
+    });
+  }
+
+  return { readAt, count };
+}
+
+// ==================== Setup ====================
+
+/**
+ * Attach the chat WebSocket server to the HTTP server
+ * - Clients authenticate with `?token=<accessToken>` or a first `{ type: "auth", token }` frame
+ * - The connection is bound to the verified user, who becomes the sender of every message
+ * - The connection is closed when its access token expires; clients may send a new
+ *   `auth` frame with a fresh token beforehand to keep it open
+ * - It is also closed as soon as its login session is logged out or revoked
+ * - `typing`/`stopTyping` frames are relayed to the receiver's devices and never stored
+ * - `watchPresence` subscribes the connection to `presence` events (online, last seen)
+ *   for the listed users and answers with their current presence
+ * - Typing and presence only reach users the caller has exchanged a message or
+ *   booked a session with
+ */
+export function setupWebSocket(httpServer: Server): WebSocketServer {
+  const wss = new WebSocketServer({ server: httpServer, path: "/ws" });
+
+  connectionHub.startHeartbeat();
+  wss.on("close", () => connectionHub.stopHeartbeat());
+
+  wss.on("connection", (ws: WebSocket, req: IncomingMessage) => {
+    let userId: string | null = null;
+    let expiryTimer: NodeJS.Timeout | null = null;
+
+    const rejectUnauthorized = (reason: string) => {
+      send(ws, { type: "error", error: reason });
+      ws.close(WS_CLOSE_UNAUTHORIZED, reason);
+    };
+
+    const authTimer = setTimeout(() => {
+      if (!userId) rejectUnauthorized("Authentication timeout");
+    }, AUTH_TIMEOUT_MS);
+
+    const bindUser = (decoded: TokenPayload) => {
+      if (userId && userId !== decoded.id) {
+        rejectUnauthorized("Token belongs to a different user");
+        return;
+      }
+
+      clearTimeout(authTimer);
+      if (expiryTimer) clearTimeout(expiryTimer);
+      expiryTimer = setTimeout(
+        () => rejectUnauthorized("Token expired"),
+        Math.max(decoded.exp! * 1000 - Date.now(), 0),
+      );
+
+      userId = decoded.id;
+      connectionHub.add(userId, ws, decoded.sid);
+      send(ws, { type: "authenticated", userId });
+    };
+
+    const authenticate = async (token: unknown) => {
+      const decoded = typeof token === "string" ? await verifyAccessToken(token) : null;
+      if (!decoded) {
+        rejectUnauthorized("Invalid or expired access token");
+        return;
+      }
+      bindUser(decoded);
+    };
+
+    const queryToken = new URL(req.url || "", "http://localhost").searchParams.get("token");
+    if (queryToken) {
+      authenticate(queryToken).catch((error) => {
+        console.error("WebSocket auth error:", error);
+        rejectUnauthorized("Unauthorized");
+      });
+    }
+
+    ws.on("message", async (data: RawData) => {
+      try {
+        const message = parseFrame(data);
+        if (!message) {
+          send(ws, { type: "error", error: "Invalid message" });
+          return;
+        }
+
+        if (message.type === "auth") {
+          await authenticate(message.token);
+          return;
+        }
+
+        if (!userId) {
+          rejectUnauthorized("Not authenticated");
+          return;
+        }
+
+        if (message.type === "sendMessage") {
+          const parsed = SendMessageSchema.safeParse(message);
+          if (!parsed.success) {
+            send(ws, { type: "error", error: "Invalid message" });
+            return;
+          }
+
+          const { receiverId, content } = parsed.data;
+          const receiver = await storage.getUser(receiverId);
+          if (!receiver) {
+            send(ws, { type: "error", error: "Recipient not found" });
+            return;
+          }
+
+          const savedMessage = await storage.createMessage({
+            senderId: userId,
+            receiverId,
+            content,
+          });
+
+          // Every device of both parties, including the one that sent it
+          connectionHub.sendToUsers([userId, receiverId], { type: "message", message: savedMessage });
+        } else if (message.type === "markRead") {
+          const parsed = MarkReadSchema.safeParse(message);
+          if (!parsed.success) {
+            send(ws, { type: "error", error: "Invalid message" });
+            return;
+          }
+
+          await markConversationRead(userId, parsed.data.partnerId);
+        } else if (message.type === "typing" || message.type === "stopTyping") {
+          const parsed = TypingSchema.safeParse(message);
+          if (!parsed.success) {
+            send(ws, { type: "error", error: "Invalid message" });
+            return;
+          }
+
+          // Only relayed to someone the user already talks to or has a session with
+          const { receiverId } = parsed.data;
+          const [contactId] = await storage.getContactIds(userId, [receiverId]);
+          if (contactId) {
+            connectionHub.sendToUser(receiverId, { type: message.type, userId });
+          }
+        } else if (message.type === "watchPresence") {
+          const parsed = WatchPresenceSchema.safeParse(message);
+          if (!parsed.success) {
+            send(ws, { type: "error", error: "Invalid message" });
+            return;
+          }
+
+          // Users the caller has no conversation or session with are dropped silently
+          const contactIds = await storage.getContactIds(userId, parsed.data.userIds);
+          for (const presence of connectionHub.watch(ws, contactIds)) {
+            send(ws, { type: "presence", ...presence });
+          }
+        }
+      } catch (error) {
+        console.error("WebSocket error:", error);
+      }
+    });
+
+    ws.on("close", () => {
+      clearTimeout(authTimer);
+      if (expiryTimer) clearTimeout(expiryTimer);
+      if (userId) {
+        connectionHub.remove(userId, ws);
+      }
+    });
+  });
+
+  return wss;
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, boolean, index, uniqueIndex, jsonb, customType } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -9,43 +9,403 @@ export const users = pgTable("users", {
   email: text("email").notNull().unique(),
   password: text("password").notNull(),
   role: text("role").notNull().$type<"student" | "mentor">(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
 });
 
 export const profiles = pgTable("profiles", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull(),
   bio: text("bio"),
+  // Names of the profile's catalog subjects (see profileSubjects), in the order given, for display and
+  // search; profiles not saved since migration 0017 may still hold free text no catalog alias matched
   subjects: text("subjects").array(),
-  availability: text("availability"),
+  // Free-text availability from before migration 0008 structured it into slots, shown to
+  // the mentor while setting up slots; null for profiles created since
+  availabilityNote: text("availability_note"),
+  timezone: text("timezone"), // IANA name, e.g. "Europe/Berlin"; null until the user picks one
+  languages: text("languages").array(), // Languages the user can hold sessions in, e.g. "English"
+  hourlyRate: integer("hourly_rate"), // Mentor's price in whole US dollars per hour; null when not listed
 });
 
-export const sessions = pgTable("sessions", {
+export const subjectCategories = [
+  "Mathematics",
+  "Sciences",
+  "Computer Science",
+  "Languages",
+  "Humanities",
+  "Test Prep",
+] as const;
+export type SubjectCategory = (typeof subjectCategories)[number];
+
+// Managed subject catalog, kept in sync with server/subjectCatalog.ts when the server starts.
+// Ids are stable slugs; aliases are other lowercase names a subject goes by ("maths", "calc")
+export const subjects = pgTable("subjects", {
+  id: varchar("id").primaryKey(), // e.g. "ap-calculus"
+  name: text("name").notNull().unique(),
+  category: text("category").notNull().$type<SubjectCategory>(),
+  parentId: varchar("parent_id"), // Broader subject, e.g. "calculus" for "ap-calculus"; null at the top
+  aliases: text("aliases").array().notNull().default(sql`'{}'::text[]`),
+});
+
+export const subjectLevels = ["beginner", "intermediate", "advanced"] as const;
+export type SubjectLevel = (typeof subjectLevels)[number];
+
+// Catalog subjects on a profile, with the highest level a mentor teaches or the level a student is learning at
+export const profileSubjects = pgTable("profile_subjects", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  subjectId: varchar("subject_id").notNull(),
+  level: text("level").notNull().$type<SubjectLevel>(),
+  position: integer("position").notNull(), // Order the user listed the subject in, from 0
+}, (table) => [
+  uniqueIndex("profile_subjects_user_subject_idx").on(table.userId, table.subjectId),
+  index("profile_subjects_subject_idx").on(table.subjectId),
+]);
+
+// Orders offered by the mentor listing; "soonest" puts the earliest next opening first
+export const mentorSorts = ["relevance", "rating", "newest", "soonest"] as const;
+export type MentorSort = (typeof mentorSorts)[number];
+
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+// Search index of each profile, rebuilt whenever the profile is saved: a weighted
+// full-text document (subjects, then username, then bio) for stemmed matches and
+// the same text lowercased for trigram typo matches
+export const profileSearch = pgTable("profile_search", {
+  userId: varchar("user_id").primaryKey(),
+  document: tsvector("document").notNull(),
+  text: text("text").notNull(),
+}, (table) => [
+  index("profile_search_document_idx").using("gin", table.document),
+  index("profile_search_text_idx").using("gin", table.text.op("gin_trgm_ops")),
+]);
+
+// Mentors a student keeps at hand; with notify on, the student hears when the mentor adds availability
+export const favoriteMentors = pgTable("favorite_mentors", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  studentId: varchar("student_id").notNull(),
+  mentorId: varchar("mentor_id").notNull(),
+  notify: boolean("notify").notNull().default(false),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => [
+  uniqueIndex("favorite_mentors_student_mentor_idx").on(table.studentId, table.mentorId),
+  index("favorite_mentors_mentor_idx").on(table.mentorId),
+]);
+
+// Mentor search filters a saved search keeps, as in the GET /api/mentors query; availability
+// windows are left out since they would soon be in the past
+export type SavedSearchFilters = {
+  q?: string;
+  subject?: string;
+  language?: string;
+  minRating?: number;
+  minPrice?: number;
+  maxPrice?: number;
+  sort?: MentorSort;
+};
+
+// A student's named mentor search; with notify on, the student hears of new mentors matching it
+export const savedSearches = pgTable("saved_searches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  name: text("name").notNull(),
+  filters: jsonb("filters").notNull().$type<SavedSearchFilters>(),
+  notify: boolean("notify").notNull().default(false),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => [
+  index("saved_searches_user_idx").on(table.userId),
+]);
+
+// Recurring weekly hours a mentor can be booked, as wall-clock times in their timezone
+export const availabilitySlots = pgTable("availability_slots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  mentorId: varchar("mentor_id").notNull(),
+  dayOfWeek: integer("day_of_week").notNull(), // 0 = Sunday
+  startTime: text("start_time").notNull(), // "HH:MM"
+  endTime: text("end_time").notNull(), // "HH:MM", "24:00" for midnight
+  timezone: text("timezone").notNull(),
+}, (table) => [
+  index("availability_slots_mentor_idx").on(table.mentorId),
+]);
+
+export const availabilityExceptionKinds = ["available", "unavailable"] as const;
+export type AvailabilityExceptionKind = (typeof availabilityExceptionKinds)[number];
+
+// One-off changes to the weekly hours on a given date: extra hours, or time off
+// (an "unavailable" exception without times blacks out the whole day)
+export const availabilityExceptions = pgTable("availability_exceptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  mentorId: varchar("mentor_id").notNull(),
+  date: text("date").notNull(), // "YYYY-MM-DD" in the exception's timezone
+  kind: text("kind").notNull().$type<AvailabilityExceptionKind>(),
+  startTime: text("start_time"),
+  endTime: text("end_time"),
+  timezone: text("timezone").notNull(),
+  note: text("note"),
+}, (table) => [
+  index("availability_exceptions_mentor_date_idx").on(table.mentorId, table.date),
+]);
+
+export const DEFAULT_SESSION_DURATION_MINUTES = 60;
+
+export const sessionStatuses = ["pending", "confirmed", "declined", "cancelled", "completed", "no_show"] as const;
+export type SessionStatus = (typeof sessionStatuses)[number];
+
+// Longest recurring series that can be booked at once
+export const MAX_SERIES_OCCURRENCES = 26;
+
+export const seriesFrequencies = ["weekly", "biweekly"] as const;
+export type SeriesFrequency = (typeof seriesFrequencies)[number];
+
+// A recurring booking; each occurrence is an ordinary session linked to it by seriesId
+export const sessionSeries = pgTable("session_series", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   studentId: varchar("student_id").notNull(),
   mentorId: varchar("mentor_id").notNull(),
   subject: text("subject").notNull(),
-  scheduledTime: timestamp("scheduled_time").notNull(),
-  status: text("status").notNull().$type<"pending" | "confirmed" | "completed" | "cancelled">().default("pending"),
+  frequency: text("frequency").notNull().$type<SeriesFrequency>(),
+  // Occurrences keep their wall-clock time in this zone
+  timezone: text("timezone").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
 });
 
+export const sessions = pgTable("sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  studentId: varchar("student_id").notNull(),
+  mentorId: varchar("mentor_id").notNull(),
+  seriesId: varchar("series_id"), // Set for occurrences of a recurring series
+  subject: text("subject").notNull(),
+  scheduledTime: timestamp("scheduled_time", { withTimezone: true }).notNull(),
+  // Timezone the time was picked in, so recurring and exported times keep their wall-clock time
+  timezone: text("timezone").notNull().default("UTC"),
+  durationMinutes: integer("duration_minutes").notNull().default(60),
+  status: text("status").notNull().$type<SessionStatus>().default("pending"),
+  // Who made the latest status change (null when done automatically) and why
+  statusChangedBy: varchar("status_changed_by"),
+  statusReason: text("status_reason"),
+  statusChangedAt: timestamp("status_changed_at", { withTimezone: true }),
+  // Raised on every change of time or status, so calendars replace their copy of the event
+  sequence: integer("sequence").notNull().default(0),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => [
+  index("sessions_mentor_time_idx").on(table.mentorId, table.scheduledTime),
+  index("sessions_student_time_idx").on(table.studentId, table.scheduledTime),
+  index("sessions_series_time_idx").on(table.seriesId, table.scheduledTime),
+]);
+
+export const rescheduleStatuses = ["pending", "accepted", "rejected", "superseded"] as const;
+export type RescheduleStatus = (typeof rescheduleStatuses)[number];
+
+// "series" proposals also move every later occurrence of the session's series
+export const rescheduleScopes = ["session", "series"] as const;
+export type RescheduleScope = (typeof rescheduleScopes)[number];
+
+// Every proposed time change for a session, kept as history once answered
+export const sessionReschedules = pgTable("session_reschedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull(),
+  proposedBy: varchar("proposed_by").notNull(),
+  previousTime: timestamp("previous_time", { withTimezone: true }).notNull(),
+  proposedTime: timestamp("proposed_time", { withTimezone: true }).notNull(),
+  status: text("status").notNull().$type<RescheduleStatus>().default("pending"),
+  scope: text("scope").notNull().$type<RescheduleScope>().default("session"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+  respondedBy: varchar("responded_by"),
+  respondedAt: timestamp("responded_at", { withTimezone: true }),
+}, (table) => [
+  index("session_reschedules_session_idx").on(table.sessionId, table.createdAt),
+]);
+
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+
+// A student's rating of a completed session, at most one per session;
+// the mentor can answer it with a public response
+export const reviews = pgTable("reviews", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull().unique(),
+  mentorId: varchar("mentor_id").notNull(),
+  studentId: varchar("student_id").notNull(),
+  rating: integer("rating").notNull(), // MIN_RATING to MAX_RATING stars
+  comment: text("comment").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+  response: text("response"),
+  respondedAt: timestamp("responded_at", { withTimezone: true }),
+}, (table) => [
+  index("reviews_mentor_created_idx").on(table.mentorId, table.createdAt),
+]);
+
 export const messages = pgTable("messages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   senderId: varchar("sender_id").notNull(),
   receiverId: varchar("receiver_id").notNull(),
   content: text("content").notNull(),
-  timestamp: timestamp("timestamp").notNull().default(sql`now()`),
+  timestamp: timestamp("timestamp", { withTimezone: true }).notNull().default(sql`now()`),
+  readAt: timestamp("read_at", { withTimezone: true }),
+}, (table) => [
+  index("messages_conversation_idx").on(table.senderId, table.receiverId, table.timestamp),
+]);
+
+export const loginSessions = pgTable("login_sessions", {
+  id: varchar("id").primaryKey(),
+  userId: varchar("user_id").notNull(),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+  lastUsedAt: timestamp("last_used_at", { withTimezone: true }).notNull().default(sql`now()`),
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+  revokedAt: timestamp("revoked_at", { withTimezone: true }),
+});
+
+export const refreshTokens = pgTable("refresh_tokens", {
+  id: varchar("id").primaryKey(),
+  userId: varchar("user_id").notNull(),
+  familyId: varchar("family_id").notNull(),
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+  revokedAt: timestamp("revoked_at", { withTimezone: true }),
+  replacedBy: varchar("replaced_by"),
+});
+
+// Secret token behind a user's calendar subscription URL; replaced when the user resets it
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().unique(),
+  token: text("token").notNull().unique(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
 });
 
-export const insertUserSchema = createInsertSchema(users).omit({ id: true });
+export const jobStatuses = ["pending", "completed", "failed", "cancelled"] as const;
+export type JobStatus = (typeof jobStatuses)[number];
+
+// Background work due at a given time, kept in the database so it survives restarts.
+// The key names the logical job (e.g. one reminder of one session): scheduling it
+// again moves the existing row instead of adding another
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  key: text("key").notNull().unique(),
+  type: text("type").notNull(),
+  payload: jsonb("payload").notNull().$type<Record<string, unknown>>().default({}),
+  runAt: timestamp("run_at", { withTimezone: true }).notNull(),
+  status: text("status").notNull().$type<JobStatus>().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  // Held by the worker running the job; a job whose lock expired (e.g. the process died) runs again
+  lockedBy: varchar("locked_by"),
+  lockedUntil: timestamp("locked_until", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+  finishedAt: timestamp("finished_at", { withTimezone: true }),
+}, (table) => [
+  index("scheduled_jobs_due_idx").on(table.status, table.runAt),
+]);
+
+export const notificationTypes = ["session_reminder", "new_review", "saved_search_match", "favorite_availability"] as const;
+export type NotificationType = (typeof notificationTypes)[number];
+
+// In-app notices shown in the notification menu; also pushed over /ws when the user is online
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  type: text("type").notNull().$type<NotificationType>(),
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  sessionId: varchar("session_id"), // Session the notice is about, if any
+  mentorId: varchar("mentor_id"), // Mentor the notice is about, if any
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+  readAt: timestamp("read_at", { withTimezone: true }),
+}, (table) => [
+  index("notifications_user_created_idx").on(table.userId, table.createdAt),
+]);
+
+export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true });
 export const insertProfileSchema = createInsertSchema(profiles).omit({ id: true });
-export const insertSessionSchema = createInsertSchema(sessions).omit({ id: true, status: true });
-export const insertMessageSchema = createInsertSchema(messages).omit({ id: true, timestamp: true });
+export const insertSubjectSchema = createInsertSchema(subjects, {
+  category: z.enum(subjectCategories),
+});
+export const insertProfileSubjectSchema = createInsertSchema(profileSubjects, {
+  level: z.enum(subjectLevels),
+}).omit({ id: true });
+export const insertFavoriteMentorSchema = createInsertSchema(favoriteMentors).omit({ id: true, createdAt: true });
+export const insertSavedSearchSchema = createInsertSchema(savedSearches, {
+  filters: z.custom<SavedSearchFilters>(),
+}).omit({ id: true, createdAt: true });
+export const insertSessionSchema = createInsertSchema(sessions).omit({
+  id: true,
+  status: true,
+  statusChangedBy: true,
+  statusReason: true,
+  statusChangedAt: true,
+  sequence: true,
+  updatedAt: true,
+});
+export const insertSessionSeriesSchema = createInsertSchema(sessionSeries, {
+  frequency: z.enum(seriesFrequencies),
+}).omit({ id: true, createdAt: true });
+export const insertSessionRescheduleSchema = createInsertSchema(sessionReschedules, {
+  scope: z.enum(rescheduleScopes).optional(),
+}).omit({
+  id: true,
+  status: true,
+  createdAt: true,
+  respondedBy: true,
+  respondedAt: true,
+});
+export const insertReviewSchema = createInsertSchema(reviews).omit({
+  id: true,
+  createdAt: true,
+  response: true,
+  respondedAt: true,
+});
+export const insertAvailabilitySlotSchema = createInsertSchema(availabilitySlots).omit({ id: true });
+export const insertAvailabilityExceptionSchema = createInsertSchema(availabilityExceptions, {
+  kind: z.enum(availabilityExceptionKinds),
+}).omit({ id: true });
+export const insertMessageSchema = createInsertSchema(messages).omit({ id: true, timestamp: true, readAt: true });
+export const insertLoginSessionSchema = createInsertSchema(loginSessions).omit({ createdAt: true, lastUsedAt: true, revokedAt: true });
+export const insertRefreshTokenSchema = createInsertSchema(refreshTokens).omit({ createdAt: true, revokedAt: true, replacedBy: true });
+export const insertScheduledJobSchema = createInsertSchema(scheduledJobs, {
+  payload: z.record(z.unknown()).optional(),
+}).pick({ key: true, type: true, payload: true, runAt: true });
+export const insertNotificationSchema = createInsertSchema(notifications, {
+  type: z.enum(notificationTypes),
+}).omit({ id: true, createdAt: true, readAt: true });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertProfile = z.infer<typeof insertProfileSchema>;
 export type Profile = typeof profiles.$inferSelect;
+export type InsertSubject = z.infer<typeof insertSubjectSchema>;
+export type Subject = typeof subjects.$inferSelect;
+export type InsertProfileSubject = z.infer<typeof insertProfileSubjectSchema>;
+export type ProfileSubject = typeof profileSubjects.$inferSelect;
+export type InsertFavoriteMentor = z.infer<typeof insertFavoriteMentorSchema>;
+export type FavoriteMentor = typeof favoriteMentors.$inferSelect;
+export type InsertSavedSearch = z.infer<typeof insertSavedSearchSchema>;
+export type SavedSearch = typeof savedSearches.$inferSelect;
 export type InsertSession = z.infer<typeof insertSessionSchema>;
 export type Session = typeof sessions.$inferSelect;
+export type InsertSessionSeries = z.infer<typeof insertSessionSeriesSchema>;
+export type SessionSeries = typeof sessionSeries.$inferSelect;
+export type InsertSessionReschedule = z.infer<typeof insertSessionRescheduleSchema>;
+export type SessionReschedule = typeof sessionReschedules.$inferSelect;
+export type InsertReview = z.infer<typeof insertReviewSchema>;
+export type Review = typeof reviews.$inferSelect;
+export type InsertAvailabilitySlot = z.infer<typeof insertAvailabilitySlotSchema>;
+export type AvailabilitySlot = typeof availabilitySlots.$inferSelect;
+export type InsertAvailabilityException = z.infer<typeof insertAvailabilityExceptionSchema>;
+export type AvailabilityException = typeof availabilityExceptions.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Message = typeof messages.$inferSelect;
+export type InsertLoginSession = z.infer<typeof insertLoginSessionSchema>;
+export type LoginSession = typeof loginSessions.$inferSelect;
+export type InsertRefreshToken = z.infer<typeof insertRefreshTokenSchema>;
+export type RefreshToken = typeof refreshTokens.$inferSelect;
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+export type InsertScheduledJob = z.infer<typeof insertScheduledJobSchema>;
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type Notification = typeof notifications.$inferSelect;
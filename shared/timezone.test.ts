@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { addDays, daysBetween, getDayOfWeek, toZonedDate, toZonedTime, zonedTimeToUtc } from "./timezone";
+
+// 2030 DST changes: New York springs forward on 10 March and falls back on 3 November,
+// London on 31 March and 27 October
+describe("zonedTimeToUtc", () => {
+  it("applies the zone's offset on either side of a DST change", () => {
+    expect(zonedTimeToUtc("2030-01-15", "09:00", "America/New_York").toISOString()).toBe("2030-01-15T14:00:00.000Z");
+    expect(zonedTimeToUtc("2030-07-15", "09:00", "America/New_York").toISOString()).toBe("2030-07-15T13:00:00.000Z");
+    expect(zonedTimeToUtc("2030-07-15", "09:00", "Europe/London").toISOString()).toBe("2030-07-15T08:00:00.000Z");
+  });
+
+  it("moves a time skipped when clocks spring forward on by the length of the jump", () => {
+    expect(zonedTimeToUtc("2030-03-10", "01:59", "America/New_York").toISOString()).toBe("2030-03-10T06:59:00.000Z");
+    // 02:30 does not exist in New York that night; it becomes 03:30 EDT
+    expect(zonedTimeToUtc("2030-03-10", "02:30", "America/New_York").toISOString()).toBe("2030-03-10T07:30:00.000Z");
+    expect(zonedTimeToUtc("2030-03-10", "03:00", "America/New_York").toISOString()).toBe("2030-03-10T07:00:00.000Z");
+    expect(zonedTimeToUtc("2030-03-31", "01:30", "Europe/London").toISOString()).toBe("2030-03-31T01:30:00.000Z");
+  });
+
+  it("picks the first of a time that occurs twice when clocks fall back, whichever side of UTC", () => {
+    // 01:30 happens in EDT and again in EST
+    expect(zonedTimeToUtc("2030-11-03", "01:30", "America/New_York").toISOString()).toBe("2030-11-03T05:30:00.000Z");
+    // 01:30 happens in BST and again in GMT
+    expect(zonedTimeToUtc("2030-10-27", "01:30", "Europe/London").toISOString()).toBe("2030-10-27T00:30:00.000Z");
+    expect(zonedTimeToUtc("2030-11-03", "02:00", "America/New_York").toISOString()).toBe("2030-11-03T07:00:00.000Z");
+  });
+
+  it("reads 24:00 as midnight at the end of the date, on a day 23 hours long", () => {
+    const start = zonedTimeToUtc("2030-03-10", "00:00", "America/New_York");
+    const end = zonedTimeToUtc("2030-03-10", "24:00", "America/New_York");
+
+    expect(end.toISOString()).toBe("2030-03-11T04:00:00.000Z");
+    expect(end.getTime() - start.getTime()).toBe(23 * 60 * 60_000);
+  });
+});
+
+describe("zoned dates and times", () => {
+  it("round-trips a wall-clock time through a DST change", () => {
+    for (const date of ["2030-03-09", "2030-03-10", "2030-03-11", "2030-11-02", "2030-11-03", "2030-11-04"]) {
+      const instant = zonedTimeToUtc(date, "09:30", "America/New_York");
+      expect(toZonedDate(instant, "America/New_York")).toBe(date);
+      expect(toZonedTime(instant, "America/New_York")).toBe("09:30");
+    }
+  });
+
+  it("reads the local date of an instant, which can differ from the UTC one", () => {
+    const instant = new Date("2030-03-10T03:00:00Z");
+
+    expect(toZonedDate(instant, "America/New_York")).toBe("2030-03-09");
+    expect(toZonedTime(instant, "America/New_York")).toBe("22:00");
+    expect(toZonedDate(instant, "Asia/Tokyo")).toBe("2030-03-10");
+  });
+
+  it("counts calendar days, not 24-hour periods", () => {
+    expect(addDays("2030-03-09", 1)).toBe("2030-03-10");
+    expect(addDays("2030-03-01", -1)).toBe("2030-02-28");
+    expect(daysBetween("2030-03-09", "2030-03-16")).toBe(7);
+    expect(getDayOfWeek("2030-03-10")).toBe(0);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Wall-clock date/time helpers for IANA timezones, built on Intl
+ * - Dates are "YYYY-MM-DD" strings and times "HH:MM" strings in the zone's local time
+ * - Offsets are looked up per instant, so DST changes are handled
+ */
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getZonedParts(instant: Date, timeZone: string) {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of getFormatter(timeZone).formatToParts(instant)) {
+    if (type !== "literal") parts[type] = Number(value);
+  }
+  return parts as { year: number; month: number; day: number; hour: number; minute: number };
+}
+
+/**
+ * Offset of the zone from UTC at the given instant, in milliseconds
+ */
+function getOffsetMs(instant: Date, timeZone: string): number {
+  const { year, month, day, hour, minute } = getZonedParts(instant, timeZone);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+  return wallClockAsUtc - Math.floor(instant.getTime() / MINUTE_MS) * MINUTE_MS;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The instant at which the given wall-clock time occurs in the zone
+ * - Times skipped by a DST jump are moved forward by the length of the jump
+ * - Times that occur twice when clocks go back resolve to the first of them
+ * - "24:00" is midnight at the end of the date
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+
+  // A day either side, the offsets are those before and after any DST change near the time
+  const offsets = [
+    getOffsetMs(new Date(wallClockAsUtc - DAY_MS), timeZone),
+    getOffsetMs(new Date(wallClockAsUtc + DAY_MS), timeZone),
+  ];
+  const matches = offsets
+    .map((offset) => wallClockAsUtc - offset)
+    .filter((instant) => getOffsetMs(new Date(instant), timeZone) === wallClockAsUtc - instant);
+  if (matches.length > 0) {
+    return new Date(Math.min(...matches));
+  }
+
+  // The time falls in a DST gap: apply the offset from before the jump
+  return new Date(wallClockAsUtc - Math.min(...offsets));
+}
+
+/**
+ * Local calendar date of an instant in the zone
+ */
+export function toZonedDate(instant: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(instant, timeZone);
+  return [year, month, day].map((n, i) => String(n).padStart(i === 0 ? 4 : 2, "0")).join("-");
+}
+
+/**
+ * Local wall-clock time of an instant in the zone, as "HH:MM"
+ */
+export function toZonedTime(instant: Date, timeZone: string): string {
+  const { hour, minute } = getZonedParts(instant, timeZone);
+  return `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+}
+
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** 0 = Sunday, as in Date.getDay() */
+export function getDayOfWeek(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/** Whole days from one date to another; negative when `to` is earlier */
+export function daysBetween(from: string, to: string): number {
+  const toUtc = (date: string) => {
+    const [year, month, day] = date.split("-").map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toUtc(to) - toUtc(from)) / DAY_MS);
+}
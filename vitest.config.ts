@@ -0,0 +1,22 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    env: {
+      STORAGE_DRIVER: "memory",
+      SESSION_SECRET: "test-session-secret",
+    },
+    // Migrating an in-process Postgres takes a few seconds
+    hookTimeout: 60_000,
+    testTimeout: 20_000,
+  },
+});